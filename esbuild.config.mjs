@@ -11,6 +11,23 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// The workers are bundled on their own and embedded in main.js as source text, since a plugin
+// ships a single script (see src/core/searchWorkerClient.ts and replacementFunctionClient.ts).
+// In watch mode they are built once at startup: restart to pick up changes to them.
+const buildWorker = async (entryPoint) => {
+	const result = await esbuild.build({
+		entryPoints: [entryPoint],
+		bundle: true,
+		format: "iife",
+		target: "es2018",
+		logLevel: "info",
+		minify: prod,
+		treeShaking: true,
+		write: false,
+	});
+	return JSON.stringify(result.outputFiles[0].text);
+};
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -31,12 +48,17 @@ const context = await esbuild.context({
 		"@lezer/common",
 		"@lezer/highlight",
 		"@lezer/lr",
+		"moment",
 		...builtins],
 	format: "cjs",
 	target: "es2018",
 	logLevel: "info",
 	sourcemap: false,
 	treeShaking: true,
+	define: {
+		SEARCH_WORKER_SOURCE: await buildWorker("./src/core/searchWorker.ts"),
+		REPLACEMENT_FUNCTION_WORKER_SOURCE: await buildWorker("./src/core/replacementFunctionWorker.ts"),
+	},
 	outfile: "main.js",
 });
 
@@ -0,0 +1,216 @@
+/**
+ * Approximate matching
+ * Two literal search modes that find text which differs from the query:
+ * - Ignore diacritics: `cafe` finds `café` (precomposed or with a combining accent) and full-width
+ *   `ｃａｆｅ`. Both sides are folded with Unicode compatibility decomposition (NFKD) and their
+ *   combining marks removed.
+ * - Fuzzy: finds text within a small edit distance of the query, e.g. `recieve` finds `receive`.
+ *   Inserted, missing and changed characters and swapped neighbours each count as one edit.
+ *
+ * Matching runs on the folded text and every match is mapped back to the range of the original text
+ * it came from, so results, highlights and replacements always cover the real characters.
+ * Both modes match the search text literally: Regex and Multiline do not apply.
+ */
+
+import { SearchOptions } from '../types';
+
+/** Combining marks removed when folding (accents, diaeresis, cedilla, ...) */
+const COMBINING_MARKS = /\p{M}/gu;
+
+/** Default maximum edit distance of fuzzy matches */
+export const DEFAULT_FUZZY_DISTANCE = 1;
+
+/**
+ * Text prepared for approximate matching
+ */
+export interface FoldedText {
+    text: string;       // The folded text
+    offsets: number[];  // Offset in the original text of each folded character, plus the original length
+}
+
+/**
+ * A match found in the original text
+ */
+export interface ApproximateMatch {
+    from: number;       // Start offset in the original text
+    to: number;         // End offset in the original text (exclusive)
+    distance: number;   // Edits between the match and the query (0 when only diacritics differ)
+}
+
+/**
+ * Whether a search uses approximate matching
+ * A mapping table or a boolean query brings its own matching, so both take precedence.
+ * @param options - Search configuration options
+ */
+export function usesApproximateMatching(options: SearchOptions): boolean {
+    return !options.mapping && !options.useQuery && Boolean(options.ignoreDiacritics || options.fuzzy);
+}
+
+/**
+ * Applies approximate matching to search options
+ * Its modes match the search text literally, so regex and multiline mode are switched off.
+ * @param options - Options read from the toolbar toggles
+ * @returns Options to search and replace with
+ */
+export function withApproximateMatching(options: SearchOptions): SearchOptions {
+    return usesApproximateMatching(options) ? { ...options, useRegex: false, multiline: false } : options;
+}
+
+/**
+ * Folds text for comparison, remembering where each folded character came from
+ * @param text - Original text
+ * @param ignoreDiacritics - Remove diacritics and width differences
+ * @param matchCase - Keep letter case (otherwise the text is lower-cased)
+ * @returns Folded text and its offsets into the original
+ */
+export function foldText(text: string, ignoreDiacritics: boolean, matchCase: boolean): FoldedText {
+    let folded = '';
+    const offsets: number[] = [];
+
+    for (let i = 0; i < text.length;) {
+        const char = String.fromCodePoint(text.codePointAt(i) ?? 0);
+        let out = ignoreDiacritics ? char.normalize('NFKD').replace(COMBINING_MARKS, '') : char;
+        if (!matchCase) {
+            // Lower-case each unit on its own so offsets stay aligned (e.g. 'İ' would grow)
+            out = Array.from(out, unit => {
+                const lower = unit.toLowerCase();
+                return lower.length === unit.length ? lower : unit;
+            }).join('');
+        }
+
+        folded += out;
+        for (let j = 0; j < out.length; j++) offsets.push(i);
+        i += char.length;
+    }
+
+    offsets.push(text.length);
+    return { text: folded, offsets };
+}
+
+/**
+ * Finds the approximate matches of a query in one line of text
+ * @param line - Original line text
+ * @param query - Search text
+ * @param options - Search configuration options (matchCase, wholeWord, ignoreDiacritics, fuzzy, fuzzyDistance)
+ * @returns Non-overlapping matches in the original line, in order
+ */
+export function findApproximateMatches(line: string, query: string, options: SearchOptions): ApproximateMatch[] {
+    const needle = foldText(query, Boolean(options.ignoreDiacritics), options.matchCase).text;
+    if (!needle || !line) return [];
+
+    const haystack = foldText(line, Boolean(options.ignoreDiacritics), options.matchCase);
+    const found = options.fuzzy
+        ? findFuzzy(haystack.text, needle, maxDistance(needle, options.fuzzyDistance ?? DEFAULT_FUZZY_DISTANCE))
+        : findExact(haystack.text, needle);
+
+    const matches = found.map(({ from, to, distance }) => ({
+        from: haystack.offsets[from],
+        to: originalEnd(haystack.offsets, to),
+        distance
+    }));
+    return options.wholeWord ? matches.filter(match => isWholeWord(line, match.from, match.to)) : matches;
+}
+
+/**
+ * Maps a folded end offset back to the original, never ending inside a character
+ * that folded into several (e.g. the ligature 'ﬁ')
+ */
+function originalEnd(offsets: number[], to: number): number {
+    let end = to;
+    while (end < offsets.length - 1 && offsets[end] === offsets[end - 1]) end++;
+    return offsets[end];
+}
+
+/**
+ * Edit distance allowed for a query: short queries would match almost anything, so 1-2 character
+ * queries are matched exactly and longer ones allow fewer edits than half their length
+ */
+function maxDistance(needle: string, configured: number): number {
+    return Math.max(0, Math.min(configured, Math.floor((needle.length - 1) / 2)));
+}
+
+function findExact(text: string, needle: string): ApproximateMatch[] {
+    const matches: ApproximateMatch[] = [];
+    for (let index = text.indexOf(needle); index !== -1; index = text.indexOf(needle, index + needle.length)) {
+        matches.push({ from: index, to: index + needle.length, distance: 0 });
+    }
+    return matches;
+}
+
+/**
+ * Approximate substring search (Sellers' algorithm with adjacent transpositions): the edit distance
+ * of the best alignment of the needle ending at each position of the text, tracking where that
+ * alignment starts. Within each run of positions under the limit the closest match wins.
+ */
+function findFuzzy(text: string, needle: string, limit: number): ApproximateMatch[] {
+    const m = needle.length;
+    // Columns for the previous two text positions: distance and alignment start per needle prefix
+    let distances = Array.from({ length: m + 1 }, (_, i) => i);
+    let starts = new Array<number>(m + 1).fill(0);
+    let previousDistances = distances;
+    let previousStarts = starts;
+
+    const matches: ApproximateMatch[] = [];
+    let best: ApproximateMatch | null = null;
+    let lastEnd = 0;
+
+    const flush = () => {
+        if (best && best.from >= lastEnd) {
+            matches.push(best);
+            lastEnd = best.to;
+        }
+        best = null;
+    };
+
+    for (let j = 1; j <= text.length; j++) {
+        const nextDistances = [0];
+        const nextStarts = [j];
+
+        for (let i = 1; i <= m; i++) {
+            const substitution = distances[i - 1] + (needle[i - 1] === text[j - 1] ? 0 : 1);
+            const skipText = distances[i] + 1;          // extra character in the text
+            const skipNeedle = nextDistances[i - 1] + 1; // character missing from the text
+
+            if (substitution <= skipText && substitution <= skipNeedle) {
+                nextDistances.push(substitution);
+                nextStarts.push(starts[i - 1]);
+            } else if (skipNeedle <= skipText) {
+                nextDistances.push(skipNeedle);
+                nextStarts.push(nextStarts[i - 1]);
+            } else {
+                nextDistances.push(skipText);
+                nextStarts.push(starts[i]);
+            }
+
+            // Swapped neighbours ("ie" for "ei") count as one edit
+            if (i > 1 && j > 1 && needle[i - 1] === text[j - 2] && needle[i - 2] === text[j - 1]
+                && previousDistances[i - 2] + 1 < nextDistances[i]) {
+                nextDistances[i] = previousDistances[i - 2] + 1;
+                nextStarts[i] = previousStarts[i - 2];
+            }
+        }
+
+        previousDistances = distances;
+        previousStarts = starts;
+        distances = nextDistances;
+        starts = nextStarts;
+
+        const distance = distances[m];
+        if (distance <= limit && starts[m] < j) {
+            const current: ApproximateMatch | null = best;
+            if (!current || distance < current.distance) {
+                best = { from: starts[m], to: j, distance };
+            }
+        } else {
+            flush();
+        }
+    }
+    flush();
+
+    return matches;
+}
+
+function isWholeWord(line: string, from: number, to: number): boolean {
+    const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+    return !isWordChar(line[from - 1]) && !isWordChar(line[to]);
+}
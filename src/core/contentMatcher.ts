@@ -0,0 +1,290 @@
+/**
+ * Content matcher
+ * The matching rules of a search, applied to the text of one file: regex building, line-by-line
+ * and multiline matching, boolean query file tests, Markdown scopes and selections.
+ *
+ * Everything here works on plain strings and must not import Obsidian or the plugin at runtime:
+ * the search worker (core/searchWorker) is bundled from this module and runs without them.
+ * SearchEngine uses the same functions when it matches on the main thread, so both give the same results.
+ */
+
+import { TFile } from 'obsidian';
+import { ContentMatch, FileFingerprint, SearchOptions } from '../types';
+import { escapeRegex, hashContent } from '../utils/helpers';
+import { buildMappingPattern } from './mappingTable';
+import { createScopeFilter } from './markdownSegmenter';
+import { parseQuery, getQueryTerms, evaluateQuery } from './queryParser';
+import { usesApproximateMatching, findApproximateMatches } from './approximateMatch';
+
+/**
+ * The parts of a file that matching looks at (file: and path: query qualifiers)
+ */
+export type MatchedFile = Pick<TFile, 'name' | 'path'>;
+
+/**
+ * Whether a search matches through a regex (regex, whole word, mapping table and query modes)
+ * @param options - Search configuration options
+ */
+export function usesSearchRegex(options: SearchOptions): boolean {
+    return Boolean(options.useRegex || options.wholeWord || options.mapping || options.useQuery) && !usesApproximateMatching(options);
+}
+
+/**
+ * Builds the regex source of a search
+ * @param query - The search query
+ * @param options - Search configuration options
+ * @returns Regex source, to compile with searchRegexFlags()
+ * @throws QuerySyntaxError when a boolean query is malformed
+ */
+export function buildSearchPattern(query: string, options: SearchOptions): string {
+    // A mapping table searches for all of its terms at once; the query only labels the results
+    if (options.mapping) {
+        const terms = buildMappingPattern(options.mapping);
+        return options.wholeWord ? `\\b(?:${terms})\\b` : terms;
+    }
+
+    // A boolean query highlights all of its terms that are not negated, longest first
+    if (options.useQuery) {
+        return getQueryTerms(parseQuery(query ?? ''))
+            .map(term => term.text)
+            .sort((a, b) => b.length - a.length)
+            .map(text => `(?:${buildTermPattern(text, options)})`)
+            .join('|');
+    }
+
+    return buildTermPattern(query ?? '', options);
+}
+
+/**
+ * Regex flags of a search: 'g' always, 'i' unless matching case, 'm' in multiline mode
+ * @param options - Search configuration options
+ */
+export function searchRegexFlags(options: SearchOptions): string {
+    return (options.matchCase ? '' : 'i') + 'g' + (options.multiline === true ? 'm' : '');
+}
+
+/**
+ * Converts a search term into regex source according to the regex and whole word options
+ * @param term - Search text or regex
+ * @param options - Search configuration options
+ * @returns Regex source
+ */
+export function buildTermPattern(term: string, options: SearchOptions): string {
+    let pattern = term;
+
+    // If not in regex mode, escape special regex characters so they're treated literally
+    if (!options.useRegex) {
+        pattern = escapeRegex(pattern);
+    }
+
+    // Check if pattern already has word boundaries or anchors to avoid double-wrapping
+    // iOS <16.4 doesn't support lookbehinds, so we only check for lookaheads and common anchors
+    const looksAnchoredOrHasBoundaries = /(^\\b|\\b$|\^|\$|\(\?=|\(\?!)/.test(pattern);
+
+    // Add word boundaries if whole word mode is enabled and pattern doesn't already have them
+    if (options.wholeWord && !looksAnchoredOrHasBoundaries) {
+        // When regex mode is ON, wrap in non-capturing group to preserve existing capture group indices
+        pattern = options.useRegex ? `\\b(?:${pattern})\\b` : `\\b${pattern}\\b`;
+    }
+
+    return pattern;
+}
+
+/**
+ * Builds the file-level test of a boolean query
+ * Each term is looked up once per file, anywhere in the content.
+ * @param query - The query text
+ * @param options - Search configuration options
+ * @returns Test whether a file with this content qualifies, or null outside query mode
+ * @throws QuerySyntaxError when the query is malformed
+ */
+export function createQueryFilter(query: string, options: SearchOptions): ((file: MatchedFile, content: string) => boolean) | null {
+    if (!options.useQuery) return null;
+
+    const tree = parseQuery(query);
+    const flags = (options.matchCase ? '' : 'i') + 'm';
+    const termRegexes = new Map(getQueryTerms(tree, true).map(term => [term.text, new RegExp(buildTermPattern(term.text, options), flags)]));
+    return (file, content) => evaluateQuery(tree, file, term => termRegexes.get(term.text)?.test(content) ?? false);
+}
+
+/**
+ * Builds the matcher of a search, which finds every match in a file's content
+ * The query is parsed and its regex compiled once, here.
+ * @param query - The search query
+ * @param options - Search configuration options
+ * @param regex - Compiled search regex to use (optional, built from the query when needed and missing)
+ * @returns Matcher returning the matches of one file in line/column order
+ * @throws QuerySyntaxError or SyntaxError when the query or regex is malformed
+ */
+export function createContentMatcher(
+    query: string,
+    options: SearchOptions,
+    regex?: RegExp | null
+): (file: MatchedFile, content: string) => ContentMatch[] {
+    const qualifies = createQueryFilter(query, options);
+    const searchRegex = regex ?? (usesSearchRegex(options) ? new RegExp(buildSearchPattern(query, options), searchRegexFlags(options)) : null);
+
+    return (file, content) => {
+        if (qualifies && !qualifies(file, content)) return [];
+        return applyMarkdownScope(content, options, matchContent(content, query, options, searchRegex));
+    };
+}
+
+/**
+ * Finds every match in one file's content
+ * @param content - File content
+ * @param query - The search query (stored on each result)
+ * @param options - Search configuration options
+ * @param regex - Pre-built regex for regex, whole-word, mapping table and query modes, otherwise null
+ * @returns Matches in line/column order
+ */
+export function matchContent(content: string, query: string, options: SearchOptions, regex: RegExp | null): ContentMatch[] {
+    const found: ContentMatch[] = [];
+
+    // Only convert the query's case once per file, not once per line
+    const trimmedQuery = query.trim();
+    const searchQuery = options.matchCase ? trimmedQuery : trimmedQuery.toLowerCase();
+
+    // Shared by every result in this file so replacements can detect later edits
+    const fingerprint: FileFingerprint = { size: content.length, hash: hashContent(content) };
+
+    // Ignore-diacritics and fuzzy modes compare folded text line by line; each match is reported
+    // with the column and text of the original characters it covers
+    if (usesApproximateMatching(options)) {
+        content.split('\n').forEach((lineText, i) => {
+            for (const match of findApproximateMatches(lineText, trimmedQuery, options)) {
+                found.push({
+                    line: i,
+                    content: lineText,
+                    matchText: lineText.slice(match.from, match.to),
+                    col: match.from,
+                    pattern: query,
+                    fingerprint
+                });
+            }
+        });
+        return found;
+    }
+
+    // Use multiline processing if multiline option is enabled and we're using regex
+    if (options.multiline === true && options.useRegex && regex) {
+        // Process entire file content for multiline matches
+        for (const m of Array.from(content.matchAll(regex))) {
+            if (!m[0]) continue; // Skip empty matches
+
+            // Find which line this match starts on
+            const beforeMatch = content.substring(0, m.index ?? 0);
+            const lineNumber = beforeMatch.split('\n').length - 1;
+            const lineStartPos = beforeMatch.lastIndexOf('\n') + 1;
+            const colInLine = (m.index ?? 0) - lineStartPos;
+
+            // Get the line content for display (show first line of match)
+            const lines = content.split('\n');
+            const lineContent = lines[lineNumber] || '';
+
+            found.push({
+                line: lineNumber,
+                content: lineContent,
+                matchText: m[0],
+                col: colInLine,
+                pattern: query,
+                fingerprint
+            });
+        }
+        return found; // Skip line-by-line processing
+    }
+
+    // Default line-by-line processing
+    const lines = content.split('\n');
+
+    // Special case: handle dot regex patterns that match everything
+    const isDotRegex = options.useRegex && regex && (regex.source === '.' || regex.source === '.*');
+    if (isDotRegex) {
+        // For dot regex, match every non-empty line
+        for (let i = 0; i < lines.length; i++) {
+            const lineText = lines[i];
+            if (lineText.trim() === '') continue; // Skip empty lines
+
+            found.push({
+                line: i,
+                content: lineText,
+                matchText: lineText, // Entire line is the match
+                col: 0,
+                pattern: query,
+                fingerprint
+            });
+        }
+        return found;
+    }
+
+    // Normal processing: search each line for matches
+    for (let i = 0; i < lines.length; i++) {
+        const lineText = lines[i];
+        if (lineText.trim() === '') continue; // Skip empty lines
+
+        if (regex) {
+            // Use regex matching for regex mode, whole word mode or a mapping table
+            for (const m of Array.from(lineText.matchAll(regex))) {
+                if (!m[0]) continue; // Skip empty matches
+                found.push({
+                    line: i,
+                    content: lineText,
+                    matchText: m[0],
+                    col: m.index ?? 0,
+                    pattern: query,
+                    fingerprint
+                });
+            }
+        } else {
+            // Use simple string matching for basic search
+            // Only convert line text case when needed (not for case-sensitive searches)
+            const haystack = options.matchCase ? lineText : lineText.toLowerCase();
+            const needle = searchQuery;
+            if (!needle) continue;
+
+            // Find all occurrences of needle in haystack
+            let start = 0;
+            while (true) {
+                const idx = haystack.indexOf(needle, start);
+                if (idx === -1) break; // No more matches in this line
+
+                found.push({
+                    line: i,
+                    content: lineText,
+                    matchText: lineText.slice(idx, idx + needle.length),
+                    col: idx,
+                    pattern: query,
+                    fingerprint
+                });
+
+                // Move start position forward to find next match
+                start = idx + Math.max(needle.length, 1);
+            }
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Drops matches outside the Markdown scope of the search (e.g. matches inside code blocks)
+ * and, in selection scope, outside the selected text
+ * @param content - File content the results were found in
+ * @param options - Search configuration options
+ * @param results - Matches in this file
+ * @returns The matches inside the scope
+ */
+export function applyMarkdownScope<T extends ContentMatch>(content: string, options: SearchOptions, results: T[]): T[] {
+    const inScope = createScopeFilter(content, options.markdownScope, options.selection);
+    if (!inScope || results.length === 0) return results;
+
+    const lineStarts = [0];
+    for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+        lineStarts.push(i + 1);
+    }
+
+    return results.filter(result => {
+        const from = (lineStarts[result.line] ?? 0) + (result.col ?? 0);
+        return inScope(from, from + result.matchText.length);
+    });
+}
@@ -7,10 +7,12 @@ import VaultFindReplacePlugin from '../main';
  */
 export class FileOperations {
     private app: App;
+    private plugin?: VaultFindReplacePlugin;
     private logger: Logger;
 
     constructor(app: App, plugin?: VaultFindReplacePlugin) {
         this.app = app;
+        this.plugin = plugin;
         this.logger = plugin ? Logger.create(plugin, 'FileOperations') : {
             debug: console.debug.bind(console),
             info: console.info.bind(console),
@@ -21,6 +23,8 @@ export class FileOperations {
 
     /**
      * Opens a file at a specific line and column, highlighting the match
+     * The match is selected and marked (see core/matchHighlighter): the mark fades out after the
+     * "Highlight duration" setting, or stays until the next search with "Persistent highlight".
      * @param file - The file to open
      * @param line - Zero-based line number
      * @param col - Column position of the match
@@ -62,17 +66,18 @@ export class FileOperations {
 
             const editor = mdView.editor;
 
-            // Calculate selection range for the match
+            // Calculate selection range for the match, including the lines a multiline match spans
             const chStart = col ?? 0;
-            let chEnd = chStart;
-            if (matchText) {
-                chEnd = chStart + matchText.length;
-            }
+            const from = editor.posToOffset({ line, ch: chStart });
+            const to = from + (matchText?.length ?? 0);
 
-            // Set selection to highlight the match and focus the editor
-            editor.setSelection({ line, ch: chStart }, { line, ch: chEnd });
+            // Set selection to the match and focus the editor
+            editor.setSelection(editor.offsetToPos(from), editor.offsetToPos(to));
             editor.focus();
 
+            // Mark the whole match
+            this.plugin?.matchHighlighter?.highlight(editor, from, to);
+
             // Center the match in the viewport
             await this.centerMatchInViewport(editor, line, chStart);
 
@@ -176,6 +181,7 @@ export class FileOperations {
     dispose(): void {
         // Clear references for garbage collection
         this.app = null!;
+        this.plugin = undefined;
         this.logger = null!;
     }
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+/**
+ * Frontmatter properties
+ * In properties mode a search matches the values of YAML properties read from the metadata cache, and
+ * replacements are written with `fileManager.processFrontMatter` so the YAML stays valid.
+ *
+ * Every text, number or boolean value is one searchable row shown as `key: value`; each item of a list
+ * (e.g. `tags`) is a row of its own. Keys, nested objects and multi-line text are not searched.
+ */
+
+import { PropertyLocation } from '../types';
+
+/**
+ * Lists the searchable values of a frontmatter object
+ * @param frontmatter - Parsed frontmatter (from metadataCache or processFrontMatter)
+ * @returns One location per value or list item, in property order
+ */
+export function listProperties(frontmatter: Record<string, unknown>): PropertyLocation[] {
+    const properties: PropertyLocation[] = [];
+    for (const [key, value] of Object.entries(frontmatter)) {
+        if (Array.isArray(value)) {
+            value.forEach((item, index) => {
+                const text = propertyText(item);
+                if (text !== null) properties.push({ key, index, value: text });
+            });
+        } else {
+            const text = propertyText(value);
+            if (text !== null) properties.push({ key, value: text });
+        }
+    }
+    return properties;
+}
+
+/**
+ * Formats a property as the row shown in the results
+ * @param property - The property value
+ * @returns `key: value`
+ */
+export function propertyRow(property: PropertyLocation): string {
+    return `${property.key}: ${property.value}`;
+}
+
+/**
+ * Offset of the value within its result row (see propertyRow)
+ */
+export function propertyValueOffset(property: PropertyLocation): number {
+    return property.key.length + 2;
+}
+
+/**
+ * Replaces a property value inside a processFrontMatter callback
+ * The value keeps its type when the new text still reads as one (e.g. a number stays a number).
+ * @param frontmatter - Frontmatter object to modify
+ * @param property - Where the value is and what it was when searched
+ * @param text - The new value
+ * @returns False when the value changed since the search (nothing is written)
+ */
+export function setPropertyValue(frontmatter: Record<string, unknown>, property: PropertyLocation, text: string): boolean {
+    const container = frontmatter[property.key];
+    const current = property.index === undefined ? container : Array.isArray(container) ? container[property.index] : undefined;
+    if (propertyText(current) !== property.value) return false;
+
+    const next = coerceProperty(current, text);
+    if (property.index === undefined) {
+        frontmatter[property.key] = next;
+    } else {
+        (container as unknown[])[property.index] = next;
+    }
+    return true;
+}
+
+/**
+ * Finds the line of a property key in the note's frontmatter block
+ * @param lines - Note content split into lines
+ * @param key - Property key
+ * @returns 0-based line number, or 0 (the opening ---) when the key is not found
+ */
+export function findPropertyLine(lines: string[], key: string): number {
+    if (lines[0]?.trimEnd() !== '---') return 0;
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i].trimEnd();
+        if (line === '---' || line === '...') break;
+        const name = /^\s*(["']?)(.+?)\1\s*:(\s|$)/.exec(line);
+        if (name && name[2] === key) return i;
+    }
+    return 0;
+}
+
+/**
+ * Text of a single-line text, number or boolean value, otherwise null
+ */
+function propertyText(value: unknown): string | null {
+    if (typeof value === 'string') return value.includes('\n') ? null : value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return null;
+}
+
+/**
+ * Converts replacement text back to the type of the value it replaces
+ */
+function coerceProperty(original: unknown, text: string): unknown {
+    if (typeof original === 'number' && text.trim() !== '' && !isNaN(Number(text))) return Number(text);
+    if (typeof original === 'boolean' && (text === 'true' || text === 'false')) return text === 'true';
+    return text;
+}
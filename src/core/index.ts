@@ -2,7 +2,30 @@
  * Core functionality exports
  */
 
-export { SearchEngine } from './searchEngine';
+export { SearchEngine, RegexHazardError } from './searchEngine';
 export { ReplacementEngine } from './replacementEngine';
 export { FileOperations } from './fileOperations';
-export { HistoryManager } from './historyManager';
\ No newline at end of file
+export { HistoryManager } from './historyManager';
+export { ReplacementJournal } from './replacementJournal';
+export { RecipeManager } from './recipeManager';
+export { RecipeRunner } from './recipeRunner';
+export { expandReplacementTemplate, findGroupReferences } from './replacementTemplate';
+export { expandComputedTokens, resolveComputedToken } from './replacementTokens';
+export { ReplacementFunction, compileReplacementFunction, toReplacementFunctionCall } from './replacementFunction';
+export { ReplacementFunctionClient } from './replacementFunctionClient';
+export { parseMappingTable, buildMappingPattern, lookupMapping, withMapping } from './mappingTable';
+
+export { segmentMarkdown, createScopeFilter, filterToScope, MARKDOWN_SCOPE_LABELS } from './markdownSegmenter';
+export { listProperties, propertyRow, propertyValueOffset, setPropertyValue, findPropertyLine } from './frontmatterProperties';
+export { isMetadataFilter, parseMetadataFilter, describeMetadataFilter, matchesMetadataFilter } from './metadataFilters';
+export { parseQuery, getQueryTerms, evaluateQuery, QuerySyntaxError } from './queryParser';
+export { usesApproximateMatching, withApproximateMatching, foldText, findApproximateMatches, DEFAULT_FUZZY_DISTANCE } from './approximateMatch';
+export { createContentMatcher, matchContent, buildSearchPattern, buildTermPattern, usesSearchRegex } from './contentMatcher';
+export { SearchWorkerClient } from './searchWorkerClient';
+export { SearchIndex } from './searchIndex';
+export { extractTrigrams, requiredLiterals, planTrigramSearch } from './trigrams';
+export { findNestedQuantifier } from './regexSafety';
+export { SEARCH_SCOPE_LABELS, SearchScopeError, resolveSearchScope } from './searchScope';
+export { addResultContext } from './resultContext';
+export { MatchHighlighter, matchHighlightField, getEditorView } from './matchHighlighter';
+export { ResultHighlighter, resultHighlightField, locateResult, createRangeMatcher } from './resultHighlighter';
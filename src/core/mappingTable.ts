@@ -0,0 +1,175 @@
+/**
+ * Mapping tables
+ * Old → new pairs kept in a note, used to find every "old" term in one search and
+ * replace each match with its own "new" value.
+ *
+ * Supported formats (the first two columns are used, header rows are skipped):
+ * - Markdown tables: every table in the note; `\|` escapes a pipe and a cell wrapped in
+ *   backticks is taken literally without them
+ * - CSV files: comma, semicolon or tab separated, with a header row and optional "quoted" cells
+ */
+
+import { MappingEntry, ReplacementMapping, SearchOptions } from '../types';
+import { escapeRegex } from '../utils/helpers';
+
+const MARKDOWN_SEPARATOR = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Reads the old → new pairs of a mapping note
+ * Rows without an "old" value are ignored; when a term appears twice, the first row wins.
+ * @param content - Note content
+ * @param extension - File extension ('csv' for CSV, anything else is read as Markdown)
+ * @returns Mapping entries in table order
+ */
+export function parseMappingTable(content: string, extension: string): MappingEntry[] {
+    const rows = extension.toLowerCase() === 'csv' ? parseCsvRows(content) : parseMarkdownRows(content);
+    const seen = new Set<string>();
+    const entries: MappingEntry[] = [];
+
+    for (const [from = '', to = ''] of rows) {
+        if (!from || seen.has(from)) continue;
+        seen.add(from);
+        entries.push({ from, to });
+    }
+    return entries;
+}
+
+/**
+ * Builds the search pattern matching every "old" term of a mapping
+ * Longer terms come first so "New York City" wins over "New York".
+ * @param mapping - The mapping table
+ * @returns Regex source (alternation of escaped terms)
+ */
+export function buildMappingPattern(mapping: ReplacementMapping): string {
+    return mapping.entries
+        .map(entry => entry.from)
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegex)
+        .join('|');
+}
+
+/**
+ * Finds the replacement for a matched term
+ * @param mapping - The mapping table
+ * @param matchText - The matched text
+ * @param matchCase - Whether terms are compared case-sensitively
+ * @returns The mapped value, or null if the text is not in the table
+ */
+export function lookupMapping(mapping: ReplacementMapping, matchText: string, matchCase: boolean): string | null {
+    const exact = mapping.entries.find(entry => entry.from === matchText);
+    if (exact) return exact.to;
+    if (matchCase) return null;
+
+    const lower = matchText.toLowerCase();
+    return mapping.entries.find(entry => entry.from.toLowerCase() === lower)?.to ?? null;
+}
+
+/**
+ * Applies a mapping table to search options
+ * Terms are always matched literally, so regex, multiline and query mode are switched off.
+ * @param options - Options read from the toolbar toggles
+ * @param mapping - Active mapping table, or null
+ * @returns Options to search and replace with
+ */
+export function withMapping(options: SearchOptions, mapping: ReplacementMapping | null): SearchOptions {
+    return mapping ? { ...options, useRegex: false, multiline: false, useQuery: false, mapping } : options;
+}
+
+/**
+ * Collects the body rows of every Markdown table (header and separator rows are skipped)
+ */
+function parseMarkdownRows(content: string): string[][] {
+    const lines = content.split('\n').map(line => line.trim());
+    const rows: string[][] = [];
+
+    for (let i = 0; i < lines.length - 1; i++) {
+        if (!lines[i].includes('|') || !MARKDOWN_SEPARATOR.test(lines[i + 1]) || !lines[i + 1].includes('-')) continue;
+
+        i += 2;
+        while (i < lines.length && lines[i].includes('|')) {
+            rows.push(splitMarkdownRow(lines[i]));
+            i++;
+        }
+    }
+    return rows;
+}
+
+/**
+ * Splits a Markdown table row into cells, honouring `\|` escapes
+ */
+function splitMarkdownRow(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '\\' && line[i + 1] === '|') {
+            cell += '|';
+            i++;
+        } else if (line[i] === '|') {
+            cells.push(cell);
+            cell = '';
+        } else {
+            cell += line[i];
+        }
+    }
+    cells.push(cell);
+
+    // Outer pipes are optional
+    if (line.startsWith('|')) cells.shift();
+    if (line.endsWith('|') && !line.endsWith('\\|')) cells.pop();
+
+    return cells.map(value => {
+        const trimmed = value.trim();
+        const code = /^`([^`]+)`$/.exec(trimmed);
+        return code ? code[1] : trimmed;
+    });
+}
+
+/**
+ * Parses CSV records after the header row
+ * The delimiter is whichever of comma, semicolon or tab appears most in the header.
+ */
+function parseCsvRows(content: string): string[][] {
+    const header = content.split('\n', 1)[0];
+    const delimiter = CSV_DELIMITERS.reduce((best, candidate) =>
+        header.split(candidate).length > header.split(best).length ? candidate : best);
+
+    const records: string[][] = [];
+    let record: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && !cell.trim()) {
+            quoted = true;
+            cell = '';
+        } else if (char === delimiter) {
+            record.push(cell);
+            cell = '';
+        } else if (char === '\n') {
+            record.push(cell);
+            records.push(record);
+            record = [];
+            cell = '';
+        } else if (char !== '\r') {
+            cell += char;
+        }
+    }
+    record.push(cell);
+    records.push(record);
+
+    return records
+        .map(cells => cells.map(value => value.trim()))
+        .filter(cells => cells.some(value => value))
+        .slice(1);
+}
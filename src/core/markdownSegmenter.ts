@@ -0,0 +1,189 @@
+/**
+ * Markdown segmenter
+ * Classifies the character ranges of a note (frontmatter, code, headings, links) so searches and
+ * replacements can be limited to parts of it, e.g. renaming a term everywhere except in code.
+ *
+ * The segmenter is line based and deliberately forgiving, covering what Obsidian notes commonly use:
+ * - YAML frontmatter between `---` lines at the very start of the note
+ * - Fenced code blocks (``` or ~~~, an unclosed fence runs to the end of the note)
+ * - Inline code spans on a single line
+ * - ATX headings (`# Heading`)
+ * - Markdown links and images `[text](target)`, wikilinks `[[target|text]]`, autolinks `<url>` and bare URLs
+ */
+
+import { MarkdownScope, MarkdownSegment, MarkdownSegmentKind, TextRange } from '../types';
+
+/** Segments a match must not touch, per exclusion scope */
+const EXCLUDED_KINDS: Partial<Record<MarkdownScope, MarkdownSegmentKind[]>> = {
+    'body': ['frontmatter', 'code-block', 'inline-code', 'link-target'],
+    'no-code': ['code-block', 'inline-code'],
+    'no-frontmatter': ['frontmatter']
+};
+
+/** Segments a match must lie within, per inclusion scope */
+const INCLUDED_KINDS: Partial<Record<MarkdownScope, MarkdownSegmentKind[]>> = {
+    'headings': ['heading'],
+    'link-text': ['link-text']
+};
+
+/** Labels shown in the scope picker */
+export const MARKDOWN_SCOPE_LABELS: Record<MarkdownScope, string> = {
+    'all': 'Everything',
+    'body': 'Body text only',
+    'no-code': 'Exclude code',
+    'no-frontmatter': 'Exclude frontmatter',
+    'headings': 'Headings only',
+    'link-text': 'Link text only'
+};
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}#{1,6}(\s|$)/;
+const INLINE_CODE = /(`+)(.+?)\1(?!`)/g;
+const WIKILINK = /!?\[\[([^\]|]*)(?:\|([^\]]*))?\]\]/g;
+const MARKDOWN_LINK = /!?\[([^[\]]*)\]\(([^()]*)\)/g;
+const AUTOLINK = /<[a-z][a-z0-9+.-]*:[^\s<>]*>/gi;
+const BARE_URL = /\bhttps?:\/\/[^\s<>()[\]]+/g;
+
+/**
+ * Classifies the structure of a note
+ * @param content - Note content
+ * @returns Segments ordered by start offset
+ */
+export function segmentMarkdown(content: string): MarkdownSegment[] {
+    const segments: MarkdownSegment[] = [];
+    const lines = content.split('\n');
+    let offset = 0;
+    let index = 0;
+
+    // Frontmatter: only when the note starts with a --- line and the block is closed
+    if (lines[0]?.trimEnd() === '---') {
+        const close = lines.findIndex((line, i) => i > 0 && (line.trimEnd() === '---' || line.trimEnd() === '...'));
+        if (close !== -1) {
+            for (; index <= close; index++) offset += lines[index].length + 1;
+            segments.push({ kind: 'frontmatter', from: 0, to: Math.min(offset - 1, content.length) });
+        }
+    }
+
+    let fence: { marker: string; from: number } | null = null;
+    for (; index < lines.length; index++) {
+        const line = lines[index];
+        const end = offset + line.length;
+        const fenceMatch = FENCE.exec(line);
+
+        if (fence) {
+            // A closing fence uses the same character, is at least as long and has nothing after it
+            if (fenceMatch && fenceMatch[1][0] === fence.marker[0] && fenceMatch[1].length >= fence.marker.length
+                && !line.slice(fenceMatch[0].length).trim()) {
+                segments.push({ kind: 'code-block', from: fence.from, to: end });
+                fence = null;
+            }
+        } else if (fenceMatch && !(fenceMatch[1][0] === '`' && line.slice(fenceMatch[0].length).includes('`'))) {
+            fence = { marker: fenceMatch[1], from: offset };
+        } else {
+            if (HEADING.test(line)) {
+                segments.push({ kind: 'heading', from: offset, to: end });
+            }
+            segmentInline(line, offset, segments);
+        }
+
+        offset = end + 1;
+    }
+
+    if (fence) {
+        segments.push({ kind: 'code-block', from: fence.from, to: content.length });
+    }
+
+    return segments.sort((a, b) => a.from - b.from || a.to - b.to);
+}
+
+/**
+ * Builds a test for whether a range of a note is inside a scope
+ * @param content - Note content
+ * @param scope - Scope to test against
+ * @param selection - Optional range of the note the scope is further limited to (selection scope)
+ * @returns Test taking a [from, to) range, or null when the scope covers the whole note
+ */
+export function createScopeFilter(
+    content: string,
+    scope: MarkdownScope | undefined,
+    selection?: TextRange
+): ((from: number, to: number) => boolean) | null {
+    const inMarkdownScope = createMarkdownScopeFilter(content, scope);
+    if (!selection) return inMarkdownScope;
+
+    return (from, to) => from >= selection.from && to <= selection.to && (!inMarkdownScope || inMarkdownScope(from, to));
+}
+
+/**
+ * Keeps the ranges of a note that are inside a scope
+ * @param content - Note content the offsets refer to
+ * @param scope - Scope to keep
+ * @param ranges - Ranges with [from, to) offsets into the content
+ * @param selection - Optional range of the note the scope is further limited to (selection scope)
+ * @returns The ranges inside the scope (all of them when the scope covers the whole note)
+ */
+export function filterToScope<T extends { from: number; to: number }>(
+    content: string,
+    scope: MarkdownScope | undefined,
+    ranges: T[],
+    selection?: TextRange
+): T[] {
+    const inScope = createScopeFilter(content, scope, selection);
+    return inScope ? ranges.filter(range => inScope(range.from, range.to)) : ranges;
+}
+
+/**
+ * Builds the test of a Markdown scope alone
+ */
+function createMarkdownScopeFilter(content: string, scope: MarkdownScope | undefined): ((from: number, to: number) => boolean) | null {
+    const excluded = scope ? EXCLUDED_KINDS[scope] : undefined;
+    const included = scope ? INCLUDED_KINDS[scope] : undefined;
+    if (!excluded && !included) return null;
+
+    const segments = segmentMarkdown(content);
+
+    if (excluded) {
+        const ranges = segments.filter(segment => excluded.includes(segment.kind));
+        return (from, to) => !ranges.some(range => from < range.to && to > range.from);
+    }
+
+    const ranges = segments.filter(segment => included?.includes(segment.kind));
+    return (from, to) => ranges.some(range => from >= range.from && to <= range.to);
+}
+
+/**
+ * Finds inline code and links on one line outside code blocks
+ */
+function segmentInline(line: string, offset: number, segments: MarkdownSegment[]): void {
+    // Blank out code spans so link syntax inside them is not picked up
+    let masked = line;
+    for (const m of Array.from(line.matchAll(INLINE_CODE))) {
+        const from = m.index ?? 0;
+        segments.push({ kind: 'inline-code', from: offset + from, to: offset + from + m[0].length });
+        masked = masked.slice(0, from) + ' '.repeat(m[0].length) + masked.slice(from + m[0].length);
+    }
+
+    for (const m of Array.from(masked.matchAll(WIKILINK))) {
+        const targetFrom = offset + (m.index ?? 0) + m[0].indexOf('[[') + 2;
+        const target = m[1];
+        segments.push({ kind: 'link-target', from: targetFrom, to: targetFrom + target.length });
+        if (m[2] !== undefined) {
+            const textFrom = targetFrom + target.length + 1;
+            segments.push({ kind: 'link-text', from: textFrom, to: textFrom + m[2].length });
+        }
+    }
+
+    for (const m of Array.from(masked.matchAll(MARKDOWN_LINK))) {
+        const textFrom = offset + (m.index ?? 0) + m[0].indexOf('[') + 1;
+        const targetFrom = textFrom + m[1].length + 2;
+        segments.push({ kind: 'link-text', from: textFrom, to: textFrom + m[1].length });
+        segments.push({ kind: 'link-target', from: targetFrom, to: targetFrom + m[2].length });
+    }
+
+    for (const pattern of [AUTOLINK, BARE_URL]) {
+        for (const m of Array.from(masked.matchAll(pattern))) {
+            const from = offset + (m.index ?? 0);
+            segments.push({ kind: 'link-target', from, to: from + m[0].length });
+        }
+    }
+}
@@ -0,0 +1,124 @@
+/**
+ * Match highlight in editors
+ * Marks the match a result was opened at (see FileOperations.openFileAtLine). The mark fades out
+ * after the "Highlight duration" setting, or stays until the next search with "Persistent highlight".
+ */
+
+import { Editor } from 'obsidian';
+import { StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView } from '@codemirror/view';
+import { Logger } from '../utils';
+import VaultFindReplacePlugin from '../main';
+
+/**
+ * A highlighted match: document offsets and how it goes away
+ */
+interface MatchHighlight {
+    from: number;
+    to: number;
+    persistent: boolean;    // Stays until cleared
+    duration: number;       // Milliseconds the mark takes to fade out (when not persistent)
+}
+
+/** Sets the highlighted match of an editor, or clears it (null) */
+const setMatchHighlight = StateEffect.define<MatchHighlight | null>();
+
+/**
+ * Editor extension holding the highlighted match; registered once by the plugin
+ */
+export const matchHighlightField = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update(highlights, transaction) {
+        // Keep the mark on the match while the note is edited
+        highlights = highlights.map(transaction.changes);
+        for (const effect of transaction.effects) {
+            if (effect.is(setMatchHighlight)) {
+                highlights = effect.value ? createHighlight(effect.value) : Decoration.none;
+            }
+        }
+        return highlights;
+    },
+    provide: field => EditorView.decorations.from(field)
+});
+
+/**
+ * Creates the mark of a highlighted match
+ */
+function createHighlight(highlight: MatchHighlight): DecorationSet {
+    const mark = highlight.persistent
+        ? Decoration.mark({ class: 'find-replace-match-highlight is-persistent' })
+        : Decoration.mark({
+            class: 'find-replace-match-highlight',
+            attributes: { style: `animation-duration: ${highlight.duration}ms` }
+        });
+    return Decoration.set(mark.range(highlight.from, highlight.to));
+}
+
+/**
+ * Highlights one match at a time, in the editor it was opened in
+ */
+export class MatchHighlighter {
+    private plugin: VaultFindReplacePlugin;
+    private logger: Logger;
+    private view: EditorView | null = null; // Editor showing the current highlight
+    private timer: number | null = null;
+
+    constructor(plugin: VaultFindReplacePlugin) {
+        this.plugin = plugin;
+        this.logger = Logger.create(plugin, 'MatchHighlighter');
+    }
+
+    /**
+     * Highlights a match, replacing the previous highlight
+     * @param editor - Editor the match is shown in
+     * @param from - Offset of the start of the match
+     * @param to - Offset of the end of the match
+     */
+    highlight(editor: Editor, from: number, to: number): void {
+        this.clear();
+        const view = getEditorView(editor);
+        if (!view || to <= from) {
+            this.logger.debug('Nothing to highlight', { from, to, hasView: !!view });
+            return;
+        }
+
+        const { highlightDuration, persistentHighlight } = this.plugin.settings;
+        view.dispatch({ effects: setMatchHighlight.of({ from, to, persistent: persistentHighlight, duration: highlightDuration }) });
+        this.view = view;
+
+        // The mark fades out through CSS; removing it afterwards keeps the document clean
+        if (!persistentHighlight) {
+            this.timer = window.setTimeout(() => this.clear(), highlightDuration);
+        }
+    }
+
+    /**
+     * Removes the current highlight (a new search clears persistent highlights this way)
+     */
+    clear(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        // An editor that was closed meanwhile has nothing left to clear
+        if (this.view?.dom.isConnected) {
+            this.view.dispatch({ effects: setMatchHighlight.of(null) });
+        }
+        this.view = null;
+    }
+
+    /**
+     * Removes the highlight when the plugin unloads
+     */
+    dispose(): void {
+        this.clear();
+    }
+}
+
+/**
+ * Gets the CodeMirror view behind an Obsidian editor
+ */
+export function getEditorView(editor: Editor): EditorView | null {
+    const cm = (editor as Editor & { cm?: unknown }).cm;
+    return cm instanceof EditorView ? cm : null;
+}
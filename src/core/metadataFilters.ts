@@ -0,0 +1,177 @@
+/**
+ * Metadata file filters
+ * Tokens in the "files to include" / "files to exclude" inputs that select notes by what they contain
+ * rather than where they are. They are resolved through the metadata cache and file stats:
+ * - `tag:#project` - has the tag or one of its subtags (`#project/alpha`), inline or in frontmatter
+ * - `prop:status=draft` - property equals the value (or a list property contains it); `prop:status` - property is set
+ * - `links-to:[[Index]]` - links to or embeds the note
+ * - `modified:>2025-01-01` - last modified after, before (`<`) or on (`=`) a date; `>=` and `<=` work too
+ * - `size:<50kb` - file size compared in b, kb or mb
+ *
+ * Included files must match every metadata token; excluded files are those matching any of them.
+ */
+
+import { App, TFile } from 'obsidian';
+import { MetadataFilter, MetadataComparison } from '../types';
+
+const METADATA_PREFIX = /^(tag|prop|links-to|modified|size):/i;
+const COMPARISON = /^(<=|>=|<|>|=)?\s*(.+)$/;
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 * 1024 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a filter token is a metadata token (as opposed to an extension, folder or glob)
+ * @param token - A single comma-separated filter pattern
+ */
+export function isMetadataFilter(token: string): boolean {
+    return METADATA_PREFIX.test(token.trim());
+}
+
+/**
+ * Parses a metadata filter token
+ * @param token - e.g. `tag:#project` or `size:<50kb`
+ * @returns The parsed filter
+ * @throws Error describing the problem when the token is not valid
+ */
+export function parseMetadataFilter(token: string): MetadataFilter {
+    const trimmed = token.trim();
+    const prefix = METADATA_PREFIX.exec(trimmed);
+    const value = trimmed.slice(prefix ? prefix[0].length : 0).trim();
+    if (!prefix || !value) {
+        throw new Error(`Incomplete filter "${trimmed}"`);
+    }
+
+    switch (prefix[1].toLowerCase()) {
+        case 'tag':
+            return { type: 'tag', tag: value.replace(/^#/, '').toLowerCase() };
+
+        case 'prop': {
+            const separator = value.indexOf('=');
+            return separator === -1
+                ? { type: 'property', key: value }
+                : { type: 'property', key: value.slice(0, separator).trim(), value: value.slice(separator + 1).trim() };
+        }
+
+        case 'links-to':
+            return { type: 'links-to', target: value.replace(/^\[\[|\]\]$/g, '').split('|')[0].trim() };
+
+        case 'modified': {
+            const [, op = '=', date] = COMPARISON.exec(value) ?? [];
+            const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date ?? '');
+            if (!day) {
+                throw new Error(`Invalid date in "${trimmed}" (use YYYY-MM-DD)`);
+            }
+            // Dates are whole local days
+            return { type: 'modified', op: op as MetadataComparison, time: new Date(+day[1], +day[2] - 1, +day[3]).getTime() };
+        }
+
+        default: {
+            const [, op = '=', amount] = COMPARISON.exec(value) ?? [];
+            const size = /^(\d+(?:\.\d+)?)\s*(b|kb|mb)?$/i.exec(amount ?? '');
+            if (!size) {
+                throw new Error(`Invalid size in "${trimmed}" (e.g. size:<50kb)`);
+            }
+            return { type: 'size', op: op as MetadataComparison, bytes: parseFloat(size[1]) * SIZE_UNITS[(size[2] ?? 'b').toLowerCase()] };
+        }
+    }
+}
+
+/**
+ * Formats a metadata filter back into its token, e.g. for recipe summaries
+ * @param filter - Parsed metadata filter
+ * @returns Token in the syntax parseMetadataFilter accepts
+ */
+export function describeMetadataFilter(filter: MetadataFilter): string {
+    switch (filter.type) {
+        case 'tag':
+            return `tag:#${filter.tag}`;
+        case 'property':
+            return filter.value === undefined ? `prop:${filter.key}` : `prop:${filter.key}=${filter.value}`;
+        case 'links-to':
+            return `links-to:[[${filter.target}]]`;
+        case 'modified': {
+            const date = new Date(filter.time);
+            const pad = (n: number) => String(n).padStart(2, '0');
+            return `modified:${filter.op}${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+        }
+        case 'size': {
+            const unit = filter.bytes >= SIZE_UNITS.mb ? 'mb' : filter.bytes >= SIZE_UNITS.kb ? 'kb' : 'b';
+            return `size:${filter.op}${+(filter.bytes / SIZE_UNITS[unit]).toFixed(2)}${unit}`;
+        }
+    }
+}
+
+/**
+ * Checks a file against a metadata filter
+ * Files without metadata (e.g. non-Markdown files) never match tag, property or link filters.
+ * @param app - Obsidian app (metadata cache)
+ * @param file - File to check
+ * @param filter - Parsed metadata filter
+ */
+export function matchesMetadataFilter(app: App, file: TFile, filter: MetadataFilter): boolean {
+    switch (filter.type) {
+        case 'tag':
+            return getFileTags(app, file).some(tag => tag === filter.tag || tag.startsWith(`${filter.tag}/`));
+
+        case 'property': {
+            const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+            if (!frontmatter || !(filter.key in frontmatter)) return false;
+            if (filter.value === undefined) return true;
+
+            const wanted = filter.value.toLowerCase();
+            const actual: unknown = frontmatter[filter.key];
+            const values: unknown[] = Array.isArray(actual) ? actual : [actual];
+            return values.some(item => String(item).toLowerCase() === wanted);
+        }
+
+        case 'links-to': {
+            const destination = app.metadataCache.getFirstLinkpathDest(filter.target, file.path);
+            const links = destination
+                ? app.metadataCache.resolvedLinks[file.path]
+                : app.metadataCache.unresolvedLinks[file.path];
+            return Boolean(links?.[destination ? destination.path : filter.target]);
+        }
+
+        case 'modified': {
+            // Compare whole days: "=" means any time that day, ">" after the end of it
+            const mtime = file.stat.mtime;
+            const end = filter.time + DAY_MS;
+            switch (filter.op) {
+                case '<': return mtime < filter.time;
+                case '<=': return mtime < end;
+                case '>': return mtime >= end;
+                case '>=': return mtime >= filter.time;
+                default: return mtime >= filter.time && mtime < end;
+            }
+        }
+
+        case 'size':
+            return compare(file.stat.size, filter.op, filter.bytes);
+    }
+}
+
+/**
+ * Lower-case tags of a note without '#', from inline tags and the `tags`/`tag` properties
+ */
+function getFileTags(app: App, file: TFile): string[] {
+    const cache = app.metadataCache.getFileCache(file);
+    if (!cache) return [];
+
+    const tags = (cache.tags ?? []).map(entry => entry.tag);
+    for (const key of ['tags', 'tag']) {
+        const value: unknown = cache.frontmatter?.[key];
+        const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+        tags.push(...list.filter(item => typeof item === 'string' && item));
+    }
+    return tags.map(tag => tag.replace(/^#/, '').toLowerCase());
+}
+
+function compare(actual: number, op: MetadataComparison, expected: number): boolean {
+    switch (op) {
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        default: return actual === expected;
+    }
+}
@@ -0,0 +1,242 @@
+/**
+ * Boolean query parser
+ * In query mode the search text combines terms instead of being one literal or regex:
+ * - `foo bar` / `foo AND bar` - the file contains both terms (AND binds tighter than OR)
+ * - `foo OR bar` - the file contains either term
+ * - `-baz` - the file does not contain the term; `-(a OR b)` negates a group
+ * - `"exact phrase"` - a term with spaces; `( ... )` groups terms
+ * - `file:draft` / `path:Projects/` - the file name / path contains the text (`*` is a wildcard)
+ *
+ * Terms follow the Match Case, Whole Word and Regex toggles. The query decides which files qualify;
+ * within them every term that is not negated is highlighted and replaced.
+ */
+
+import { TFile } from 'obsidian';
+import { QueryNode } from '../types';
+
+type QueryTerm = Extract<QueryNode, { type: 'term' }>;
+
+interface Token {
+    kind: 'word' | 'phrase' | 'qualifier' | 'and' | 'or' | 'not' | 'open' | 'close';
+    text: string;
+    position: number;
+}
+
+/**
+ * A query that cannot be parsed
+ */
+export class QuerySyntaxError extends Error {
+    readonly position: number;
+
+    /**
+     * @param message - What is wrong
+     * @param position - Zero-based offset in the query
+     */
+    constructor(message: string, position: number) {
+        super(message);
+        this.name = 'QuerySyntaxError';
+        this.position = position;
+    }
+}
+
+/**
+ * Parses a boolean query
+ * @param query - Query text as typed in the search input
+ * @returns The query tree
+ * @throws QuerySyntaxError when the query is malformed or has no term to highlight
+ */
+export function parseQuery(query: string): QueryNode {
+    const tokens = tokenize(query);
+    let index = 0;
+
+    const peek = (): Token | undefined => tokens[index];
+
+    const parseOr = (): QueryNode => {
+        const children = [parseAnd()];
+        while (peek()?.kind === 'or') {
+            index++;
+            children.push(parseAnd());
+        }
+        return children.length === 1 ? children[0] : { type: 'or', children };
+    };
+
+    const parseAnd = (): QueryNode => {
+        const children = [parseUnary()];
+        for (let next = peek(); next && next.kind !== 'or' && next.kind !== 'close'; next = peek()) {
+            if (next.kind === 'and') index++;
+            children.push(parseUnary());
+        }
+        return children.length === 1 ? children[0] : { type: 'and', children };
+    };
+
+    const parseUnary = (): QueryNode => {
+        if (peek()?.kind === 'not') {
+            index++;
+            return { type: 'not', child: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): QueryNode => {
+        const token = tokens[index++];
+        if (!token) {
+            const previous = tokens[index - 2];
+            throw previous
+                ? new QuerySyntaxError(`Expected a term after '${previous.text}'`, previous.position)
+                : new QuerySyntaxError('Expected a term', query.length);
+        }
+
+        switch (token.kind) {
+            case 'word':
+            case 'phrase':
+                return { type: 'term', text: token.text, position: token.position };
+            case 'qualifier': {
+                const separator = token.text.indexOf(':');
+                return {
+                    type: 'qualifier',
+                    field: token.text.slice(0, separator).toLowerCase() as 'file' | 'path',
+                    value: token.text.slice(separator + 1),
+                    position: token.position
+                };
+            }
+            case 'open': {
+                const group = parseOr();
+                if (peek()?.kind !== 'close') {
+                    throw new QuerySyntaxError("Missing ')' for this '('", token.position);
+                }
+                index++;
+                return group;
+            }
+            default:
+                throw new QuerySyntaxError(`Unexpected '${token.text}'`, token.position);
+        }
+    };
+
+    if (tokens.length === 0) {
+        throw new QuerySyntaxError('Expected a term', 0);
+    }
+
+    const tree = parseOr();
+    const extra = peek();
+    if (extra) {
+        throw new QuerySyntaxError(`Unexpected '${extra.text}'`, extra.position);
+    }
+    if (getQueryTerms(tree).length === 0) {
+        throw new QuerySyntaxError('The query needs at least one term that is not excluded', 0);
+    }
+    return tree;
+}
+
+/**
+ * Lists the terms of a query, without duplicates
+ * @param node - Query tree
+ * @param includeNegated - Also list terms inside a negation (they decide files but are never highlighted)
+ * @returns Terms in query order
+ */
+export function getQueryTerms(node: QueryNode, includeNegated = false): QueryTerm[] {
+    const terms: QueryTerm[] = [];
+    const visit = (current: QueryNode, negated: boolean) => {
+        switch (current.type) {
+            case 'term':
+                if ((includeNegated || !negated) && !terms.some(term => term.text === current.text)) terms.push(current);
+                break;
+            case 'and':
+            case 'or':
+                current.children.forEach(child => visit(child, negated));
+                break;
+            case 'not':
+                visit(current.child, !negated);
+                break;
+        }
+    };
+    visit(node, false);
+    return terms;
+}
+
+/**
+ * Decides whether a file qualifies for a query
+ * @param node - Query tree
+ * @param file - The file (for file: and path: qualifiers)
+ * @param hasTerm - Whether the file's content contains a term
+ */
+export function evaluateQuery(node: QueryNode, file: Pick<TFile, 'name' | 'path'>, hasTerm: (term: QueryTerm) => boolean): boolean {
+    switch (node.type) {
+        case 'term':
+            return hasTerm(node);
+        case 'qualifier':
+            return matchesQualifier(node.field === 'file' ? file.name : file.path, node.value);
+        case 'and':
+            return node.children.every(child => evaluateQuery(child, file, hasTerm));
+        case 'or':
+            return node.children.some(child => evaluateQuery(child, file, hasTerm));
+        case 'not':
+            return !evaluateQuery(node.child, file, hasTerm);
+    }
+}
+
+/**
+ * Splits a query into tokens
+ * Only upper-case AND / OR are operators; a '-' negates when it starts a token.
+ */
+function tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const readPhrase = (start: number): string => {
+        const close = query.indexOf('"', start + 1);
+        if (close === -1) {
+            throw new QuerySyntaxError('Unclosed quote', start);
+        }
+        if (close === start + 1) {
+            throw new QuerySyntaxError('Empty phrase', start);
+        }
+        i = close + 1;
+        return query.slice(start + 1, close);
+    };
+
+    while (i < query.length) {
+        const char = query[i];
+        const position = i;
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(' || char === ')') {
+            tokens.push({ kind: char === '(' ? 'open' : 'close', text: char, position });
+            i++;
+        } else if (char === '"') {
+            tokens.push({ kind: 'phrase', text: readPhrase(i), position });
+        } else if (char === '-') {
+            tokens.push({ kind: 'not', text: '-', position });
+            i++;
+        } else {
+            while (i < query.length && !/[\s()"]/.test(query[i])) i++;
+            const text = query.slice(position, i);
+
+            if (text === 'AND' || text === 'OR') {
+                tokens.push({ kind: text === 'AND' ? 'and' : 'or', text, position });
+            } else if (/^(file|path):/i.test(text)) {
+                // The value may be a quoted phrase: path:"My Notes/"
+                const value = text.endsWith(':') && query[i] === '"' ? readPhrase(i) : text.slice(text.indexOf(':') + 1);
+                if (!value) {
+                    throw new QuerySyntaxError(`Missing value after '${text}'`, position);
+                }
+                tokens.push({ kind: 'qualifier', text: `${text.slice(0, text.indexOf(':'))}:${value}`, position });
+            } else {
+                tokens.push({ kind: 'word', text, position });
+            }
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Case-insensitive containment test; a value with `*` must match the whole text as a wildcard pattern
+ */
+function matchesQualifier(text: string, value: string): boolean {
+    const haystack = text.toLowerCase();
+    const needle = value.toLowerCase();
+    if (!needle.includes('*')) return haystack.includes(needle);
+
+    const pattern = needle.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${pattern}$`).test(haystack);
+}
@@ -0,0 +1,113 @@
+import { Recipe, RecipeStep } from '../types';
+import { Logger } from '../utils';
+import VaultFindReplacePlugin from '../main';
+
+/**
+ * Stores find/replace recipes in plugin settings
+ * Recipes are edited by replacing the settings array, so DEFAULT_SETTINGS is never mutated.
+ */
+export class RecipeManager {
+    private plugin: VaultFindReplacePlugin;
+    private logger: Logger;
+
+    constructor(plugin: VaultFindReplacePlugin) {
+        this.plugin = plugin;
+        this.logger = Logger.create(plugin, 'RecipeManager');
+    }
+
+    /**
+     * Gets all saved recipes in the order they were created
+     * @returns Array of recipes
+     */
+    getRecipes(): Recipe[] {
+        return [...(this.plugin.settings.recipes || [])];
+    }
+
+    /**
+     * Finds a recipe by id
+     * @param id - Recipe id
+     * @returns The recipe, or null if it does not exist
+     */
+    getRecipe(id: string): Recipe | null {
+        return this.getRecipes().find(recipe => recipe.id === id) ?? null;
+    }
+
+    /**
+     * Appends a step to a recipe, creating the recipe if no recipe has that name
+     * @param name - Recipe name (matched case-insensitively)
+     * @param step - The step to append
+     * @returns The updated recipe
+     */
+    async addStep(name: string, step: RecipeStep): Promise<Recipe> {
+        const trimmed = name.trim();
+        const existing = this.getRecipes().find(recipe => recipe.name.toLowerCase() === trimmed.toLowerCase());
+        const recipe: Recipe = existing
+            ? { ...existing, steps: [...existing.steps, step] }
+            : { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name: trimmed, steps: [step] };
+
+        await this.save(existing
+            ? this.getRecipes().map(r => (r.id === recipe.id ? recipe : r))
+            : [...this.getRecipes(), recipe]);
+        this.logger.debug(`Added step ${recipe.steps.length} to recipe "${recipe.name}"`);
+        return recipe;
+    }
+
+    /**
+     * Removes a step from a recipe; the recipe is deleted once it has no steps left
+     * @param id - Recipe id
+     * @param index - Index of the step to remove
+     */
+    async removeStep(id: string, index: number): Promise<void> {
+        await this.update(id, recipe => ({ ...recipe, steps: recipe.steps.filter((_, i) => i !== index) }));
+    }
+
+    /**
+     * Moves a step one position up or down
+     * @param id - Recipe id
+     * @param index - Index of the step to move
+     * @param direction - -1 to move up, 1 to move down
+     */
+    async moveStep(id: string, index: number, direction: -1 | 1): Promise<void> {
+        await this.update(id, recipe => {
+            const target = index + direction;
+            if (target < 0 || target >= recipe.steps.length) return recipe;
+            const steps = [...recipe.steps];
+            [steps[index], steps[target]] = [steps[target], steps[index]];
+            return { ...recipe, steps };
+        });
+    }
+
+    /**
+     * Renames a recipe
+     * @param id - Recipe id
+     * @param name - New name (ignored when empty)
+     */
+    async renameRecipe(id: string, name: string): Promise<void> {
+        if (!name.trim()) return;
+        await this.update(id, recipe => ({ ...recipe, name: name.trim() }));
+    }
+
+    /**
+     * Deletes a recipe
+     * @param id - Recipe id
+     */
+    async deleteRecipe(id: string): Promise<void> {
+        await this.save(this.getRecipes().filter(recipe => recipe.id !== id));
+        this.logger.debug(`Deleted recipe ${id}`);
+    }
+
+    /**
+     * Applies a change to one recipe and saves; recipes left without steps are removed
+     */
+    private async update(id: string, change: (recipe: Recipe) => Recipe): Promise<void> {
+        const recipes = this.getRecipes()
+            .map(recipe => (recipe.id === id ? change(recipe) : recipe))
+            .filter(recipe => recipe.steps.length > 0);
+        await this.save(recipes);
+    }
+
+    private async save(recipes: Recipe[]): Promise<void> {
+        this.plugin.settings.recipes = recipes;
+        await this.plugin.saveSettings();
+    }
+}
@@ -0,0 +1,153 @@
+import { App, TFile } from 'obsidian';
+import {
+    Recipe,
+    RecipePreview,
+    RecipeStepSummary,
+    SearchResult,
+    FileReplacementPreview,
+    PreviewApproval,
+    ReplacementResult
+} from '../types';
+import { SearchEngine } from './searchEngine';
+import { ReplacementEngine } from './replacementEngine';
+import { Logger, computeHunks, findOpenEditor } from '../utils';
+import VaultFindReplacePlugin from '../main';
+
+/**
+ * Runs a recipe's find/replace steps in sequence as one operation
+ * Every step searches and replaces in memory, on the output of the previous step, so the
+ * combined result can be previewed as a single diff, written once per file and undone in one go.
+ */
+export class RecipeRunner {
+    private app: App;
+    private logger: Logger;
+    private searchEngine: SearchEngine;
+    private replacementEngine: ReplacementEngine;
+
+    constructor(app: App, plugin: VaultFindReplacePlugin, searchEngine: SearchEngine, replacementEngine: ReplacementEngine) {
+        this.app = app;
+        this.logger = Logger.create(plugin, 'RecipeRunner');
+        this.searchEngine = searchEngine;
+        this.replacementEngine = replacementEngine;
+    }
+
+    /**
+     * Computes the combined effect of every step without writing anything (dry run)
+     * Steps whose query is invalid are skipped and reported in their summary.
+     * @param recipe - The recipe to run
+     * @returns Combined per-file preview and a summary per step
+     */
+    async preview(recipe: Recipe): Promise<RecipePreview> {
+        const originals = new Map<string, string>();
+        const contents = new Map<string, string>();
+        const filesByPath = new Map<string, TFile>();
+        const matchesByPath = new Map<string, SearchResult[]>();
+        const steps: RecipeStepSummary[] = [];
+        const errors: string[] = [];
+
+        for (const [index, step] of recipe.steps.entries()) {
+            let problem = '';
+            if (!this.searchEngine.validateSearchQuery(step.query, step.options, queryError => {
+                problem = ` (${queryError.message} at column ${queryError.position + 1})`;
+            })) {
+                const error = `Step ${index + 1} skipped: invalid search query "${step.query}"${problem}`;
+                steps.push({ step, replacements: 0, files: 0, error });
+                errors.push(error);
+                continue;
+            }
+
+            // Steps work on note text; property edits go through processFrontMatter one file at a time
+            if (step.options.searchProperties) {
+                const error = `Step ${index + 1} skipped: properties mode is not supported in recipes`;
+                steps.push({ step, replacements: 0, files: 0, error });
+                errors.push(error);
+                continue;
+            }
+
+            // Recipes match on the main thread, where a runaway regex cannot be stopped
+            const hazard = this.searchEngine.getRegexHazard(step.query, step.options, true);
+            if (hazard) {
+                const error = `Step ${index + 1} skipped: ${hazard}`;
+                steps.push({ step, replacements: 0, files: 0, error });
+                errors.push(error);
+                continue;
+            }
+
+            try {
+                const results: SearchResult[] = [];
+                for (const file of this.searchEngine.getSearchableFiles(step.filters)) {
+                    let content = contents.get(file.path);
+                    if (content === undefined) {
+                        content = await this.readCurrent(file);
+                        originals.set(file.path, content);
+                        contents.set(file.path, content);
+                        filesByPath.set(file.path, file);
+                    }
+                    results.push(...this.searchEngine.searchContent(file, content, step.query, step.options));
+                }
+                this.searchEngine.sortResults(results);
+
+                const { updated, errors: functionErrors } = await this.replacementEngine.replaceInContents(results, contents, step.replacement, step.options);
+                errors.push(...functionErrors.map(error => `Step ${index + 1}: ${error}`));
+                let changedFiles = 0;
+                for (const [path, content] of Array.from(updated)) {
+                    if (content !== contents.get(path)) changedFiles++;
+                    contents.set(path, content);
+                }
+                for (const result of results) {
+                    const matches = matchesByPath.get(result.file.path) ?? [];
+                    matches.push(result);
+                    matchesByPath.set(result.file.path, matches);
+                }
+
+                steps.push({ step, replacements: results.length, files: changedFiles });
+            } catch (error) {
+                const message = `Step ${index + 1} failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+                steps.push({ step, replacements: 0, files: 0, error: message });
+                errors.push(message);
+                this.logger.error(message, error);
+            }
+        }
+
+        // Files in the same order as search results
+        const files: FileReplacementPreview[] = [];
+        for (const [path, before] of Array.from(originals).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+            const after = contents.get(path) ?? before;
+            const file = filesByPath.get(path);
+            if (!file || after === before) continue;
+            files.push({ file, before, after, matches: matchesByPath.get(path) ?? [], hunks: computeHunks(before, after) });
+        }
+
+        this.logger.debug(`Recipe "${recipe.name}" preview: ${files.length} files changed by ${recipe.steps.length} steps`);
+        return {
+            recipe,
+            steps,
+            preview: {
+                mode: 'vault',
+                pattern: `Recipe: ${recipe.name}`,
+                replaceText: recipe.steps.map(step => `${step.query} → ${step.replacement}`).join('; '),
+                files,
+                errors,
+                conflicts: []
+            }
+        };
+    }
+
+    /**
+     * Writes the approved changes of a recipe preview as a single undoable operation
+     * @param recipePreview - Preview returned by preview()
+     * @param approval - Approved hunk indices per file path
+     * @returns ReplacementResult for the applied changes
+     */
+    async apply(recipePreview: RecipePreview, approval: PreviewApproval): Promise<ReplacementResult> {
+        return this.replacementEngine.applyPreview(recipePreview.preview, approval);
+    }
+
+    /**
+     * Reads the current content of a file, preferring an open editor over the saved file
+     */
+    private async readCurrent(file: TFile): Promise<string> {
+        const editor = findOpenEditor(this.app, file);
+        return editor ? editor.getValue() : this.app.vault.read(file);
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * Regex safety
+ * Static checks for patterns that can backtrack catastrophically (ReDoS), such as `(a+)+$`, which
+ * take exponential time on lines that almost match. Search runs such patterns anyway, but in the
+ * worker each file has a time budget (see core/searchWorkerClient), so the user is warned first.
+ * Where a regex would run on the main thread without a worker having timed it, such patterns are
+ * refused (see SearchEngine.getRegexHazard).
+ *
+ * Must not import Obsidian: it runs next to the content matcher.
+ */
+
+/**
+ * A quantifier in a pattern
+ * - repeats: can match its atom more than once
+ * - variable: can match its atom a varying number of times (*, +, {n,}, {n,m} with m > n)
+ */
+interface Quantifier {
+    end: number;
+    repeats: boolean;
+    variable: boolean;
+}
+
+/**
+ * Finds a group that is repeated while containing a variable quantifier, e.g. `(a+)+` or `(\w*\s?)*`
+ * Conservative: alternations with overlapping branches such as `(a|a)*` are not detected.
+ * @param pattern - Regex source
+ * @returns The offending part of the pattern, or null when none is found
+ */
+export function findNestedQuantifier(pattern: string): string | null {
+    const open: { start: number; variable: boolean }[] = [];
+    let closed: { start: number; variable: boolean } | null = null; // Group that ended right before i
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        const quantifier = readQuantifier(pattern, i);
+
+        if (quantifier) {
+            if (closed && closed.variable && quantifier.repeats) {
+                return pattern.slice(closed.start, quantifier.end);
+            }
+            if (quantifier.variable && open.length > 0) {
+                open[open.length - 1].variable = true;
+            }
+            closed = null;
+            i = quantifier.end - 1;
+            // A lazy marker belongs to the quantifier
+            if (pattern[i + 1] === '?') i++;
+            continue;
+        }
+
+        closed = null;
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            // Skip the character class (a ']' right after '[' or '[^' is literal)
+            let j = i + 1;
+            if (pattern[j] === '^') j++;
+            if (pattern[j] === ']') j++;
+            while (j < pattern.length && pattern[j] !== ']') j += pattern[j] === '\\' ? 2 : 1;
+            i = j;
+        } else if (char === '(') {
+            open.push({ start: i, variable: false });
+            // Skip the group's modifier: (?: (?= (?! (?<= (?<! (?<name>
+            if (pattern[i + 1] === '?') {
+                if (pattern[i + 2] === '<' && pattern[i + 3] !== '=' && pattern[i + 3] !== '!') {
+                    i = Math.max(i, pattern.indexOf('>', i));
+                } else {
+                    i += pattern[i + 2] === '<' ? 3 : 2;
+                }
+            }
+        } else if (char === ')' && open.length > 0) {
+            closed = open.pop() ?? null;
+            // A variable quantifier inside a nested group makes the enclosing group variable too
+            if (closed?.variable && open.length > 0) open[open.length - 1].variable = true;
+        }
+    }
+    return null;
+}
+
+/**
+ * Reads the quantifier starting at a position
+ * @returns The quantifier, or null when there is none at i
+ */
+function readQuantifier(pattern: string, i: number): Quantifier | null {
+    const char = pattern[i];
+    if (char === '*' || char === '+') return { end: i + 1, repeats: true, variable: true };
+    if (char === '?') return { end: i + 1, repeats: false, variable: true };
+    if (char !== '{') return null;
+
+    const range = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+    if (!range) return null;
+
+    const min = Number(range[1]);
+    const max = range[2] === undefined ? min : range[3] === '' ? Infinity : Number(range[3]);
+    return { end: i + range[0].length, repeats: max > 1, variable: max > min };
+}
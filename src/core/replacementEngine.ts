@@ -1,9 +1,99 @@
 import { App, Notice, TFile } from 'obsidian';
-import { SearchResult, SearchOptions, ReplacementMode, ReplacementTarget, ReplacementResult, AffectedResults } from '../types';
+import {
+    SearchResult,
+    SearchOptions,
+    ReplacementMode,
+    ReplacementTarget,
+    ReplacementResult,
+    AffectedResults,
+    JournalFileSnapshot,
+    ReplacementPreview,
+    FileReplacementPreview,
+    PreviewApproval,
+    DiffHunk,
+    TextEdit,
+    ReplacementValidation,
+    ReplacementTokenContext,
+    ReplacementFunctionCall,
+    ReplacementFunctionOutcome
+} from '../types';
 import { SearchEngine } from './searchEngine';
-import { Logger } from '../utils';
+import { expandReplacementTemplate, findGroupReferences } from './replacementTemplate';
+import { expandComputedTokens, resolveComputedToken } from './replacementTokens';
+import { filterToScope } from './markdownSegmenter';
+import { setPropertyValue, propertyValueOffset } from './frontmatterProperties';
+import { lookupMapping } from './mappingTable';
+import { usesApproximateMatching, findApproximateMatches } from './approximateMatch';
+import { compileReplacementFunction, toReplacementFunctionCall } from './replacementFunction';
+import { ReplacementFunctionClient } from './replacementFunctionClient';
+import { Logger, pluralize, applyCaseStyle, computeHunks, applyHunks, hunksToEdits, hashContent, applyTextEdits, findOpenEditor, applyEditsToEditor } from '../utils';
 import VaultFindReplacePlugin from '../main';
 
+/**
+ * Matches grouped by file together with UI update metadata
+ */
+interface MatchGroups {
+    grouped: Map<TFile, SearchResult[]>;
+    replacedResultIndices: number[];
+    modifiedFiles: Set<TFile>;
+    modifiedLines: Map<TFile, Set<number>>;
+}
+
+/**
+ * Matches checked against a file's current content
+ * `matches` is null when the file changed since the search and a match could not be re-located.
+ */
+interface ReconciledMatches {
+    matches: SearchResult[] | null;
+    drifted: boolean;
+}
+
+/**
+ * Outcome of replacing the matches in a single file
+ */
+interface FileReplacementOutcome {
+    snapshot: JournalFileSnapshot | null; // null when the file was skipped as a conflict
+    drifted: boolean;
+    edits: TextEdit[]; // Edits written, with offsets into the content before (empty for properties)
+}
+
+/**
+ * A replaced match whose replacement text is expanded once all edits of the file are known
+ */
+interface PendingEdit {
+    from: number;
+    to: number;
+    match: RegExpExecArray;
+    input: string; // The string the match was found in (line or whole content)
+}
+
+/**
+ * Function mode: the calls an operation makes, collected by a dry run (see prepareFunctionValues)
+ */
+interface RecordedCalls {
+    keys: string[];
+    calls: ReplacementFunctionCall[];
+}
+
+/**
+ * Function mode: what the calls of an operation returned, by call
+ * `compiled` is false when the expression does not compile; every match then keeps its text.
+ */
+interface FunctionValues {
+    compiled: boolean;
+    outcomes: Map<string, { input: string; outcome: ReplacementFunctionOutcome }>;
+}
+
+/**
+ * Function mode: the replacement function state of one operation (see prepareFunctionValues)
+ * Passed down to every match the operation replaces, so operations that overlap keep their own.
+ */
+interface FunctionRun {
+    recorded: RecordedCalls | null; // Set while the operation is dry-run
+    values: FunctionValues | null;
+    errors: string[];               // One per failing match (plus one if the expression does not compile)
+}
+
 /**
  * Handles all replacement operations and replacement text expansion
  */
@@ -13,11 +103,15 @@ export class ReplacementEngine {
     private logger: Logger;
     private searchEngine: SearchEngine;
 
+    // Function mode: expressions run in a worker, before the operation that uses their results
+    private functionClient: ReplacementFunctionClient;
+
     constructor(app: App, plugin: VaultFindReplacePlugin, searchEngine: SearchEngine) {
         this.app = app;
         this.plugin = plugin;
         this.logger = Logger.create(plugin, 'ReplacementEngine');
         this.searchEngine = searchEngine;
+        this.functionClient = new ReplacementFunctionClient(this.logger);
     }
 
     /**
@@ -29,6 +123,7 @@ export class ReplacementEngine {
      * @param replaceText - The replacement text
      * @param searchOptions - Current search options
      * @param target - Optional target (SearchResult for "one", TFile for "file")
+     * @param signal - Optional abort signal; files not yet written when it fires are left unchanged
      * @returns ReplacementResult with metadata for incremental UI updates
      */
     async dispatchReplace(
@@ -37,10 +132,381 @@ export class ReplacementEngine {
         selectedIndices: Set<number>,
         replaceText: string,
         searchOptions: SearchOptions,
-        target?: ReplacementTarget
+        target?: ReplacementTarget,
+        signal?: AbortSignal
     ): Promise<ReplacementResult> {
         const startTime = Date.now();
+        const hazard = this.getRegexHazard(results, searchOptions);
+        if (hazard) {
+            this.logger.warn(`Replacement refused: ${hazard}`);
+            new Notice(hazard);
+            return { mode, totalReplacements: 0, filesModified: 0, duration: Date.now() - startTime, errors: [hazard], conflicts: [] };
+        }
+
+        const { grouped, replacedResultIndices, modifiedFiles, modifiedLines } =
+            this.groupMatches(mode, results, selectedIndices, target);
+        const counters = this.indexResults(results);
+        const replaceAllInFile = mode === "file" || mode === "vault";
+        const functions = await this.prepareFunctionValues(replaceText, searchOptions, async run => {
+            for (const [file, matches] of Array.from(grouped)) {
+                if (searchOptions.searchProperties) {
+                    this.computePropertyValues(file, matches, replaceText, searchOptions, replaceAllInFile, counters, run);
+                } else {
+                    await this.dryRunReplacements(file, matches, replaceText, searchOptions, replaceAllInFile, counters, run);
+                }
+            }
+        });
+
+        // Process each file's replacements
+        let total = 0;
+        let drifted = false;
+        const errors: string[] = [];
+        const conflicts: string[] = [];
+        const snapshots: JournalFileSnapshot[] = [];
+        const skipped: string[] = []; // Paths of files left unchanged because the operation was cancelled
+
+        for (const [file, matches] of Array.from(grouped)) {
+            if (signal?.aborted) {
+                skipped.push(file.path);
+                modifiedFiles.delete(file);
+                modifiedLines.delete(file);
+                continue;
+            }
+            try {
+                const outcome = searchOptions.searchProperties
+                    ? await this.applyPropertyReplacements(file, matches, replaceText, searchOptions, replaceAllInFile, counters, functions)
+                    : await this.applyReplacements(file, matches, replaceText, searchOptions, replaceAllInFile, counters, functions);
+                drifted = drifted || outcome.drifted;
+                if (!outcome.snapshot) {
+                    conflicts.push(file.path);
+                    errors.push(this.conflictMessage(file));
+                    // Nothing was written - the UI must keep these results
+                    modifiedFiles.delete(file);
+                    modifiedLines.delete(file);
+                    continue;
+                }
+                snapshots.push(outcome.snapshot);
+                total += matches.length;
+                if (searchOptions.searchProperties) {
+                    // Result lines are property key lines, not the text that changed - nothing to re-validate
+                    modifiedLines.set(file, new Set());
+                } else if (!outcome.drifted) {
+                    const replaced = new Set(replacedResultIndices.map(i => results[i]));
+                    const remaining = results.filter(r => r.file.path === file.path && !replaced.has(r));
+                    modifiedLines.set(file, this.refreshResults(outcome.snapshot, outcome.edits, remaining));
+                }
+            } catch (error) {
+                const errorMsg = `Failed to replace matches in ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+                errors.push(errorMsg);
+                this.logger.error(errorMsg, error);
+            }
+        }
+
+        errors.push(...functions.errors);
+
+        // Record the operation so it can be undone later
+        await this.plugin.replacementJournal.record({
+            mode,
+            pattern: results[0]?.pattern ?? '',
+            replaceText: this.describeReplaceText(replaceText, searchOptions),
+            totalReplacements: total,
+            files: snapshots
+        });
+
+        // Show success notification
+        const cancelled = skipped.length > 0;
+        if (cancelled) {
+            const message = `Replacement cancelled: ${total} ${pluralize(total, 'match', 'matches')} replaced, ${skipped.length} ${pluralize(skipped.length, 'file')} left unchanged`;
+            this.logger.info(message);
+            new Notice(message);
+        } else {
+            this.showReplacementNotification(mode, total);
+        }
+
+        // Build AffectedResults metadata
+        const affectedResults: AffectedResults = {
+            replacedResultIndices: replacedResultIndices.filter(i => !conflicts.includes(results[i].file.path) && !skipped.includes(results[i].file.path)),
+            modifiedFiles,
+            modifiedLines,
+            // Complex replacements that might affect other results require full revalidation
+            requiresFullRevalidation: drifted || (searchOptions.useRegex && (
+                replaceText.includes('$') || // Capture groups or special tokens
+                mode === "vault" // Vault-wide changes might have complex interactions
+            ))
+        };
+
+        const duration = Date.now() - startTime;
+
+        return {
+            mode,
+            totalReplacements: total,
+            filesModified: modifiedFiles.size,
+            duration,
+            errors,
+            conflicts,
+            affectedResults,
+            cancelled
+        };
+    }
+
+    /**
+     * Computes a replacement operation in memory without writing anything (dry run)
+     * Uses the same grouping and replacement logic as dispatchReplace so the preview is exact.
+     * @param mode - Type of replacement: "one" | "selected" | "file" | "vault"
+     * @param results - All search results
+     * @param selectedIndices - Set of selected result indices
+     * @param replaceText - The replacement text
+     * @param searchOptions - Current search options
+     * @param target - Optional target (SearchResult for "one", TFile for "file")
+     * @param signal - Optional abort signal; when it fires before every file was compared, the preview is empty and cancelled
+     * @returns Per-file before/after content and diff hunks; unchanged files are omitted
+     */
+    async previewReplace(
+        mode: ReplacementMode,
+        results: SearchResult[],
+        selectedIndices: Set<number>,
+        replaceText: string,
+        searchOptions: SearchOptions,
+        target?: ReplacementTarget,
+        signal?: AbortSignal
+    ): Promise<ReplacementPreview> {
+        const hazard = this.getRegexHazard(results, searchOptions);
+        if (hazard) {
+            this.logger.warn(`Preview refused: ${hazard}`);
+            return {
+                mode,
+                pattern: results[0]?.pattern ?? '',
+                replaceText: this.describeReplaceText(replaceText, searchOptions),
+                files: [],
+                errors: [hazard],
+                conflicts: []
+            };
+        }
+
+        const { grouped } = this.groupMatches(mode, results, selectedIndices, target);
+        const counters = this.indexResults(results);
+        const replaceAllInFile = mode === "file" || mode === "vault";
+        const functions = await this.prepareFunctionValues(replaceText, searchOptions, async run => {
+            for (const [file, matches] of Array.from(grouped)) {
+                if (signal?.aborted) return;
+                await this.dryRunReplacements(file, matches, replaceText, searchOptions, replaceAllInFile, counters, run);
+            }
+        });
+        const files: FileReplacementPreview[] = [];
+        const errors: string[] = [];
+        const conflicts: string[] = [];
+
+        for (const [file, searchMatches] of Array.from(grouped)) {
+            if (signal?.aborted) {
+                this.logger.info('Replacement preview cancelled');
+                return {
+                    mode,
+                    pattern: results[0]?.pattern ?? '',
+                    replaceText: this.describeReplaceText(replaceText, searchOptions),
+                    files: [],
+                    errors: [],
+                    conflicts: [],
+                    cancelled: true
+                };
+            }
+            try {
+                const before = await this.readCurrent(file);
+                const { matches } = this.reconcileMatches(file, before, searchMatches);
+                if (!matches) {
+                    conflicts.push(file.path);
+                    errors.push(this.conflictMessage(file));
+                    continue;
+                }
+
+                const after = this.computeReplacement(file, before, matches, replaceText, searchOptions, replaceAllInFile, counters, functions);
+                if (after !== before) {
+                    files.push({ file, before, after, matches, hunks: computeHunks(before, after) });
+                }
+            } catch (error) {
+                const errorMsg = `Failed to preview replacements in ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+                errors.push(errorMsg);
+                this.logger.error(errorMsg, error);
+            }
+        }
+
+        errors.push(...functions.errors);
+        this.logger.debug(`Preview computed for ${files.length} files (${errors.length} errors)`);
+        return {
+            mode,
+            pattern: results[0]?.pattern ?? '',
+            replaceText: this.describeReplaceText(replaceText, searchOptions),
+            files,
+            errors,
+            conflicts
+        };
+    }
+
+    /**
+     * Replaces every match in content that is already in memory, without reading or writing files
+     * Lets several operations (recipe steps) be chained before anything is written.
+     * @param results - Matches found in `contents`, sorted like performSearch results
+     * @param contents - Current content by file path
+     * @param replaceText - The replacement text
+     * @param searchOptions - Search options the matches were found with
+     * @returns Updated content by file path, for files that had matches, and the errors of the
+     *   replacement function (one per failing match)
+     */
+    async replaceInContents(
+        results: SearchResult[],
+        contents: Map<string, string>,
+        replaceText: string,
+        searchOptions: SearchOptions
+    ): Promise<{ updated: Map<string, string>; errors: string[] }> {
+        const counters = this.indexResults(results);
+        const grouped = new Map<TFile, SearchResult[]>();
+        for (const result of results) {
+            const matches = grouped.get(result.file) ?? [];
+            matches.push(result);
+            grouped.set(result.file, matches);
+        }
+
+        const replaceAll = (functions: FunctionRun) => {
+            const updated = new Map<string, string>();
+            for (const [file, matches] of Array.from(grouped)) {
+                const content = contents.get(file.path);
+                if (content === undefined) continue;
+                updated.set(file.path, this.computeReplacement(file, content, matches, replaceText, searchOptions, true, counters, functions));
+            }
+            return updated;
+        };
+        const functions = await this.prepareFunctionValues(replaceText, searchOptions, async run => { replaceAll(run); });
+        return { updated: replaceAll(functions), errors: functions.errors };
+    }
+
+    /**
+     * Stops the replacement function worker
+     */
+    dispose(): void {
+        this.functionClient.dispose();
+    }
+
+    /**
+     * Writes the approved hunks of a dry-run preview
+     * Files modified since the preview was computed are refused and reported in errors.
+     * @param preview - Preview returned by previewReplace
+     * @param approval - Approved hunk indices per file path
+     * @param signal - Optional abort signal; files not yet written when it fires are left unchanged
+     * @returns ReplacementResult for the applied changes
+     */
+    async applyPreview(preview: ReplacementPreview, approval: PreviewApproval, signal?: AbortSignal): Promise<ReplacementResult> {
+        const startTime = Date.now();
+        let total = 0;
+        const errors: string[] = [];
+        const snapshots: JournalFileSnapshot[] = [];
+        const modifiedFiles = new Set<TFile>();
+        const modifiedLines = new Map<TFile, Set<number>>();
+        const skipped: string[] = []; // Paths of approved files left unchanged because the operation was cancelled
+
+        for (const filePreview of preview.files) {
+            const { file, before, hunks, matches } = filePreview;
+            const approved = approval.get(file.path);
+            if (!approved || approved.size === 0) continue;
+            if (signal?.aborted) {
+                skipped.push(file.path);
+                continue;
+            }
+
+            try {
+                const stale = `Skipped ${file.path}: file changed since the preview`;
+                const allApproved = hunks.every(h => approved.has(h.index));
+                const updated = allApproved ? filePreview.after : applyHunks(before, hunks, approved);
+
+                const editor = findOpenEditor(this.app, file);
+                if (editor ? editor.getValue() !== before : (await this.app.vault.read(file)) !== before) {
+                    errors.push(stale);
+                    this.logger.warn(stale);
+                    continue;
+                }
+
+                if (editor) {
+                    // Only the changed lines are edited so the cursor and undo history stay meaningful
+                    applyEditsToEditor(editor, hunksToEdits(before, hunks, approved));
+                } else {
+                    await this.app.vault.process(file, data => {
+                        if (data !== before) throw new Error('file changed since the preview');
+                        return updated;
+                    });
+                }
+
+                snapshots.push({ path: file.path, before, after: updated });
+                total += allApproved ? matches.length : this.countMatchesInHunks(matches, hunks, approved);
+                modifiedFiles.add(file);
+                modifiedLines.set(file, new Set(matches.map(m => m.line)));
+            } catch (error) {
+                const errorMsg = `Failed to replace matches in ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+                errors.push(errorMsg);
+                this.logger.error(errorMsg, error);
+            }
+        }
+
+        // Record the operation so it can be undone later
+        await this.plugin.replacementJournal.record({
+            mode: preview.mode,
+            pattern: preview.pattern,
+            replaceText: preview.replaceText,
+            totalReplacements: total,
+            files: snapshots
+        });
+
+        const cancelled = skipped.length > 0;
+        if (cancelled) {
+            const message = `Replacement cancelled: ${total} ${pluralize(total, 'match', 'matches')} replaced, ${skipped.length} ${pluralize(skipped.length, 'file')} left unchanged`;
+            this.logger.info(message);
+            new Notice(message);
+        } else {
+            this.showReplacementNotification(preview.mode, total);
+        }
+
+        return {
+            mode: preview.mode,
+            totalReplacements: total,
+            filesModified: modifiedFiles.size,
+            duration: Date.now() - startTime,
+            errors,
+            conflicts: preview.conflicts,
+            affectedResults: {
+                replacedResultIndices: [],
+                modifiedFiles,
+                modifiedLines,
+                // Partial approval leaves an arbitrary subset replaced - re-search to be safe
+                requiresFullRevalidation: true
+            },
+            cancelled
+        };
+    }
+
+    /**
+     * Counts matches whose starting line falls inside an approved hunk
+     */
+    private countMatchesInHunks(matches: SearchResult[], hunks: DiffHunk[], approved: Set<number>): number {
+        return matches.filter(match =>
+            hunks.some(h =>
+                approved.has(h.index) &&
+                match.line >= h.oldStart &&
+                match.line < h.oldStart + h.oldLength
+            )
+        ).length;
+    }
 
+    /**
+     * Determines which results a replacement mode affects and groups them by file
+     * @param mode - Type of replacement: "one" | "selected" | "file" | "vault"
+     * @param results - All search results
+     * @param selectedIndices - Set of selected result indices
+     * @param target - Optional target (SearchResult for "one", TFile for "file")
+     * @returns Matches grouped by file plus metadata for incremental UI updates
+     */
+    private groupMatches(
+        mode: ReplacementMode,
+        results: SearchResult[],
+        selectedIndices: Set<number>,
+        target?: ReplacementTarget
+    ): MatchGroups {
         // Group matches by file for efficient processing and track metadata
         const grouped = new Map<TFile, SearchResult[]>();
         const replacedResultIndices: number[] = [];
@@ -127,158 +593,477 @@ export class ReplacementEngine {
             }
         }
 
-        // Process each file's replacements
-        let total = 0;
-        const errors: string[] = [];
+        return { grouped, replacedResultIndices, modifiedFiles, modifiedLines };
+    }
 
-        for (const [file, matches] of Array.from(grouped)) {
-            try {
-                const replaceAllInFile = mode === "file" || mode === "vault";
-                await this.applyReplacements(file, matches, replaceText, searchOptions, replaceAllInFile);
-                total += matches.length;
-            } catch (error) {
-                const errorMsg = `Failed to replace matches in ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-                errors.push(errorMsg);
-                this.logger.error(errorMsg, error);
+    /**
+     * Applies replacement text to specified matches in a file
+     * Files open in a pane are edited through the editor (one change per match, undoable with Ctrl+Z);
+     * other files are rewritten atomically with vault.process.
+     * @param file - The file to modify
+     * @param matches - Array of SearchResult objects to replace
+     * @param replaceText - The replacement text
+     * @param searchOptions - Current search options
+     * @param replaceAllInFile - If true, replaces all matches in file; if false, only specified matches
+     * @returns Snapshot of the content before and after the replacement (null if skipped as a conflict)
+     */
+    private async applyReplacements(
+        file: TFile,
+        matches: SearchResult[],
+        replaceText: string,
+        searchOptions: SearchOptions,
+        replaceAllInFile: boolean = false,
+        counters?: Map<string, number>,
+        functions?: FunctionRun
+    ): Promise<FileReplacementOutcome> {
+        try {
+            const editor = findOpenEditor(this.app, file);
+            if (editor) {
+                // The editor holds the latest text, including keystrokes not yet saved to disk
+                const content = editor.getValue();
+                const reconciled = this.reconcileMatches(file, content, matches);
+                if (!reconciled.matches) {
+                    return { snapshot: null, drifted: true, edits: [] };
+                }
+
+                const edits = this.computeEdits(file, content, reconciled.matches, replaceText, searchOptions, replaceAllInFile, counters, functions);
+                applyEditsToEditor(editor, edits);
+                this.logger.debug(`Applied ${edits.length} edits to open editor for ${file.path}`);
+                return { snapshot: { path: file.path, before: content, after: editor.getValue() }, drifted: reconciled.drifted, edits };
             }
+
+            let outcome: FileReplacementOutcome = { snapshot: null, drifted: true, edits: [] };
+            await this.app.vault.process(file, content => {
+                const reconciled = this.reconcileMatches(file, content, matches);
+                if (!reconciled.matches) {
+                    return content; // Conflict - leave the file untouched
+                }
+
+                const edits = this.computeEdits(file, content, reconciled.matches, replaceText, searchOptions, replaceAllInFile, counters, functions);
+                const updated = applyTextEdits(content, edits);
+                outcome = { snapshot: { path: file.path, before: content, after: updated }, drifted: reconciled.drifted, edits };
+                return updated;
+            });
+            return outcome;
+        } catch (error) {
+            // Handle file operation errors gracefully
+            this.logger.error(`Failed to replace content in file ${file.path}:`, error);
+            throw new Error(`Replacement failed for file "${file.path}": ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
+    }
 
-        // Show success notification
-        this.showReplacementNotification(mode, total);
+    /**
+     * Replaces matches in the frontmatter property values of one note (properties mode)
+     * Each value is rewritten through processFrontMatter, which keeps the YAML valid. If any matched
+     * value changed since the search, nothing is written and the file is reported as a conflict.
+     * @param file - The note to modify
+     * @param matches - Property matches in this note
+     * @param replaceText - The replacement text
+     * @param searchOptions - Search options the matches were found with
+     * @param replaceAllInFile - Whether to replace every match in the matched values
+     * @param counters - Position of each search result, for `${counter}` tokens
+     * @param functions - Replacement function state of the operation (function mode)
+     * @returns Snapshot of the note before and after, or a null snapshot on conflict
+     */
+    private async applyPropertyReplacements(
+        file: TFile,
+        matches: SearchResult[],
+        replaceText: string,
+        searchOptions: SearchOptions,
+        replaceAllInFile: boolean,
+        counters?: Map<string, number>,
+        functions?: FunctionRun
+    ): Promise<FileReplacementOutcome> {
+        const values = this.computePropertyValues(file, matches, replaceText, searchOptions, replaceAllInFile, counters, functions);
+        const before = await this.app.vault.read(file);
+        let conflict = false;
 
-        // Build AffectedResults metadata
-        const affectedResults: AffectedResults = {
-            replacedResultIndices,
-            modifiedFiles,
-            modifiedLines,
-            // Complex replacements that might affect other results require full revalidation
-            requiresFullRevalidation: searchOptions.useRegex && (
-                replaceText.includes('$') || // Capture groups or special tokens
-                mode === "vault" // Vault-wide changes might have complex interactions
-            )
-        };
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                for (const { property, value } of values) {
+                    if (!setPropertyValue(frontmatter, property, value)) {
+                        conflict = true;
+                        throw new Error('property changed since the search');
+                    }
+                }
+            });
+        } catch (error) {
+            if (conflict) {
+                return { snapshot: null, drifted: true, edits: [] };
+            }
+            this.logger.error(`Failed to update properties in file ${file.path}:`, error);
+            throw new Error(`Replacement failed for file "${file.path}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
 
-        const duration = Date.now() - startTime;
+        return { snapshot: { path: file.path, before, after: await this.app.vault.read(file) }, drifted: false, edits: [] };
+    }
 
-        return {
-            mode,
-            totalReplacements: total,
-            filesModified: modifiedFiles.size,
-            duration,
-            errors,
-            affectedResults
+    /**
+     * Computes the new value of each matched property value of one note (properties mode)
+     * @param file - The note the matches belong to
+     * @param matches - Property matches in this note
+     * @param replaceText - The replacement text
+     * @param searchOptions - Search options the matches were found with
+     * @param replaceAllInFile - Whether to replace every match in the matched values
+     * @param counters - Position of each search result, for `${counter}` tokens
+     * @param functions - Replacement function state of the operation (function mode)
+     * @returns Each matched value with its replacement
+     */
+    private computePropertyValues(
+        file: TFile,
+        matches: SearchResult[],
+        replaceText: string,
+        searchOptions: SearchOptions,
+        replaceAllInFile: boolean,
+        counters?: Map<string, number>,
+        functions?: FunctionRun
+    ): { property: NonNullable<SearchResult['property']>; value: string }[] {
+        // Group matches by value: each value is replaced as a single line of text
+        const byValue = new Map<string, SearchResult[]>();
+        for (const match of matches) {
+            if (!match.property) continue;
+            const key = `${match.property.key}#${match.property.index ?? ''}`;
+            byValue.set(key, [...(byValue.get(key) ?? []), match]);
+        }
+
+        const valueOptions: SearchOptions = { ...searchOptions, multiline: false, markdownScope: undefined, selection: undefined };
+        return Array.from(byValue.values()).map(valueMatches => {
+            const property = valueMatches[0].property as NonNullable<SearchResult['property']>;
+            const offset = propertyValueOffset(property);
+
+            // Positions within the value, keeping each match's place in the results for ${counter}
+            const local = valueMatches.map(m => ({ ...m, line: 0, content: property.value, col: (m.col ?? 0) - offset }));
+            const localCounters = new Map<string, number>();
+            valueMatches.forEach((m, i) => {
+                const index = counters?.get(this.counterKey(file.path, m.line, m.col ?? 0));
+                if (index !== undefined) localCounters.set(this.counterKey(file.path, 0, local[i].col), index);
+            });
+
+            return { property, value: this.computeReplacement(file, property.value, local, replaceText, valueOptions, replaceAllInFile, localCounters, functions) };
+        });
+    }
+
+    /**
+     * Computes the edits of one file without writing them, so the replacement function calls they
+     * make can be recorded (see prepareFunctionValues); files that cannot be read or changed since
+     * the search are left to the operation to report
+     */
+    private async dryRunReplacements(
+        file: TFile,
+        matches: SearchResult[],
+        replaceText: string,
+        searchOptions: SearchOptions,
+        replaceAllInFile: boolean,
+        counters: Map<string, number>,
+        functions: FunctionRun
+    ): Promise<void> {
+        try {
+            const content = await this.readCurrent(file);
+            const reconciled = this.reconcileMatches(file, content, matches);
+            if (reconciled.matches) {
+                this.computeEdits(file, content, reconciled.matches, replaceText, searchOptions, replaceAllInFile, counters, functions);
+            }
+        } catch (error) {
+            this.logger.debug(`Could not dry-run the replacements in ${file.path}:`, error);
+        }
+    }
+
+    /**
+     * Says why the search regex of an operation must not be run again on the main thread
+     * (the search worker ran over its time budget with it, see SearchEngine.getRegexHazard)
+     * @param results - Results the operation replaces
+     * @param searchOptions - Search options the results were found with
+     * @returns Why the operation is refused, or null when it may run
+     */
+    private getRegexHazard(results: SearchResult[], searchOptions: SearchOptions): string | null {
+        const pattern = results[0]?.pattern;
+        return pattern ? this.searchEngine.getRegexHazard(pattern, searchOptions) : null;
+    }
+
+    /**
+     * Reads the current content of a file, preferring an open editor over the saved file
+     * @param file - The file to read
+     * @returns The latest content, including unsaved editor changes
+     */
+    private async readCurrent(file: TFile): Promise<string> {
+        const editor = findOpenEditor(this.app, file);
+        return editor ? editor.getValue() : this.app.vault.read(file);
+    }
+
+    /**
+     * Checks search results against the file's current content
+     * If the file changed since the search, each match is re-located by its line text:
+     * the nearest line identical to the one that was searched wins. A match whose line
+     * disappeared, or appears equally close in two places, makes the whole file a conflict.
+     * @param file - The file the content belongs to
+     * @param content - Current file content
+     * @param matches - Search results for this file
+     * @returns Matches adjusted to the current content, or null matches on conflict
+     */
+    private reconcileMatches(file: TFile, content: string, matches: SearchResult[]): ReconciledMatches {
+        const fingerprint = matches[0]?.fingerprint;
+        if (!fingerprint || (fingerprint.size === content.length && fingerprint.hash === hashContent(content))) {
+            return { matches, drifted: false };
+        }
+
+        this.logger.debug(`${file.path} changed since the search, re-locating ${matches.length} matches`);
+        const lines = content.split('\n');
+        const relocated: SearchResult[] = [];
+
+        for (const match of matches) {
+            const line = this.relocateLine(lines, match);
+            if (line === null) {
+                this.logger.warn(`Could not re-locate match in ${file.path} - line ${match.line}, text: "${match.matchText}"`);
+                return { matches: null, drifted: true };
+            }
+            relocated.push(line === match.line ? match : { ...match, line });
+        }
+
+        return { matches: relocated, drifted: true };
+    }
+
+    /**
+     * Finds the line nearest to a match's original position whose text equals the searched line
+     * @returns The new zero-based line number, or null if missing or ambiguous
+     */
+    private relocateLine(lines: string[], match: SearchResult): number | null {
+        const maxDistance = Math.max(match.line, lines.length - match.line);
+        for (let distance = 0; distance <= maxDistance; distance++) {
+            const above = match.line - distance;
+            const below = match.line + distance;
+            const aboveMatches = above >= 0 && lines[above] === match.content;
+            const belowMatches = distance > 0 && below < lines.length && lines[below] === match.content;
+
+            if (aboveMatches && belowMatches) return null; // Ambiguous - refuse to guess
+            if (aboveMatches) return above;
+            if (belowMatches) return below;
+        }
+        return null;
+    }
+
+    /**
+     * Moves the results left in a file onto its content after a replacement
+     * Without this, the next replacement in the file would see content that no longer matches the
+     * search and refuse it as a conflict whenever the match shares a line with a replaced one.
+     * Results are updated in place (fingerprint, line, column and line text); results overlapping
+     * an edit are left as they were for the UI to re-validate.
+     * @param snapshot - Content of the file before and after the replacement
+     * @param edits - Edits written, with offsets into the content before
+     * @param remaining - Results of the file that were not replaced
+     * @returns Lines of the content after that the edits touched, for re-validation
+     */
+    private refreshResults(snapshot: JournalFileSnapshot, edits: TextEdit[], remaining: SearchResult[]): Set<number> {
+        const beforeStarts = this.getLineStarts(snapshot.before);
+        const afterLines = snapshot.after.split('\n');
+        const afterStarts = this.getLineStarts(snapshot.after);
+        const sorted = [...edits].sort((a, b) => a.from - b.from);
+
+        // Offset in the content after of an offset before, outside of any edit
+        const mapOffset = (offset: number): number => {
+            let shift = 0;
+            for (const edit of sorted) {
+                if (edit.to > offset) break;
+                shift += edit.text.length - (edit.to - edit.from);
+            }
+            return offset + shift;
         };
+
+        const touched = new Set<number>();
+        for (const edit of sorted) {
+            const from = this.lineAt(afterStarts, mapOffset(edit.from));
+            const to = this.lineAt(afterStarts, mapOffset(edit.from) + edit.text.length);
+            for (let line = from; line <= to; line++) touched.add(line);
+        }
+
+        const fingerprint = { size: snapshot.after.length, hash: hashContent(snapshot.after) };
+        for (const result of remaining) {
+            if (result.line >= beforeStarts.length) continue;
+            const from = beforeStarts[result.line] + (result.col ?? 0);
+            const to = from + result.matchText.length;
+            if (sorted.some(edit => edit.from < to && edit.to > from)) continue;
+
+            const offset = mapOffset(from);
+            const line = this.lineAt(afterStarts, offset);
+            Object.assign(result, { line, col: offset - afterStarts[line], content: afterLines[line], fingerprint });
+        }
+        return touched;
     }
 
     /**
-     * Applies replacement text to specified matches in a file
-     * @param file - The file to modify
+     * Gets the offset of the first character of each line
+     */
+    private getLineStarts(content: string): number[] {
+        const lineStarts: number[] = [];
+        let lineOffset = 0;
+        for (const line of content.split('\n')) {
+            lineStarts.push(lineOffset);
+            lineOffset += line.length + 1; // +1 for the \n character
+        }
+        return lineStarts;
+    }
+
+    /**
+     * Builds the error message reported for a file skipped as a conflict
+     */
+    private conflictMessage(file: TFile): string {
+        return `Conflict: ${file.path} changed since the search and its matches could not be located`;
+    }
+
+    /**
+     * Computes the replaced content of a file in memory without writing anything
+     * Shared by real replacements and dry-run previews so both produce identical output.
+     * @param file - The file the content belongs to (used for error messages)
+     * @param original - Current file content
      * @param matches - Array of SearchResult objects to replace
      * @param replaceText - The replacement text
      * @param searchOptions - Current search options
      * @param replaceAllInFile - If true, replaces all matches in file; if false, only specified matches
+     * @returns The content after replacement
      */
-    private async applyReplacements(
+    private computeReplacement(
         file: TFile,
+        original: string,
         matches: SearchResult[],
         replaceText: string,
         searchOptions: SearchOptions,
-        replaceAllInFile: boolean = false
-    ): Promise<void> {
-        try {
-            let content = await this.app.vault.read(file);
-
-            const regex = this.searchEngine.buildSearchRegex(matches[0]?.pattern || '', searchOptions);
-
-            // Handle multiline replacements differently
-            if (searchOptions.multiline === true && searchOptions.useRegex) {
-                // For multiline, work on entire content instead of line-by-line
-                if (replaceAllInFile) {
-                    // Replace all matches in entire content
-                    content = content.replace(regex, (match, ...rest: (string | number)[]) => {
-                        const offset = rest[rest.length - 2] as number;
-                        const input = rest[rest.length - 1] as string;
-                        const groups = rest.slice(0, -2) as string[];
-
-                        // Reconstruct RegExpExecArray-like object
-                        interface RegExpExecArrayLike extends Array<string> {
-                            index: number;
-                            input: string;
-                        }
-                        const execArray = [match, ...groups] as RegExpExecArrayLike;
-                        execArray.index = offset;
-                        execArray.input = input;
+        replaceAllInFile: boolean,
+        counters?: Map<string, number>,
+        functions?: FunctionRun
+    ): string {
+        return applyTextEdits(original, this.computeEdits(file, original, matches, replaceText, searchOptions, replaceAllInFile, counters, functions));
+    }
 
-                        return this.expandReplacement(execArray as RegExpExecArray, replaceText, input, searchOptions);
-                    });
-                } else {
-                    // Replace only specific matches - sort by position to maintain order
-                    const sortedMatches = [...matches].sort((a, b) => {
-                        const aPos = this.getCharacterPosition(content, a.line, a.col || 0);
-                        const bPos = this.getCharacterPosition(content, b.line, b.col || 0);
-                        return bPos - aPos; // Reverse order for safe replacement
+    /**
+     * Computes one text edit per replaced match, with offsets into the original content
+     * @param file - The file the content belongs to (used for error messages)
+     * @param original - Current file content
+     * @param matches - Array of SearchResult objects to replace
+     * @param replaceText - The replacement text
+     * @param searchOptions - Current search options
+     * @param replaceAllInFile - If true, replaces all matches in file; if false, only specified matches
+     * @param counters - Position of each search result, for `${counter}` tokens (see indexResults)
+     * @param functions - Replacement function state of the operation (function mode)
+     * @returns Non-overlapping edits sorted by position
+     */
+    private computeEdits(
+        file: TFile,
+        original: string,
+        matches: SearchResult[],
+        replaceText: string,
+        searchOptions: SearchOptions,
+        replaceAllInFile: boolean,
+        counters?: Map<string, number>,
+        functions?: FunctionRun
+    ): TextEdit[] {
+        const edits: PendingEdit[] = [];
+
+        const lines = original.split('\n');
+        const lineStarts = this.getLineStarts(original);
+
+        // Builds a String.replace callback that records an edit instead of rewriting the string
+        // `base` is the offset of the replaced input within the original content
+        const collectEdits = (base: number) => (match: string, ...rest: unknown[]): string => {
+            // Extract capture groups and match info from regex replace callback
+            // rest = [group1, group2, ..., offset, input] plus a trailing groups object for named groups
+            const named = typeof rest[rest.length - 1] === 'object' ? rest.pop() as Record<string, string> : undefined;
+            const offset = rest[rest.length - 2] as number;
+            const input = rest[rest.length - 1] as string;
+            const groups = rest.slice(0, -2) as string[];
+
+            // Reconstruct a RegExpExecArray-like object for replacement expansion
+            interface RegExpExecArrayLike extends Array<string> {
+                index: number;
+                input: string;
+                groups?: Record<string, string>;
+            }
+            const execArray = [match, ...groups] as RegExpExecArrayLike;
+            execArray.index = offset;
+            execArray.input = input;
+            execArray.groups = named;
+
+            edits.push({
+                from: base + offset,
+                to: base + offset + match.length,
+                match: execArray as RegExpExecArray,
+                input
+            });
+            return match;
+        };
+
+        // Matches in parts of the note outside the search scope (e.g. code blocks or the selection) are never replaced
+        const scoped = (pending: PendingEdit[]) => filterToScope(original, searchOptions.markdownScope, pending, searchOptions.selection);
+
+        // Ignore-diacritics and fuzzy matches are found again with the same matcher, so the
+        // replaced span is exactly the one that was highlighted
+        if (usesApproximateMatching(searchOptions)) {
+            const query = (matches[0]?.pattern ?? '').trim();
+            for (const lineNum of Array.from(new Set(matches.map(m => m.line)))) {
+                const lineText = lines[lineNum];
+                if (lineText === undefined) continue;
+
+                for (const found of findApproximateMatches(lineText, query, searchOptions)) {
+                    if (!replaceAllInFile && !matches.some(m => m.line === lineNum && m.col === found.from)) continue;
+                    const matchArr = Object.assign([lineText.slice(found.from, found.to)], { index: found.from, input: lineText });
+                    edits.push({
+                        from: lineStarts[lineNum] + found.from,
+                        to: lineStarts[lineNum] + found.to,
+                        match: matchArr as RegExpExecArray,
+                        input: lineText
                     });
+                }
+            }
 
-                    // Replace in reverse order to maintain positions
-                    for (const match of sortedMatches) {
-                        const charPos = this.getCharacterPosition(content, match.line, match.col || 0);
-
-                        // Find the actual match at this position
-                        regex.lastIndex = 0;
-                        let regexMatch: RegExpExecArray | null;
-                        while ((regexMatch = regex.exec(content)) !== null) {
-                            if (regexMatch.index === charPos && regexMatch[0] === match.matchText) {
-                                const replacement = this.expandReplacement(regexMatch, replaceText, content, searchOptions);
-                                content = content.slice(0, regexMatch.index) + replacement + content.slice(regexMatch.index + regexMatch[0].length);
-                                break;
-                            }
-                            if (regexMatch[0].length === 0) {
-                                regex.lastIndex++;
-                                if (regex.lastIndex >= content.length) break;
-                            }
+            return this.expandEdits(file, this.normalizeEdits(scoped(edits)), lineStarts, replaceText, searchOptions, counters, functions);
+        }
+
+        const regex = this.searchEngine.buildSearchRegex(matches[0]?.pattern || '', searchOptions);
+
+        // Handle multiline replacements differently
+        if (searchOptions.multiline === true && searchOptions.useRegex) {
+            // For multiline, work on entire content instead of line-by-line
+            if (replaceAllInFile) {
+                // Replace all matches in entire content
+                original.replace(regex, collectEdits(0));
+            } else {
+                // Replace only specific matches
+                for (const match of matches) {
+                    const charPos = this.getCharacterPosition(original, match.line, match.col || 0);
+
+                    // Find the actual match at this position
+                    regex.lastIndex = 0;
+                    let regexMatch: RegExpExecArray | null;
+                    while ((regexMatch = regex.exec(original)) !== null) {
+                        if (regexMatch.index === charPos && regexMatch[0] === match.matchText) {
+                            edits.push({
+                                from: regexMatch.index,
+                                to: regexMatch.index + regexMatch[0].length,
+                                match: regexMatch,
+                                input: original
+                            });
+                            break;
+                        }
+                        if (regexMatch[0].length === 0) {
+                            regex.lastIndex++;
+                            if (regex.lastIndex >= original.length) break;
                         }
                     }
                 }
-
-                // Write back the modified content
-                await this.app.vault.modify(file, content);
-                return;
             }
 
-            // Original line-by-line processing for non-multiline
-            const lines = content.split('\n');
+            return this.expandEdits(file, this.normalizeEdits(scoped(edits)), lineStarts, replaceText, searchOptions, counters, functions);
+        }
+
+        // Original line-by-line processing for non-multiline
 
         if (replaceAllInFile) {
             // Replace all matches in the file (once per unique line to prevent repeated replacements)
             const uniqueLines = Array.from(new Set(matches.map(m => m.line)));
             for (const lineNum of uniqueLines) {
-                const lineText = lines[lineNum] ?? '';
-                lines[lineNum] = lineText.replace(regex, (match, ...rest: (string | number)[]) => {
-                    // Extract capture groups and match info from regex replace callback
-                    // rest = [group1, group2, ..., offset, input]
-                    const offset = rest[rest.length - 2] as number;
-                    const input = rest[rest.length - 1] as string;
-                    const groups = rest.slice(0, -2) as string[];
-
-                    // Reconstruct a RegExpExecArray-like object for replacement expansion
-                    interface RegExpExecArrayLike extends Array<string> {
-                        index: number;
-                        input: string;
-                    }
-                    const execArray = [match, ...groups] as RegExpExecArrayLike;
-                    execArray.index = offset;
-                    execArray.input = input;
-
-                    return this.expandReplacement(execArray as RegExpExecArray, replaceText, input, searchOptions);
-                });
+                if (lineNum >= lines.length) continue;
+                lines[lineNum].replace(regex, collectEdits(lineStarts[lineNum]));
             }
         } else {
-            // Replace only the specified matches (use reverse-sorted order to keep indices valid)
-            matches.sort((a, b) =>
-                a.line === b.line ? (b.col || 0) - (a.col || 0) : b.line - a.line
-            );
-
-            // Process matches in reverse order so string indices remain valid
+            // Replace only the specified matches
             for (const res of matches) {
                 const lineText = lines[res.line] ?? '';
                 let matchArr: RegExpExecArray | null;
@@ -299,12 +1084,14 @@ export class ReplacementEngine {
                     }
 
                     if (matchArr.index === res.col) {
-                        // Found the exact match - perform replacement
-                        const replacement = this.expandReplacement(matchArr, replaceText, lineText, searchOptions);
-                        lines[res.line] =
-                            lineText.slice(0, matchArr.index) +
-                            replacement +
-                            lineText.slice(matchArr.index + matchArr[0].length);
+                        // Found the exact match - record the replacement
+                        const from = lineStarts[res.line] + matchArr.index;
+                        edits.push({
+                            from,
+                            to: from + matchArr[0].length,
+                            match: matchArr,
+                            input: lineText
+                        });
                         foundMatch = true;
                         break;
                     }
@@ -328,13 +1115,84 @@ export class ReplacementEngine {
             }
         }
 
-            // Write the modified content back to the file
-            await this.app.vault.modify(file, lines.join('\n'));
-        } catch (error) {
-            // Handle file operation errors gracefully
-            this.logger.error(`Failed to replace content in file ${file.path}:`, error);
-            throw new Error(`Replacement failed for file "${file.path}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return this.expandEdits(file, this.normalizeEdits(scoped(edits)), lineStarts, replaceText, searchOptions, counters, functions);
+    }
+
+    /**
+     * Sorts edits by position and drops duplicates or overlaps (e.g. the same result selected twice)
+     */
+    private normalizeEdits<T extends { from: number; to: number }>(edits: T[]): T[] {
+        const sorted = [...edits].sort((a, b) => a.from - b.from || a.to - b.to);
+        const result: T[] = [];
+        for (const edit of sorted) {
+            const previous = result[result.length - 1];
+            if (previous && (edit.from < previous.to || (edit.from === previous.from && edit.to === previous.to))) {
+                continue;
+            }
+            result.push(edit);
         }
+        return result;
+    }
+
+    /**
+     * Expands the replacement text of each pending edit
+     * Computed tokens see the line of the match and its position in the search results; a match
+     * that is not among the results (e.g. re-located after an edit) continues from the previous one.
+     */
+    private expandEdits(
+        file: TFile,
+        edits: PendingEdit[],
+        lineStarts: number[],
+        replaceText: string,
+        searchOptions: SearchOptions,
+        counters?: Map<string, number>,
+        functions?: FunctionRun
+    ): TextEdit[] {
+        let previous = -1;
+        return edits.map(edit => {
+            const line = this.lineAt(lineStarts, edit.from);
+            const counter = counters?.get(this.counterKey(file.path, line, edit.from - lineStarts[line])) ?? previous + 1;
+            previous = counter;
+            return {
+                from: edit.from,
+                to: edit.to,
+                text: this.expandReplacement(edit.match, replaceText, edit.input, searchOptions, { file, line, counter }, functions)
+            };
+        });
+    }
+
+    /**
+     * Maps each search result to its position in the (sorted) results, for `${counter}` tokens
+     * @param results - All search results, in the order SearchEngine.performSearch produced them
+     * @returns Result position keyed by file path, line and column
+     */
+    private indexResults(results: SearchResult[]): Map<string, number> {
+        const counters = new Map<string, number>();
+        results.forEach((result, index) => {
+            counters.set(this.counterKey(result.file.path, result.line, result.col ?? 0), index);
+        });
+        return counters;
+    }
+
+    private counterKey(path: string, line: number, col: number): string {
+        return `${path}:${line}:${col}`;
+    }
+
+    /**
+     * Finds the line containing a character offset
+     * @param lineStarts - Offset of the first character of each line
+     * @param offset - Character offset into the content
+     * @returns 0-based line number
+     */
+    private lineAt(lineStarts: number[], offset: number): number {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (lineStarts[mid] <= offset) low = mid;
+            else high = mid - 1;
+        }
+        return low;
     }
 
     /**
@@ -344,35 +1202,136 @@ export class ReplacementEngine {
      * @param replacement - The replacement text template
      * @param input - The original input string
      * @param searchOptions - Current search options
+     * @param context - Where the replacement lands, for computed tokens like ${counter} (optional)
+     * @param functions - Replacement function state of the operation; without it, function mode keeps the match text
      * @returns The final replacement string
      */
     expandReplacement(
         matchArr: RegExpExecArray,
         replacement: string,
         input: string,
-        searchOptions: SearchOptions
+        searchOptions: SearchOptions,
+        context?: ReplacementTokenContext,
+        functions?: FunctionRun
     ): string {
-        // Handle replacement tokens like $1, $&, $$, $` and $' and escaped \n/\t.
-        // If regex mode is OFF, return the replacement text literally (no special processing).
-        if (!searchOptions.useRegex) return replacement; // No expansion in non-regex mode
+        // A mapping table supplies its own value for each matched term; the replacement text is not used
+        if (searchOptions.mapping) {
+            const mapped = lookupMapping(searchOptions.mapping, matchArr[0], searchOptions.matchCase) ?? matchArr[0];
+            return searchOptions.preserveCase ? applyCaseStyle(mapped, matchArr[0]) : mapped;
+        }
+
+        // Function mode: the replacement text is a JavaScript expression evaluated for this match
+        if (searchOptions.useFunction) {
+            const out = functions ? this.callReplacementFunction(functions, matchArr, input, context) : matchArr[0];
+            return searchOptions.preserveCase ? applyCaseStyle(out, matchArr[0]) : out;
+        }
+
+        // Handle replacement tokens like $1, $<name>, $&, $$, $` and $', escaped \n/\t and case escapes.
+        // If regex mode is OFF, use the replacement text literally (no special processing).
+        // Computed tokens (${counter}, ${file.basename}, ...) apply in both modes.
+        if (!searchOptions.useRegex) {
+            const literal = context ? expandComputedTokens(replacement, context) : replacement;
+            return searchOptions.preserveCase ? applyCaseStyle(literal, matchArr[0]) : literal;
+        }
+
+        // Capture groups ($1, $<name>), special tokens and case escapes (\U, \L, \u, \l, \E)
+        const out = expandReplacementTemplate(replacement, matchArr, input,
+            context ? token => resolveComputedToken(token, context) : undefined);
+
+        // Adapt casing to the match after expansion, so captured text is re-cased too
+        return searchOptions.preserveCase ? applyCaseStyle(out, matchArr[0]) : out;
+    }
 
-        const offset = matchArr.index ?? 0;
-        let out = replacement;
+    /**
+     * Evaluates the replacement function for every match an operation replaces, before it writes anything
+     * The operation is dry-run to record its calls, which then run in the worker, where a call that
+     * never returns can be stopped. The operation itself looks their results up (see callReplacementFunction).
+     * @param replaceText - The replacement text (the expression in function mode)
+     * @param searchOptions - Search options of the operation; nothing is evaluated outside function mode
+     * @param dryRun - Runs the operation's replacement passes with the given state, without writing anything
+     * @returns The replacement function state to run the operation with
+     */
+    private async prepareFunctionValues(
+        replaceText: string,
+        searchOptions: SearchOptions,
+        dryRun: (functions: FunctionRun) => Promise<void>
+    ): Promise<FunctionRun> {
+        const run: FunctionRun = { recorded: null, values: null, errors: [] };
+        if (!searchOptions.useFunction || searchOptions.mapping) return run;
+
+        const recorded: RecordedCalls = { keys: [], calls: [] };
+        run.recorded = recorded;
+        try {
+            await dryRun(run);
+        } finally {
+            run.recorded = null;
+        }
+
+        const outcomes: FunctionValues['outcomes'] = new Map();
+        try {
+            const values = await this.functionClient.evaluate(replaceText, recorded.calls);
+            recorded.keys.forEach((key, i) => outcomes.set(key, { input: recorded.calls[i].result.input, outcome: values[i] }));
+            run.values = { compiled: true, outcomes };
+        } catch (error) {
+            // Reported once, not for every match
+            run.values = { compiled: false, outcomes };
+            run.errors.push(error instanceof Error ? error.message : String(error));
+        }
+        return run;
+    }
+
+    /**
+     * Looks up the replacement function's result for one match (see prepareFunctionValues)
+     * A match whose call fails keeps its text and the error is collected for the operation's report.
+     * @param functions - Replacement function state of the operation
+     * @param matchArr - The RegExp match result with capture groups
+     * @param input - The text the match was found in
+     * @param context - Where the replacement lands (optional)
+     * @returns The function's result, or the unchanged match text on error
+     */
+    private callReplacementFunction(
+        functions: FunctionRun,
+        matchArr: RegExpExecArray,
+        input: string,
+        context?: ReplacementTokenContext
+    ): string {
+        const result = {
+            file: context?.file.path ?? '',
+            line: context?.line ?? 0,
+            index: context?.counter ?? 0,
+            offset: matchArr.index,
+            input
+        };
+        const key = JSON.stringify([result.file, result.line, result.index, result.offset, matchArr[0]]);
 
-        // Replace numbered capture groups: $1, $2, $3, etc.
-        out = out.replace(/\$(\d+)/g, (_, n) => matchArr[Number(n)] ?? '');
+        // Dry run: record the call and leave the match as it is
+        if (functions.recorded) {
+            functions.recorded.keys.push(key);
+            functions.recorded.calls.push(toReplacementFunctionCall(matchArr, result));
+            return matchArr[0];
+        }
+        if (functions.values && !functions.values.compiled) return matchArr[0];
 
-        // Replace special regex tokens
-        out = out
-            .replace(/\$\$/g, '$')           // $$ -> literal $
-            .replace(/\$&/g, matchArr[0])    // $& -> entire match
-            .replace(/\$`/g, input.slice(0, offset))                       // $` -> text before match
-            .replace(/\$'/g, input.slice(offset + (matchArr[0]?.length ?? 0))); // $' -> text after match
+        // The text around the match may have changed while the function ran
+        const entry = functions.values?.outcomes.get(key);
+        const outcome: ReplacementFunctionOutcome = entry && entry.input === input
+            ? entry.outcome
+            : { error: 'Skipped: the text changed while the function ran' };
+        if ('value' in outcome) return outcome.value;
 
-        // Handle escaped whitespace characters
-        out = out.replace(/\\n/g, '\n').replace(/\\t/g, '\t');
+        const where = context ? `${context.file.path}:${context.line + 1}` : 'Match';
+        functions.errors.push(`${where} "${matchArr[0]}": ${outcome.error}`);
+        return matchArr[0];
+    }
 
-        return out;
+    /**
+     * Describes what matches are replaced with, for the undo history
+     * @param replaceText - The replacement text
+     * @param searchOptions - Current search options
+     * @returns The replacement text, or a label when a mapping table supplies the values
+     */
+    private describeReplaceText(replaceText: string, searchOptions: SearchOptions): string {
+        return searchOptions.mapping ? `(${searchOptions.mapping.entries.length} mapped values)` : replaceText;
     }
 
     /**
@@ -392,41 +1351,92 @@ export class ReplacementEngine {
 
     /**
      * Validates replacement text for potential issues
+     * When the search pattern is given, group references are checked against the compiled regex.
      * @internal Test utility - validation not yet implemented in UI
      * @param replaceText - The replacement text to validate
      * @param searchOptions - Current search options
-     * @returns Object with validation result and any warnings
+     * @param pattern - Search pattern the replacement will be used with (optional)
+     * @returns Validation result with warnings and errors
      */
     validateReplacementText(
         replaceText: string,
-        searchOptions: SearchOptions
-    ): { isValid: boolean; warnings: string[] } {
+        searchOptions: SearchOptions,
+        pattern?: string
+    ): ReplacementValidation {
         const warnings: string[] = [];
+        const errors: string[] = [];
+
+        // Function mode: the text is a JavaScript expression, not a template - it only has to compile
+        if (searchOptions.useFunction) {
+            try {
+                compileReplacementFunction(replaceText);
+            } catch (error) {
+                errors.push(error instanceof Error ? error.message : String(error));
+            }
+            return { isValid: errors.length === 0, warnings, errors };
+        }
 
         // Check for potentially problematic patterns in regex mode
         if (searchOptions.useRegex) {
-            // Check for invalid capture group references
-            const captureGroupRefs = replaceText.match(/\$(\d+)/g);
-            if (captureGroupRefs) {
-                const highestRef = Math.max(...captureGroupRefs.map(ref => parseInt(ref.slice(1))));
+            const refs = findGroupReferences(replaceText);
+            const groups = pattern ? this.describeGroups(pattern, searchOptions) : null;
+
+            if (groups) {
+                // Check references against the groups the regex actually defines
+                for (const digits of refs.numbered) {
+                    const whole = Number(digits);
+                    const first = Number(digits.charAt(0));
+                    if (whole >= 1 && whole <= groups.count) continue;
+                    if (digits.length === 2 && first >= 1 && first <= groups.count) {
+                        warnings.push(`$${digits} is read as $${first} followed by "${digits.charAt(1)}" - the regex has only ${groups.count} group${groups.count === 1 ? '' : 's'}`);
+                    } else {
+                        errors.push(`$${digits} refers to a capture group that does not exist (the regex has ${groups.count})`);
+                    }
+                }
+                for (const name of refs.named) {
+                    if (!groups.names.includes(name)) {
+                        errors.push(`$<${name}> refers to a named group that does not exist`);
+                    }
+                }
+            } else if (refs.numbered.length > 0) {
+                const highestRef = Math.max(...refs.numbered.map(ref => parseInt(ref)));
                 if (highestRef > 9) {
                     warnings.push(`High capture group reference ($${highestRef}) - ensure your regex has enough groups`);
                 }
             }
 
             // Check for unescaped dollar signs that might be intended as literal
-            const literalDollars = replaceText.match(/\$(?![&'`$]|\d)/g);
+            const literalDollars = replaceText.match(/\$(?![&'`$<{]|\d)/g);
             if (literalDollars) {
                 warnings.push('Unescaped $ characters found - use $$ for literal dollar signs');
             }
         }
 
         return {
-            isValid: true, // For now, we allow all replacement text
-            warnings
+            isValid: errors.length === 0,
+            warnings,
+            errors
         };
     }
 
+    /**
+     * Compiles the search pattern and reports its capture groups
+     * @param pattern - Search pattern
+     * @param searchOptions - Current search options
+     * @returns Group count and names, or null when the pattern does not compile
+     */
+    private describeGroups(pattern: string, searchOptions: SearchOptions): { count: number; names: string[] } | null {
+        try {
+            const regex = this.searchEngine.buildSearchRegex(pattern, searchOptions);
+            // An empty alternative always matches, exposing every group (unmatched) without searching anything
+            const probe = new RegExp(`${regex.source}|`, regex.flags.replace('g', '')).exec('');
+            if (!probe) return null;
+            return { count: probe.length - 1, names: Object.keys(probe.groups ?? {}) };
+        } catch {
+            return null;
+        }
+    }
+
     /**
      * Converts line/column position to character position in content
      * @param content - The full content string
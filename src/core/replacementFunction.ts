@@ -0,0 +1,134 @@
+/**
+ * JavaScript replacement functions
+ * In function mode the replacement text is a JavaScript expression evaluated once per match with
+ * `match`, `groups`, `namedGroups` and `result` in scope, e.g. `match.toUpperCase()` or
+ * `(parseFloat(groups[0]) * 2.54).toFixed(1) + " cm"`.
+ *
+ * Expressions run in strict mode with the usual ways into Obsidian and the vault (window, document,
+ * app, require, ...) shadowed. This keeps a typo from touching anything outside the match, but it is
+ * not a security boundary: only run expressions you wrote or trust.
+ *
+ * Replace operations evaluate the expression in a worker (see core/replacementFunctionClient), which
+ * is terminated when a call runs over the time limit. ReplacementFunction itself runs on the calling
+ * thread, where a running call cannot be interrupted: the time limit is checked when the call returns.
+ * Either way, a call that runs too long is reported and the function is not called again during the
+ * same operation.
+ */
+
+import { ReplacementFunctionCall, ReplacementFunctionResult } from '../types';
+import { REPLACEMENT_FUNCTION_TIMEOUT } from '../utils/constants';
+
+const ARGUMENTS = ['match', 'groups', 'namedGroups', 'result'];
+
+// Bound to undefined inside the expression
+const SHADOWED_GLOBALS = [
+    'window', 'self', 'globalThis', 'document', 'app', 'require', 'process', 'module',
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'localStorage', 'sessionStorage', 'indexedDB',
+    'Function', 'setTimeout', 'setInterval'
+];
+
+export type CompiledExpression = (...args: unknown[]) => unknown;
+
+/**
+ * Compiles a replacement expression
+ * Imports nothing from Obsidian, so the replacement function worker can use it too.
+ * @param source - The JavaScript expression typed as replacement text
+ * @returns The compiled expression
+ * @throws Error when the expression does not compile
+ */
+export function compileReplacementFunction(source: string): CompiledExpression {
+    try {
+        return new Function(...ARGUMENTS, ...SHADOWED_GLOBALS, `"use strict";\nreturn (${source}\n);`) as CompiledExpression;
+    } catch (error) {
+        throw new Error(`Invalid replacement function: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Describes a call of a replacement function, so it can be evaluated here or posted to the worker
+ * @param match - The regex match (capture groups become `groups` and `namedGroups`)
+ * @param result - Where the match was found
+ */
+export function toReplacementFunctionCall(match: RegExpExecArray, result: ReplacementFunctionResult): ReplacementFunctionCall {
+    return { match: Array.from(match), namedGroups: { ...match.groups }, result };
+}
+
+/**
+ * Calls a compiled replacement expression for one match, without a time limit
+ * @param expression - The compiled expression
+ * @param call - The match and where it was found
+ * @returns The replacement text
+ * @throws Error when the expression throws or returns null/undefined
+ */
+export function evaluateReplacementFunction(expression: CompiledExpression, call: ReplacementFunctionCall): string {
+    let value: unknown;
+    try {
+        value = expression(call.match[0], call.match.slice(1), { ...call.namedGroups }, Object.freeze({ ...call.result }));
+    } catch (error) {
+        throw new Error(error instanceof Error ? `${error.name}: ${error.message}` : String(error));
+    }
+    if (value === undefined || value === null) {
+        throw new Error(`Returned ${value} instead of text`);
+    }
+    return String(value);
+}
+
+/**
+ * A compiled replacement expression
+ * Create one per replace or preview operation, so the time limit applies to that operation only.
+ */
+export class ReplacementFunction {
+    readonly source: string;
+    private expression: CompiledExpression;
+    private timeout: number;
+    private timedOut = false;
+
+    /**
+     * @param source - The JavaScript expression typed as replacement text
+     * @param timeout - Longest a single call may take, in milliseconds
+     * @throws Error when the expression does not compile
+     */
+    constructor(source: string, timeout = REPLACEMENT_FUNCTION_TIMEOUT) {
+        this.source = source;
+        this.timeout = timeout;
+        this.expression = compileReplacementFunction(source);
+    }
+
+    /**
+     * Computes the replacement for one match
+     * @param match - The regex match (capture groups become `groups` and `namedGroups`)
+     * @param result - Where the match was found
+     * @returns The replacement text
+     * @throws Error when the expression throws, runs too long or returns null/undefined
+     */
+    call(match: RegExpExecArray, result: ReplacementFunctionResult): string {
+        return this.evaluate(toReplacementFunctionCall(match, result));
+    }
+
+    /**
+     * Computes the replacement for one described call (see toReplacementFunctionCall)
+     * @throws Error when the expression throws, runs too long or returns null/undefined
+     */
+    evaluate(call: ReplacementFunctionCall): string {
+        if (this.timedOut) {
+            throw new Error(`Skipped: the function took longer than ${this.timeout} ms on an earlier match`);
+        }
+
+        const started = Date.now();
+        let value: string;
+        let failure: unknown = null;
+        try {
+            value = evaluateReplacementFunction(this.expression, call);
+        } catch (error) {
+            value = '';
+            failure = error;
+        }
+
+        if (Date.now() - started > this.timeout) {
+            this.timedOut = true;
+            throw new Error(`Took longer than ${this.timeout} ms`);
+        }
+        if (failure) throw failure;
+        return value;
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * Replacement function client
+ * Evaluates JavaScript replacement functions in a Web Worker (core/replacementFunctionWorker), so an
+ * expression that never returns cannot freeze Obsidian.
+ *
+ * The worker is bundled into the plugin as source text (see esbuild.config.mjs) and started from a
+ * Blob URL. Each call has a time limit: when a call runs over, the worker is terminated, the call is
+ * reported as too slow and the remaining calls of the request are skipped. Where workers are
+ * unavailable or fail to start, calls run on the main thread, where the time limit is only checked
+ * after a call returns (see ReplacementFunction).
+ */
+
+import {
+    ReplacementFunctionCall,
+    ReplacementFunctionOutcome,
+    ReplacementFunctionRequest,
+    ReplacementFunctionResponse
+} from '../types';
+import { Logger, REPLACEMENT_FUNCTION_TIMEOUT } from '../utils';
+import { ReplacementFunction } from './replacementFunction';
+
+/** Bundled source of the replacement function worker, defined by the build (not defined when running tests) */
+declare const REPLACEMENT_FUNCTION_WORKER_SOURCE: string;
+
+interface PendingRequest {
+    request: ReplacementFunctionRequest;
+    outcomes: ReplacementFunctionOutcome[];
+    next: number; // Index of the call the worker is evaluating
+    resolve: (outcomes: ReplacementFunctionOutcome[]) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Evaluates replacement functions off the main thread
+ */
+export class ReplacementFunctionClient {
+    private logger: Logger;
+    private worker: Worker | null = null;
+    private workerUrl: string | null = null;
+    private unavailable = false; // Set once the worker could not be created or crashed
+    private nextId = 0;
+    private pending: Map<number, PendingRequest> = new Map(); // In the order the worker handles them
+    private timeout: number;
+    private watchdog: number | null = null; // Fires when the call being evaluated runs over the time limit
+
+    /**
+     * @param logger - Logger of the owning replacement engine
+     * @param timeout - Longest a single call may take, in milliseconds
+     */
+    constructor(logger: Logger, timeout: number = REPLACEMENT_FUNCTION_TIMEOUT) {
+        this.logger = logger;
+        this.timeout = timeout;
+    }
+
+    /**
+     * Evaluates an expression for a list of matches
+     * Each request is one operation: once a call runs over the time limit, its later calls are skipped.
+     * @param source - The JavaScript expression
+     * @param calls - The matches to evaluate it for
+     * @returns Outcome of each call, in the order of calls
+     * @throws Error (as a rejection) when the expression does not compile
+     */
+    evaluate(source: string, calls: ReplacementFunctionCall[]): Promise<ReplacementFunctionOutcome[]> {
+        const request: ReplacementFunctionRequest = { id: ++this.nextId, source, calls };
+        const worker = calls.length > 0 ? this.getWorker() : null;
+        if (!worker) {
+            return new Promise(resolve => resolve(this.evaluateInThread(request, [])));
+        }
+
+        return new Promise((resolve, reject) => {
+            this.pending.set(request.id, { request, outcomes: [], next: 0, resolve, reject });
+            worker.postMessage(request);
+            this.armWatchdog();
+        });
+    }
+
+    /**
+     * Stops the worker
+     * @param finishPending - Finish the requests still in flight on the main thread; otherwise they
+     *   are rejected (their results are no longer wanted, e.g. a preview that was closed)
+     */
+    dispose(finishPending = true): void {
+        this.stopWorker();
+        if (finishPending) {
+            this.settlePendingInThread();
+            return;
+        }
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        pending.forEach(({ reject }) => reject(new Error('Replacement function stopped')));
+    }
+
+    private stopWorker(): void {
+        this.disarmWatchdog();
+        this.worker?.terminate();
+        this.worker = null;
+        if (this.workerUrl) URL.revokeObjectURL(this.workerUrl);
+        this.workerUrl = null;
+    }
+
+    /**
+     * Starts the worker on first use
+     * @returns The worker, or null when functions have to run on the main thread
+     */
+    private getWorker(): Worker | null {
+        if (this.worker || this.unavailable) return this.worker;
+
+        if (typeof REPLACEMENT_FUNCTION_WORKER_SOURCE === 'undefined' || typeof Worker === 'undefined' || typeof Blob === 'undefined') {
+            this.unavailable = true;
+            this.logger.debug('Web Workers unavailable, running replacement functions on the main thread');
+            return null;
+        }
+
+        try {
+            this.workerUrl = URL.createObjectURL(new Blob([REPLACEMENT_FUNCTION_WORKER_SOURCE], { type: 'text/javascript' }));
+            this.worker = new Worker(this.workerUrl);
+            this.worker.onmessage = (event: MessageEvent<ReplacementFunctionResponse>) => this.handleResponse(event.data);
+            this.worker.onerror = (event: ErrorEvent) => {
+                event.preventDefault();
+                this.logger.warn('Replacement function worker failed, running functions on the main thread from now on:', event.message);
+                this.unavailable = true;
+                this.dispose();
+            };
+            this.logger.debug('Replacement function worker started');
+        } catch (error) {
+            this.logger.warn('Could not start the replacement function worker, running functions on the main thread:', error);
+            this.unavailable = true;
+            this.worker = null;
+        }
+        return this.worker;
+    }
+
+    private handleResponse(response: ReplacementFunctionResponse): void {
+        const pending = this.pending.get(response.id);
+        if (!pending) return;
+        this.disarmWatchdog();
+
+        if (response.error !== undefined) {
+            this.pending.delete(response.id);
+            pending.reject(new Error(response.error));
+        } else if (response.index !== undefined && response.outcome) {
+            pending.outcomes[response.index] = response.outcome;
+            pending.next = response.index + 1;
+            if (pending.next >= pending.request.calls.length) {
+                this.pending.delete(response.id);
+                pending.resolve(pending.outcomes);
+            }
+        }
+        this.armWatchdog();
+    }
+
+    /**
+     * Starts timing the call the worker is evaluating, unless already timing it
+     */
+    private armWatchdog(): void {
+        if (this.watchdog !== null || this.pending.size === 0) return;
+        this.watchdog = window.setTimeout(() => this.handleOverrun(), this.timeout);
+    }
+
+    private disarmWatchdog(): void {
+        if (this.watchdog !== null) window.clearTimeout(this.watchdog);
+        this.watchdog = null;
+    }
+
+    /**
+     * Fails the call that ran over the time limit, skips the rest of its request and resumes the
+     * other pending requests in a new worker
+     */
+    private handleOverrun(): void {
+        this.watchdog = null;
+        const head = this.pending.values().next().value as PendingRequest | undefined;
+        if (!head) return;
+
+        const { request, outcomes } = head;
+        this.logger.warn(`Stopped a replacement function that took longer than ${this.timeout} ms`);
+        outcomes[head.next] = { error: `Took longer than ${this.timeout} ms` };
+        for (let index = head.next + 1; index < request.calls.length; index++) {
+            outcomes[index] = { error: `Skipped: the function took longer than ${this.timeout} ms on an earlier match` };
+        }
+        this.pending.delete(request.id);
+        head.resolve(outcomes);
+
+        // The running call cannot be interrupted: replace the worker
+        this.stopWorker();
+        if (this.pending.size === 0) return;
+        const worker = this.getWorker();
+        if (!worker) {
+            this.settlePendingInThread();
+            return;
+        }
+        this.pending.forEach(({ request, next }) => worker.postMessage({ ...request, start: next }));
+        this.armWatchdog();
+    }
+
+    private settlePendingInThread(): void {
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        for (const { request, outcomes, next, resolve, reject } of pending) {
+            try {
+                resolve(this.evaluateInThread(request, outcomes.slice(0, next)));
+            } catch (error) {
+                reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+    }
+
+    /**
+     * Evaluates the remaining calls of a request on the main thread
+     * @param done - Outcomes of the calls already evaluated
+     * @returns Outcomes of all calls
+     * @throws Error when the expression does not compile
+     */
+    private evaluateInThread(request: ReplacementFunctionRequest, done: ReplacementFunctionOutcome[]): ReplacementFunctionOutcome[] {
+        const fn = new ReplacementFunction(request.source, this.timeout);
+        return done.concat(request.calls.slice(done.length).map(call => {
+            try {
+                return { value: fn.evaluate(call) };
+            } catch (error) {
+                return { error: error instanceof Error ? error.message : String(error) };
+            }
+        }));
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * Replacement function worker
+ * Entry point of the Web Worker that evaluates JavaScript replacement functions for ReplacementEngine
+ * (see core/replacementFunctionClient). Bundled on its own by esbuild.config.mjs, so it may only import
+ * modules that run without Obsidian.
+ *
+ * The compiled expression is kept while requests carry the same source. Calls are reported one at a
+ * time: the client terminates the worker when a call runs over the time limit.
+ */
+
+import { ReplacementFunctionRequest, ReplacementFunctionResponse } from '../types';
+import { CompiledExpression, compileReplacementFunction, evaluateReplacementFunction } from './replacementFunction';
+
+interface WorkerScope {
+    onmessage: ((event: MessageEvent<ReplacementFunctionRequest>) => void) | null;
+    postMessage(response: ReplacementFunctionResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+let current: { source: string; expression: CompiledExpression } | null = null;
+
+scope.onmessage = (event) => {
+    const { id, source, calls, start = 0 } = event.data;
+    try {
+        if (current?.source !== source) {
+            current = { source, expression: compileReplacementFunction(source) };
+        }
+    } catch (error) {
+        scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+        return;
+    }
+
+    // One message per call, so the client can tell which call a runaway function is stuck on
+    for (let index = start; index < calls.length; index++) {
+        try {
+            scope.postMessage({ id, index, outcome: { value: evaluateReplacementFunction(current.expression, calls[index]) } });
+        } catch (error) {
+            scope.postMessage({ id, index, outcome: { error: error instanceof Error ? error.message : String(error) } });
+        }
+    }
+};
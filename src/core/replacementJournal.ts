@@ -0,0 +1,321 @@
+import { App, TFile } from 'obsidian';
+import { JournalEntry, JournalFileSnapshot, RollbackResult } from '../types';
+import { Logger, findOpenEditor, applyEditsToEditor, computeHunks, hunksToEdits, MAX_JOURNAL_SIZE } from '../utils';
+import VaultFindReplacePlugin from '../main';
+
+/** Bumped when the stored format changes; older files are discarded */
+const JOURNAL_VERSION = 1;
+
+/**
+ * Stored form of the journal
+ */
+interface StoredJournal {
+    version: number;
+    entries: JournalEntry[];
+}
+
+/**
+ * Records the before/after content of every replacement operation so it can be rolled back
+ * Entries (newest first) are persisted across sessions in their own file in the plugin folder,
+ * not in plugin data: they hold whole notes. The file is capped in size, dropping the oldest entries.
+ */
+export class ReplacementJournal {
+    private app: App;
+    private plugin: VaultFindReplacePlugin;
+    private logger: Logger;
+    private entries: JournalEntry[] = [];
+    private maxSize: number;
+
+    /**
+     * @param app - Obsidian app
+     * @param plugin - The plugin (settings and folder)
+     * @param maxSize - Largest the stored journal may grow, in characters
+     */
+    constructor(app: App, plugin: VaultFindReplacePlugin, maxSize: number = MAX_JOURNAL_SIZE) {
+        this.app = app;
+        this.plugin = plugin;
+        this.logger = Logger.create(plugin, 'ReplacementJournal');
+        this.maxSize = maxSize;
+    }
+
+    /**
+     * Path of the journal file in the plugin folder
+     */
+    get path(): string {
+        const dir = this.plugin.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return `${dir}/replacement-journal.json`;
+    }
+
+    /**
+     * Loads the stored journal; call once when the plugin loads
+     * A journal kept in plugin data by earlier versions is moved to the journal file.
+     */
+    async load(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.path)) {
+                const stored = JSON.parse(await this.app.vault.adapter.read(this.path)) as StoredJournal;
+                if (stored.version === JOURNAL_VERSION) {
+                    this.entries = stored.entries;
+                } else {
+                    this.logger.info('Replacement journal format changed, starting a new journal');
+                }
+            }
+        } catch (error) {
+            this.logger.warn('Failed to load the replacement journal, starting a new journal:', error);
+        }
+
+        const settings = this.plugin.settings as { replacementJournal?: JournalEntry[] };
+        if (settings.replacementJournal) {
+            if (this.entries.length === 0) this.entries = this.trim(settings.replacementJournal);
+            if (await this.save()) {
+                delete settings.replacementJournal;
+                await this.plugin.saveSettings();
+                this.logger.info('Moved the replacement journal out of plugin data');
+            }
+        }
+        this.logger.debug(`Loaded replacement journal: ${this.entries.length} entries`);
+    }
+
+    /**
+     * Gets the current max journal size from settings
+     */
+    private getMaxEntries(): number {
+        const max = this.plugin.settings.maxJournalEntries;
+        return max === undefined ? 20 : max;
+    }
+
+    /**
+     * Records a completed replacement operation
+     * Files whose content did not change are dropped from the entry.
+     * @param entry - Operation details and file snapshots
+     * @returns The stored entry, or null if nothing was recorded
+     */
+    async record(entry: Omit<JournalEntry, 'id' | 'timestamp'>): Promise<JournalEntry | null> {
+        const maxEntries = this.getMaxEntries();
+        if (maxEntries <= 0) {
+            this.logger.debug('Replacement journal is disabled, skipping record');
+            return null;
+        }
+
+        const files = entry.files.filter(snapshot => snapshot.before !== snapshot.after);
+        if (files.length === 0) {
+            this.logger.debug('No file content changed, skipping journal record');
+            return null;
+        }
+
+        const stored: JournalEntry = {
+            ...entry,
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            timestamp: Date.now(),
+            files
+        };
+
+        if (JSON.stringify(stored).length > this.maxSize) {
+            this.logger.warn(`Replacement not recorded: its ${files.length} files exceed the journal size limit`);
+            return null;
+        }
+
+        this.entries = this.trim([stored, ...this.entries]);
+        await this.save();
+        this.logger.debug(`Recorded journal entry ${stored.id} (${files.length} files)`);
+        return stored;
+    }
+
+    /**
+     * Gets all journal entries (newest first)
+     * @returns Array of journal entries
+     */
+    getEntries(): JournalEntry[] {
+        return [...this.entries];
+    }
+
+    /**
+     * Gets the most recent journal entry
+     * @returns The newest entry or null if the journal is empty
+     */
+    getLastEntry(): JournalEntry | null {
+        return this.getEntries()[0] ?? null;
+    }
+
+    /**
+     * Checks which files of an entry can no longer be rolled back safely
+     * A file conflicts when its current content differs from what the replacement wrote.
+     * @param entry - The journal entry to check
+     * @returns Rollback preview with conflicted and missing files (restoredFiles lists restorable files)
+     */
+    async checkEntry(entry: JournalEntry): Promise<RollbackResult> {
+        const result: RollbackResult = { restoredFiles: [], conflictedFiles: [], missingFiles: [] };
+
+        for (const snapshot of entry.files) {
+            const state = await this.getSnapshotState(snapshot);
+            if (state === 'missing') {
+                result.missingFiles.push(snapshot.path);
+            } else if (state === 'conflict') {
+                result.conflictedFiles.push(snapshot.path);
+            } else {
+                result.restoredFiles.push(snapshot.path);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Rolls back a journal entry, restoring the pre-replacement content of each file
+     * Files modified since the replacement are refused and left untouched. Restored files are
+     * removed from the entry; the entry itself is removed once no files remain.
+     * @param entryId - ID of the entry to roll back
+     * @returns Which files were restored, refused due to conflicts, or missing
+     */
+    async rollback(entryId: string): Promise<RollbackResult> {
+        const result: RollbackResult = { restoredFiles: [], conflictedFiles: [], missingFiles: [] };
+        const entry = this.getEntries().find(e => e.id === entryId);
+        if (!entry) {
+            this.logger.warn(`Journal entry not found: ${entryId}`);
+            return result;
+        }
+
+        const remaining: JournalFileSnapshot[] = [];
+
+        for (const snapshot of entry.files) {
+            const file = this.app.vault.getAbstractFileByPath(snapshot.path);
+            if (!(file instanceof TFile)) {
+                result.missingFiles.push(snapshot.path);
+                remaining.push(snapshot);
+                continue;
+            }
+
+            try {
+                const current = await this.readCurrent(file);
+                if (current !== snapshot.after) {
+                    this.logger.warn(`Refusing to roll back ${snapshot.path}: file changed since the replacement`);
+                    result.conflictedFiles.push(snapshot.path);
+                    remaining.push(snapshot);
+                    continue;
+                }
+
+                await this.restore(file, snapshot);
+                result.restoredFiles.push(snapshot.path);
+            } catch (error) {
+                this.logger.error(`Failed to roll back ${snapshot.path}`, error);
+                result.conflictedFiles.push(snapshot.path);
+                remaining.push(snapshot);
+            }
+        }
+
+        if (remaining.length === 0) {
+            await this.removeEntry(entryId);
+        } else {
+            this.entries = this.entries.map(e => e.id === entryId ? { ...e, files: remaining } : e);
+            await this.save();
+        }
+
+        this.logger.info(`Rolled back ${result.restoredFiles.length} of ${entry.files.length} files for entry ${entryId}`);
+        return result;
+    }
+
+    /**
+     * Removes an entry from the journal without restoring anything
+     * @param entryId - ID of the entry to remove
+     */
+    async removeEntry(entryId: string): Promise<void> {
+        this.entries = this.entries.filter(e => e.id !== entryId);
+        await this.save();
+        this.logger.debug('Removed journal entry:', entryId);
+    }
+
+    /**
+     * Clears the whole journal
+     */
+    async clear(): Promise<void> {
+        this.entries = [];
+        await this.save();
+        this.logger.info('Cleared replacement journal');
+    }
+
+    /**
+     * Trims the journal to match the current max size setting
+     * Called when the journal size setting is changed
+     */
+    async updateMaxSize(): Promise<void> {
+        const count = this.entries.length;
+        this.entries = this.trim(this.entries);
+        if (this.entries.length < count) {
+            this.logger.info(`Trimmed replacement journal to ${this.entries.length} entries (removed ${count - this.entries.length})`);
+        }
+        await this.save();
+    }
+
+    /**
+     * Keeps the newest entries within the max entries setting and the size limit
+     * @param entries - Entries, newest first
+     * @returns The entries to keep
+     */
+    private trim(entries: JournalEntry[]): JournalEntry[] {
+        const kept: JournalEntry[] = [];
+        let size = 0;
+        for (const entry of entries.slice(0, Math.max(0, this.getMaxEntries()))) {
+            size += JSON.stringify(entry).length;
+            if (size > this.maxSize) break;
+            kept.push(entry);
+        }
+        return kept;
+    }
+
+    /**
+     * Writes the journal file
+     * @returns Whether it was written; a failure is reported, since the entries would not outlive the session
+     */
+    private async save(): Promise<boolean> {
+        const stored: StoredJournal = { version: JOURNAL_VERSION, entries: this.entries };
+        try {
+            await this.app.vault.adapter.write(this.path, JSON.stringify(stored));
+            return true;
+        } catch (error) {
+            this.logger.error('Failed to save the undo history', error, true);
+            return false;
+        }
+    }
+
+    /**
+     * Reads a file's latest content, preferring an open editor over the saved file
+     */
+    private async readCurrent(file: TFile): Promise<string> {
+        const editor = findOpenEditor(this.app, file);
+        return editor ? editor.getValue() : this.app.vault.read(file);
+    }
+
+    /**
+     * Writes a snapshot's original content back
+     * Open files are restored through the editor, changing only the replaced lines.
+     */
+    private async restore(file: TFile, snapshot: JournalFileSnapshot): Promise<void> {
+        const editor = findOpenEditor(this.app, file);
+        if (editor) {
+            const hunks = computeHunks(snapshot.after, snapshot.before);
+            applyEditsToEditor(editor, hunksToEdits(snapshot.after, hunks, new Set(hunks.map(h => h.index))));
+            return;
+        }
+
+        await this.app.vault.process(file, data => {
+            if (data !== snapshot.after) throw new Error('file changed since the replacement');
+            return snapshot.before;
+        });
+    }
+
+    /**
+     * Determines whether a snapshot can be restored
+     */
+    private async getSnapshotState(snapshot: JournalFileSnapshot): Promise<'ok' | 'conflict' | 'missing'> {
+        const file = this.app.vault.getAbstractFileByPath(snapshot.path);
+        if (!(file instanceof TFile)) return 'missing';
+
+        try {
+            const current = await this.readCurrent(file);
+            return current === snapshot.after ? 'ok' : 'conflict';
+        } catch (error) {
+            this.logger.warn(`Could not read ${snapshot.path} while checking journal entry`, error);
+            return 'missing';
+        }
+    }
+}
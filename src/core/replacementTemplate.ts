@@ -0,0 +1,211 @@
+/**
+ * Replacement template expansion shared by the replacement engine and the results preview
+ * Keeping a single implementation guarantees the preview shows exactly what will be written.
+ *
+ * Supported tokens (regex mode):
+ * - `$1`…`$99`, `$<name>` - numbered and named capture groups
+ * - `$&`, `` $` ``, `$'`, `$$` - whole match, text before/after the match, literal `$`
+ * - `\n`, `\t`, `\\` - newline, tab, literal backslash
+ * - `\U`, `\L` - upper/lower-case everything up to `\E` (or the end)
+ * - `\u`, `\l` - upper/lower-case the next character only
+ * - `${…}` - computed tokens, when a resolver is given (see replacementTokens)
+ */
+
+/**
+ * Capture group references found in a replacement template
+ */
+export interface TemplateGroupReferences {
+    numbered: string[]; // Digits as written (one or two), e.g. "1" or "10"
+    named: string[];
+}
+
+/**
+ * Resolves the body of a `${…}` token, or returns null to leave it as typed
+ */
+export type TemplateTokenResolver = (token: string) => string | null;
+
+/**
+ * Accumulates output while applying the active case modifiers
+ */
+class CaseAwareOutput {
+    private text = '';
+    private mode: 'none' | 'upper' | 'lower' = 'none';
+    private next: 'upper' | 'lower' | null = null;
+
+    append(value: string): void {
+        if (!value) return;
+        let chunk = this.mode === 'upper' ? value.toUpperCase() : this.mode === 'lower' ? value.toLowerCase() : value;
+        if (this.next) {
+            const first = this.next === 'upper' ? chunk.charAt(0).toUpperCase() : chunk.charAt(0).toLowerCase();
+            chunk = first + chunk.slice(1);
+            this.next = null;
+        }
+        this.text += chunk;
+    }
+
+    setMode(mode: 'none' | 'upper' | 'lower'): void {
+        this.mode = mode;
+    }
+
+    setNext(next: 'upper' | 'lower'): void {
+        this.next = next;
+    }
+
+    toString(): string {
+        return this.text;
+    }
+}
+
+/**
+ * Resolves a `$n` / `$nn` reference the way String.prototype.replace does:
+ * two digits if that group exists, otherwise one digit, otherwise no reference.
+ * @returns The group number and how many digits it used, or null
+ */
+function readGroupNumber(template: string, start: number, groupCount: number): { group: number; length: number } | null {
+    const two = template.slice(start, start + 2);
+    if (/^\d\d$/.test(two) && Number(two) >= 1 && Number(two) <= groupCount) {
+        return { group: Number(two), length: 2 };
+    }
+    const one = template.charAt(start);
+    if (/^\d$/.test(one) && Number(one) >= 1 && Number(one) <= groupCount) {
+        return { group: Number(one), length: 1 };
+    }
+    return null;
+}
+
+/**
+ * Reads a `$` token at the given position
+ * @returns The text it expands to and the number of template characters it consumed
+ */
+function readDollarToken(
+    template: string,
+    start: number,
+    match: RegExpExecArray | RegExpMatchArray,
+    input: string,
+    resolveToken?: TemplateTokenResolver
+): { value: string; length: number } {
+    const offset = match.index ?? 0;
+    const next = template.charAt(start + 1);
+
+    switch (next) {
+        case '$':
+            return { value: '$', length: 2 };
+        case '&':
+            return { value: match[0], length: 2 };
+        case '`':
+            return { value: input.slice(0, offset), length: 2 };
+        case "'":
+            return { value: input.slice(offset + match[0].length), length: 2 };
+    }
+
+    // Named groups only expand when the regex defines any (same as String.prototype.replace)
+    if (next === '<' && match.groups) {
+        const close = template.indexOf('>', start + 2);
+        if (close !== -1) {
+            return { value: match.groups[template.slice(start + 2, close)] ?? '', length: close + 1 - start };
+        }
+    }
+
+    if (next === '{' && resolveToken) {
+        const close = template.indexOf('}', start + 2);
+        const value = close === -1 ? null : resolveToken(template.slice(start + 2, close));
+        if (value !== null) {
+            return { value, length: close + 1 - start };
+        }
+    }
+
+    const ref = readGroupNumber(template, start + 1, match.length - 1);
+    if (ref) {
+        return { value: match[ref.group] ?? '', length: 1 + ref.length };
+    }
+
+    return { value: '$', length: 1 };
+}
+
+/**
+ * Expands a replacement template against a regex match
+ * @param template - Replacement text as typed by the user
+ * @param match - The regex match (capture groups, index and optional named groups)
+ * @param input - The string the match was found in (for `` $` `` and `$'`)
+ * @param resolveToken - Resolver for `${…}` computed tokens (optional)
+ * @returns The expanded replacement
+ */
+export function expandReplacementTemplate(
+    template: string,
+    match: RegExpExecArray | RegExpMatchArray,
+    input: string,
+    resolveToken?: TemplateTokenResolver
+): string {
+    const out = new CaseAwareOutput();
+    let i = 0;
+
+    while (i < template.length) {
+        const ch = template.charAt(i);
+
+        if (ch === '$') {
+            const token = readDollarToken(template, i, match, input, resolveToken);
+            out.append(token.value);
+            i += token.length;
+            continue;
+        }
+
+        if (ch === '\\' && i + 1 < template.length) {
+            const escape = template.charAt(i + 1);
+            i += 2;
+            switch (escape) {
+                case 'n':
+                    out.append('\n');
+                    continue;
+                case 't':
+                    out.append('\t');
+                    continue;
+                case '\\':
+                    out.append('\\');
+                    continue;
+                case 'U':
+                    out.setMode('upper');
+                    continue;
+                case 'L':
+                    out.setMode('lower');
+                    continue;
+                case 'E':
+                    out.setMode('none');
+                    continue;
+                case 'u':
+                    out.setNext('upper');
+                    continue;
+                case 'l':
+                    out.setNext('lower');
+                    continue;
+                default:
+                    // Unknown escapes stay literal
+                    out.append(ch + escape);
+                    continue;
+            }
+        }
+
+        out.append(ch);
+        i++;
+    }
+
+    return out.toString();
+}
+
+/**
+ * Lists the capture group references written in a replacement template
+ * Digits are returned as written; whether `$10` means group 10 or group 1 followed by "0"
+ * depends on the regex (see readGroupNumber).
+ * @param template - Replacement text as typed by the user
+ * @returns Numbered and named group references in order of appearance
+ */
+export function findGroupReferences(template: string): TemplateGroupReferences {
+    const numbered: string[] = [];
+    const named: string[] = [];
+    const pattern = /\$\$|\$<([^>]+)>|\$(\d{1,2})/g;
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(template)) !== null) {
+        if (m[1] !== undefined) named.push(m[1]);
+        else if (m[2] !== undefined) numbered.push(m[2]);
+    }
+    return { numbered, named };
+}
@@ -0,0 +1,95 @@
+/**
+ * Computed replacement tokens
+ * Values that depend on where a replacement lands rather than on what was matched.
+ *
+ * Supported tokens (literal and regex mode):
+ * - `${counter}`, `${counter:start=1,pad=3,step=1}` - running number in search result order
+ * - `${date}`, `${date:YYYY-MM-DD}` - current date in a moment.js format
+ * - `${file.basename}`, `${file.name}`, `${file.extension}`, `${file.path}`, `${file.parent}` - file metadata
+ * - `${line}` - 1-based line number of the match
+ *
+ * Unknown tokens are left as typed.
+ */
+
+import { moment as obsidianMoment } from 'obsidian';
+import type momentFn from 'moment';
+import { ReplacementTokenContext } from '../types';
+
+// obsidian.d.ts types `moment` as the module namespace, which is not callable under esModuleInterop
+const moment = obsidianMoment as unknown as typeof momentFn;
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const TOKEN_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Parses `key=value` pairs from a token argument list
+ */
+function parseArguments(args: string): Record<string, string> {
+    const parsed: Record<string, string> = {};
+    for (const pair of args.split(',')) {
+        const [key, value] = pair.split('=').map(part => part.trim());
+        if (key && value !== undefined) parsed[key] = value;
+    }
+    return parsed;
+}
+
+/**
+ * Formats the running counter for a match
+ */
+function formatCounter(args: string, counter: number): string | null {
+    const { start = '1', step = '1', pad = '0' } = parseArguments(args);
+    const [startValue, stepValue, width] = [Number(start), Number(step), Number(pad)];
+    if (!Number.isFinite(startValue) || !Number.isFinite(stepValue) || !Number.isInteger(width) || width < 0) {
+        return null;
+    }
+    const value = startValue + counter * stepValue;
+    const digits = String(Math.abs(value)).padStart(width, '0');
+    return value < 0 ? `-${digits}` : digits;
+}
+
+/**
+ * Resolves the body of a `${…}` token
+ * @param token - Text between the braces, e.g. "counter:pad=3"
+ * @param context - Where the replacement lands
+ * @returns The token value, or null when the token is not recognised
+ */
+export function resolveComputedToken(token: string, context: ReplacementTokenContext): string | null {
+    const separator = token.indexOf(':');
+    const name = (separator === -1 ? token : token.slice(0, separator)).trim();
+    const args = separator === -1 ? '' : token.slice(separator + 1);
+    const { file } = context;
+
+    switch (name) {
+        case 'counter':
+            return formatCounter(args, context.counter);
+        case 'date':
+            return moment().format(args.trim() || DEFAULT_DATE_FORMAT);
+        case 'line':
+            return String(context.line + 1);
+        case 'file.basename':
+            return file.basename;
+        case 'file.name':
+            return file.name;
+        case 'file.extension':
+            return file.extension;
+        case 'file.path':
+            return file.path;
+        case 'file.parent': {
+            // Folder path; empty for notes at the vault root
+            const slash = file.path.lastIndexOf('/');
+            return slash === -1 ? '' : file.path.slice(0, slash);
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Expands computed tokens in replacement text that has no other special syntax (literal mode)
+ * @param template - Replacement text as typed by the user
+ * @param context - Where the replacement lands
+ * @returns The replacement with every recognised token expanded
+ */
+export function expandComputedTokens(template: string, context: ReplacementTokenContext): string {
+    return template.replace(TOKEN_PATTERN, (whole, token: string) => resolveComputedToken(token, context) ?? whole);
+}
@@ -0,0 +1,43 @@
+/**
+ * Result context
+ * Attaches the lines around each match (like `grep -C`), taken from the content the search read,
+ * so the results show where a match sits without opening the note.
+ */
+
+import { ContextLine, SearchResult } from '../types';
+
+/**
+ * Adds the lines around each match of a file to its result
+ * A multiline match gets the lines after its last line. Lines of other matches are included too;
+ * the results list merges overlapping context into one block per run of lines.
+ * @param results - Matches of one file
+ * @param content - Content of the file as searched
+ * @param count - Lines before and after each match (0 adds nothing)
+ * @returns The results, with context when count is positive
+ */
+export function addResultContext<T extends SearchResult>(results: T[], content: string, count: number): T[] {
+    if (count <= 0 || results.length === 0) return results;
+
+    const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
+    return results.map(result => {
+        const lastLine = result.line + result.matchText.split('\n').length - 1;
+        return {
+            ...result,
+            context: {
+                before: sliceLines(lines, result.line - count, result.line),
+                after: sliceLines(lines, lastLine + 1, lastLine + 1 + count)
+            }
+        };
+    });
+}
+
+/**
+ * Gets lines [from, to) of a note, clipped to the note
+ */
+function sliceLines(lines: string[], from: number, to: number): ContextLine[] {
+    const context: ContextLine[] = [];
+    for (let line = Math.max(0, from); line < Math.min(lines.length, to); line++) {
+        context.push({ line, text: lines[line] });
+    }
+    return context;
+}
@@ -0,0 +1,268 @@
+/**
+ * Search results in editors
+ * Marks every current search result in the notes open in editors, so the matches stay visible
+ * while editing; the result last opened from the results list gets a stronger mark. The marks
+ * move with the text as the user types, the lines typed in are matched again, and the marks are
+ * set again whenever the results change.
+ */
+
+import { App, MarkdownView } from 'obsidian';
+import { ChangeSet, StateEffect, StateField, Text } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView } from '@codemirror/view';
+import { SearchOptions, SearchResult } from '../types';
+import { Logger } from '../utils';
+import { getEditorView } from './matchHighlighter';
+import { applyMarkdownScope, matchContent } from './contentMatcher';
+import VaultFindReplacePlugin from '../main';
+
+/**
+ * A marked result: document offsets and whether it is the active one
+ */
+interface ResultRange {
+    from: number;
+    to: number;
+    active: boolean;
+}
+
+/**
+ * Finds the matches of the search in whole lines of a document
+ * @param doc - The document
+ * @param from - Offset of the start of the first line
+ * @param to - Offset of the end of the last line
+ * @returns Offsets of the matches, in document order
+ */
+export type RangeMatcher = (doc: Text, from: number, to: number) => { from: number; to: number }[];
+
+/**
+ * The marks of an editor and how to find the matches in lines typed in
+ */
+interface ResultHighlights {
+    marks: DecorationSet;
+    match: RangeMatcher | null; // Null when edited lines are not matched again
+}
+
+/** Replaces the marked results of an editor (an empty list clears them) */
+const setResultHighlights = StateEffect.define<{ ranges: ResultRange[]; match: RangeMatcher | null }>();
+
+const resultMark = Decoration.mark({ class: 'find-replace-result-highlight' });
+const activeResultMark = Decoration.mark({ class: 'find-replace-result-highlight is-active' });
+
+/**
+ * Editor extension holding the marked results; registered once by the plugin
+ */
+export const resultHighlightField = StateField.define<ResultHighlights>({
+    create: () => ({ marks: Decoration.none, match: null }),
+    update(highlights, transaction) {
+        // Typing moves the marks with the text they cover
+        let { marks, match } = highlights;
+        marks = marks.map(transaction.changes);
+        if (match && transaction.docChanged) {
+            marks = matchChangedLines(marks, transaction.state.doc, transaction.changes, match);
+        }
+        for (const effect of transaction.effects) {
+            if (effect.is(setResultHighlights)) {
+                marks = Decoration.set(effect.value.ranges.map(range =>
+                    (range.active ? activeResultMark : resultMark).range(range.from, range.to)), true);
+                match = effect.value.match;
+            }
+        }
+        return marks === highlights.marks && match === highlights.match ? highlights : { marks, match };
+    },
+    provide: field => EditorView.decorations.from(field, highlights => highlights.marks)
+});
+
+/**
+ * Marks the matches of the lines an edit touched again, so text typed in is marked when it matches
+ * and marks on text that no longer matches go away. The active mark stays active where it still matches.
+ */
+function matchChangedLines(marks: DecorationSet, doc: Text, changes: ChangeSet, match: RangeMatcher): DecorationSet {
+    // Whole lines around each change, merged where they overlap
+    const spans: { from: number; to: number }[] = [];
+    changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
+        const from = doc.lineAt(fromB).from;
+        const to = doc.lineAt(toB).to;
+        const last = spans[spans.length - 1];
+        if (last && from <= last.to) {
+            last.to = Math.max(last.to, to);
+        } else {
+            spans.push({ from, to });
+        }
+    });
+
+    for (const span of spans) {
+        const active = new Set<string>();
+        marks.between(span.from, span.to, (from, to, mark) => {
+            if (mark === activeResultMark) active.add(`${from}:${to}`);
+        });
+        const found = match(doc, span.from, span.to).map(range =>
+            (active.has(`${range.from}:${range.to}`) ? activeResultMark : resultMark).range(range.from, range.to));
+        marks = marks.update({
+            filter: (from, to) => to < span.from || from > span.to,
+            filterFrom: span.from,
+            filterTo: span.to,
+            add: found,
+            sort: true
+        });
+    }
+    return marks;
+}
+
+/**
+ * Creates the matcher that finds the matches of a search in edited lines
+ * Matching follows the rules of the search (see core/contentMatcher), within the lines given; the
+ * Markdown scope is checked against the whole note. A boolean query marks its terms.
+ * @param query - The search query
+ * @param options - Search configuration options
+ * @param regex - Compiled search regex, or null for plain-text matching
+ * @returns The matcher, or null when the search cannot be matched again in an editor
+ *   (property values and selection scope)
+ */
+export function createRangeMatcher(query: string, options: SearchOptions, regex: RegExp | null): RangeMatcher | null {
+    if (options.searchProperties || options.selection || !query.trim()) return null;
+
+    return (doc, from, to) => {
+        const firstLine = doc.lineAt(from).number - 1;
+        let matches = matchContent(doc.sliceString(from, to), query, options, regex)
+            .map(match => ({ ...match, line: match.line + firstLine }));
+        if (options.markdownScope) {
+            matches = applyMarkdownScope(doc.toString(), options, matches);
+        }
+        return matches.map(match => {
+            const start = doc.line(match.line + 1).from + (match.col ?? 0);
+            return { from: start, to: start + match.matchText.length };
+        });
+    };
+}
+
+/**
+ * Locates a result in a document
+ * Results whose text is no longer at their position (the note changed since the search) are not marked.
+ * @returns The offsets of the match, or null when it cannot be found there
+ */
+export function locateResult(doc: Text, result: SearchResult): { from: number; to: number } | null {
+    if (result.line < 0 || result.line >= doc.lines || !result.matchText) return null;
+    const from = doc.line(result.line + 1).from + (result.col ?? 0);
+    const to = from + result.matchText.length;
+    if (to > doc.length || doc.sliceString(from, to) !== result.matchText) return null;
+    return { from, to };
+}
+
+/**
+ * Shows the results of the find/replace view in every open editor
+ */
+export class ResultHighlighter {
+    private app: App;
+    private plugin: VaultFindReplacePlugin;
+    private logger: Logger;
+    private resultsByFile: Map<string, SearchResult[]> = new Map();
+    private active: SearchResult | null = null;
+    private match: RangeMatcher | null = null;
+    private marked: Map<EditorView, string> = new Map(); // Editors showing marks → path of the note marked
+
+    constructor(app: App, plugin: VaultFindReplacePlugin) {
+        this.app = app;
+        this.plugin = plugin;
+        this.logger = Logger.create(plugin, 'ResultHighlighter');
+    }
+
+    /**
+     * Marks the results in notes opened later, or in a different pane
+     */
+    registerEvents(): void {
+        this.plugin.registerEvent(this.app.workspace.on('layout-change', () => this.update(false)));
+        this.plugin.registerEvent(this.app.workspace.on('file-open', () => this.update(false)));
+    }
+
+    /**
+     * Marks a new set of results, replacing the previous ones
+     * The active result stays active when it is still among them.
+     * @param results - Results shown by the find/replace view
+     * @param match - Finds the matches in lines edited from now on (see createRangeMatcher), or null to only move the marks
+     */
+    setResults(results: SearchResult[], match: RangeMatcher | null = null): void {
+        this.match = match;
+        this.resultsByFile = new Map();
+        for (const result of results) {
+            const fileResults = this.resultsByFile.get(result.file.path);
+            if (fileResults) {
+                fileResults.push(result);
+            } else {
+                this.resultsByFile.set(result.file.path, [result]);
+            }
+        }
+        if (this.active && !this.resultsByFile.get(this.active.file.path)?.includes(this.active)) {
+            this.active = null;
+        }
+        this.update(true);
+    }
+
+    /**
+     * Marks a result more strongly, e.g. the one last opened from the results list
+     * @param result - The result, or null for none
+     */
+    setActive(result: SearchResult | null): void {
+        this.active = result;
+        this.update(true);
+    }
+
+    /**
+     * Removes every mark (results cleared or the find/replace view closed)
+     */
+    clear(): void {
+        this.resultsByFile.clear();
+        this.active = null;
+        this.match = null;
+        this.update(true);
+    }
+
+    /**
+     * Sets the marks of the open editors
+     * @param all - Set them in every editor; otherwise only in editors not marked yet, so marks that
+     *   moved while the user typed are kept
+     */
+    private update(all: boolean): void {
+        const marked = new Map<EditorView, string>();
+        const seen = new Set<EditorView>();
+        for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+            const view = leaf.view;
+            if (!(view instanceof MarkdownView) || !view.file) continue;
+            const cm = getEditorView(view.editor);
+            if (!cm || seen.has(cm)) continue;
+            seen.add(cm);
+            const path = view.file.path;
+
+            // Still marked for the note it shows
+            if (!all && this.marked.get(cm) === path) {
+                marked.set(cm, path);
+                continue;
+            }
+
+            const ranges = this.getRanges(cm.state.doc, path);
+            if (ranges.length > 0 || this.marked.has(cm)) {
+                cm.dispatch({ effects: setResultHighlights.of({ ranges, match: ranges.length > 0 ? this.match : null }) });
+            }
+            if (ranges.length > 0) marked.set(cm, path);
+        }
+
+        // Editors that were closed meanwhile
+        for (const cm of Array.from(this.marked.keys())) {
+            if (!seen.has(cm) && cm.dom.isConnected) {
+                cm.dispatch({ effects: setResultHighlights.of({ ranges: [], match: null }) });
+            }
+        }
+        this.marked = marked;
+        this.logger.trace(`Results marked in ${marked.size} editor(s)`);
+    }
+
+    /**
+     * Gets the ranges of a file's results in its document
+     */
+    private getRanges(doc: Text, filePath: string): ResultRange[] {
+        const ranges: ResultRange[] = [];
+        for (const result of this.resultsByFile.get(filePath) ?? []) {
+            const range = locateResult(doc, result);
+            if (range) ranges.push({ ...range, active: result === this.active });
+        }
+        return ranges;
+    }
+}
@@ -1,8 +1,28 @@
 import { App, Notice, TAbstractFile, TFile } from 'obsidian';
-import { SearchResult, SearchOptions, SessionFilters } from '../types';
-import { Logger } from '../utils';
+import { SearchResult, SearchOptions, SessionFilters, QueryError, SearchRunOptions, SearchWorkerFile, ResolvedSearchScope } from '../types';
+import { Logger, SEARCH_FILE_TIME_BUDGET } from '../utils';
+import { matchesMetadataFilter } from './metadataFilters';
+import { listProperties, propertyRow, propertyValueOffset, findPropertyLine } from './frontmatterProperties';
+import { parseQuery, getQueryTerms, QuerySyntaxError } from './queryParser';
+import { usesSearchRegex, buildSearchPattern, searchRegexFlags, createQueryFilter, createContentMatcher, matchContent } from './contentMatcher';
+import { SearchWorkerClient } from './searchWorkerClient';
+import { findNestedQuantifier } from './regexSafety';
+import { addResultContext } from './resultContext';
 import VaultFindReplacePlugin from '../main';
 
+/**
+ * A regex refused because it could freeze Obsidian (see SearchEngine.getRegexHazard)
+ */
+export class RegexHazardError extends Error {
+    /**
+     * @param message - Why the regex is refused, shown to the user
+     */
+    constructor(message: string) {
+        super(message);
+        this.name = 'RegexHazardError';
+    }
+}
+
 /**
  * Handles all search operations and regex building logic
  */
@@ -13,11 +33,15 @@ export class SearchEngine {
     private lastCompiledRegex: RegExp | null = null;
     private lastSearchOptions: string = '';
     private failedFiles: string[] = []; // Track files that failed during search
+    private timedOutFiles: string[] = []; // Files skipped because matching them ran over the time budget
+    private slowPatterns: Set<string> = new Set(); // Regexes (flags and source) that ran over the time budget
+    private worker: SearchWorkerClient; // Matches file contents off the main thread
 
     constructor(app: App, plugin: VaultFindReplacePlugin) {
         this.app = app;
         this.plugin = plugin;
         this.logger = Logger.create(plugin, 'SearchEngine');
+        this.worker = new SearchWorkerClient(this.logger);
     }
 
     /**
@@ -43,13 +67,17 @@ export class SearchEngine {
             searchInFolders: sessionFilters.searchInFolders || [],
             includePatterns: sessionFilters.includePatterns || [],
             excludeFolders: sessionFilters.excludeFolders || [],
-            excludePatterns: sessionFilters.excludePatterns || []
+            excludePatterns: sessionFilters.excludePatterns || [],
+            includeMetadata: sessionFilters.includeMetadata || [],
+            excludeMetadata: sessionFilters.excludeMetadata || []
         } : {
             fileExtensions: this.plugin.settings.fileExtensions || [],
             searchInFolders: this.plugin.settings.searchInFolders || [],
             includePatterns: this.plugin.settings.includePatterns || [],
             excludeFolders: this.plugin.settings.excludeFolders || [],
-            excludePatterns: this.plugin.settings.excludePatterns || []
+            excludePatterns: this.plugin.settings.excludePatterns || [],
+            includeMetadata: [],
+            excludeMetadata: []
         };
 
         this.logger.debug('Filtering files with settings:', {
@@ -57,7 +85,9 @@ export class SearchEngine {
             searchInFolders: settings.searchInFolders,
             includePatterns: settings.includePatterns,
             excludeFolders: settings.excludeFolders,
-            excludePatterns: settings.excludePatterns
+            excludePatterns: settings.excludePatterns,
+            includeMetadata: settings.includeMetadata,
+            excludeMetadata: settings.excludeMetadata
         });
 
         // Filter out folders - we only want files
@@ -129,6 +159,24 @@ export class SearchEngine {
             });
         }
 
+        // Filter by metadata (tags, properties, links, modified date, size): every include token must match
+        if (settings.includeMetadata.length > 0) {
+            filteredFiles = filteredFiles.filter(file => {
+                const included = settings.includeMetadata.every(filter => matchesMetadataFilter(this.app, file, filter));
+                this.logger.trace(`File ${file.path}: included by metadata: ${included}`);
+                return included;
+            });
+        }
+
+        // Filter by metadata exclusion: any matching token excludes the file
+        if (settings.excludeMetadata.length > 0) {
+            filteredFiles = filteredFiles.filter(file => {
+                const excluded = settings.excludeMetadata.some(filter => matchesMetadataFilter(this.app, file, filter));
+                this.logger.trace(`File ${file.path}: excluded by metadata: ${excluded}`);
+                return !excluded;
+            });
+        }
+
         this.logger.debug(`Filtered ${files.length} files down to ${filteredFiles.length} files`);
         return filteredFiles;
     }
@@ -154,17 +202,34 @@ export class SearchEngine {
 
     /**
      * Main search function - searches filtered files in the vault
+     * Files are read on the main thread and matched in a Web Worker, batch by batch; the matches of
+     * each batch are reported through run.onResults as soon as it completes.
+     * When run.signal is aborted, no further files are read: the matches found so far are returned and
+     * a last progress report is flagged as cancelled.
      * @param query - The search query string
      * @param options - Search configuration options
      * @param sessionFilters - Optional session-only filters (overrides plugin settings)
-     * @returns Promise resolving to array of search results
+     * @param run - Optional callbacks receiving results and progress while the search runs, its abort signal and
+     *   the lines of context to attach to each result (see core/resultContext)
+     * @param scope - Optional search scope (see core/searchScope); limits the files searched and, for a selection, the text
+     * @returns Promise resolving to array of search results, sorted (partial if cancelled)
+     * @throws RegexHazardError when the search matches on the main thread and the regex could freeze Obsidian
      */
-    async performSearch(query: string, options: SearchOptions, sessionFilters?: SessionFilters): Promise<SearchResult[]> {
+    async performSearch(
+        query: string,
+        options: SearchOptions,
+        sessionFilters?: SessionFilters,
+        run?: SearchRunOptions,
+        scope?: ResolvedSearchScope
+    ): Promise<SearchResult[]> {
         const trimmedQuery = query.trim();
-        this.logger.debug('performSearch called:', { query: trimmedQuery, options });
+        // The selected range travels with the options, so the worker only keeps matches inside it
+        if (scope?.selection) options = { ...options, selection: scope.selection };
+        this.logger.debug('performSearch called:', { query: trimmedQuery, options, scope: scope?.scope });
 
         // Clear previous failures
         this.failedFiles = [];
+        this.timedOutFiles = [];
 
         if (!trimmedQuery) {
             this.logger.debug('Empty query, returning 0 results');
@@ -172,179 +237,92 @@ export class SearchEngine {
         }
 
         const results: SearchResult[] = [];
-        // Use getAllLoadedFiles() when any filtering is configured via session filters
-        const hasSessionFilters = sessionFilters && (
-            (sessionFilters.fileExtensions && sessionFilters.fileExtensions.length > 0) ||
-            (sessionFilters.searchInFolders && sessionFilters.searchInFolders.length > 0) ||
-            (sessionFilters.includePatterns && sessionFilters.includePatterns.length > 0) ||
-            (sessionFilters.excludeFolders && sessionFilters.excludeFolders.length > 0) ||
-            (sessionFilters.excludePatterns && sessionFilters.excludePatterns.length > 0)
-        );
+        const searchable = this.applySearchScope(this.getSearchableFiles(sessionFilters), scope);
+        // The search index, when enabled, rules out notes that cannot contain the query
+        const files = this.plugin.searchIndex ? this.plugin.searchIndex.filterCandidates(searchable, query, options) : searchable;
+        const progress = { scanned: 0, total: files.length };
+        run?.onResults?.([], { ...progress });
 
-        // Always search all files when no specific filtering is configured
-        // This ensures comprehensive search coverage by default
-        const shouldUseAllFiles = hasSessionFilters || !sessionFilters;
+        // Compile the regex up front (cached) so an invalid pattern fails before any file is read
+        const regex = usesSearchRegex(options) ? this.buildSearchRegex(query, options) : null;
 
-        const allFiles = shouldUseAllFiles ?
-            this.app.vault.getAllLoadedFiles() :
-            this.app.vault.getMarkdownFiles();
+        // Without the worker's time budget, refuse a regex that could freeze Obsidian
+        const hazard = this.matchesInThread(options) ? this.getRegexHazard(query, options, true) : null;
+        if (hazard) throw new RegexHazardError(hazard);
 
-        const files = this.filterFiles(allFiles, sessionFilters);
-        this.logger.debug('Found', files.length, shouldUseAllFiles ? 'files' : 'markdown files', 'to search');
+        // Properties mode matches values from the metadata cache, which only the main thread can reach
+        const qualifies = options.searchProperties ? createQueryFilter(query, options) : null;
 
-        // Pre-build regex pattern if needed (for performance)
-        let regex: RegExp | null = null;
-        if (options.useRegex || options.wholeWord) {
-            regex = this.buildSearchRegex(query, options);
-        }
-
-        // Performance optimization: pre-convert query once for case-insensitive searches
-        // This eliminates thousands of repeated toLowerCase() calls during search
-        const searchQuery = options.matchCase ? trimmedQuery : trimmedQuery.toLowerCase();
-
-        // Performance optimization: process files in batches to prevent UI freezing
-        const BATCH_SIZE = 10;   // Number of files to process at once
+        // Performance optimization: read files in batches; each batch is matched while the next is read
+        const BATCH_SIZE = 10;   // Number of files to read at once
         const YIELD_DELAY = 0;   // Milliseconds to wait between batches
+        const batches: Promise<void>[] = [];
+        let matchError: unknown = null;
+
+        const signal = run?.signal;
 
-        // Process files in batches to maintain responsive UI
         for (let batchStart = 0; batchStart < files.length; batchStart += BATCH_SIZE) {
+            if (signal?.aborted) break;
             const batch = files.slice(batchStart, batchStart + BATCH_SIZE);
 
-            // Process all files in current batch concurrently
-            await Promise.all(batch.map(async (file) => {
-                try {
-                    const content = await this.app.vault.read(file);
-
-                    // Use multiline processing if multiline option is enabled and we're using regex
-                    if (options.multiline === true && options.useRegex && regex) {
-                        // Process entire file content for multiline matches
-                        for (const m of Array.from(content.matchAll(regex))) {
-                            if (!m[0]) continue; // Skip empty matches
-
-                            // Find which line this match starts on
-                            const beforeMatch = content.substring(0, m.index ?? 0);
-                            const lineNumber = beforeMatch.split('\n').length - 1;
-                            const lineStartPos = beforeMatch.lastIndexOf('\n') + 1;
-                            const colInLine = (m.index ?? 0) - lineStartPos;
-
-                            // Get the line content for display (show first line of match)
-                            const lines = content.split('\n');
-                            const lineContent = lines[lineNumber] || '';
-
-                            results.push({
-                                file,
-                                line: lineNumber,
-                                content: lineContent,
-                                matchText: m[0],
-                                col: colInLine,
-                                pattern: query
-                            });
-                        }
-                        return; // Skip line-by-line processing
-                    }
-
-                    // Default line-by-line processing
-                    const lines = content.split('\n');
-
-                // Special case: handle dot regex patterns that match everything
-                const isDotRegex = options.useRegex && regex && (regex.source === '.' || regex.source === '.*');
-                if (isDotRegex) {
-                    // For dot regex, match every non-empty line
-                    for (let i = 0; i < lines.length; i++) {
-                        const lineText = lines[i];
-                        if (lineText.trim() === '') continue; // Skip empty lines
-
-                        results.push({
-                            file,
-                            line: i,
-                            content: lineText,
-                            matchText: lineText, // Entire line is the match
-                            col: 0,
-                            pattern: query
-                        });
-                    }
-                    return;
-                }
-
-                // Normal processing: search each line for matches
-                for (let i = 0; i < lines.length; i++) {
-                    const lineText = lines[i];
-                    if (lineText.trim() === '') continue; // Skip empty lines
-
-                    if ((options.useRegex || options.wholeWord) && regex) {
-                        // Use regex matching for regex mode or whole word mode
-                        for (const m of Array.from(lineText.matchAll(regex))) {
-                            if (!m[0]) continue; // Skip empty matches
-                            results.push({
-                                file,
-                                line: i,
-                                content: lineText,
-                                matchText: m[0],
-                                col: m.index ?? 0,
-                                pattern: query
-                            });
-                        }
-                    } else {
-                        // Use simple string matching for basic search
-                        // Only convert line text case when needed (not for case-sensitive searches)
-                        const haystack = options.matchCase ? lineText : lineText.toLowerCase();
-                        const needle = searchQuery; // Use pre-converted query
-                        if (!needle) continue;
-
-                        // Find all occurrences of needle in haystack
-                        let start = 0;
-                        while (true) {
-                            const idx = haystack.indexOf(needle, start);
-                            if (idx === -1) break; // No more matches in this line
-
-                            results.push({
-                                file,
-                                line: i,
-                                content: lineText,
-                                matchText: lineText.slice(idx, idx + needle.length),
-                                col: idx,
-                                pattern: query
-                            });
-
-                            // Move start position forward to find next match
-                            start = idx + Math.max(needle.length, 1);
+            if (options.searchProperties) {
+                const found = await Promise.all(batch.map(file =>
+                    this.readSafely(file, signal, () => this.matchProperties(file, query, options, regex, qualifies))));
+                this.reportBatch(found, batch.length, results, progress, run);
+            } else {
+                // Read all files in the current batch concurrently, skipping files that cannot be read
+                const read = await Promise.all(batch.map(file =>
+                    this.readSafely(file, signal, async () => ({ file, content: await this.app.vault.read(file) }))));
+                const readable = read.filter((entry): entry is { file: TFile; content: string } => entry !== null);
+                const sent: SearchWorkerFile[] = readable.map(({ file, content }) => ({ path: file.path, name: file.name, content }));
+
+                batches.push(this.worker.match(query, options, sent).then(matches => {
+                    const found = readable.map(({ file, content }, i) => {
+                        const fileMatches = matches[i];
+                        if (!fileMatches) {
+                            this.timedOutFiles.push(file.path);
+                            if (regex) this.slowPatterns.add(this.getRegexKey(buildSearchPattern(query.trim(), options), options));
+                            return null;
                         }
-                    }
-                }
-                } catch (error) {
-                    // Log file read errors but continue processing other files
-                    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-                    this.logger.warn(`Failed to read file ${file.path}: ${errorMsg}`, error);
-
-                    // Track failed files for user notification
-                    this.failedFiles.push(file.path);
-
-                    // Skip this file and continue with others
-                }
-            }));
+                        // Context comes from the content already read, so files are not read twice
+                        return addResultContext(fileMatches.map(match => ({ ...match, file })), content, run?.contextLines ?? 0);
+                    });
+                    this.reportBatch(found, batch.length, results, progress, run);
+                }).catch(error => {
+                    matchError = matchError ?? error;
+                }));
+            }
 
             // Yield control back to UI between batches
             await sleep(YIELD_DELAY);
         }
+        // Batches already sent to the worker are still collected, so cancelled results stay consistent
+        await Promise.all(batches);
+        if (matchError) throw matchError;
 
         // Sort results by file path, then line number, then column
-        results.sort((a, b) => {
-            if (a.file.path < b.file.path) return -1;
-            if (a.file.path > b.file.path) return 1;
-            if (a.line !== b.line) return a.line - b.line;
-            const colA = typeof a.col === "number" ? a.col : 0;
-            const colB = typeof b.col === "number" ? b.col : 0;
-            return colA - colB;
-        });
+        this.sortResults(results);
 
-        this.logger.debug('Search completed:', {
+        const cancelled = signal?.aborted ?? false;
+        this.logger.debug(cancelled ? 'Search cancelled:' : 'Search completed:', {
             query: trimmedQuery,
             options,
             resultCount: results.length,
             fileCount: files.length,
-            failedFiles: this.failedFiles.length
+            scanned: progress.scanned,
+            failedFiles: this.failedFiles.length,
+            timedOutFiles: this.timedOutFiles.length
         });
 
+        if (this.timedOutFiles.length > 0) {
+            this.logger.warn(`Search skipped ${this.timedOutFiles.length} file(s) whose matching took too long: ${this.timedOutFiles.join(', ')}`);
+        }
+
+        if (cancelled) {
+            run?.onResults?.([], { ...progress, cancelled: true });
+            return results;
+        }
+
         // Log partial failures if any occurred (warnings only, no user notifications)
         if (this.failedFiles.length > 0) {
             const failedCount = this.failedFiles.length;
@@ -367,6 +345,223 @@ export class SearchEngine {
         return results;
     }
 
+    /**
+     * Lists the files the last search skipped because matching them ran over the time budget
+     * (a regex backtracking catastrophically on their content)
+     * @returns File paths, sorted
+     */
+    getTimedOutFiles(): string[] {
+        return [...this.timedOutFiles].sort();
+    }
+
+    /**
+     * Whether a search matches on the main thread, where performSearch refuses regexes with nested quantifiers
+     * Properties mode always does: it matches values from the metadata cache.
+     * @param options - Search configuration options
+     */
+    matchesInThread(options: SearchOptions): boolean {
+        return options.searchProperties === true || this.worker.runsInThread();
+    }
+
+    /**
+     * Says why a regex must not run on the main thread, where a pass over a note cannot be stopped
+     * Replacement, preview, re-validation and recipes match on the main thread; they refuse a regex
+     * the search worker had to skip files for. With `inThread`, regexes with nested quantifiers are
+     * refused as well (see findNestedQuantifier), since no worker has shown that they finish.
+     * @param query - The search query
+     * @param options - Search configuration options
+     * @param inThread - Whether the regex has not been run through the worker (default: when the worker is unavailable)
+     * @returns Why the regex is refused, or null when it is safe to run (or not a regex search)
+     */
+    getRegexHazard(query: string, options: SearchOptions, inThread: boolean = this.worker.runsInThread()): string | null {
+        if (!usesSearchRegex(options)) return null;
+
+        let pattern: string;
+        try {
+            pattern = buildSearchPattern(query.trim(), options);
+        } catch {
+            return null; // An invalid query is reported by the pass that parses it
+        }
+
+        if (this.slowPatterns.has(this.getRegexKey(pattern, options))) {
+            return `The pattern took longer than ${SEARCH_FILE_TIME_BUDGET} ms to match in some notes. Refine it and search again.`;
+        }
+        const nested = inThread ? findNestedQuantifier(pattern) : null;
+        if (nested) {
+            return `"${nested}" repeats a repetition and could freeze Obsidian when matched without the search worker. Refine the pattern.`;
+        }
+        return null;
+    }
+
+    private getRegexKey(pattern: string, options: SearchOptions): string {
+        return `${searchRegexFlags(options)}/${pattern}`;
+    }
+
+    /**
+     * Runs one file's part of a search, logging and recording the file when it cannot be read
+     * @returns The outcome, or null when the file failed or the search was cancelled first
+     */
+    private async readSafely<T>(file: TFile, signal: AbortSignal | undefined, task: () => Promise<T>): Promise<T | null> {
+        if (signal?.aborted) return null;
+        try {
+            return await task();
+        } catch (error) {
+            // Log file read errors but continue processing other files
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            this.logger.warn(`Failed to read file ${file.path}: ${errorMsg}`, error);
+
+            // Track failed files for user notification
+            this.failedFiles.push(file.path);
+            return null;
+        }
+    }
+
+    /**
+     * Collects the matches of a completed batch and reports them with the search progress
+     */
+    private reportBatch(
+        found: (SearchResult[] | null)[],
+        fileCount: number,
+        results: SearchResult[],
+        progress: { scanned: number; total: number },
+        run?: SearchRunOptions
+    ): void {
+        const batchResults: SearchResult[] = [];
+        for (const fileResults of found) {
+            if (fileResults) batchResults.push(...fileResults);
+        }
+        results.push(...batchResults);
+        progress.scanned += fileCount;
+        run?.onResults?.(batchResults, { ...progress });
+    }
+
+    /**
+     * Lists the files a search covers, honouring session filters or plugin settings
+     * @param sessionFilters - Optional session-only filters (overrides plugin settings)
+     * @returns Files to search
+     */
+    getSearchableFiles(sessionFilters?: SessionFilters): TFile[] {
+        // Use getAllLoadedFiles() when any filtering is configured via session filters
+        const hasSessionFilters = sessionFilters && (
+            (sessionFilters.fileExtensions && sessionFilters.fileExtensions.length > 0) ||
+            (sessionFilters.searchInFolders && sessionFilters.searchInFolders.length > 0) ||
+            (sessionFilters.includePatterns && sessionFilters.includePatterns.length > 0) ||
+            (sessionFilters.excludeFolders && sessionFilters.excludeFolders.length > 0) ||
+            (sessionFilters.excludePatterns && sessionFilters.excludePatterns.length > 0) ||
+            (sessionFilters.includeMetadata && sessionFilters.includeMetadata.length > 0) ||
+            (sessionFilters.excludeMetadata && sessionFilters.excludeMetadata.length > 0)
+        );
+
+        // Always search all files when no specific filtering is configured
+        // This ensures comprehensive search coverage by default
+        const shouldUseAllFiles = hasSessionFilters || !sessionFilters;
+
+        const allFiles = shouldUseAllFiles ?
+            this.app.vault.getAllLoadedFiles() :
+            this.app.vault.getMarkdownFiles();
+
+        const files = this.filterFiles(allFiles, sessionFilters);
+        this.logger.debug('Found', files.length, shouldUseAllFiles ? 'files' : 'markdown files', 'to search');
+        return files;
+    }
+
+    /**
+     * Keeps the files inside a search scope
+     * @param files - Files allowed by the filters
+     * @param scope - Resolved search scope (none or 'vault' keeps every file)
+     * @returns Files to search
+     */
+    private applySearchScope(files: TFile[], scope?: ResolvedSearchScope): TFile[] {
+        if (!scope?.paths) return files;
+        const paths = new Set(scope.paths);
+        const scoped = files.filter(file => paths.has(file.path));
+        this.logger.debug(`Search scope "${scope.scope}" keeps ${scoped.length} of ${files.length} files`);
+        return scoped;
+    }
+
+    /**
+     * Searches content that is already in memory, e.g. the intermediate result of a recipe step
+     * Uses exactly the same matching rules as performSearch.
+     * @param file - The file the content belongs to
+     * @param content - Content to search
+     * @param query - The search query
+     * @param options - Search configuration options
+     * @returns Matches in line/column order
+     */
+    searchContent(file: TFile, content: string, query: string, options: SearchOptions): SearchResult[] {
+        if (!query.trim()) return [];
+
+        const regex = usesSearchRegex(options) ? this.buildSearchRegex(query, options) : null;
+        return createContentMatcher(query, options, regex)(file, content).map(match => ({ ...match, file }));
+    }
+
+    /**
+     * Sorts results by file path, then line number, then column
+     * This is the order results are displayed, numbered (${counter}) and replaced in.
+     * @param results - Results to sort in place
+     * @returns The same array
+     */
+    sortResults(results: SearchResult[]): SearchResult[] {
+        return results.sort((a, b) => {
+            if (a.file.path < b.file.path) return -1;
+            if (a.file.path > b.file.path) return 1;
+            if (a.line !== b.line) return a.line - b.line;
+            const colA = typeof a.col === "number" ? a.col : 0;
+            const colB = typeof b.col === "number" ? b.col : 0;
+            return colA - colB;
+        });
+    }
+
+    /**
+     * Finds matches in the frontmatter property values of one note (properties mode)
+     * Values come from the metadata cache; each match is reported on the line of its key with the
+     * `key: value` row as line content, so results render and navigate like text matches.
+     * @param file - The note to search
+     * @param query - The search query (stored on each result)
+     * @param options - Search configuration options
+     * @param regex - Pre-built regex, or null for plain-text matching
+     * @param qualifies - Query mode file test, applied to the property values (null outside query mode)
+     * @returns Matches in property order
+     */
+    private async matchProperties(
+        file: TFile,
+        query: string,
+        options: SearchOptions,
+        regex: RegExp | null,
+        qualifies: ((file: TFile, content: string) => boolean) | null
+    ): Promise<SearchResult[]> {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!frontmatter) return [];
+
+        const properties = listProperties(frontmatter);
+        if (qualifies && !qualifies(file, properties.map(property => property.value).join('\n'))) return [];
+
+        // Each value is matched on its own, as a single line of text
+        const valueOptions: SearchOptions = { ...options, multiline: false, markdownScope: undefined, selection: undefined };
+        const found: SearchResult[] = [];
+        let lines: string[] | null = null;
+
+        for (const property of properties) {
+            const matches = matchContent(property.value, query, valueOptions, regex);
+            if (matches.length === 0) continue;
+
+            lines = lines ?? (await this.app.vault.cachedRead(file)).split('\n');
+            const line = findPropertyLine(lines, property.key);
+            for (const match of matches) {
+                found.push({
+                    ...match,
+                    file,
+                    line,
+                    content: propertyRow(property),
+                    col: (match.col ?? 0) + propertyValueOffset(property),
+                    fingerprint: undefined,
+                    property
+                });
+            }
+        }
+        return found;
+    }
+
     /**
      * Builds the RegExp object used for searching based on current options
      * Includes caching to avoid recompiling the same regex
@@ -387,27 +582,20 @@ export class SearchEngine {
         this.logger.debug('Building new regex for:', cacheKey);
         this.logger.debug('Previous cache key was:', this.lastSearchOptions);
 
-        let pattern = query ?? '';
-
-        // If not in regex mode, escape special regex characters so they're treated literally
-        if (!options.useRegex) {
-            pattern = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        }
-
-        // Check if pattern already has word boundaries or anchors to avoid double-wrapping
-        // iOS <16.4 doesn't support lookbehinds, so we only check for lookaheads and common anchors
-        const looksAnchoredOrHasBoundaries = /(^\\b|\\b$|\^|\$|\(\?=|\(\?!)/.test(pattern);
-
-        // Add word boundaries if whole word mode is enabled and pattern doesn't already have them
-        if (options.wholeWord && !looksAnchoredOrHasBoundaries) {
-            // When regex mode is ON, wrap in non-capturing group to preserve existing capture group indices
-            pattern = options.useRegex ? `\\b(?:${pattern})\\b` : `\\b${pattern}\\b`;
-        }
+        return this.compileSearchRegex(buildSearchPattern(query, options), options, cacheKey);
+    }
 
+    /**
+     * Compiles a search pattern with the flags for the given options and caches it
+     * @param pattern - Regex source
+     * @param options - Search configuration options
+     * @param cacheKey - Key the compiled regex is cached under
+     * @returns The compiled RegExp
+     */
+    private compileSearchRegex(pattern: string, options: SearchOptions, cacheKey: string): RegExp {
         // Build flags: 'g' for global, 'i' for case-insensitive if needed, 'm' for multiline
         try {
-            const flags = (options.matchCase ? '' : 'i') + 'g' + (options.multiline === true ? 'm' : '');
-            const regex = new RegExp(pattern, flags);
+            const regex = new RegExp(pattern, searchRegexFlags(options));
 
             // Cache the compiled regex
             this.lastCompiledRegex = regex;
@@ -425,16 +613,22 @@ export class SearchEngine {
 
     /**
      * Validates if a search query is valid for the given options
-     * @internal Test utility - validation happens in view layer in production
      * @param query - The search query to validate
      * @param options - Search configuration options
+     * @param onError - Receives the problem and its position when a boolean query is invalid (optional)
      * @returns true if valid, false otherwise
      */
-    validateSearchQuery(query: string, options: SearchOptions): boolean {
+    validateSearchQuery(query: string, options: SearchOptions, onError?: (error: QueryError) => void): boolean {
         if (!query.trim()) {
             return false;
         }
 
+        if (options.useQuery) {
+            const error = this.findQueryError(query, options);
+            if (error) onError?.(error);
+            return !error;
+        }
+
         if (options.useRegex) {
             try {
                 new RegExp(query);
@@ -447,6 +641,30 @@ export class SearchEngine {
         return true;
     }
 
+    /**
+     * Finds the first problem in a boolean query: its syntax, then (in regex mode) each term's regex
+     * @returns The problem, or null when the query is valid
+     */
+    private findQueryError(query: string, options: SearchOptions): QueryError | null {
+        try {
+            const tree = parseQuery(query);
+            if (!options.useRegex) return null;
+
+            for (const term of getQueryTerms(tree, true)) {
+                try {
+                    new RegExp(term.text);
+                } catch {
+                    return { message: `"${term.text}" is not a valid regular expression`, position: term.position };
+                }
+            }
+            return null;
+        } catch (error) {
+            if (error instanceof QuerySyntaxError) {
+                return { message: error.message, position: error.position };
+            }
+            throw error;
+        }
+    }
 
     /**
      * Cleanup method for when the engine is no longer needed
@@ -454,6 +672,7 @@ export class SearchEngine {
      */
     dispose(): void {
         this.clearCache();
+        this.worker.dispose();
         // No need to clear app reference - TypeScript null safety handles this
     }
 }
\ No newline at end of file
@@ -0,0 +1,369 @@
+import { App, TAbstractFile, TFile } from 'obsidian';
+import { SearchIndexStatus, SearchOptions } from '../types';
+import { Logger } from '../utils';
+import { extractTrigrams, planTrigramSearch, TrigramPlan } from './trigrams';
+import VaultFindReplacePlugin from '../main';
+
+/** Bumped when the stored format changes; older files are rebuilt */
+const INDEX_VERSION = 1;
+
+/** Delay before notes added, removed or renamed are written to disk, so bursts of them are saved once */
+const SAVE_DELAY = 2000;
+
+/** Notes indexed at once while building */
+const BATCH_SIZE = 20;
+
+/**
+ * An indexed note: the stats it was indexed at and its trigrams
+ */
+interface IndexedFile {
+    mtime: number;
+    size: number;
+    trigrams: string[];
+}
+
+/**
+ * Stored form of the index: each note's trigrams joined into one string
+ */
+interface StoredIndex {
+    version: number;
+    files: Record<string, { mtime: number; size: number; trigrams: string }>;
+}
+
+/**
+ * Persistent trigram index of the vault's Markdown notes
+ * Lets searches skip notes that cannot contain the query without reading them. The index is
+ * stored in the plugin folder and kept up to date from vault events; a note whose stats differ
+ * from the indexed ones is always searched, so a stale index never hides matches.
+ * Edits to existing notes are written with the next added, removed or renamed note or when the
+ * plugin unloads, not on every save of the note; notes edited since are re-indexed at startup.
+ */
+export class SearchIndex {
+    private app: App;
+    private plugin: VaultFindReplacePlugin;
+    private logger: Logger;
+    private files: Map<string, IndexedFile> = new Map();
+    private postings: Map<string, Set<string>> = new Map(); // Trigram → paths of notes containing it
+    private ready = false;
+    private building = false;
+    private saveTimer: number | null = null;
+    private dirty = false; // Entries changed since the index was last written
+    private listeners: Set<() => void> = new Set();
+
+    constructor(app: App, plugin: VaultFindReplacePlugin) {
+        this.app = app;
+        this.plugin = plugin;
+        this.logger = Logger.create(plugin, 'SearchIndex');
+    }
+
+    /**
+     * Path of the index file in the plugin folder
+     */
+    get path(): string {
+        const dir = this.plugin.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return `${dir}/search-index.json`;
+    }
+
+    /**
+     * Subscribes to vault events so the index follows every change
+     * Call once when the plugin loads; events are ignored while the index is disabled.
+     */
+    registerEvents(): void {
+        this.plugin.registerEvent(this.app.vault.on('create', file => this.onFileChanged(file, true)));
+        this.plugin.registerEvent(this.app.vault.on('modify', file => this.onFileChanged(file, false)));
+        this.plugin.registerEvent(this.app.vault.on('delete', file => this.onFileDeleted(file.path)));
+        this.plugin.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            this.onFileDeleted(oldPath);
+            this.onFileChanged(file, true);
+        }));
+    }
+
+    /**
+     * Loads the stored index and brings it up to date with the vault
+     * Does nothing while the index is disabled in settings.
+     */
+    async start(): Promise<void> {
+        if (!this.plugin.settings.useSearchIndex || this.ready || this.building) return;
+
+        await this.load();
+        await this.update(false);
+    }
+
+    /**
+     * Rebuilds the index from scratch
+     */
+    async rebuild(): Promise<void> {
+        if (this.building) return;
+        this.clear();
+        await this.update(true);
+    }
+
+    /**
+     * Stops using the index and deletes it from disk
+     */
+    async disable(): Promise<void> {
+        this.cancelSave();
+        this.clear();
+        try {
+            if (await this.app.vault.adapter.exists(this.path)) {
+                await this.app.vault.adapter.remove(this.path);
+            }
+        } catch (error) {
+            this.logger.warn('Failed to delete the search index:', error);
+        }
+        this.notify();
+    }
+
+    /**
+     * Narrows files down to those that can match a search
+     * Files the index does not cover (other file types, notes changed since they were indexed)
+     * are always kept.
+     * @param files - Files the search covers
+     * @param query - The search query
+     * @param options - Search configuration options
+     * @returns The files to read and match
+     */
+    filterCandidates(files: TFile[], query: string, options: SearchOptions): TFile[] {
+        if (!this.plugin.settings.useSearchIndex || !this.ready) return files;
+
+        const plan = planTrigramSearch(query, options);
+        if (!plan) return files;
+
+        const candidates = this.evaluate(plan);
+        const kept = files.filter(file => !this.isCurrent(file) || candidates.has(file.path));
+        this.logger.debug(`Search index kept ${kept.length} of ${files.length} files`);
+        return kept;
+    }
+
+    /**
+     * Current state of the index, for the settings tab
+     */
+    getStatus(): SearchIndexStatus {
+        return {
+            enabled: this.plugin.settings.useSearchIndex,
+            ready: this.ready,
+            building: this.building,
+            fileCount: this.files.size,
+            trigramCount: this.postings.size
+        };
+    }
+
+    /**
+     * Gets the size of the stored index
+     * @returns Size in bytes, or null when nothing is stored
+     */
+    async getStoredSize(): Promise<number | null> {
+        try {
+            const stat = await this.app.vault.adapter.stat(this.path);
+            return stat?.size ?? null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Calls a listener whenever the status changes (building, updated, cleared)
+     * @returns Function that removes the listener
+     */
+    onStatusChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Writes pending changes, including edits not saved yet, and stops saving
+     */
+    async dispose(): Promise<void> {
+        if (this.saveTimer !== null || this.dirty) {
+            this.cancelSave();
+            await this.save();
+        }
+        this.listeners.clear();
+    }
+
+    private async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.path))) return;
+
+            const stored = JSON.parse(await this.app.vault.adapter.read(this.path)) as StoredIndex;
+            if (stored.version !== INDEX_VERSION) {
+                this.logger.info('Search index format changed, rebuilding');
+                return;
+            }
+            for (const [path, entry] of Object.entries(stored.files)) {
+                const trigrams: string[] = [];
+                for (let i = 0; i + 3 <= entry.trigrams.length; i += 3) {
+                    trigrams.push(entry.trigrams.slice(i, i + 3));
+                }
+                this.setEntry(path, { mtime: entry.mtime, size: entry.size, trigrams });
+            }
+            this.logger.debug(`Loaded search index: ${this.files.size} notes`);
+        } catch (error) {
+            this.logger.warn('Failed to load the search index, rebuilding:', error);
+            this.clear();
+        }
+    }
+
+    /**
+     * Indexes new and changed notes and drops deleted ones
+     * @param force - Re-index every note, not only changed ones
+     */
+    private async update(force: boolean): Promise<void> {
+        this.building = true;
+        this.notify();
+
+        try {
+            const notes = this.app.vault.getMarkdownFiles();
+            const present = new Set(notes.map(note => note.path));
+            for (const path of Array.from(this.files.keys())) {
+                if (!present.has(path)) this.deleteEntry(path);
+            }
+
+            const stale = force ? notes : notes.filter(note => !this.isCurrent(note));
+            for (let start = 0; start < stale.length; start += BATCH_SIZE) {
+                await Promise.all(stale.slice(start, start + BATCH_SIZE).map(note => this.indexFile(note)));
+                await sleep(0);
+                if (!this.plugin.settings.useSearchIndex) return;
+            }
+
+            this.ready = true;
+            this.logger.info(`Search index ready: ${this.files.size} notes (${stale.length} indexed now)`);
+            if (stale.length > 0 || force) this.scheduleSave();
+        } finally {
+            this.building = false;
+            this.notify();
+        }
+    }
+
+    private async indexFile(file: TFile): Promise<void> {
+        try {
+            const content = await this.app.vault.cachedRead(file);
+            this.setEntry(file.path, { mtime: file.stat.mtime, size: file.stat.size, trigrams: extractTrigrams(content) });
+        } catch (error) {
+            // Left out of the index, so searches read it
+            this.logger.warn(`Failed to index ${file.path}:`, error);
+            this.deleteEntry(file.path);
+        }
+    }
+
+    /**
+     * Re-indexes a note that was added, edited or renamed
+     * @param file - The file
+     * @param structural - Whether the note is new to the index (added or renamed) rather than edited
+     */
+    private onFileChanged(file: TAbstractFile, structural: boolean): void {
+        if (!this.plugin.settings.useSearchIndex || !(file instanceof TFile) || file.extension !== 'md') return;
+
+        this.indexFile(file).then(() => {
+            // An edit is only written with the next save; until then, startup finds the note changed and re-indexes it
+            this.dirty = true;
+            if (structural) this.scheduleSave();
+            this.notify();
+        });
+    }
+
+    private onFileDeleted(path: string): void {
+        if (!this.plugin.settings.useSearchIndex || !this.files.has(path)) return;
+
+        this.deleteEntry(path);
+        this.dirty = true;
+        this.scheduleSave();
+        this.notify();
+    }
+
+    /**
+     * Whether the index describes a file's current content
+     */
+    private isCurrent(file: TFile): boolean {
+        const entry = this.files.get(file.path);
+        return entry !== undefined && entry.mtime === file.stat?.mtime && entry.size === file.stat?.size;
+    }
+
+    /**
+     * Finds the indexed notes that contain the trigrams of a plan
+     */
+    private evaluate(plan: TrigramPlan): Set<string> {
+        if (plan.type === 'or') {
+            const union = new Set<string>();
+            plan.children.forEach(child => this.evaluate(child).forEach(path => union.add(path)));
+            return union;
+        }
+
+        const sets = plan.type === 'all'
+            ? plan.trigrams.map(trigram => this.postings.get(trigram) ?? new Set<string>())
+            : plan.children.map(child => this.evaluate(child));
+
+        // Intersect, starting from the smallest set
+        sets.sort((a, b) => a.size - b.size);
+        const [smallest, ...rest] = sets;
+        return new Set(Array.from(smallest ?? []).filter(path => rest.every(set => set.has(path))));
+    }
+
+    private setEntry(path: string, entry: IndexedFile): void {
+        this.deleteEntry(path);
+        this.files.set(path, entry);
+        for (const trigram of entry.trigrams) {
+            let paths = this.postings.get(trigram);
+            if (!paths) {
+                paths = new Set();
+                this.postings.set(trigram, paths);
+            }
+            paths.add(path);
+        }
+    }
+
+    private deleteEntry(path: string): void {
+        const entry = this.files.get(path);
+        if (!entry) return;
+
+        this.files.delete(path);
+        for (const trigram of entry.trigrams) {
+            const paths = this.postings.get(trigram);
+            paths?.delete(path);
+            if (paths?.size === 0) this.postings.delete(trigram);
+        }
+    }
+
+    private clear(): void {
+        this.files.clear();
+        this.postings.clear();
+        this.ready = false;
+        this.dirty = false;
+    }
+
+    private scheduleSave(): void {
+        this.cancelSave();
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, SAVE_DELAY);
+    }
+
+    private cancelSave(): void {
+        if (this.saveTimer !== null) window.clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+    }
+
+    private async save(): Promise<void> {
+        if (!this.plugin.settings.useSearchIndex) return;
+
+        const stored: StoredIndex = { version: INDEX_VERSION, files: {} };
+        this.files.forEach((entry, path) => {
+            stored.files[path] = { mtime: entry.mtime, size: entry.size, trigrams: entry.trigrams.join('') };
+        });
+
+        this.dirty = false;
+        try {
+            await this.app.vault.adapter.write(this.path, JSON.stringify(stored));
+            this.logger.debug(`Saved search index: ${this.files.size} notes`);
+        } catch (error) {
+            this.dirty = true;
+            this.logger.warn('Failed to save the search index:', error);
+        }
+        this.notify();
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * Search scope
+ * Resolves where a search looks (the vault, the current note, open tabs, the current folder or the
+ * selected text) into the files it reads and, for a selection, the range of text it matches in.
+ * Session filters still apply on top of the scope.
+ */
+
+import { App, MarkdownView, TFile } from 'obsidian';
+import { ResolvedSearchScope, SearchScope, TextRange } from '../types';
+
+/**
+ * Labels of the search scope picker
+ */
+export const SEARCH_SCOPE_LABELS: Record<SearchScope, string> = {
+    'vault': 'Vault',
+    'current-file': 'Current file',
+    'open-tabs': 'All open tabs',
+    'current-folder': 'Current folder',
+    'selection': 'Selection'
+};
+
+/**
+ * A scope that cannot be resolved, e.g. "Selection" with nothing selected
+ */
+export class SearchScopeError extends Error {
+    /**
+     * @param message - Why the scope cannot be used, shown to the user
+     */
+    constructor(message: string) {
+        super(message);
+        this.name = 'SearchScopeError';
+    }
+}
+
+/**
+ * Resolves a search scope against the workspace
+ * The current file and folder come from the active note; the selection from the editor the user
+ * last worked in, so both survive focusing the find/replace view.
+ * @param app - Obsidian app instance
+ * @param scope - Scope picked in the toolbar (undefined means the vault)
+ * @returns Files and text range the search is limited to
+ * @throws SearchScopeError when no note is open or, for a selection, nothing is selected
+ */
+export function resolveSearchScope(app: App, scope: SearchScope | undefined): ResolvedSearchScope {
+    switch (scope) {
+        case 'current-file':
+            return { scope, paths: [getActiveNote(app).path] };
+
+        case 'current-folder': {
+            const folder = getActiveNote(app).parent?.path ?? '';
+            // Notes in the vault root have the root folder "/"; that folder is the whole vault
+            if (folder === '' || folder === '/') return { scope };
+            const prefix = `${folder}/`;
+            const paths = app.vault.getFiles().filter(file => file.path.startsWith(prefix)).map(file => file.path);
+            return { scope, paths };
+        }
+
+        case 'open-tabs': {
+            const paths = new Set<string>();
+            for (const leaf of app.workspace.getLeavesOfType('markdown')) {
+                if (leaf.view instanceof MarkdownView && leaf.view.file) paths.add(leaf.view.file.path);
+            }
+            if (paths.size === 0) throw new SearchScopeError('No notes are open in a tab');
+            return { scope, paths: Array.from(paths) };
+        }
+
+        case 'selection': {
+            const view = app.workspace.getMostRecentLeaf()?.view;
+            if (!(view instanceof MarkdownView) || !view.file) {
+                throw new SearchScopeError('Open a note and select text to search the selection');
+            }
+            const selection = getSelectedRange(view);
+            if (!selection) throw new SearchScopeError('Select text in the note to search the selection');
+            return { scope, paths: [view.file.path], selection };
+        }
+
+        default:
+            return { scope: 'vault' };
+    }
+}
+
+/**
+ * Gets the note that is open in the active (or most recently active) tab
+ * @throws SearchScopeError when no file is open
+ */
+function getActiveNote(app: App): TFile {
+    const file = app.workspace.getActiveFile();
+    if (!file) throw new SearchScopeError('Open a note to search the current file or folder');
+    return file;
+}
+
+/**
+ * Gets the offsets of an editor's main selection
+ * @returns The selected range, or null when the selection is empty
+ */
+function getSelectedRange(view: MarkdownView): TextRange | null {
+    const editor = view.editor;
+    const anchor = editor.posToOffset(editor.getCursor('anchor'));
+    const head = editor.posToOffset(editor.getCursor('head'));
+    if (anchor === head) return null;
+    return { from: Math.min(anchor, head), to: Math.max(anchor, head) };
+}
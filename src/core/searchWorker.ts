@@ -0,0 +1,36 @@
+/**
+ * Search worker
+ * Entry point of the Web Worker that matches file contents for SearchEngine (see core/searchWorkerClient).
+ * Bundled on its own by esbuild.config.mjs, so it may only import modules that run without Obsidian.
+ *
+ * Each request carries the query and options of its search; the compiled matcher is kept while
+ * they stay the same, so a search compiles its regex and query once. Files are reported one at a
+ * time: the client terminates the worker when a file runs over its time budget.
+ */
+
+import { SearchWorkerRequest, SearchWorkerResponse } from '../types';
+import { createContentMatcher } from './contentMatcher';
+
+interface WorkerScope {
+    onmessage: ((event: MessageEvent<SearchWorkerRequest>) => void) | null;
+    postMessage(response: SearchWorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+let current: { key: string; match: ReturnType<typeof createContentMatcher> } | null = null;
+
+scope.onmessage = (event) => {
+    const { id, query, options, files, start = 0 } = event.data;
+    try {
+        const key = JSON.stringify({ query, options });
+        if (current?.key !== key) {
+            current = { key, match: createContentMatcher(query, options) };
+        }
+        // One message per file, so the client can tell which file a runaway regex is stuck on
+        for (let index = start; index < files.length; index++) {
+            scope.postMessage({ id, index, matches: current.match(files[index], files[index].content) });
+        }
+    } catch (error) {
+        scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,223 @@
+/**
+ * Search worker client
+ * Sends file contents to a Web Worker (core/searchWorker) that matches them, so a long vault search
+ * leaves the main thread free to read files and render results.
+ *
+ * The worker is bundled into the plugin as source text (see esbuild.config.mjs) and started from a
+ * Blob URL. Where workers are unavailable or fail to start, matching runs on the main thread instead,
+ * with the same content matcher and therefore the same results.
+ *
+ * Each file has a time budget: a regex that backtracks catastrophically cannot be interrupted, so
+ * when a file runs over, the worker is terminated, the file is skipped and a new worker resumes the
+ * batch. Matching on the main thread has no such protection (see SearchEngine.getRegexHazard).
+ */
+
+import { ContentMatch, SearchOptions, SearchWorkerFile, SearchWorkerRequest, SearchWorkerResponse } from '../types';
+import { Logger, SEARCH_FILE_TIME_BUDGET } from '../utils';
+import { createContentMatcher } from './contentMatcher';
+
+/** Bundled source of the search worker, defined by the build (not defined when running tests) */
+declare const SEARCH_WORKER_SOURCE: string;
+
+/**
+ * Matches of each file of a batch; null for a file skipped because it ran over its time budget
+ */
+export type BatchMatches = (ContentMatch[] | null)[];
+
+interface PendingRequest {
+    request: SearchWorkerRequest;
+    matches: BatchMatches;
+    next: number; // Index of the file the worker is matching
+    resolve: (matches: BatchMatches) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Matches batches of files off the main thread
+ */
+export class SearchWorkerClient {
+    private logger: Logger;
+    private worker: Worker | null = null;
+    private workerUrl: string | null = null;
+    private unavailable = false; // Set once the worker could not be created or crashed
+    private nextId = 0;
+    private pending: Map<number, PendingRequest> = new Map(); // In the order the worker handles them
+    private fallback: { key: string; match: ReturnType<typeof createContentMatcher> } | null = null;
+    private fileTimeBudget: number;
+    private watchdog: number | null = null; // Fires when the file being matched runs over its budget
+
+    /**
+     * @param logger - Logger of the owning search engine
+     * @param fileTimeBudget - Longest the worker may spend on one file, in milliseconds
+     */
+    constructor(logger: Logger, fileTimeBudget: number = SEARCH_FILE_TIME_BUDGET) {
+        this.logger = logger;
+        this.fileTimeBudget = fileTimeBudget;
+    }
+
+    /**
+     * Matches a batch of files
+     * Batches are matched in the order they are sent.
+     * @param query - The search query
+     * @param options - Search configuration options
+     * @param files - Paths, names and contents of the files
+     * @returns Matches of each file, in the order of files (null for files that ran over their time budget)
+     */
+    match(query: string, options: SearchOptions, files: SearchWorkerFile[]): Promise<BatchMatches> {
+        const request: SearchWorkerRequest = { id: ++this.nextId, query, options, files };
+        const worker = files.length > 0 ? this.getWorker() : null;
+        if (!worker) {
+            return new Promise(resolve => resolve(this.matchInThread(request, 0)));
+        }
+
+        return new Promise((resolve, reject) => {
+            this.pending.set(request.id, { request, matches: [], next: 0, resolve, reject });
+            worker.postMessage(request);
+            this.armWatchdog();
+        });
+    }
+
+    /**
+     * Whether files are matched on the main thread, where a runaway regex cannot be stopped
+     * (starts the worker if it is not running yet)
+     */
+    runsInThread(): boolean {
+        return this.getWorker() === null;
+    }
+
+    /**
+     * Stops the worker
+     * Requests still in flight are finished on the main thread.
+     */
+    dispose(): void {
+        this.stopWorker();
+        this.fallback = null;
+        this.settlePendingInThread();
+    }
+
+    private stopWorker(): void {
+        this.disarmWatchdog();
+        this.worker?.terminate();
+        this.worker = null;
+        if (this.workerUrl) URL.revokeObjectURL(this.workerUrl);
+        this.workerUrl = null;
+    }
+
+    /**
+     * Starts the worker on first use
+     * @returns The worker, or null when matching has to run on the main thread
+     */
+    private getWorker(): Worker | null {
+        if (this.worker || this.unavailable) return this.worker;
+
+        if (typeof SEARCH_WORKER_SOURCE === 'undefined' || typeof Worker === 'undefined' || typeof Blob === 'undefined') {
+            this.unavailable = true;
+            this.logger.debug('Web Workers unavailable, matching on the main thread');
+            return null;
+        }
+
+        try {
+            this.workerUrl = URL.createObjectURL(new Blob([SEARCH_WORKER_SOURCE], { type: 'text/javascript' }));
+            this.worker = new Worker(this.workerUrl);
+            this.worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => this.handleResponse(event.data);
+            this.worker.onerror = (event: ErrorEvent) => {
+                event.preventDefault();
+                this.logger.warn('Search worker failed, matching on the main thread from now on:', event.message);
+                this.unavailable = true;
+                this.dispose();
+            };
+            this.logger.debug('Search worker started');
+        } catch (error) {
+            this.logger.warn('Could not start the search worker, matching on the main thread:', error);
+            this.unavailable = true;
+            this.worker = null;
+        }
+        return this.worker;
+    }
+
+    private handleResponse(response: SearchWorkerResponse): void {
+        const pending = this.pending.get(response.id);
+        if (!pending) return;
+        this.disarmWatchdog();
+
+        if (response.error !== undefined) {
+            this.pending.delete(response.id);
+            pending.reject(new Error(response.error));
+        } else if (response.index !== undefined) {
+            pending.matches[response.index] = response.matches ?? [];
+            pending.next = response.index + 1;
+            if (pending.next >= pending.request.files.length) {
+                this.pending.delete(response.id);
+                pending.resolve(pending.matches);
+            }
+        }
+        this.armWatchdog();
+    }
+
+    /**
+     * Starts timing the file the worker is matching, unless already timing it
+     */
+    private armWatchdog(): void {
+        if (this.watchdog !== null || this.pending.size === 0) return;
+        this.watchdog = window.setTimeout(() => this.handleOverrun(), this.fileTimeBudget);
+    }
+
+    private disarmWatchdog(): void {
+        if (this.watchdog !== null) window.clearTimeout(this.watchdog);
+        this.watchdog = null;
+    }
+
+    /**
+     * Skips the file that ran over its budget and resumes every pending batch in a new worker
+     */
+    private handleOverrun(): void {
+        this.watchdog = null;
+        const head = this.pending.values().next().value as PendingRequest | undefined;
+        if (!head) return;
+
+        const file = head.request.files[head.next];
+        this.logger.warn(`Skipped ${file?.path}: matching took longer than ${this.fileTimeBudget} ms`);
+        head.matches[head.next] = null;
+        head.next++;
+        if (head.next >= head.request.files.length) {
+            this.pending.delete(head.request.id);
+            head.resolve(head.matches);
+        }
+
+        // The stuck regex cannot be interrupted: replace the worker
+        this.stopWorker();
+        const worker = this.getWorker();
+        if (!worker) {
+            this.settlePendingInThread();
+            return;
+        }
+        this.pending.forEach(({ request, next }) => worker.postMessage({ ...request, start: next }));
+        this.armWatchdog();
+    }
+
+    private settlePendingInThread(): void {
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        for (const { request, matches, next, resolve, reject } of pending) {
+            try {
+                resolve(matches.slice(0, next).concat(this.matchInThread(request, next)));
+            } catch (error) {
+                reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+    }
+
+    /**
+     * Matches files of a batch on the main thread, compiling the search once per query and options
+     * @param start - Index of the first file to match
+     * @returns Matches of the files from start on
+     */
+    private matchInThread(request: SearchWorkerRequest, start: number): ContentMatch[][] {
+        const key = JSON.stringify({ query: request.query, options: request.options });
+        if (this.fallback?.key !== key) {
+            this.fallback = { key, match: createContentMatcher(request.query, request.options) };
+        }
+        const match = this.fallback.match;
+        return request.files.slice(start).map(file => match(file, file.content));
+    }
+}
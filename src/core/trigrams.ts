@@ -0,0 +1,170 @@
+/**
+ * Trigrams
+ * A trigram is a run of three characters. A file can only contain a literal text if it contains all
+ * of the text's trigrams, so a trigram index can rule out files without reading them.
+ *
+ * Trigrams are taken from lower-cased text, so one index serves case-sensitive and
+ * case-insensitive searches alike. Queries the index cannot narrow down (short literals, regexes
+ * without a literal run of three characters, fuzzy and diacritic-insensitive matching, ...) have
+ * no plan and search every file.
+ */
+
+import { QueryNode, SearchOptions } from '../types';
+import { parseQuery } from './queryParser';
+
+/**
+ * Trigrams a file must contain to possibly match
+ * - all: every listed trigram
+ * - and / or: every / any child plan
+ */
+export type TrigramPlan =
+    | { type: 'all'; trigrams: string[] }
+    | { type: 'and' | 'or'; children: TrigramPlan[] };
+
+/**
+ * Extracts the distinct trigrams of a text, case-insensitively
+ * @param text - Text to index or look up
+ * @returns Trigrams in order of first occurrence
+ */
+export function extractTrigrams(text: string): string[] {
+    const lower = text.toLowerCase();
+    const trigrams = new Set<string>();
+    for (let i = 0; i + 3 <= lower.length; i++) {
+        trigrams.add(lower.slice(i, i + 3));
+    }
+    return Array.from(trigrams);
+}
+
+/**
+ * Finds the literal runs of characters every match of a regex must contain
+ * Conservative: anything inside a group, class or before an optional quantifier is left out, and
+ * an alternation outside a group means no run is certain.
+ * @param pattern - Regex source
+ * @returns Literal runs (possibly none), or null when the regex has a top-level alternation
+ */
+export function requiredLiterals(pattern: string): string[] | null {
+    const runs: string[] = [];
+    let current = '';
+    let depth = 0;
+
+    const flush = () => {
+        if (current) runs.push(current);
+        current = '';
+    };
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        let literal: string | null = null;
+
+        if (char === '\\') {
+            const next = pattern[++i] ?? '';
+            if (next && !/[A-Za-z0-9]/.test(next)) {
+                literal = next; // Escaped punctuation, e.g. \. or \(
+            } else {
+                // Character classes, assertions, escapes and backreferences: skip their arguments
+                flush();
+                if (next === 'u') i += 4;
+                else if (next === 'x') i += 2;
+                else if (next === 'c') i += 1;
+                else if ((next === 'p' || next === 'P') && pattern[i + 1] === '{') i = pattern.indexOf('}', i);
+                else if (next === 'k' && pattern[i + 1] === '<') i = pattern.indexOf('>', i);
+                if (i < 0) return runs;
+                continue;
+            }
+        } else if (char === '[') {
+            flush();
+            // Skip to the closing bracket (a ']' right after '[' or '[^' is literal)
+            let j = i + 1;
+            if (pattern[j] === '^') j++;
+            if (pattern[j] === ']') j++;
+            while (j < pattern.length && pattern[j] !== ']') j += pattern[j] === '\\' ? 2 : 1;
+            i = j;
+            continue;
+        } else if (char === '(') {
+            flush();
+            depth++;
+            continue;
+        } else if (char === ')') {
+            flush();
+            depth = Math.max(0, depth - 1);
+            continue;
+        } else if (char === '|') {
+            if (depth === 0) return null;
+            continue;
+        } else if (char === '?' || char === '*') {
+            // The previous character is optional
+            current = current.slice(0, -1);
+            flush();
+            continue;
+        } else if (char === '+') {
+            // Repeated at least once: the previous character stays, but the run ends
+            flush();
+            continue;
+        } else if (char === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(i))) {
+            // {0,n} makes the previous character optional, other counts end the run
+            if (/^\{0+[,}]/.test(pattern.slice(i))) current = current.slice(0, -1);
+            flush();
+            i = pattern.indexOf('}', i);
+            continue;
+        } else if (char === '.' || char === '^' || char === '$') {
+            flush();
+            continue;
+        } else {
+            literal = char;
+        }
+
+        // Group contents may be optional or alternatives, so they never count
+        if (depth === 0 && literal !== null) current += literal;
+    }
+
+    flush();
+    return runs;
+}
+
+/**
+ * Plans which trigrams a file needs to possibly match a search
+ * @param query - The search query
+ * @param options - Search configuration options
+ * @returns The plan, or null when every file has to be searched
+ */
+export function planTrigramSearch(query: string, options: SearchOptions): TrigramPlan | null {
+    // Mapping tables, properties and approximate matching find text that is not in the query
+    if (options.mapping || options.searchProperties || options.ignoreDiacritics || options.fuzzy) return null;
+
+    if (options.useQuery) {
+        try {
+            return planQueryNode(parseQuery(query), options);
+        } catch {
+            return null;
+        }
+    }
+    return planTerm(query.trim(), options);
+}
+
+function planTerm(term: string, options: SearchOptions): TrigramPlan | null {
+    const literals = options.useRegex ? requiredLiterals(term) : [term];
+    if (!literals) return null;
+
+    const trigrams = Array.from(new Set(literals.flatMap(extractTrigrams)));
+    return trigrams.length > 0 ? { type: 'all', trigrams } : null;
+}
+
+function planQueryNode(node: QueryNode, options: SearchOptions): TrigramPlan | null {
+    switch (node.type) {
+        case 'term':
+            return planTerm(node.text, options);
+        case 'and': {
+            // Any child that can be planned narrows the files down
+            const children = node.children.map(child => planQueryNode(child, options)).filter((plan): plan is TrigramPlan => plan !== null);
+            return children.length === 0 ? null : children.length === 1 ? children[0] : { type: 'and', children };
+        }
+        case 'or': {
+            // A file may qualify through any child, so every child must be planned
+            const children = node.children.map(child => planQueryNode(child, options));
+            return children.every((plan): plan is TrigramPlan => plan !== null) ? { type: 'or', children: children as TrigramPlan[] } : null;
+        }
+        default:
+            // Negations and qualifiers don't require any text
+            return null;
+    }
+}
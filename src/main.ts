@@ -7,11 +7,21 @@ import {
 } from "./settings";
 import { LogLevel } from "./types";
 import { HistoryManager } from './core/historyManager';
+import { ReplacementJournal } from './core/replacementJournal';
+import { RecipeManager } from './core/recipeManager';
+import { SearchIndex } from './core/searchIndex';
+import { MatchHighlighter, matchHighlightField } from './core/matchHighlighter';
+import { ResultHighlighter, resultHighlightField } from './core/resultHighlighter';
 import { Logger, FOCUS_DELAY } from './utils';
 
 export default class VaultFindReplacePlugin extends Plugin {
 	settings: VaultFindReplaceSettings;
 	historyManager: HistoryManager;
+	replacementJournal: ReplacementJournal;
+	recipeManager: RecipeManager;
+	searchIndex: SearchIndex;
+	matchHighlighter: MatchHighlighter;
+	resultHighlighter: ResultHighlighter;
 	private logger: Logger;
 	async onload() {
 		await this.loadSettings();
@@ -22,6 +32,24 @@ export default class VaultFindReplacePlugin extends Plugin {
 		// Initialize history manager
 		this.historyManager = new HistoryManager(this);
 
+		// Initialize replacement journal (undo support)
+		this.replacementJournal = new ReplacementJournal(this.app, this);
+		await this.replacementJournal.load();
+
+		// Initialize recipe storage (saved multi-step find/replace)
+		this.recipeManager = new RecipeManager(this);
+
+		// Initialize search index (optional, kept in sync with vault events once the vault has loaded)
+		this.searchIndex = new SearchIndex(this.app, this);
+		this.searchIndex.registerEvents();
+		this.app.workspace.onLayoutReady(() => this.searchIndex.start());
+
+		// Highlight of the match a result was opened at, and of every current result, in the notes' editors
+		this.matchHighlighter = new MatchHighlighter(this);
+		this.resultHighlighter = new ResultHighlighter(this.app, this);
+		this.resultHighlighter.registerEvents();
+		this.registerEditorExtension([matchHighlightField, resultHighlightField]);
+
 		this.addSettingTab(new VaultFindReplaceSettingTab(this.app, this));
 		this.registerView(
 			VIEW_TYPE_FIND_REPLACE,
@@ -96,6 +124,72 @@ export default class VaultFindReplacePlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'toggle-preserve-case',
+			name: 'Toggle preserve case',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandTogglePreserveCase();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'toggle-properties-mode',
+			name: 'Toggle properties mode',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandToggleProperties();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'toggle-query-mode',
+			name: 'Toggle query syntax',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandToggleQuery();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'toggle-ignore-diacritics',
+			name: 'Toggle ignore diacritics',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandToggleDiacritics();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'toggle-fuzzy-match',
+			name: 'Toggle fuzzy match',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandToggleFuzzy();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'toggle-replacement-function',
+			name: 'Toggle replacement function',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandToggleFunction();
+				}
+			}
+		});
+
 		this.addCommand({
 			id: 'toggle-whole-word',
 			name: 'Toggle whole word',
@@ -140,6 +234,105 @@ export default class VaultFindReplacePlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'undo-last-replacement',
+			name: 'Undo last replacement',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandUndoLastReplacement();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'show-replacement-history',
+			name: 'Show replacement history',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandShowReplacementHistory();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'replace-from-mapping-table',
+			name: 'Replace from mapping table',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandReplaceFromMappingTable();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'run-recipe',
+			name: 'Run recipe',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandRunRecipe();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'add-search-to-recipe',
+			name: 'Add current search to recipe',
+			callback: async () => {
+				const view = await this.getOrCreateView();
+				if (view) {
+					view.commandAddSearchToRecipe();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'go-to-next-match',
+			name: 'Go to next match',
+			callback: async () => {
+				const view = this.getActiveView();
+				if (view) {
+					await view.commandGoToNextMatch();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'go-to-previous-match',
+			name: 'Go to previous match',
+			callback: async () => {
+				const view = this.getActiveView();
+				if (view) {
+					await view.commandGoToPreviousMatch();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'replace-and-go-to-next-match',
+			name: 'Replace and go to next match',
+			callback: async () => {
+				const view = this.getActiveView();
+				if (view) {
+					await view.commandReplaceAndGoToNext();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'skip-match',
+			name: 'Skip match',
+			callback: async () => {
+				const view = this.getActiveView();
+				if (view) {
+					await view.commandSkipMatch();
+				}
+			}
+		});
+
 		this.addCommand({
 			id: 'expand-collapse-all',
 			name: 'Expand/Collapse all results',
@@ -165,8 +358,10 @@ export default class VaultFindReplacePlugin extends Plugin {
 
 	onunload() {
 		// Plugin cleanup - Obsidian handles view cleanup automatically
-		// Any global caches or resources would be cleared here
-		// Currently all resources are managed at the view level
+		// Write pending search index changes; other resources are managed at the view level
+		this.searchIndex?.dispose();
+		this.matchHighlighter?.dispose();
+		this.resultHighlighter?.clear();
 	}
 
 	async activateView() {
@@ -139,6 +139,34 @@ export class HelpModal extends Modal {
                 description: 'Focuses the replace input field',
                 category: 'Navigation'
             },
+            {
+                id: 'go-to-next-match',
+                name: 'Go to next match',
+                recommendedHotkey: '<kbd>F4</kbd>',
+                description: 'Opens the next result, moving on to the next file after the last match of a note',
+                category: 'Navigation'
+            },
+            {
+                id: 'go-to-previous-match',
+                name: 'Go to previous match',
+                recommendedHotkey: '<kbd>Shift</kbd>+<kbd>F4</kbd>',
+                description: 'Opens the previous result, across files',
+                category: 'Navigation'
+            },
+            {
+                id: 'replace-and-go-to-next-match',
+                name: 'Replace and go to next match',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Shift</kbd>+<kbd>1</kbd>',
+                description: 'Replaces the current result and opens the next one',
+                category: 'Navigation'
+            },
+            {
+                id: 'skip-match',
+                name: 'Skip match',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Shift</kbd>+<kbd>2</kbd>',
+                description: 'Leaves the current result unchanged and opens the next one',
+                category: 'Navigation'
+            },
             {
                 id: 'toggle-match-case',
                 name: 'Toggle match case',
@@ -146,6 +174,48 @@ export class HelpModal extends Modal {
                 description: 'Toggles case-sensitive search',
                 category: 'Search options'
             },
+            {
+                id: 'toggle-preserve-case',
+                name: 'Toggle preserve case',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>P</kbd>',
+                description: 'Toggles case-preserving replacement (lower, UPPER, Title, camelCase)',
+                category: 'Search options'
+            },
+            {
+                id: 'toggle-replacement-function',
+                name: 'Toggle replacement function',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>J</kbd>',
+                description: 'Evaluates the replace text as a JavaScript expression for each match',
+                category: 'Search options'
+            },
+            {
+                id: 'toggle-properties-mode',
+                name: 'Toggle properties mode',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>Y</kbd>',
+                description: 'Searches and replaces frontmatter property values instead of note text',
+                category: 'Search options'
+            },
+            {
+                id: 'toggle-query-mode',
+                name: 'Toggle query syntax',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>Q</kbd>',
+                description: 'Combines terms with AND, OR, -term, "phrases", file: and path: qualifiers',
+                category: 'Search options'
+            },
+            {
+                id: 'toggle-ignore-diacritics',
+                name: 'Toggle ignore diacritics',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>D</kbd>',
+                description: 'Matches text regardless of accents and full-width characters (cafe finds café)',
+                category: 'Search options'
+            },
+            {
+                id: 'toggle-fuzzy-match',
+                name: 'Toggle fuzzy match',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>F</kbd>',
+                description: 'Also matches text with small typos (recieve finds receive)',
+                category: 'Search options'
+            },
             {
                 id: 'toggle-whole-word',
                 name: 'Toggle whole word',
@@ -167,6 +237,41 @@ export class HelpModal extends Modal {
                 description: 'Replaces only selected results',
                 category: 'Replace actions'
             },
+            {
+                id: 'undo-last-replacement',
+                name: 'Undo last replacement',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>Z</kbd>',
+                description: 'Restores files changed by the last replacement',
+                category: 'Replace actions'
+            },
+            {
+                id: 'show-replacement-history',
+                name: 'Show replacement history',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>H</kbd>',
+                description: 'Lists recent replacements with per-entry undo',
+                category: 'Replace actions'
+            },
+            {
+                id: 'replace-from-mapping-table',
+                name: 'Replace from mapping table',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>M</kbd>',
+                description: 'Searches for every term of a Markdown or CSV old → new table',
+                category: 'Replace actions'
+            },
+            {
+                id: 'run-recipe',
+                name: 'Run recipe',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>B</kbd>',
+                description: 'Runs a saved multi-step find/replace recipe',
+                category: 'Recipes'
+            },
+            {
+                id: 'add-search-to-recipe',
+                name: 'Add current search to recipe',
+                recommendedHotkey: '<kbd>Ctrl/Cmd</kbd>+<kbd>Alt</kbd>+<kbd>Shift</kbd>+<kbd>B</kbd>',
+                description: 'Saves the current search and replacement as a recipe step',
+                category: 'Recipes'
+            },
             {
                 id: 'select-all-results',
                 name: 'Select all results',
@@ -405,6 +510,11 @@ export class HelpModal extends Modal {
                 type: 'Glob patterns',
                 example: '*.tmp, *backup*, temp/*',
                 description: 'Use * (any characters) and ? (single character) wildcards'
+            },
+            {
+                type: 'Metadata',
+                example: 'tag:#project, prop:status=draft, links-to:[[Index]], modified:>2025-01-01, size:<50kb',
+                description: 'Select notes by tag (and subtags), property value, outgoing link, modified date (<, >, =) or size (b, kb, mb); a file to include must match all of them'
             }
         ];
 
@@ -428,7 +538,8 @@ export class HelpModal extends Modal {
             '`.md,.txt` - Markdown and text files only',
             '`Notes/,Daily/` - Only files in Notes and Daily folders',
             '`*.js` - Only JavaScript files (using glob pattern)',
-            '`Notes/*.md` - Only markdown files in the Notes folder'
+            '`Notes/*.md` - Only markdown files in the Notes folder',
+            '`Meetings/, tag:#meeting, prop:status=draft` - Only draft meeting notes in Meetings'
         ];
 
         includeItems.forEach(item => {
@@ -447,7 +558,8 @@ export class HelpModal extends Modal {
             '`*.tmp,*.bak` - Skip temporary and backup files',
             '`*backup*,*draft*` - Skip files with "backup" or "draft" in the name',
             `\`${configDirName}/\` - Skip Obsidian configuration folder`,
-            '`temp/*,*.log` - Skip temp folder and log files'
+            '`temp/*,*.log` - Skip temp folder and log files',
+            '`prop:status=done, size:>1mb` - Skip finished notes and large files'
         ];
 
         excludeItems.forEach(item => {
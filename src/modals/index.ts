@@ -3,4 +3,9 @@
  */
 
 export { ConfirmModal } from './confirmModal';
-export { HelpModal } from './helpModal';
\ No newline at end of file
+export { HelpModal } from './helpModal';
+export { ReplacementHistoryModal } from './replacementHistoryModal';
+export { ReplacePreviewModal } from './replacePreviewModal';
+export { RecipeSuggestModal } from './recipeSuggestModal';
+export type { RecipeChoice } from './recipeSuggestModal';
+export { MappingTableSuggestModal } from './mappingTableSuggestModal';
@@ -0,0 +1,27 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+/**
+ * Picks the Markdown or CSV note holding a mapping table (old → new)
+ */
+export class MappingTableSuggestModal extends FuzzySuggestModal<TFile> {
+    private onChoose: (file: TFile) => void;
+
+    constructor(app: App, onChoose: (file: TFile) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a note with an old → new table (Markdown or CSV)');
+        this.emptyStateText = 'No Markdown or CSV files found';
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(file => file.extension === 'md' || file.extension === 'csv');
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile): void {
+        this.onChoose(file);
+    }
+}
@@ -0,0 +1,53 @@
+import { App, SuggestModal } from 'obsidian';
+import { Recipe } from '../types';
+import { pluralize } from '../utils';
+
+/**
+ * A saved recipe, or a new recipe name typed by the user
+ */
+export type RecipeChoice = { recipe: Recipe } | { newName: string };
+
+/**
+ * Picks a recipe by name
+ * With `allowCreate`, the typed text can also be chosen as the name of a new recipe.
+ */
+export class RecipeSuggestModal extends SuggestModal<RecipeChoice> {
+    private recipes: Recipe[];
+    private onChoose: (choice: RecipeChoice) => void;
+    private allowCreate: boolean;
+
+    constructor(app: App, recipes: Recipe[], onChoose: (choice: RecipeChoice) => void, allowCreate = false) {
+        super(app);
+        this.recipes = recipes;
+        this.onChoose = onChoose;
+        this.allowCreate = allowCreate;
+        this.setPlaceholder(allowCreate ? 'Choose a recipe or type a new name' : 'Choose a recipe to run');
+        this.emptyStateText = allowCreate ? 'Type a name to create a recipe' : 'No recipes saved yet';
+    }
+
+    getSuggestions(query: string): RecipeChoice[] {
+        const needle = query.trim().toLowerCase();
+        const choices: RecipeChoice[] = this.recipes
+            .filter(recipe => recipe.name.toLowerCase().includes(needle))
+            .map(recipe => ({ recipe }));
+
+        if (this.allowCreate && needle && !this.recipes.some(recipe => recipe.name.toLowerCase() === needle)) {
+            choices.push({ newName: query.trim() });
+        }
+        return choices;
+    }
+
+    renderSuggestion(choice: RecipeChoice, el: HTMLElement): void {
+        if ('newName' in choice) {
+            el.createDiv({ text: `Create recipe "${choice.newName}"` });
+            return;
+        }
+        const count = choice.recipe.steps.length;
+        el.createDiv({ text: choice.recipe.name });
+        el.createEl('small', { text: `${count} ${pluralize(count, 'step')}`, cls: 'recipe-suggestion-steps' });
+    }
+
+    onChooseSuggestion(choice: RecipeChoice): void {
+        this.onChoose(choice);
+    }
+}
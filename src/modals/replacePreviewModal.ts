@@ -0,0 +1,169 @@
+import { App, Modal, Setting } from 'obsidian';
+import { ReplacementPreview, PreviewApproval, FileReplacementPreview, DiffHunk } from '../types';
+import { pluralize } from '../utils';
+
+/**
+ * Dry-run preview of a replacement operation
+ * Shows a unified diff per file and lets the user approve individual hunks or whole files.
+ * After closing, `approval` holds the approved hunks, or null if the user cancelled.
+ * Optional detail lines (e.g. one per recipe step) are listed under the summary.
+ */
+export class ReplacePreviewModal extends Modal {
+    approval: PreviewApproval | null = null;
+    isOpen = false; // track open state
+    private preview: ReplacementPreview;
+    private details: string[];
+    private selected: Map<string, Set<number>> = new Map();
+    private applyBtn: HTMLButtonElement;
+
+    constructor(app: App, preview: ReplacementPreview, details: string[] = []) {
+        super(app);
+        this.preview = preview;
+        this.details = details;
+
+        // Everything starts approved
+        for (const filePreview of preview.files) {
+            this.selected.set(filePreview.file.path, new Set(filePreview.hunks.map(h => h.index)));
+        }
+    }
+
+    onOpen() {
+        this.isOpen = true;
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('find-replace-preview-modal');
+
+        new Setting(contentEl).setName('Review replacements').setHeading();
+
+        const totalHunks = this.preview.files.reduce((sum, f) => sum + f.hunks.length, 0);
+        const fileCount = this.preview.files.length;
+        contentEl.createEl('p', {
+            text: `${totalHunks} ${pluralize(totalHunks, 'change')} in ${fileCount} ${pluralize(fileCount, 'file')}. Uncheck any change or file you don't want to apply.`,
+            cls: 'preview-summary'
+        });
+
+        if (this.details.length > 0) {
+            const detailList = contentEl.createEl('ol', { cls: 'preview-details' });
+            this.details.forEach(detail => detailList.createEl('li', { text: detail }));
+        }
+
+        if (this.preview.errors.length > 0) {
+            const errorList = contentEl.createEl('ul', { cls: 'preview-errors' });
+            this.preview.errors.forEach(error => errorList.createEl('li', { text: error }));
+        }
+
+        const filesEl = contentEl.createDiv('preview-files');
+        this.preview.files.forEach(filePreview => this.renderFile(filesEl, filePreview));
+
+        const btnContainer = contentEl.createDiv('modal-button-container');
+        this.applyBtn = btnContainer.createEl('button', { cls: 'mod-cta' });
+        const cancelBtn = btnContainer.createEl('button', { text: 'Cancel' });
+
+        this.applyBtn.addEventListener('click', () => {
+            this.approval = new Map(
+                Array.from(this.selected.entries()).filter(([, hunks]) => hunks.size > 0)
+            );
+            this.close();
+        });
+        cancelBtn.addEventListener('click', () => {
+            this.approval = null;
+            this.close();
+        });
+
+        this.updateApplyButton();
+    }
+
+    onClose() {
+        this.isOpen = false;
+        this.contentEl.empty();
+    }
+
+    /**
+     * Renders one file with its checkbox and hunks
+     */
+    private renderFile(container: HTMLElement, filePreview: FileReplacementPreview): void {
+        const path = filePreview.file.path;
+        const fileEl = container.createDiv('preview-file');
+
+        const headerEl = fileEl.createEl('label', { cls: 'preview-file-header' });
+        const fileCheckbox = headerEl.createEl('input', { attr: { type: 'checkbox' } });
+        fileCheckbox.checked = true;
+        headerEl.createSpan({ text: path, cls: 'preview-file-path' });
+        headerEl.createSpan({
+            text: `${filePreview.hunks.length} ${pluralize(filePreview.hunks.length, 'change')}`,
+            cls: 'preview-file-count'
+        });
+
+        const hunkCheckboxes: HTMLInputElement[] = [];
+        const syncFileCheckbox = () => {
+            const approved = this.selected.get(path)?.size ?? 0;
+            fileCheckbox.checked = approved === filePreview.hunks.length;
+            fileCheckbox.indeterminate = approved > 0 && approved < filePreview.hunks.length;
+            fileEl.toggleClass('is-excluded', approved === 0);
+            this.updateApplyButton();
+        };
+
+        filePreview.hunks.forEach(hunk => {
+            hunkCheckboxes.push(this.renderHunk(fileEl, path, hunk, syncFileCheckbox));
+        });
+
+        fileCheckbox.addEventListener('change', () => {
+            const hunks = this.selected.get(path) ?? new Set<number>();
+            hunks.clear();
+            if (fileCheckbox.checked) {
+                filePreview.hunks.forEach(h => hunks.add(h.index));
+            }
+            this.selected.set(path, hunks);
+            hunkCheckboxes.forEach(cb => {
+                cb.checked = fileCheckbox.checked;
+                cb.closest('.preview-hunk')?.toggleClass('is-excluded', !cb.checked);
+            });
+            syncFileCheckbox();
+        });
+    }
+
+    /**
+     * Renders a single diff hunk with its own checkbox
+     * @returns The hunk checkbox so the file checkbox can toggle it
+     */
+    private renderHunk(container: HTMLElement, path: string, hunk: DiffHunk, onChange: () => void): HTMLInputElement {
+        const hunkEl = container.createDiv('preview-hunk');
+
+        const headerEl = hunkEl.createEl('label', { cls: 'preview-hunk-header' });
+        const checkbox = headerEl.createEl('input', { attr: { type: 'checkbox' } });
+        checkbox.checked = true;
+        headerEl.createSpan({
+            text: `@@ -${hunk.oldStart + 1},${hunk.oldLength} +${hunk.newStart + 1},${hunk.newLength} @@`
+        });
+
+        const linesEl = hunkEl.createDiv('preview-diff');
+        for (const line of hunk.lines) {
+            const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+            linesEl.createDiv({ cls: `diff-line diff-${line.type}`, text: `${prefix} ${line.text}` });
+        }
+
+        checkbox.addEventListener('change', () => {
+            const hunks = this.selected.get(path) ?? new Set<number>();
+            if (checkbox.checked) {
+                hunks.add(hunk.index);
+            } else {
+                hunks.delete(hunk.index);
+            }
+            this.selected.set(path, hunks);
+            hunkEl.toggleClass('is-excluded', !checkbox.checked);
+            onChange();
+        });
+
+        return checkbox;
+    }
+
+    /**
+     * Updates the apply button label and disabled state from the current approval
+     */
+    private updateApplyButton(): void {
+        if (!this.applyBtn) return;
+        const approved = Array.from(this.selected.values()).reduce((sum, hunks) => sum + hunks.size, 0);
+        this.applyBtn.setText(`Apply ${approved} ${pluralize(approved, 'change')}`);
+        this.applyBtn.disabled = approved === 0;
+    }
+}
@@ -0,0 +1,98 @@
+import { App, Modal, Setting } from 'obsidian';
+import VaultFindReplacePlugin from '../main';
+import { JournalEntry } from '../types';
+import { pluralize } from '../utils';
+
+/**
+ * Lists recorded replacement operations and lets the user undo or discard them
+ */
+export class ReplacementHistoryModal extends Modal {
+    private plugin: VaultFindReplacePlugin;
+    private onUndo: (entry: JournalEntry) => Promise<void>;
+
+    /**
+     * @param app - Obsidian app instance
+     * @param plugin - Plugin instance (provides the replacement journal)
+     * @param onUndo - Called when the user chooses to undo an entry; the list refreshes afterwards
+     */
+    constructor(app: App, plugin: VaultFindReplacePlugin, onUndo: (entry: JournalEntry) => Promise<void>) {
+        super(app);
+        this.plugin = plugin;
+        this.onUndo = onUndo;
+    }
+
+    onOpen() {
+        this.contentEl.addClass('find-replace-history-modal');
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Renders (or re-renders) the list of journal entries
+     */
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        new Setting(contentEl).setName('Replacement history').setHeading();
+
+        const entries = this.plugin.replacementJournal.getEntries();
+        if (entries.length === 0) {
+            contentEl.createEl('p', {
+                text: 'No undoable replacements recorded.',
+                cls: 'history-empty'
+            });
+            return;
+        }
+
+        entries.forEach((entry, index) => {
+            const fileCount = entry.files.length;
+            const setting = new Setting(contentEl)
+                .setName(`"${entry.pattern}" → "${entry.replaceText}"`)
+                .setDesc(
+                    `${new Date(entry.timestamp).toLocaleString()} · ` +
+                    `${entry.totalReplacements} ${pluralize(entry.totalReplacements, 'match', 'matches')} in ` +
+                    `${fileCount} ${pluralize(fileCount, 'file', 'files')}: ` +
+                    this.summarizePaths(entry)
+                )
+                .addButton(button =>
+                    button
+                        .setButtonText(index === 0 ? 'Undo last' : 'Undo')
+                        .setCta()
+                        .onClick(async () => {
+                            await this.onUndo(entry);
+                            this.render();
+                        })
+                )
+                .addButton(button =>
+                    button
+                        .setButtonText('Discard')
+                        .onClick(async () => {
+                            await this.plugin.replacementJournal.removeEntry(entry.id);
+                            this.render();
+                        })
+                );
+            setting.settingEl.addClass('history-entry');
+        });
+
+        const buttonDiv = contentEl.createDiv('modal-button-container');
+        const clearButton = buttonDiv.createEl('button', { text: 'Clear history', cls: 'mod-warning' });
+        clearButton.addEventListener('click', async () => {
+            await this.plugin.replacementJournal.clear();
+            this.render();
+        });
+    }
+
+    /**
+     * Builds a short comma-separated list of affected paths
+     */
+    private summarizePaths(entry: JournalEntry): string {
+        const MAX_PATHS = 3;
+        const paths = entry.files.slice(0, MAX_PATHS).map(f => f.path);
+        const remaining = entry.files.length - paths.length;
+        return remaining > 0 ? `${paths.join(', ')} and ${remaining} more` : paths.join(', ');
+    }
+}
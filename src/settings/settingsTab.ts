@@ -1,11 +1,15 @@
 import { App, PluginSettingTab, Setting, Notice } from "obsidian";
 import VaultFindReplacePlugin from "../main";
-import { VaultFindReplaceSettings, LogLevel } from "../types";
+import { VaultFindReplaceSettings, LogLevel, Recipe, RecipeStep } from "../types";
 import { ConfirmModal } from "../modals/confirmModal";
-import { MODAL_POLL_INTERVAL } from "../utils";
+import { MODAL_POLL_INTERVAL, MAX_CONTEXT_LINES, formatFileSize } from "../utils";
+import { MARKDOWN_SCOPE_LABELS } from "../core/markdownSegmenter";
+import { describeMetadataFilter } from "../core/metadataFilters";
+import { DEFAULT_FUZZY_DISTANCE } from "../core/approximateMatch";
 
 export class VaultFindReplaceSettingTab extends PluginSettingTab {
     plugin: VaultFindReplacePlugin;
+    private stopIndexStatusUpdates: (() => void) | null = null;
 
     constructor(app: App, plugin: VaultFindReplacePlugin) {
         super(app, plugin);
@@ -17,13 +21,10 @@ export class VaultFindReplaceSettingTab extends PluginSettingTab {
         containerEl.empty();
         containerEl.addClass('find-n-replace-settings');
 
-        // TODO: Implement search result highlighting feature
-        // See ROADMAP.md - High Priority feature
-        /*
         // Highlight duration
         new Setting(containerEl)
             .setName("Highlight duration")
-            .setDesc("How long (in milliseconds) to keep highlights visible before fading out.")
+            .setDesc("How long (in milliseconds) the match you open from the results stays highlighted in the note before fading out.")
             .addText((text) =>
                 text
                     .setPlaceholder("2000")
@@ -49,15 +50,14 @@ export class VaultFindReplaceSettingTab extends PluginSettingTab {
                         await this.plugin.saveSettings();
                     })
             );
-        */
 
         // Max results
         new Setting(containerEl)
             .setName("Maximum results")
-            .setDesc("Maximum number of search results to display. Higher values may impact performance.")
+            .setDesc("Maximum number of search results to display. Only the results in view are rendered, so large limits stay responsive.")
             .addText((text) =>
                 text
-                    .setPlaceholder("1000")
+                    .setPlaceholder("100000")
                     .setValue(this.plugin.settings.maxResults.toString())
                     .onChange(async (value) => {
                         const num = parseInt(value, 10);
@@ -98,6 +98,80 @@ export class VaultFindReplaceSettingTab extends PluginSettingTab {
                     })
             );
 
+        // Fuzzy match distance
+        new Setting(containerEl)
+            .setName("Fuzzy match distance")
+            .setDesc("Most typos (inserted, missing or changed characters) a fuzzy match may have. Search terms shorter than 3 characters are always matched exactly. Range: 1-3.")
+            .addText((text) =>
+                text
+                    .setPlaceholder("1")
+                    .setValue(this.plugin.settings.fuzzyMaxDistance.toString())
+                    .onChange(async (value) => {
+                        const num = parseInt(value, 10);
+                        if (!isNaN(num) && num >= 1 && num <= 3) {
+                            this.plugin.settings.fuzzyMaxDistance = num;
+                            await this.plugin.saveSettings();
+                        }
+                    })
+            );
+
+        // Context lines
+        new Setting(containerEl)
+            .setName("Context lines")
+            .setDesc(`Lines shown dimmed before and after each match in the results, like grep -C. Nearby matches share one block of lines. Can be changed per search in the filter panel. Range: 0-${MAX_CONTEXT_LINES}.`)
+            .addText((text) =>
+                text
+                    .setPlaceholder("0")
+                    .setValue(this.plugin.settings.contextLines.toString())
+                    .onChange(async (value) => {
+                        const num = parseInt(value, 10);
+                        if (!isNaN(num) && num >= 0 && num <= MAX_CONTEXT_LINES) {
+                            this.plugin.settings.contextLines = num;
+                            await this.plugin.saveSettings();
+                        }
+                    })
+            );
+
+        // Search index section
+        new Setting(containerEl)
+            .setName('Search index')
+            .setHeading();
+
+        // Use search index toggle
+        new Setting(containerEl)
+            .setName("Use search index")
+            .setDesc("Keep an index of the text in your notes so searches skip notes that cannot match without reading them. The index is stored in the plugin folder and updated as notes change. Speeds up searches in large vaults; fuzzy, ignore-diacritics, properties and mapping table searches still read every note.")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.useSearchIndex)
+                    .onChange(async (value) => {
+                        this.plugin.settings.useSearchIndex = value;
+                        await this.plugin.saveSettings();
+                        if (value) {
+                            this.plugin.searchIndex.start();
+                        } else {
+                            await this.plugin.searchIndex.disable();
+                        }
+                        this.display();
+                    })
+            );
+
+        // Index status and rebuild button
+        const indexStatus = new Setting(containerEl)
+            .setName("Index status")
+            .addButton((button) =>
+                button
+                    .setButtonText("Rebuild index")
+                    .setDisabled(!this.plugin.settings.useSearchIndex)
+                    .onClick(async () => {
+                        await this.plugin.searchIndex.rebuild();
+                        new Notice("Search index rebuilt");
+                    })
+            );
+        this.stopIndexStatusUpdates?.();
+        this.stopIndexStatusUpdates = this.plugin.searchIndex.onStatusChange(() => this.showIndexStatus(indexStatus));
+        this.showIndexStatus(indexStatus);
+
         // History settings section
         new Setting(containerEl)
             .setName('Search history')
@@ -172,13 +246,77 @@ export class VaultFindReplaceSettingTab extends PluginSettingTab {
                     })
             );
 
-        // TODO: Implement line number display in search results
-        // See ROADMAP.md - Medium Priority feature
-        /*
+        // Undo history section
+        new Setting(containerEl)
+            .setName('Undo history')
+            .setHeading();
+
+        // Max journal entries
+        new Setting(containerEl)
+            .setName("Undoable replacements")
+            .setDesc("Number of recent replacement operations that can be undone. File contents are stored in the plugin folder (up to 10 MB), so keep this low for large vaults. Set to 0 to disable. Range: 0-100.")
+            .addText((text) =>
+                text
+                    .setPlaceholder("20")
+                    .setValue(this.plugin.settings.maxJournalEntries.toString())
+                    .onChange(async (value) => {
+                        const num = parseInt(value, 10);
+                        if (!isNaN(num) && num >= 0 && num <= 100) {
+                            this.plugin.settings.maxJournalEntries = num;
+                            await this.plugin.saveSettings();
+                            // Trim existing journal if needed
+                            await this.plugin.replacementJournal.updateMaxSize();
+                        }
+                    })
+            );
+
+        // Clear journal button
+        new Setting(containerEl)
+            .setName("Clear undo history")
+            .setDesc(`Forget all recorded replacements. Current size: ${this.plugin.replacementJournal.getEntries().length} operations.`)
+            .addButton((button) =>
+                button
+                    .setButtonText("Clear undo history")
+                    .setWarning()
+                    .onClick(async () => {
+                        const modal = new ConfirmModal(
+                            this.app,
+                            "Are you sure you want to clear the undo history? Recorded replacements can no longer be undone.",
+                            {
+                                confirmText: "Clear",
+                                confirmClass: "mod-warning",
+                                cancelText: "Cancel"
+                            }
+                        );
+                        modal.open();
+
+                        // Wait for modal to close using async/await polling
+                        while (modal.isOpen) {
+                            await sleep(MODAL_POLL_INTERVAL);
+                        }
+
+                        if (modal.result) {
+                            await this.plugin.replacementJournal.clear();
+                            new Notice("Undo history cleared");
+                            this.display();
+                        }
+                    })
+            );
+
+        // Recipes section
+        new Setting(containerEl)
+            .setName('Recipes')
+            .setHeading();
+        containerEl.createEl("p", {
+            text: "Saved multi-step find & replace operations. Add steps with the \"Add current search to recipe\" command and run them with \"Run recipe\". Steps run in order, each on the result of the previous one.",
+            cls: "setting-item-description"
+        });
+        this.plugin.recipeManager.getRecipes().forEach(recipe => this.displayRecipe(containerEl, recipe));
+
         // Show line numbers
         new Setting(containerEl)
             .setName("Show line numbers")
-            .setDesc("Display line numbers in search results.")
+            .setDesc("Display line numbers in a gutter next to each result.")
             .addToggle((toggle) =>
                 toggle
                     .setValue(this.plugin.settings.showLineNumbers)
@@ -187,15 +325,11 @@ export class VaultFindReplaceSettingTab extends PluginSettingTab {
                         await this.plugin.saveSettings();
                     })
             );
-        */
 
-        // TODO: Implement file extension display in file headers
-        // See ROADMAP.md - Low Priority feature
-        /*
         // Show file extensions
         new Setting(containerEl)
             .setName("Show file extensions")
-            .setDesc("Display file extensions in search results.")
+            .setDesc("Show the .md extension of notes in file group headers. Other files always show their extension.")
             .addToggle((toggle) =>
                 toggle
                     .setValue(this.plugin.settings.showFileExtensions)
@@ -204,7 +338,6 @@ export class VaultFindReplaceSettingTab extends PluginSettingTab {
                         await this.plugin.saveSettings();
                     })
             );
-        */
 
         // File filtering default settings
         new Setting(containerEl)
@@ -304,10 +437,23 @@ export class VaultFindReplaceSettingTab extends PluginSettingTab {
                     })
             );
 
+        // Preview before replace toggle
+        new Setting(containerEl)
+            .setName("Preview changes before replacing")
+            .setDesc("Show a diff of every changed line before Replace all in vault and Replace selected. Individual changes or whole files can be unchecked before applying. Replaces the confirmation dialog for these operations.")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.previewBeforeReplace)
+                    .onChange(async (value) => {
+                        this.plugin.settings.previewBeforeReplace = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
         // Remember search options toggle
         new Setting(containerEl)
             .setName("Remember search options")
-            .setDesc("Persist match case, whole word, regex, and multiline toggle states across sessions. When disabled, toggles reset to off each time you open the view.")
+            .setDesc("Persist match case, preserve case, whole word, regex, and multiline toggle states across sessions. When disabled, toggles reset to off each time you open the view.")
             .addToggle((toggle) =>
                 toggle
                     .setValue(this.plugin.settings.rememberSearchOptions)
@@ -354,4 +500,138 @@ export class VaultFindReplaceSettingTab extends PluginSettingTab {
                     });
             });
     }
-}
\ No newline at end of file
+
+    hide(): void {
+        this.stopIndexStatusUpdates?.();
+        this.stopIndexStatusUpdates = null;
+    }
+
+    /**
+     * Describes the state and size of the search index
+     */
+    private async showIndexStatus(setting: Setting): Promise<void> {
+        const status = this.plugin.searchIndex.getStatus();
+        if (!status.enabled) {
+            setting.setDesc("Off");
+            return;
+        }
+        if (status.building) {
+            setting.setDesc(`Indexing notes… ${status.fileCount} indexed so far`);
+            return;
+        }
+
+        const size = await this.plugin.searchIndex.getStoredSize();
+        const notes = `${status.fileCount} note${status.fileCount === 1 ? '' : 's'}`;
+        setting.setDesc(`${status.ready ? 'Ready' : 'Not built yet'}: ${notes}, ${status.trigramCount} distinct trigrams${size !== null ? `, ${formatFileSize(size)} on disk` : ''}.`);
+    }
+
+    /**
+     * Renders one recipe with rename/delete controls and its steps
+     */
+    private displayRecipe(containerEl: HTMLElement, recipe: Recipe): void {
+        const manager = this.plugin.recipeManager;
+
+        new Setting(containerEl)
+            .setName(recipe.name)
+            .setDesc(`${recipe.steps.length} step${recipe.steps.length === 1 ? '' : 's'}`)
+            .addText((text) =>
+                text
+                    .setPlaceholder("Recipe name")
+                    .setValue(recipe.name)
+                    .onChange(async (value) => {
+                        await manager.renameRecipe(recipe.id, value);
+                    })
+            )
+            .addExtraButton((button) =>
+                button
+                    .setIcon("trash")
+                    .setTooltip("Delete recipe")
+                    .onClick(async () => {
+                        const modal = new ConfirmModal(
+                            this.app,
+                            `Delete the recipe "${recipe.name}" and its ${recipe.steps.length} steps?`,
+                            {
+                                confirmText: "Delete",
+                                confirmClass: "mod-warning",
+                                cancelText: "Cancel"
+                            }
+                        );
+                        modal.open();
+
+                        // Wait for modal to close using async/await polling
+                        while (modal.isOpen) {
+                            await sleep(MODAL_POLL_INTERVAL);
+                        }
+
+                        if (modal.result) {
+                            await manager.deleteRecipe(recipe.id);
+                            this.display();
+                        }
+                    })
+            );
+
+        recipe.steps.forEach((step, index) => {
+            new Setting(containerEl)
+                .setClass("find-replace-recipe-step")
+                .setName(`${index + 1}. ${step.query} → ${step.replacement || '(empty)'}`)
+                .setDesc(this.describeStepOptions(step))
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("arrow-up")
+                        .setTooltip("Move up")
+                        .setDisabled(index === 0)
+                        .onClick(async () => {
+                            await manager.moveStep(recipe.id, index, -1);
+                            this.display();
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("arrow-down")
+                        .setTooltip("Move down")
+                        .setDisabled(index === recipe.steps.length - 1)
+                        .onClick(async () => {
+                            await manager.moveStep(recipe.id, index, 1);
+                            this.display();
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("x")
+                        .setTooltip("Remove step")
+                        .onClick(async () => {
+                            await manager.removeStep(recipe.id, index);
+                            this.display();
+                        })
+                );
+        });
+    }
+
+    /**
+     * Summarizes a recipe step's search options and file filters
+     */
+    private describeStepOptions(step: RecipeStep): string {
+        const { options, filters } = step;
+        const flags = [
+            options.useRegex && 'Regex',
+            options.matchCase && 'Match case',
+            options.wholeWord && 'Whole word',
+            options.multiline && 'Multiline',
+            options.preserveCase && 'Preserve case',
+            options.useFunction && 'Function',
+            options.searchProperties && 'Properties',
+            options.useQuery && 'Query',
+            options.ignoreDiacritics && 'Ignore diacritics',
+            options.fuzzy && `Fuzzy (${options.fuzzyDistance ?? DEFAULT_FUZZY_DISTANCE})`,
+            options.markdownScope && options.markdownScope !== 'all' && MARKDOWN_SCOPE_LABELS[options.markdownScope]
+        ].filter(Boolean);
+        const include = [...(filters?.fileExtensions ?? []).map(ext => `.${ext}`), ...(filters?.searchInFolders ?? []), ...(filters?.includePatterns ?? []),
+            ...(filters?.includeMetadata ?? []).map(describeMetadataFilter)];
+        const exclude = [...(filters?.excludeFolders ?? []), ...(filters?.excludePatterns ?? []), ...(filters?.excludeMetadata ?? []).map(describeMetadataFilter)];
+
+        const parts = [flags.length > 0 ? flags.join(', ') : 'Plain text'];
+        if (include.length > 0) parts.push(`include: ${include.join(', ')}`);
+        if (exclude.length > 0) parts.push(`exclude: ${exclude.join(', ')}`);
+        return parts.join(' · ');
+    }
+}
@@ -2,6 +2,8 @@
  * Mock implementation of Obsidian API for testing
  */
 
+export { default as moment } from 'moment';
+
 export class Plugin {
   app: any;
   manifest: any;
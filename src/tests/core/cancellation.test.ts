@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { SearchProgress } from '../../types';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+
+describe('Cancellation', () => {
+    let env: ReturnType<typeof createMemoryVaultApp>;
+    let searchEngine: SearchEngine;
+    let engine: ReplacementEngine;
+    const options = createDefaultSearchOptions();
+
+    beforeEach(() => {
+        const files: Record<string, string> = {};
+        for (let i = 0; i < 25; i++) {
+            files[`note-${String(i).padStart(2, '0')}.md`] = `foo ${i}`;
+        }
+        env = createMemoryVaultApp(files);
+        const plugin = createMockPlugin(env.app);
+        searchEngine = new SearchEngine(env.app, plugin);
+        engine = new ReplacementEngine(env.app, plugin, searchEngine);
+    });
+
+    it('should stop a search between batches and flag the partial results as cancelled', async () => {
+        const controller = new AbortController();
+        const reports: SearchProgress[] = [];
+
+        const results = await searchEngine.performSearch('foo', options, undefined, {
+            signal: controller.signal,
+            onResults: (_batch, progress) => {
+                reports.push(progress);
+                if (progress.scanned === 10) controller.abort();
+            }
+        });
+
+        expect(results).toHaveLength(10);
+        expect(reports[reports.length - 1]).toEqual({ scanned: 10, total: 25, cancelled: true });
+    });
+
+    it('should not read any file when the signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        const results = await searchEngine.performSearch('foo', options, undefined, { signal: controller.signal });
+
+        expect(results).toEqual([]);
+    });
+
+    it('should leave the remaining files unchanged when a replacement is cancelled', async () => {
+        const results = await searchEngine.performSearch('foo', options);
+        const controller = new AbortController();
+        const process = env.app.vault.process;
+        env.app.vault.process = async (file, fn) => {
+            controller.abort(); // Stop after the first file is written
+            return process(file, fn);
+        };
+
+        const result = await engine.dispatchReplace('vault', results, new Set(), 'bar', options, undefined, controller.signal);
+
+        expect(result.cancelled).toBe(true);
+        expect(result.totalReplacements).toBe(1);
+        expect(result.filesModified).toBe(1);
+        expect(result.affectedResults?.replacedResultIndices).toEqual([0]);
+        expect(env.contents.get('note-00.md')).toBe('bar 0');
+        expect(env.contents.get('note-01.md')).toBe('foo 1');
+    });
+
+    it('should return an empty cancelled preview when stopped while it is computed', async () => {
+        const results = await searchEngine.performSearch('foo', options);
+        const controller = new AbortController();
+        const read = env.app.vault.read;
+        env.app.vault.read = async file => {
+            controller.abort(); // Stop after the first file is compared
+            return read(file);
+        };
+
+        const preview = await engine.previewReplace('vault', results, new Set(), 'bar', options, undefined, controller.signal);
+
+        expect(preview.cancelled).toBe(true);
+        expect(preview.files).toEqual([]);
+    });
+
+    it('should leave the remaining approved files unchanged when applying a preview is cancelled', async () => {
+        const results = await searchEngine.performSearch('foo', options);
+        const preview = await engine.previewReplace('vault', results, new Set(), 'bar', options);
+        const approval = new Map(preview.files.map(f => [f.file.path, new Set(f.hunks.map(h => h.index))]));
+        const controller = new AbortController();
+        const process = env.app.vault.process;
+        env.app.vault.process = async (file, fn) => {
+            controller.abort(); // Stop after the first file is written
+            return process(file, fn);
+        };
+
+        const result = await engine.applyPreview(preview, approval, controller.signal);
+
+        expect(result.cancelled).toBe(true);
+        expect(result.totalReplacements).toBe(1);
+        expect(env.contents.get('note-00.md')).toBe('bar 0');
+        expect(env.contents.get('note-01.md')).toBe('foo 1');
+    });
+});
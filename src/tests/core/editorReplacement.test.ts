@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Editor, EditorPosition, EditorTransaction, MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { SearchResult, JournalEntry } from '../../types';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+
+/**
+ * Minimal editor that records transactions like CodeMirror would (changes refer to the pre-transaction text)
+ */
+class FakeEditor {
+    transactions: EditorTransaction[] = [];
+
+    constructor(private value: string) {}
+
+    getValue(): string {
+        return this.value;
+    }
+
+    offsetToPos(offset: number): EditorPosition {
+        const before = this.value.slice(0, offset).split('\n');
+        return { line: before.length - 1, ch: before[before.length - 1].length };
+    }
+
+    posToOffset(pos: EditorPosition): number {
+        const lines = this.value.split('\n');
+        return lines.slice(0, pos.line).reduce((sum, l) => sum + l.length + 1, 0) + pos.ch;
+    }
+
+    transaction(tx: EditorTransaction): void {
+        this.transactions.push(tx);
+        const changes = (tx.changes ?? [])
+            .map(c => ({ from: this.posToOffset(c.from), to: this.posToOffset(c.to ?? c.from), text: c.text }))
+            .sort((a, b) => b.from - a.from);
+        for (const change of changes) {
+            this.value = this.value.slice(0, change.from) + change.text + this.value.slice(change.to);
+        }
+    }
+}
+
+describe('Editor-aware replacement', () => {
+    let env: ReturnType<typeof createMemoryVaultApp>;
+    let plugin: ReturnType<typeof createMockPlugin>;
+    let engine: ReplacementEngine;
+    let file: TFile;
+    let editor: FakeEditor;
+    let results: SearchResult[];
+    const options = createDefaultSearchOptions();
+
+    beforeEach(() => {
+        env = createMemoryVaultApp({ 'note.md': 'foo one\nbar\nfoo two' });
+        plugin = createMockPlugin(env.app);
+        engine = new ReplacementEngine(env.app, plugin, new SearchEngine(env.app, plugin));
+        file = env.files.get('note.md') as TFile;
+
+        // Unsaved keystroke: the editor holds newer text than the file on disk
+        editor = new FakeEditor('foo one\nbar!\nfoo two');
+        const view = Object.assign(Object.create(MarkdownView.prototype), { file, editor: editor as unknown as Editor });
+        env.leaves.push({ view } as unknown as WorkspaceLeaf);
+
+        results = [
+            { file, line: 0, col: 0, content: 'foo one', matchText: 'foo', pattern: 'foo' },
+            { file, line: 2, col: 0, content: 'foo two', matchText: 'foo', pattern: 'foo' }
+        ];
+    });
+
+    it('should apply one change per match in a single editor transaction', async () => {
+        const result = await engine.dispatchReplace('vault', results, new Set(), 'baz', options);
+
+        expect(result.totalReplacements).toBe(2);
+        expect(editor.transactions).toHaveLength(1);
+        expect(editor.transactions[0].changes).toHaveLength(2);
+        expect(editor.getValue()).toBe('baz one\nbar!\nbaz two');
+        // The vault copy is left for the editor to save
+        expect(env.contents.get('note.md')).toBe('foo one\nbar\nfoo two');
+    });
+
+    it('should journal editor content and roll back through the editor', async () => {
+        await engine.dispatchReplace('one', results, new Set(), 'baz', options, results[1]);
+
+        const entry = plugin.replacementJournal.getLastEntry() as JournalEntry;
+        expect(entry.files[0]).toEqual({ path: 'note.md', before: 'foo one\nbar!\nfoo two', after: 'foo one\nbar!\nbaz two' });
+
+        await plugin.replacementJournal.rollback(entry.id);
+        expect(editor.getValue()).toBe('foo one\nbar!\nfoo two');
+        expect(editor.transactions).toHaveLength(2);
+    });
+
+    it('should apply approved preview hunks through the editor', async () => {
+        const preview = await engine.previewReplace('vault', results, new Set(), 'baz', options);
+        expect(preview.files[0].before).toBe('foo one\nbar!\nfoo two');
+
+        await engine.applyPreview(preview, new Map([['note.md', new Set([0])]]));
+
+        expect(editor.transactions).toHaveLength(1);
+        expect(editor.getValue()).toBe('baz one\nbar!\nbaz two');
+    });
+
+    it('should write closed files atomically through the vault', async () => {
+        env.leaves.length = 0;
+
+        await engine.dispatchReplace('vault', results, new Set(), 'baz', options);
+
+        expect(editor.transactions).toHaveLength(0);
+        expect(env.contents.get('note.md')).toBe('baz one\nbar\nbaz two');
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Editor } from 'obsidian';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { MatchHighlighter, matchHighlightField } from '../../core/matchHighlighter';
+import { createMockPlugin } from '../mocks/MockPlugin';
+
+describe('MatchHighlighter', () => {
+    let plugin: ReturnType<typeof createMockPlugin>;
+    let view: EditorView;
+    let editor: Editor;
+    let highlighter: MatchHighlighter;
+
+    const highlighted = () => Array.from(view.dom.querySelectorAll('.find-replace-match-highlight')).map(el => el.textContent);
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        plugin = createMockPlugin();
+        view = new EditorView({
+            state: EditorState.create({ doc: 'alpha beta gamma', extensions: [matchHighlightField] }),
+            parent: document.body
+        });
+        editor = { cm: view } as unknown as Editor;
+        highlighter = new MatchHighlighter(plugin);
+    });
+
+    afterEach(() => {
+        highlighter.dispose();
+        view.destroy();
+        vi.useRealTimers();
+    });
+
+    it('should mark the match and remove the mark after the highlight duration', () => {
+        plugin.settings.highlightDuration = 500;
+
+        highlighter.highlight(editor, 6, 10);
+        expect(highlighted()).toEqual(['beta']);
+
+        vi.advanceTimersByTime(499);
+        expect(highlighted()).toEqual(['beta']);
+        vi.advanceTimersByTime(1);
+        expect(highlighted()).toEqual([]);
+    });
+
+    it('should keep a persistent highlight until it is cleared', () => {
+        plugin.settings.persistentHighlight = true;
+
+        highlighter.highlight(editor, 0, 5);
+        vi.advanceTimersByTime(60_000);
+        expect(highlighted()).toEqual(['alpha']);
+
+        highlighter.clear();
+        expect(highlighted()).toEqual([]);
+    });
+
+    it('should only highlight one match at a time', () => {
+        highlighter.highlight(editor, 0, 5);
+        highlighter.highlight(editor, 11, 16);
+
+        expect(highlighted()).toEqual(['gamma']);
+    });
+});
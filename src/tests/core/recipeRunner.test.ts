@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RecipeRunner } from '../../core/recipeRunner';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+import { Recipe, PreviewApproval, RecipePreview } from '../../types';
+
+const approveAll = (recipePreview: RecipePreview): PreviewApproval =>
+    new Map(recipePreview.preview.files.map(f => [f.file.path, new Set(f.hunks.map(h => h.index))]));
+
+describe('Recipes', () => {
+    let env: ReturnType<typeof createMemoryVaultApp>;
+    let plugin: ReturnType<typeof createMockPlugin>;
+    let runner: RecipeRunner;
+
+    const cleanup: Recipe = {
+        id: 'cleanup',
+        name: 'Cleanup',
+        steps: [
+            { query: '* [X]', replacement: '- [x]', options: createDefaultSearchOptions({ matchCase: true }) },
+            { query: '(\\d{2})/(\\d{2})/(\\d{4})', replacement: '$3-$1-$2', options: createDefaultSearchOptions({ useRegex: true }) },
+            // Runs on the output of the first step
+            { query: '- [x]', replacement: '- [x] ✅', options: createDefaultSearchOptions() }
+        ]
+    };
+
+    beforeEach(() => {
+        env = createMemoryVaultApp({
+            'tasks.md': '* [X] ship 01/31/2024\n- [ ] plan',
+            'notes/log.md': 'met on 02/01/2024',
+            'untouched.md': 'nothing here'
+        });
+        plugin = createMockPlugin(env.app);
+        const searchEngine = new SearchEngine(env.app, plugin);
+        runner = new RecipeRunner(env.app, plugin, searchEngine, new ReplacementEngine(env.app, plugin, searchEngine));
+    });
+
+    it('should chain steps in memory and summarize each one', async () => {
+        const recipePreview = await runner.preview(cleanup);
+
+        expect(recipePreview.preview.files.map(f => [f.file.path, f.after])).toEqual([
+            ['notes/log.md', 'met on 2024-02-01'],
+            ['tasks.md', '- [x] ✅ ship 2024-01-31\n- [ ] plan']
+        ]);
+        expect(recipePreview.steps.map(s => [s.replacements, s.files])).toEqual([[1, 1], [2, 2], [1, 1]]);
+        // Nothing is written by the preview
+        expect(env.contents.get('tasks.md')).toBe('* [X] ship 01/31/2024\n- [ ] plan');
+    });
+
+    it('should apply the combined result as one undoable operation', async () => {
+        const recipePreview = await runner.preview(cleanup);
+        const result = await runner.apply(recipePreview, approveAll(recipePreview));
+
+        expect(result.filesModified).toBe(2);
+        expect(env.contents.get('notes/log.md')).toBe('met on 2024-02-01');
+
+        const entry = plugin.replacementJournal.getLastEntry();
+        expect(plugin.replacementJournal.getEntries()).toHaveLength(1);
+        expect(entry?.pattern).toBe('Recipe: Cleanup');
+
+        await plugin.replacementJournal.rollback(entry?.id ?? '');
+        expect(env.contents.get('tasks.md')).toBe('* [X] ship 01/31/2024\n- [ ] plan');
+    });
+
+    it('should honour per-step file filters', async () => {
+        const recipe: Recipe = {
+            id: 'dates', name: 'Dates', steps: [{ ...cleanup.steps[1], filters: { searchInFolders: ['notes'] } }]
+        };
+
+        const recipePreview = await runner.preview(recipe);
+
+        expect(recipePreview.preview.files.map(f => f.file.path)).toEqual(['notes/log.md']);
+    });
+
+    it('should skip and report invalid steps', async () => {
+        const recipe: Recipe = {
+            id: 'broken', name: 'Broken', steps: [
+                { query: '([', replacement: '', options: createDefaultSearchOptions({ useRegex: true }) },
+                cleanup.steps[0]
+            ]
+        };
+
+        const recipePreview = await runner.preview(recipe);
+
+        expect(recipePreview.steps[0].error).toContain('Step 1 skipped');
+        expect(recipePreview.preview.errors).toHaveLength(1);
+        expect(recipePreview.preview.files).toHaveLength(1);
+    });
+
+    describe('RecipeManager', () => {
+        it('should create recipes by name and edit their steps', async () => {
+            const manager = plugin.recipeManager;
+            const [first, second] = cleanup.steps;
+
+            await manager.addStep('Cleanup', first);
+            const recipe = await manager.addStep('cleanup ', second);
+            expect(manager.getRecipes()).toHaveLength(1);
+            expect(recipe.steps).toEqual([first, second]);
+
+            await manager.moveStep(recipe.id, 1, -1);
+            expect(manager.getRecipe(recipe.id)?.steps).toEqual([second, first]);
+
+            await manager.removeStep(recipe.id, 0);
+            await manager.removeStep(recipe.id, 0);
+            expect(manager.getRecipes()).toHaveLength(0);
+        });
+    });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import { ReplacementJournal } from '../../core/replacementJournal';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { SearchResult, JournalEntry } from '../../types';
+import { createMemoryVaultApp } from '../utils/testHelpers';
+
+describe('ReplacementJournal', () => {
+    let env: ReturnType<typeof createMemoryVaultApp>;
+    let plugin: ReturnType<typeof createMockPlugin>;
+    let journal: ReplacementJournal;
+
+    beforeEach(() => {
+        env = createMemoryVaultApp({ 'a.md': 'new a', 'b.md': 'new b' });
+        plugin = createMockPlugin(env.app);
+        journal = new ReplacementJournal(env.app, plugin);
+    });
+
+    const recordDefault = () => journal.record({
+        mode: 'vault',
+        pattern: 'old',
+        replaceText: 'new',
+        totalReplacements: 2,
+        files: [
+            { path: 'a.md', before: 'old a', after: 'new a' },
+            { path: 'b.md', before: 'old b', after: 'new b' }
+        ]
+    });
+
+    it('should record entries newest first', async () => {
+        await recordDefault();
+        await journal.record({
+            mode: 'one', pattern: 'x', replaceText: 'y', totalReplacements: 1,
+            files: [{ path: 'a.md', before: 'x', after: 'y' }]
+        });
+
+        const entries = journal.getEntries();
+        expect(entries).toHaveLength(2);
+        expect(entries[0].pattern).toBe('x');
+        expect(journal.getLastEntry()?.pattern).toBe('x');
+    });
+
+    it('should skip files whose content did not change', async () => {
+        const entry = await journal.record({
+            mode: 'vault', pattern: 'p', replaceText: 'p', totalReplacements: 1,
+            files: [{ path: 'a.md', before: 'same', after: 'same' }]
+        });
+
+        expect(entry).toBeNull();
+        expect(journal.getEntries()).toHaveLength(0);
+    });
+
+    it('should enforce the max journal size and allow disabling', async () => {
+        plugin.settings.maxJournalEntries = 2;
+        await recordDefault();
+        await recordDefault();
+        await recordDefault();
+        expect(journal.getEntries()).toHaveLength(2);
+
+        plugin.settings.maxJournalEntries = 0;
+        await journal.clear();
+        expect(await recordDefault()).toBeNull();
+    });
+
+    it('should store the journal in its own file and load it back', async () => {
+        const entry = await recordDefault() as JournalEntry;
+
+        const loaded = new ReplacementJournal(env.app, plugin);
+        await loaded.load();
+
+        expect(env.stored.has('.obsidian/plugins/find-n-replace/replacement-journal.json')).toBe(true);
+        expect(loaded.getEntries()).toEqual([entry]);
+    });
+
+    it('should drop the oldest entries beyond the size limit', async () => {
+        const size = JSON.stringify(await recordDefault()).length;
+        journal = new ReplacementJournal(env.app, plugin, size * 2 + 10);
+        const first = await recordDefault() as JournalEntry;
+        const second = await recordDefault() as JournalEntry;
+        const third = await recordDefault() as JournalEntry;
+        const huge = await journal.record({
+            mode: 'one', pattern: 'x', replaceText: 'y', totalReplacements: 1,
+            files: [{ path: 'a.md', before: 'x'.repeat(size * 2), after: 'y' }]
+        });
+
+        expect(journal.getEntries().map(e => e.id)).toEqual([third.id, second.id]);
+        expect(journal.getEntries()).not.toContainEqual(first);
+        expect(huge).toBeNull();
+    });
+
+    it('should move a journal kept in plugin data to its own file', async () => {
+        const legacy: JournalEntry = {
+            id: 'legacy', timestamp: 1, mode: 'one', pattern: 'x', replaceText: 'y', totalReplacements: 1,
+            files: [{ path: 'a.md', before: 'x', after: 'y' }]
+        };
+        Object.assign(plugin.settings, { replacementJournal: [legacy] });
+        const saveSettings = vi.spyOn(plugin, 'saveSettings');
+
+        const loaded = new ReplacementJournal(env.app, plugin);
+        await loaded.load();
+
+        expect(loaded.getEntries().map(e => e.id)).toEqual(['legacy']);
+        expect('replacementJournal' in plugin.settings).toBe(false);
+        expect(saveSettings).toHaveBeenCalled();
+    });
+
+    it('should restore original content and remove the entry', async () => {
+        const entry = await recordDefault() as JournalEntry;
+
+        const result = await journal.rollback(entry.id);
+
+        expect(result.restoredFiles).toEqual(['a.md', 'b.md']);
+        expect(env.contents.get('a.md')).toBe('old a');
+        expect(env.contents.get('b.md')).toBe('old b');
+        expect(journal.getEntries()).toHaveLength(0);
+    });
+
+    it('should refuse to roll back files modified since the replacement', async () => {
+        const entry = await recordDefault() as JournalEntry;
+        env.contents.set('b.md', 'edited by user');
+
+        const check = await journal.checkEntry(entry);
+        expect(check.conflictedFiles).toEqual(['b.md']);
+
+        const result = await journal.rollback(entry.id);
+
+        expect(result.restoredFiles).toEqual(['a.md']);
+        expect(result.conflictedFiles).toEqual(['b.md']);
+        expect(env.contents.get('b.md')).toBe('edited by user');
+        // Conflicted file stays in the journal
+        expect(journal.getEntries()[0].files.map(f => f.path)).toEqual(['b.md']);
+    });
+
+    it('should report files that no longer exist', async () => {
+        const entry = await recordDefault() as JournalEntry;
+        env.files.delete('a.md');
+
+        const result = await journal.rollback(entry.id);
+
+        expect(result.missingFiles).toEqual(['a.md']);
+        expect(result.restoredFiles).toEqual(['b.md']);
+    });
+
+    it('should be populated by ReplacementEngine.dispatchReplace', async () => {
+        env = createMemoryVaultApp({ 'note.md': 'foo bar foo' });
+        plugin = createMockPlugin(env.app);
+        const searchEngine = new SearchEngine(env.app, plugin);
+        const engine = new ReplacementEngine(env.app, plugin, searchEngine);
+        const file = env.files.get('note.md') as TFile;
+        const results: SearchResult[] = [
+            { file, line: 0, col: 0, content: 'foo bar foo', matchText: 'foo', pattern: 'foo' },
+            { file, line: 0, col: 8, content: 'foo bar foo', matchText: 'foo', pattern: 'foo' }
+        ];
+
+        await engine.dispatchReplace('vault', results, new Set(), 'baz', { matchCase: false, wholeWord: false, useRegex: false });
+
+        const entry = plugin.replacementJournal.getLastEntry();
+        expect(entry?.files).toEqual([{ path: 'note.md', before: 'foo bar foo', after: 'baz bar baz' }]);
+
+        await plugin.replacementJournal.rollback((entry as JournalEntry).id);
+        expect(env.contents.get('note.md')).toBe('foo bar foo');
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TFile } from 'obsidian';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { SearchResult } from '../../types';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+
+describe('ReplacementEngine dry-run preview', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => (i === 1 || i === 15 ? `foo ${i}` : `line ${i}`));
+    let env: ReturnType<typeof createMemoryVaultApp>;
+    let engine: ReplacementEngine;
+    let file: TFile;
+    let results: SearchResult[];
+
+    beforeEach(() => {
+        env = createMemoryVaultApp({ 'note.md': lines.join('\n') });
+        const plugin = createMockPlugin(env.app);
+        engine = new ReplacementEngine(env.app, plugin, new SearchEngine(env.app, plugin));
+        file = env.files.get('note.md') as TFile;
+        results = [
+            { file, line: 1, col: 0, content: 'foo 1', matchText: 'foo', pattern: 'foo' },
+            { file, line: 15, col: 0, content: 'foo 15', matchText: 'foo', pattern: 'foo' }
+        ];
+    });
+
+    it('should compute changes without writing anything', async () => {
+        const preview = await engine.previewReplace('vault', results, new Set(), 'bar', createDefaultSearchOptions());
+
+        expect(env.contents.get('note.md')).toBe(lines.join('\n'));
+        expect(preview.files).toHaveLength(1);
+        expect(preview.files[0].after).toContain('bar 1');
+        expect(preview.files[0].hunks).toHaveLength(2);
+    });
+
+    it('should apply only approved hunks', async () => {
+        const preview = await engine.previewReplace('vault', results, new Set(), 'bar', createDefaultSearchOptions());
+
+        const result = await engine.applyPreview(preview, new Map([['note.md', new Set([1])]]));
+
+        const written = (env.contents.get('note.md') as string).split('\n');
+        expect(written[1]).toBe('foo 1');
+        expect(written[15]).toBe('bar 15');
+        expect(result.totalReplacements).toBe(1);
+    });
+
+    it('should skip files that are not approved', async () => {
+        const preview = await engine.previewReplace('selected', results, new Set([0]), 'bar', createDefaultSearchOptions());
+
+        const result = await engine.applyPreview(preview, new Map());
+
+        expect(env.contents.get('note.md')).toBe(lines.join('\n'));
+        expect(result.filesModified).toBe(0);
+    });
+
+    it('should refuse files changed after the preview', async () => {
+        const preview = await engine.previewReplace('vault', results, new Set(), 'bar', createDefaultSearchOptions());
+        env.contents.set('note.md', 'edited meanwhile');
+
+        const result = await engine.applyPreview(preview, new Map([['note.md', new Set([0, 1])]]));
+
+        expect(env.contents.get('note.md')).toBe('edited meanwhile');
+        expect(result.errors[0]).toContain('changed since the preview');
+    });
+});
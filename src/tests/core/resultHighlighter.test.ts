@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { ResultHighlighter, resultHighlightField, createRangeMatcher } from '../../core/resultHighlighter';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createMockSearchResult, createDefaultSearchOptions } from '../utils/testHelpers';
+
+describe('ResultHighlighter', () => {
+    let env: ReturnType<typeof createMemoryVaultApp>;
+    let highlighter: ResultHighlighter;
+    let editors: EditorView[];
+
+    /** Opens a note in an editor that has the highlight extension */
+    const openNote = (path: string): EditorView => {
+        const cm = new EditorView({
+            state: EditorState.create({ doc: env.contents.get(path), extensions: [resultHighlightField] }),
+            parent: document.body
+        });
+        const view = Object.assign(Object.create(MarkdownView.prototype), { file: env.files.get(path) as TFile, editor: { cm } });
+        env.leaves.push({ view } as unknown as WorkspaceLeaf);
+        editors.push(cm);
+        return cm;
+    };
+
+    const marks = (cm: EditorView) => Array.from(cm.dom.querySelectorAll('.find-replace-result-highlight'))
+        .map(el => el.classList.contains('is-active') ? `[${el.textContent}]` : el.textContent);
+
+    beforeEach(() => {
+        env = createMemoryVaultApp({ 'a.md': 'foo bar\nbar foo', 'b.md': 'no foo here' });
+        highlighter = new ResultHighlighter(env.app, createMockPlugin(env.app));
+        editors = [];
+    });
+
+    afterEach(() => editors.forEach(cm => cm.destroy()));
+
+    it('should mark the results of each open note and the active one more strongly', () => {
+        const a = openNote('a.md');
+        const b = openNote('b.md');
+        const results = [
+            createMockSearchResult('a.md', 0, 'foo bar', 'foo', 0, 'foo'),
+            createMockSearchResult('a.md', 1, 'bar foo', 'foo', 4, 'foo'),
+            createMockSearchResult('b.md', 0, 'no foo here', 'foo', 3, 'foo')
+        ];
+        results.forEach(result => { result.file = env.files.get(result.file.path) as TFile; });
+
+        highlighter.setResults(results);
+        highlighter.setActive(results[1]);
+
+        expect(marks(a)).toEqual(['foo', '[foo]']);
+        expect(marks(b)).toEqual(['foo']);
+    });
+
+    it('should move the marks with the text and skip results the note no longer has', () => {
+        const a = openNote('a.md');
+        const results = [
+            createMockSearchResult('a.md', 0, 'foo bar', 'foo', 0, 'foo'),
+            createMockSearchResult('a.md', 0, 'foo bar', 'baz', 4, 'baz') // Edited since the search
+        ];
+        highlighter.setResults(results);
+
+        a.dispatch({ changes: { from: 0, insert: 'so ' } });
+
+        expect(marks(a)).toEqual(['foo']);
+        expect(a.state.doc.sliceString(0, 6)).toBe('so foo');
+    });
+
+    it('should mark matches typed into a note and unmark text that no longer matches', () => {
+        const a = openNote('a.md');
+        const results = [
+            createMockSearchResult('a.md', 0, 'foo bar', 'foo', 0, 'foo'),
+            createMockSearchResult('a.md', 1, 'bar foo', 'foo', 4, 'foo')
+        ];
+        results.forEach(result => { result.file = env.files.get(result.file.path) as TFile; });
+        highlighter.setResults(results, createRangeMatcher('foo', createDefaultSearchOptions(), null));
+        highlighter.setActive(results[1]);
+
+        a.dispatch({ changes: { from: 3, insert: ' foo' } });  // "foo foo bar"
+        expect(marks(a)).toEqual(['foo', 'foo', '[foo]']);
+
+        a.dispatch({ changes: { from: 1, to: 2, insert: 'x' } }); // "fxo foo bar"
+        expect(marks(a)).toEqual(['foo', '[foo]']);
+
+        a.dispatch({ changes: { from: a.state.doc.line(2).to, insert: ' x' } }); // Edit next to the active result
+        expect(marks(a)).toEqual(['foo', '[foo]']);
+    });
+
+    it('should match edited lines with the rules of the search', () => {
+        const a = openNote('a.md');
+        const options = { ...createDefaultSearchOptions(), useRegex: true, matchCase: true };
+        highlighter.setResults([createMockSearchResult('a.md', 0, 'foo bar', 'foo', 0, 'fo+')],
+            createRangeMatcher('fo+', options, new RegExp('fo+', 'g')));
+
+        a.dispatch({ changes: { from: 7, insert: ' Foo fooo' } });
+
+        expect(marks(a)).toEqual(['foo', 'fooo']);
+    });
+
+    it('should only move the marks without a matcher', () => {
+        const a = openNote('a.md');
+        highlighter.setResults([createMockSearchResult('a.md', 0, 'foo bar', 'foo', 0, 'foo')]);
+
+        a.dispatch({ changes: { from: 7, insert: ' foo' } });
+
+        expect(marks(a)).toEqual(['foo']);
+    });
+
+    it('should not match edited lines in properties mode or selection scope', () => {
+        expect(createRangeMatcher('foo', { ...createDefaultSearchOptions(), searchProperties: true }, null)).toBeNull();
+        expect(createRangeMatcher('foo', { ...createDefaultSearchOptions(), selection: { from: 0, to: 3 } }, null)).toBeNull();
+    });
+
+    it('should remove every mark when cleared', () => {
+        const a = openNote('a.md');
+        highlighter.setResults([createMockSearchResult('a.md', 1, 'bar foo', 'foo', 4, 'foo')]);
+        expect(marks(a)).toEqual(['foo']);
+
+        highlighter.clear();
+
+        expect(marks(a)).toEqual([]);
+    });
+});
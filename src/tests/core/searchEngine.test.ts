@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { SearchEngine } from '../../core/searchEngine';
+import { SearchEngine, RegexHazardError } from '../../core/searchEngine';
 import { SearchOptions } from '../../types';
 import { createMockApp, createMockPlugin } from '../mocks';
 
@@ -322,21 +322,14 @@ describe('SearchEngine', () => {
             expect(duration).toBeLessThan(2000);
         });
 
-        it('should handle regex timeout protection', async () => {
-            // This would test ReDoS protection, but we need a controlled timeout
+        it('should refuse a regex with nested quantifiers when matching without the worker', async () => {
             const complexPattern = '(a+)+b'; // Catastrophic backtracking pattern
 
-            const start = Date.now();
-            await expect(async () => {
-                await searchEngine.performSearch(complexPattern, {
-                    matchCase: false,
-                    wholeWord: false,
-                    useRegex: true
-                });
-            }).not.toThrow();
-
-            const duration = Date.now() - start;
-            expect(duration).toBeLessThan(6000); // Should not exceed timeout
+            await expect(searchEngine.performSearch(complexPattern, {
+                matchCase: false,
+                wholeWord: false,
+                useRegex: true
+            })).rejects.toThrow(RegexHazardError);
         });
     });
 
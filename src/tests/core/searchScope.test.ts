@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EditorPosition, MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
+import { resolveSearchScope, SearchScopeError } from '../../core/searchScope';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+
+describe('Search scope', () => {
+    let env: ReturnType<typeof createMemoryVaultApp>;
+    let searchEngine: SearchEngine;
+    let engine: ReplacementEngine;
+    let activeFile: TFile | null;
+    let selection: { anchor: number; head: number };
+    const options = createDefaultSearchOptions();
+
+    /** Opens a note in a tab whose editor selects [anchor, head) of its text */
+    const openNote = (path: string): WorkspaceLeaf => {
+        const file = env.files.get(path) as TFile;
+        const text = env.contents.get(path) ?? '';
+        const editor = {
+            getCursor: (which: 'anchor' | 'head') => {
+                const before = text.slice(0, selection[which]).split('\n');
+                return { line: before.length - 1, ch: before[before.length - 1].length };
+            },
+            posToOffset: (pos: EditorPosition) =>
+                text.split('\n').slice(0, pos.line).reduce((sum, line) => sum + line.length + 1, 0) + pos.ch
+        };
+        const view = Object.assign(Object.create(MarkdownView.prototype), { file, editor });
+        const leaf = { view } as unknown as WorkspaceLeaf;
+        env.leaves.push(leaf);
+        return leaf;
+    };
+
+    beforeEach(() => {
+        env = createMemoryVaultApp({
+            'Projects/plan.md': 'foo one\nfoo two\nfoo three',
+            'Projects/Archive/old.md': 'foo old',
+            'Notes/idea.md': 'foo idea',
+            'root.md': 'foo root'
+        });
+        for (const file of Array.from(env.files.values())) {
+            const folder = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : '/';
+            Object.assign(file, { parent: { path: folder } });
+        }
+        activeFile = env.files.get('Projects/plan.md') as TFile;
+        selection = { anchor: 0, head: 0 };
+        Object.assign(env.app.workspace, {
+            getActiveFile: () => activeFile,
+            getMostRecentLeaf: () => env.leaves[0] ?? null
+        });
+
+        const plugin = createMockPlugin(env.app);
+        searchEngine = new SearchEngine(env.app, plugin);
+        engine = new ReplacementEngine(env.app, plugin, searchEngine);
+    });
+
+    it('should limit the files to the current note, its folder or the open tabs', () => {
+        openNote('Notes/idea.md');
+        openNote('root.md');
+
+        expect(resolveSearchScope(env.app, 'vault')).toEqual({ scope: 'vault' });
+        expect(resolveSearchScope(env.app, 'current-file').paths).toEqual(['Projects/plan.md']);
+        expect(resolveSearchScope(env.app, 'current-folder').paths).toEqual(['Projects/plan.md', 'Projects/Archive/old.md']);
+        expect(resolveSearchScope(env.app, 'open-tabs').paths).toEqual(['Notes/idea.md', 'root.md']);
+
+        // The root folder is the whole vault
+        activeFile = env.files.get('root.md') as TFile;
+        expect(resolveSearchScope(env.app, 'current-folder').paths).toBeUndefined();
+    });
+
+    it('should refuse scopes that need a note or a selection when there is none', () => {
+        activeFile = null;
+        expect(() => resolveSearchScope(env.app, 'current-file')).toThrow(SearchScopeError);
+        expect(() => resolveSearchScope(env.app, 'open-tabs')).toThrow(SearchScopeError);
+        expect(() => resolveSearchScope(env.app, 'selection')).toThrow(SearchScopeError);
+
+        openNote('Projects/plan.md');
+        expect(() => resolveSearchScope(env.app, 'selection')).toThrow('Select text');
+    });
+
+    it('should only search the files of the scope', async () => {
+        const scope = resolveSearchScope(env.app, 'current-folder');
+
+        const results = await searchEngine.performSearch('foo', options, undefined, undefined, scope);
+
+        expect(Array.from(new Set(results.map(r => r.file.path)))).toEqual(['Projects/Archive/old.md', 'Projects/plan.md']);
+    });
+
+    it('should search and replace all only inside the selected text', async () => {
+        openNote('Projects/plan.md');
+        selection = { anchor: 18, head: 4 }; // Backwards from the middle of the last "foo" to after the first one
+        const scope = resolveSearchScope(env.app, 'selection');
+        expect(scope).toEqual({ scope: 'selection', paths: ['Projects/plan.md'], selection: { from: 4, to: 18 } });
+
+        const results = await searchEngine.performSearch('foo', { ...options, useRegex: true }, undefined, undefined, scope);
+        expect(results.map(r => [r.line, r.col])).toEqual([[1, 0]]);
+
+        env.leaves.length = 0; // Closed, so the replacement writes the file rather than the editor
+        await engine.dispatchReplace('vault', results, new Set(), 'bar', { ...options, useRegex: true, selection: scope.selection });
+
+        expect(env.contents.get('Projects/plan.md')).toBe('foo one\nbar two\nfoo three');
+        expect(env.contents.get('Notes/idea.md')).toBe('foo idea');
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+import { hashContent } from '../../utils';
+
+describe('Stale match detection', () => {
+    let env: ReturnType<typeof createMemoryVaultApp>;
+    let searchEngine: SearchEngine;
+    let engine: ReplacementEngine;
+    const options = createDefaultSearchOptions();
+
+    beforeEach(() => {
+        env = createMemoryVaultApp({ 'note.md': 'alpha\nfoo one\nbeta\nfoo two' });
+        const plugin = createMockPlugin(env.app);
+        searchEngine = new SearchEngine(env.app, plugin);
+        engine = new ReplacementEngine(env.app, plugin, searchEngine);
+    });
+
+    it('should attach a content fingerprint to every result', async () => {
+        const results = await searchEngine.performSearch('foo', options);
+
+        expect(results).toHaveLength(2);
+        expect(results[0].fingerprint).toEqual({
+            size: 'alpha\nfoo one\nbeta\nfoo two'.length,
+            hash: hashContent('alpha\nfoo one\nbeta\nfoo two')
+        });
+    });
+
+    it('should re-locate matches when lines moved since the search', async () => {
+        const results = await searchEngine.performSearch('foo', options);
+        env.contents.set('note.md', 'new first line\nalpha\nfoo one\nbeta\nfoo two');
+
+        const result = await engine.dispatchReplace('selected', results, new Set([1]), 'bar', options);
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.affectedResults?.requiresFullRevalidation).toBe(true);
+        expect(env.contents.get('note.md')).toBe('new first line\nalpha\nfoo one\nbeta\nbar two');
+    });
+
+    it('should not replace a different occurrence at the same position', async () => {
+        const results = await searchEngine.performSearch('foo', options);
+        // The first match's line was edited; another "foo" now sits at the same line and column
+        env.contents.set('note.md', 'alpha\nfoo changed\nbeta\nfoo two');
+
+        const result = await engine.dispatchReplace('one', results, new Set(), 'bar', options, results[0]);
+
+        expect(result.conflicts).toEqual(['note.md']);
+        expect(result.errors[0]).toContain('Conflict: note.md');
+        expect(result.affectedResults?.replacedResultIndices).toEqual([]);
+        expect(env.contents.get('note.md')).toBe('alpha\nfoo changed\nbeta\nfoo two');
+    });
+
+    it('should refuse to guess when the searched line is duplicated equally close', async () => {
+        const results = await searchEngine.performSearch('foo', options);
+        env.contents.set('note.md', 'alpha\nfoo one\nx\nfoo one\nbeta\nfoo two');
+
+        // "foo one" was on line 1; now line 1 and line 3 - line 1 is nearest, so it still resolves
+        const single = await engine.previewReplace('one', results, new Set(), 'bar', options, results[0]);
+        expect(single.conflicts).toEqual([]);
+        expect(single.files[0].after).toBe('alpha\nbar one\nx\nfoo one\nbeta\nfoo two');
+
+        env.contents.set('note.md', 'foo one\nalpha\nfoo one\nbeta\nfoo two');
+        const ambiguous = await engine.previewReplace('one', results, new Set(), 'bar', options, results[0]);
+        expect(ambiguous.conflicts).toEqual(['note.md']);
+        expect(ambiguous.files).toHaveLength(0);
+    });
+
+    it('should leave unchanged files on the fast path', async () => {
+        const results = await searchEngine.performSearch('foo', options);
+
+        const result = await engine.dispatchReplace('vault', results, new Set(), 'bar', options);
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.affectedResults?.requiresFullRevalidation).toBe(false);
+        expect(env.contents.get('note.md')).toBe('alpha\nbar one\nbeta\nbar two');
+    });
+
+    it('should replace matches one after another on the same line', async () => {
+        env.contents.set('note.md', 'foo foo\nother foo');
+        const results = await searchEngine.performSearch('foo', options);
+
+        const first = await engine.dispatchReplace('one', results, new Set(), 'bazz', options, results[0]);
+        results.splice(0, 1); // The view drops the replaced result
+        const second = await engine.dispatchReplace('one', results, new Set(), 'bazz', options, results[0]);
+
+        expect(first.conflicts).toEqual([]);
+        expect(second.conflicts).toEqual([]);
+        expect(second.affectedResults?.requiresFullRevalidation).toBe(false);
+        expect(env.contents.get('note.md')).toBe('bazz bazz\nother foo');
+    });
+
+    it('should move the results left in a file onto the replaced content', async () => {
+        env.contents.set('note.md', 'foo foo\nother foo');
+        const results = await searchEngine.performSearch('foo', options);
+
+        const result = await engine.dispatchReplace('one', results, new Set(), 'x\ny', options, results[0]);
+
+        const after = 'x\ny foo\nother foo';
+        expect(env.contents.get('note.md')).toBe(after);
+        expect(results.slice(1).map(r => [r.line, r.col, r.content])).toEqual([[1, 2, 'y foo'], [2, 6, 'other foo']]);
+        expect(results[1].fingerprint).toEqual({ size: after.length, hash: hashContent(after) });
+        expect(Array.from(result.affectedResults?.modifiedLines.values() ?? []).map(lines => Array.from(lines))).toEqual([[0, 1]]);
+    });
+});
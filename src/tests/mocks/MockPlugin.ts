@@ -3,14 +3,19 @@ import VaultFindReplacePlugin from '../../main';
 import { VaultFindReplaceSettings, DEFAULT_SETTINGS } from '../../settings';
 import { MockApp } from './MockApp';
 import { HistoryManager } from '../../core/historyManager';
+import { ReplacementJournal } from '../../core/replacementJournal';
+import { RecipeManager } from '../../core/recipeManager';
 
 /**
  * Mock VaultFindReplacePlugin for testing
  */
 export class MockPlugin {
     app: App;
+    manifest = { id: 'find-n-replace', dir: '.obsidian/plugins/find-n-replace' };
     settings: VaultFindReplaceSettings;
     historyManager: HistoryManager;
+    replacementJournal: ReplacementJournal;
+    recipeManager: RecipeManager;
 
     constructor(app?: App) {
         this.app = app || new MockApp() as unknown as App;
@@ -19,10 +24,15 @@ export class MockPlugin {
             ...DEFAULT_SETTINGS,
             searchHistory: [],
             replaceHistory: [],
-            fileGroupStates: {}
+            fileGroupStates: {},
+            recipes: []
         };
         // Initialize history manager
         this.historyManager = new HistoryManager(this as unknown as VaultFindReplacePlugin);
+        // Initialize replacement journal
+        this.replacementJournal = new ReplacementJournal(this.app, this as unknown as VaultFindReplacePlugin);
+        // Initialize recipe storage
+        this.recipeManager = new RecipeManager(this as unknown as VaultFindReplacePlugin);
     }
 
     async loadData(): Promise<any> {
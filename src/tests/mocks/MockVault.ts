@@ -7,6 +7,12 @@ import { TFile, TFolder, Vault } from 'obsidian';
 export class MockVault {
     private files: Map<string, string> = new Map();
     private mockFiles: Map<string, TFile> = new Map();
+    private stored: Map<string, string> = new Map(); // Files the plugin keeps in its folder (journal, search index)
+    adapter = {
+        exists: async (path: string) => this.stored.has(path),
+        read: async (path: string) => this.stored.get(path) ?? '',
+        write: async (path: string, data: string) => { this.stored.set(path, data); }
+    };
 
     constructor() {
         // Initialize with edge case test data designed to catch bugs
@@ -108,6 +114,12 @@ export class MockVault {
         this.files.set(file.path, data);
     }
 
+    async process(file: TFile, fn: (data: string) => string): Promise<string> {
+        const data = fn(await this.read(file));
+        this.files.set(file.path, data);
+        return data;
+    }
+
     getMarkdownFiles(): TFile[] {
         return Array.from(this.mockFiles.values())
             .filter(file => file.path.endsWith('.md'));
@@ -133,6 +145,7 @@ export class MockVault {
     reset(): void {
         this.files.clear();
         this.mockFiles.clear();
+        this.stored.clear();
         this.initializeTestData();
     }
 
@@ -6,7 +6,8 @@
 import { vi } from 'vitest';
 
 // Mock the entire Obsidian API module
-vi.mock('obsidian', () => ({
+vi.mock('obsidian', async () => ({
+  moment: (await import('moment')).default,
   Plugin: class MockPlugin {
     app: any;
     manifest: any;
@@ -53,6 +54,18 @@ vi.mock('obsidian', () => ({
     open() {}
     close() {}
   },
+  SuggestModal: class MockSuggestModal {
+    constructor() {}
+    open() {}
+    close() {}
+    setPlaceholder() {}
+  },
+  FuzzySuggestModal: class MockFuzzySuggestModal {
+    constructor() {}
+    open() {}
+    close() {}
+    setPlaceholder() {}
+  },
   MarkdownView: class MockMarkdownView {
     constructor() {}
   },
@@ -98,6 +111,12 @@ interface GlobalWithNotice {
   hide: vi.fn()
 }));
 
+// Mock Obsidian's global sleep helper
+interface GlobalWithSleep {
+  sleep: (ms: number) => Promise<void>;
+}
+(global as unknown as GlobalWithSleep).sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 // Mock window.crypto for consistent testing
 Object.defineProperty(window, 'crypto', {
   value: {
@@ -74,6 +74,15 @@ describe('Component Architecture', () => {
       expect(selectedIndices.size).toBe(0);
     });
 
+    it('should select only the result reached by match navigation', () => {
+      selectionManager.setupSelection(mockResults.length);
+      selectionManager.selectAll();
+
+      selectionManager.selectOnly(1);
+
+      expect(Array.from(selectionManager.getSelectedIndices())).toEqual([1]);
+    });
+
     it('should dispose resources properly', () => {
       expect(() => selectionManager.dispose()).not.toThrow();
     });
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Editor, MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
+import { FindReplaceView } from '../../ui/views/findReplaceView';
+import { SelectionManager } from '../../ui/components/selectionManager';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { FindReplaceElements, SearchResult } from '../../types';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+
+describe('FindReplaceView', () => {
+    let env: ReturnType<typeof createMemoryVaultApp>;
+    let view: FindReplaceView;
+    let file: TFile;
+    const options = createDefaultSearchOptions();
+
+    beforeEach(() => {
+        env = createMemoryVaultApp({ 'note.md': 'foo foo\nother foo' });
+        view = new FindReplaceView({} as WorkspaceLeaf, env.app, createMockPlugin(env.app));
+        view.app = env.app; // Set by ItemView in Obsidian
+        file = env.files.get('note.md') as TFile;
+        view['elements'] = { searchInput: Object.assign(document.createElement('input'), { value: 'foo' }) } as unknown as FindReplaceElements;
+    });
+
+    describe('revalidateModifiedResults', () => {
+        it('should re-check the lines of an open note against its editor, not the file on disk', async () => {
+            // Replaced through the editor; the file on disk still has the old text until autosave
+            const editor = { getValue: () => 'bar bar\nother foo' } as unknown as Editor;
+            env.leaves.push({ view: Object.assign(Object.create(MarkdownView.prototype), { file, editor }) } as unknown as WorkspaceLeaf);
+            const results: SearchResult[] = [
+                { file, line: 0, col: 4, content: 'foo foo', matchText: 'foo', pattern: 'foo' },
+                { file, line: 1, col: 6, content: 'other foo', matchText: 'foo', pattern: 'foo' }
+            ];
+            view['state'].results = [...results];
+
+            await view['revalidateModifiedResults']({
+                replacedResultIndices: [],
+                modifiedFiles: new Set([file]),
+                modifiedLines: new Map([[file, new Set([0])]]),
+                requiresFullRevalidation: false
+            }, options);
+
+            expect(view['state'].results).toEqual([results[1]]);
+        });
+    });
+
+    describe('match navigation', () => {
+        let openFileAtLine: ReturnType<typeof vi.fn>;
+
+        /** Line and column of each result opened so far */
+        const opened = () => openFileAtLine.mock.calls.map(([, line, col]) => [line, col]);
+
+        beforeEach(async () => {
+            const plugin = createMockPlugin(env.app);
+            const elements = {
+                searchInput: Object.assign(document.createElement('input'), { value: 'foo' }),
+                replaceInput: Object.assign(document.createElement('input'), { value: 'bar' }),
+                resultsContainer: document.createElement('div')
+            } as unknown as FindReplaceElements;
+            openFileAtLine = vi.fn();
+
+            view['elements'] = elements;
+            view['selectionManager'] = new SelectionManager(elements, plugin);
+            view['replacementEngine'] = new ReplacementEngine(env.app, plugin, view['searchEngine']);
+            view['uiRenderer'] = { renderResults: vi.fn(), revealResult: vi.fn(() => null) } as unknown as FindReplaceView['uiRenderer'];
+            view['fileOperations'] = { openFileAtLine } as unknown as FindReplaceView['fileOperations'];
+            view['searchController'] = { getSearchOptions: () => options } as unknown as FindReplaceView['searchController'];
+
+            view['state'].results = await view['searchEngine'].performSearch('foo', options);
+            view['selectionManager'].setupSelection(view['state'].results.length);
+        });
+
+        it('should go through the results in order and wrap around at the end', async () => {
+            for (let i = 0; i < 4; i++) await view.commandGoToNextMatch();
+
+            expect(opened()).toEqual([[0, 0], [0, 4], [1, 6], [0, 0]]);
+            expect(Array.from(view['selectionManager'].getSelectedIndices())).toEqual([0]);
+        });
+
+        it('should go back from the first result to the last one', async () => {
+            await view.commandGoToPreviousMatch(); // No current result: starts at the last
+            await view.commandGoToPreviousMatch();
+            await view.commandGoToNextMatch();
+            await view.commandGoToNextMatch(); // Wraps around to the first
+
+            expect(opened()).toEqual([[1, 6], [0, 4], [1, 6], [0, 0]]);
+        });
+
+        it('should skip a match without changing the note', async () => {
+            await view.commandGoToNextMatch();
+            await view.commandSkipMatch();
+
+            expect(opened()).toEqual([[0, 0], [0, 4]]);
+            expect(view['state'].activeResult).toBe(view['state'].results[1]);
+            expect(env.contents.get('note.md')).toBe('foo foo\nother foo');
+        });
+
+        it('should replace matches sharing a line one after another and go on to the next', async () => {
+            await view.commandReplaceAndGoToNext(); // Opens the first match to review it
+            expect(env.contents.get('note.md')).toBe('foo foo\nother foo');
+
+            await view.commandReplaceAndGoToNext();
+            await view.commandReplaceAndGoToNext();
+
+            expect(env.contents.get('note.md')).toBe('bar bar\nother foo');
+            expect(opened()).toEqual([[0, 0], [0, 4], [1, 6]]);
+            expect(view['state'].results.map(r => [r.line, r.col])).toEqual([[1, 6]]);
+            expect(Array.from(view['selectionManager'].getSelectedIndices())).toEqual([0]);
+        });
+    });
+});
@@ -69,6 +69,8 @@ describe('Multiline UI Interactions', () => {
         const wholeWordBtn = mockCreateElement('button');
         const regexBtn = mockCreateElement('button');
         const multilineBtn = mockCreateElement('button');
+        const preserveCaseBtn = mockCreateElement('button');
+        const functionBtn = mockCreateElement('button');
         const resultsContainer = mockCreateElement('div');
 
         // Set initial toggle states
@@ -76,6 +78,8 @@ describe('Multiline UI Interactions', () => {
         wholeWordBtn.setAttribute('aria-pressed', 'false');
         regexBtn.setAttribute('aria-pressed', 'false');
         multilineBtn.setAttribute('aria-pressed', 'false');
+        preserveCaseBtn.setAttribute('aria-pressed', 'false');
+        functionBtn.setAttribute('aria-pressed', 'false');
 
         mockElements = {
             containerEl: mockContainer,
@@ -85,15 +89,25 @@ describe('Multiline UI Interactions', () => {
             wholeWordCheckbox: wholeWordBtn,
             regexCheckbox: regexBtn,
             multilineCheckbox: multilineBtn,
+            preserveCaseCheckbox: preserveCaseBtn,
+            functionCheckbox: functionBtn,
+            propertiesCheckbox: mockCreateElement('button'),
+            queryCheckbox: mockCreateElement('button'),
+            diacriticsCheckbox: mockCreateElement('button'),
+            fuzzyCheckbox: mockCreateElement('button'),
             resultsContainer,
             selectedCountEl: mockCreateElement('span'),
             toolbarBtn: mockCreateElement('button'),
             resultsCountEl: mockCreateElement('span'),
+            stopBtn: mockCreateElement('button'),
             clearAllBtn: mockCreateElement('button'),
             filterBtn: mockCreateElement('button'),
             filterPanel: mockCreateElement('div'),
             includeInput: mockCreateElement('input'),
             excludeInput: mockCreateElement('input'),
+            scopeSelect: mockCreateElement('select'),
+            searchScopeSelect: mockCreateElement('select'),
+            contextLinesInput: mockCreateElement('input'),
             adaptiveToolbar: mockCreateElement('div'),
             ellipsisMenuBtn: mockCreateElement('button')
         };
@@ -185,8 +199,7 @@ describe('Multiline UI Interactions', () => {
             const mockState: ViewState = {
                 isCollapsed: false,
                 selectedIndices: new Set(),
-                results: [],
-                lineElements: []
+                results: []
             };
 
             const searchController = new SearchController(
@@ -216,8 +229,7 @@ describe('Multiline UI Interactions', () => {
             const mockState: ViewState = {
                 isCollapsed: false,
                 selectedIndices: new Set(),
-                results: [],
-                lineElements: []
+                results: []
             };
 
             const searchController = new SearchController(
@@ -329,8 +341,7 @@ describe('Multiline UI Interactions', () => {
             const mockState: ViewState = {
                 isCollapsed: false,
                 selectedIndices: new Set(),
-                results: [],
-                lineElements: []
+                results: []
             };
 
             const searchController = new SearchController(
@@ -365,8 +376,7 @@ describe('Multiline UI Interactions', () => {
             const mockState: ViewState = {
                 isCollapsed: false,
                 selectedIndices: new Set(),
-                results: [],
-                lineElements: []
+                results: []
             };
 
             const searchController = new SearchController(
@@ -391,8 +401,7 @@ describe('Multiline UI Interactions', () => {
             const mockState: ViewState = {
                 isCollapsed: false,
                 selectedIndices: new Set(),
-                results: [],
-                lineElements: []
+                results: []
             };
 
             const searchController = new SearchController(
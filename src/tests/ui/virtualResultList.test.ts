@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { buildResultRows, getRowWindow } from '../../ui/components/virtualResultList';
+import { SearchResult } from '../../types';
+import { createMockSearchResult } from '../utils/testHelpers';
+
+describe('Virtual result list', () => {
+    const result = (path: string, line: number): SearchResult => createMockSearchResult(path, line, 'foo', 'foo', 0, 'foo');
+
+    describe('buildResultRows', () => {
+        it('should list a header per file followed by the matches of expanded groups', () => {
+            const results = [result('a.md', 0), result('b.md', 3), result('a.md', 5), result('c.md', 1)];
+
+            const rows = buildResultRows(results, path => path === 'b.md');
+
+            expect(rows.map(row => row.kind === 'header' ? `${row.filePath} (${row.results.length})` : row.kind === 'line' ? row.index : row.kind))
+                .toEqual(['a.md (2)', 0, 2, 'b.md (1)', 'c.md (1)', 3]);
+        });
+
+        it('should merge the context of nearby matches into one block', () => {
+            const withContext = (line: number, before: number[], after: number[]): SearchResult => ({
+                ...result('a.md', line),
+                context: {
+                    before: before.map(n => ({ line: n, text: `line ${n}` })),
+                    after: after.map(n => ({ line: n, text: `line ${n}` }))
+                }
+            });
+            const results = [withContext(2, [0, 1], [3, 4]), withContext(4, [2, 3], [5, 6]), withContext(10, [8, 9], [11, 12])];
+
+            const rows = buildResultRows(results, () => false);
+
+            expect(rows.slice(1).map(row => {
+                const line = row.kind === 'context' ? `context ${row.line.line}` : row.kind === 'line' ? `match ${row.result.line}` : row.kind;
+                return row.kind !== 'header' && row.separated ? `${line} (new block)` : line;
+            })).toEqual([
+                'context 0', 'context 1', 'match 2', 'context 3', 'match 4', 'context 5', 'context 6',
+                'context 8 (new block)', 'context 9', 'match 10', 'context 11', 'context 12'
+            ]);
+        });
+    });
+
+    describe('getRowWindow', () => {
+        it('should cover the visible rows and the overscan on both sides', () => {
+            expect(getRowWindow(0, 100, 100_000, 20, 5)).toEqual({ start: 0, end: 11 });
+            expect(getRowWindow(2000, 100, 100_000, 20, 5)).toEqual({ start: 95, end: 111 });
+        });
+
+        it('should stay within the list', () => {
+            expect(getRowWindow(-50, 100, 3, 20, 5)).toEqual({ start: 0, end: 3 });
+            expect(getRowWindow(10_000, 100, 10, 20, 5)).toEqual({ start: 10, end: 10 });
+        });
+    });
+});
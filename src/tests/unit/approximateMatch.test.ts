@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { foldText, findApproximateMatches, withApproximateMatching } from '../../core/approximateMatch';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+
+// 'e' followed by a combining acute accent, as some keyboards and imports produce it
+const DECOMPOSED = 'café';
+
+const spans = (line: string, query: string, overrides: Parameters<typeof createDefaultSearchOptions>[0]) =>
+    findApproximateMatches(line, query, createDefaultSearchOptions(overrides)).map(m => line.slice(m.from, m.to));
+
+describe('Approximate matching', () => {
+    describe('foldText', () => {
+        it('should remove diacritics and width differences and keep offsets into the original', () => {
+            expect(foldText(`Ｃafé ${DECOMPOSED}`, true, false)).toEqual({
+                text: 'cafe cafe',
+                offsets: [0, 1, 2, 3, 4, 5, 6, 7, 8, 10]
+            });
+        });
+    });
+
+    describe('ignore diacritics', () => {
+        it('should match accented, decomposed and full-width text in both directions', () => {
+            expect(spans(`café, ${DECOMPOSED} and ｃａｆｅ`, 'cafe', { ignoreDiacritics: true })).toEqual(['café', DECOMPOSED, 'ｃａｆｅ']);
+            expect(spans('Naive and naïve', 'naïve', { ignoreDiacritics: true })).toEqual(['Naive', 'naïve']);
+            expect(spans('Café', 'cafe', { ignoreDiacritics: true, matchCase: true })).toEqual([]);
+        });
+
+        it('should check whole words against the original text', () => {
+            expect(spans('résumé resumes', 'resume', { ignoreDiacritics: true, wholeWord: true })).toEqual(['résumé']);
+        });
+    });
+
+    describe('fuzzy', () => {
+        it('should find the closest span within the edit distance', () => {
+            expect(spans('We receive and recieve mail', 'recieve', { fuzzy: true })).toEqual(['receive', 'recieve']);
+            expect(spans('the cats sat', 'cat', { fuzzy: true })).toEqual(['cat', 'sat']);
+            expect(spans('seperate separate', 'separate', { fuzzy: true, fuzzyDistance: 0 })).toEqual(['separate']);
+        });
+
+        it('should match short queries exactly and combine with ignoring diacritics', () => {
+            expect(spans('an in on', 'in', { fuzzy: true })).toEqual(['in']);
+            expect(spans('Crème brûlée', 'brulee', { fuzzy: true, ignoreDiacritics: true })).toEqual(['brûlée']);
+            expect(spans('Crème brûlée', 'brulle', { fuzzy: true, ignoreDiacritics: true })).toEqual(['brûlé']);
+        });
+    });
+
+    describe('withApproximateMatching', () => {
+        it('should switch off regex and multiline mode unless a mapping or query takes precedence', () => {
+            expect(withApproximateMatching(createDefaultSearchOptions({ fuzzy: true, useRegex: true, multiline: true })))
+                .toMatchObject({ useRegex: false, multiline: false });
+            expect(withApproximateMatching(createDefaultSearchOptions({ fuzzy: true, useRegex: true, useQuery: true })))
+                .toMatchObject({ useRegex: true });
+        });
+    });
+
+    describe('search and replace', () => {
+        const setup = () => {
+            const env = createMemoryVaultApp({ 'menu.md': `Café au lait\nA ${DECOMPOSED} crème, then CAFE` });
+            const plugin = createMockPlugin(env.app);
+            const searchEngine = new SearchEngine(env.app, plugin);
+            return { env, searchEngine, engine: new ReplacementEngine(env.app, plugin, searchEngine) };
+        };
+
+        it('should report the original columns and text of each match', async () => {
+            const { searchEngine } = setup();
+
+            const results = await searchEngine.performSearch('cafe', createDefaultSearchOptions({ ignoreDiacritics: true }));
+
+            expect(results.map(r => [r.line, r.col, r.matchText])).toEqual([
+                [0, 0, 'Café'],
+                [1, 2, DECOMPOSED],
+                [1, 20, 'CAFE']
+            ]);
+        });
+
+        it('should replace exactly the matched spans, including combining marks', async () => {
+            const { env, searchEngine, engine } = setup();
+            const options = createDefaultSearchOptions({ ignoreDiacritics: true, fuzzy: true });
+            const results = await searchEngine.performSearch('caffe', options);
+
+            await engine.dispatchReplace('selected', results, new Set([1]), 'tea', options);
+            expect(env.contents.get('menu.md')).toBe('Café au lait\nA tea crème, then CAFE');
+
+            await engine.dispatchReplace('vault', await searchEngine.performSearch('caffe', options), new Set(), 'tea', options);
+            expect(env.contents.get('menu.md')).toBe('tea au lait\nA tea crème, then tea');
+        });
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { detectCaseStyle, applyCaseStyle } from '../../utils/caseTransform';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+import { SearchResult } from '../../types';
+import { TFile } from 'obsidian';
+
+describe('Case-preserving replacement', () => {
+    describe('detectCaseStyle', () => {
+        it('should detect the basic styles', () => {
+            expect(detectCaseStyle('pinto')).toBe('lower');
+            expect(detectCaseStyle('PINTO')).toBe('upper');
+            expect(detectCaseStyle('Pinto')).toBe('title');
+            expect(detectCaseStyle('Pinto Bean')).toBe('title');
+            expect(detectCaseStyle('pintoBean')).toBe('camel');
+            expect(detectCaseStyle('PintoBean')).toBe('pascal');
+        });
+
+        it('should treat a single capital as Title and irregular text as none', () => {
+            expect(detectCaseStyle('P')).toBe('title');
+            expect(detectCaseStyle('123')).toBe('none');
+            expect(detectCaseStyle('piNTO beAN')).toBe('none');
+        });
+    });
+
+    describe('applyCaseStyle', () => {
+        it('should re-case the replacement to match', () => {
+            expect(applyCaseStyle('bean', 'pinto')).toBe('bean');
+            expect(applyCaseStyle('bean', 'Pinto')).toBe('Bean');
+            expect(applyCaseStyle('bean', 'PINTO')).toBe('BEAN');
+            expect(applyCaseStyle('black bean', 'Pinto')).toBe('Black bean');
+            expect(applyCaseStyle('black bean', 'Pinto Bean')).toBe('Black Bean');
+            expect(applyCaseStyle('black bean', 'pintoBean')).toBe('blackBean');
+            expect(applyCaseStyle('black-bean', 'PintoBean')).toBe('BlackBean');
+        });
+
+        it('should handle accented letters', () => {
+            expect(applyCaseStyle('éclair', 'ÉTÉ')).toBe('ÉCLAIR');
+            expect(applyCaseStyle('éclair', 'Été')).toBe('Éclair');
+        });
+
+        it('should leave the replacement alone for irregular casing', () => {
+            expect(applyCaseStyle('iPhone', 'piNTO beAN')).toBe('iPhone');
+        });
+    });
+
+    describe('ReplacementEngine integration', () => {
+        const content = 'pinto, Pinto and PINTO';
+        const run = async (useRegex: boolean) => {
+            const env = createMemoryVaultApp({ 'note.md': content });
+            const plugin = createMockPlugin(env.app);
+            const engine = new ReplacementEngine(env.app, plugin, new SearchEngine(env.app, plugin));
+            const file = env.files.get('note.md') as TFile;
+            const results: SearchResult[] = [0, 7, 17].map(col => ({
+                file, line: 0, col, content, matchText: content.substr(col, 5), pattern: 'pinto'
+            }));
+
+            await engine.dispatchReplace('vault', results, new Set(), 'bean',
+                createDefaultSearchOptions({ useRegex, preserveCase: true }));
+            return env.contents.get('note.md');
+        };
+
+        it('should adapt every match in literal mode', async () => {
+            expect(await run(false)).toBe('bean, Bean and BEAN');
+        });
+
+        it('should adapt every match in regex mode', async () => {
+            expect(await run(true)).toBe('bean, Bean and BEAN');
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, computeHunks, applyHunks, hunksToEdits } from '../../utils/diff';
+import { applyTextEdits } from '../../utils/helpers';
+
+describe('Line diff utilities', () => {
+    describe('diffLines', () => {
+        it('should return only context lines for identical input', () => {
+            const result = diffLines(['a', 'b'], ['a', 'b']);
+            expect(result.every(l => l.type === 'context')).toBe(true);
+            expect(result).toHaveLength(2);
+        });
+
+        it('should detect a changed line as remove + add', () => {
+            const result = diffLines(['a', 'b', 'c'], ['a', 'B', 'c']);
+            expect(result.map(l => `${l.type}:${l.text}`)).toEqual([
+                'context:a', 'remove:b', 'add:B', 'context:c'
+            ]);
+        });
+
+        it('should handle insertions, deletions and empty input', () => {
+            expect(diffLines([], ['x']).map(l => l.type)).toEqual(['add']);
+            expect(diffLines(['x'], []).map(l => l.type)).toEqual(['remove']);
+            expect(diffLines([], [])).toEqual([]);
+        });
+
+        it('should diff a large, heavily changed note', () => {
+            const before = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+            const after = before.map((line, i) => i % 10 === 0 ? `${line} changed` : line);
+
+            const result = diffLines(before, after);
+
+            expect(result.filter(l => l.type !== 'add').map(l => l.text)).toEqual(before);
+            expect(result.filter(l => l.type !== 'remove').map(l => l.text)).toEqual(after);
+            expect(result.filter(l => l.type === 'remove')).toHaveLength(2000);
+        });
+
+        it('should report the rest as one block once the work budget is spent', () => {
+            const before = Array.from({ length: 50000 }, (_, i) => `line ${i}`);
+            const after = before.map(line => `${line}!`);
+
+            const hunks = computeHunks(before.join('\n'), after.join('\n'));
+
+            expect(hunks).toHaveLength(1);
+            expect(applyHunks(before.join('\n'), hunks, new Set([0]))).toBe(after.join('\n'));
+        });
+    });
+
+    describe('computeHunks', () => {
+        it('should return no hunks for identical content', () => {
+            expect(computeHunks('same\ntext', 'same\ntext')).toEqual([]);
+        });
+
+        it('should split distant changes into separate hunks', () => {
+            const before = Array.from({ length: 30 }, (_, i) => `line ${i}`);
+            const after = [...before];
+            after[2] = 'changed 2';
+            after[25] = 'changed 25';
+
+            const hunks = computeHunks(before.join('\n'), after.join('\n'), 3);
+
+            expect(hunks).toHaveLength(2);
+            expect(hunks[0].oldStart).toBe(0);
+            expect(hunks[1].oldStart).toBe(22);
+            expect(hunks[1].lines.filter(l => l.type === 'add').map(l => l.text)).toEqual(['changed 25']);
+        });
+
+        it('should merge nearby changes into one hunk', () => {
+            const before = 'a\nb\nc\nd\ne';
+            const after = 'A\nb\nc\nd\nE';
+            expect(computeHunks(before, after, 3)).toHaveLength(1);
+        });
+
+        it('should describe multiline replacements that change line counts', () => {
+            const hunks = computeHunks('start\nfoo\nbar\nend', 'start\nfoobar\nend');
+            expect(hunks).toHaveLength(1);
+            expect(hunks[0].oldLength).toBe(4);
+            expect(hunks[0].newLength).toBe(3);
+        });
+    });
+
+    describe('applyHunks', () => {
+        const before = Array.from({ length: 30 }, (_, i) => `line ${i}`);
+        const after = [...before];
+        after[2] = 'changed 2';
+        after.splice(25, 1, 'changed 25a', 'changed 25b');
+        const hunks = computeHunks(before.join('\n'), after.join('\n'), 3);
+
+        it('should reproduce the modified content when all hunks are approved', () => {
+            expect(applyHunks(before.join('\n'), hunks, new Set([0, 1]))).toBe(after.join('\n'));
+        });
+
+        it('should reproduce the original content when no hunks are approved', () => {
+            expect(applyHunks(before.join('\n'), hunks, new Set())).toBe(before.join('\n'));
+        });
+
+        it('should apply only the approved hunk', () => {
+            const expected = [...before];
+            expected.splice(25, 1, 'changed 25a', 'changed 25b');
+            expect(applyHunks(before.join('\n'), hunks, new Set([1]))).toBe(expected.join('\n'));
+        });
+    });
+
+    describe('hunksToEdits', () => {
+        const cases: Array<[string, string]> = [
+            ['a\nb\nc', 'a\nB\nc'],
+            ['a\nb\nc', 'a\nc'],
+            ['a\nb\nc', 'a\nb'],
+            ['a\nb\nc', 'b\nc'],
+            ['a\nb', 'a\nx\ny\nb'],
+            ['a\nb', 'a\nb\nz'],
+            ['a\nb', 'z\na\nb'],
+            [Array.from({ length: 30 }, (_, i) => `l${i}`).join('\n'), Array.from({ length: 30 }, (_, i) => (i % 7 === 0 ? `L${i}` : `l${i}`)).join('\n')]
+        ];
+
+        it('should produce the same content as applyHunks', () => {
+            for (const [before, after] of cases) {
+                const hunks = computeHunks(before, after, 1);
+                const all = new Set(hunks.map(h => h.index));
+                expect(applyTextEdits(before, hunksToEdits(before, hunks, all))).toBe(applyHunks(before, hunks, all));
+                expect(applyTextEdits(before, hunksToEdits(before, hunks, all))).toBe(after);
+
+                const firstOnly = new Set([0]);
+                expect(applyTextEdits(before, hunksToEdits(before, hunks, firstOnly))).toBe(applyHunks(before, hunks, firstOnly));
+            }
+        });
+
+        it('should leave context lines out of the edits', () => {
+            const hunks = computeHunks('a\nb\nc', 'a\nB\nc');
+            expect(hunksToEdits('a\nb\nc', hunks, new Set([0]))).toEqual([{ from: 2, to: 3, text: 'B' }]);
+        });
+    });
+});
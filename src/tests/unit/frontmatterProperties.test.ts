@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { listProperties, setPropertyValue, findPropertyLine } from '../../core/frontmatterProperties';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+
+const NOTE = '---\nstatus: wip\ntags:\n  - project/wip\n  - draft\n---\nThe wip section stays as it is.';
+
+describe('Frontmatter properties', () => {
+    describe('listProperties', () => {
+        it('should list scalar values and each list item, skipping nested and multi-line values', () => {
+            expect(listProperties({ status: 'wip', tags: ['a', 'b'], priority: 2, done: false, meta: { a: 1 }, notes: 'x\ny' })).toEqual([
+                { key: 'status', value: 'wip' },
+                { key: 'tags', index: 0, value: 'a' },
+                { key: 'tags', index: 1, value: 'b' },
+                { key: 'priority', value: '2' },
+                { key: 'done', value: 'false' }
+            ]);
+        });
+    });
+
+    describe('setPropertyValue', () => {
+        it('should keep the value type and refuse values changed since the search', () => {
+            const frontmatter: Record<string, unknown> = { priority: 2, tags: ['a', 'b'] };
+
+            expect(setPropertyValue(frontmatter, { key: 'priority', value: '2' }, '3')).toBe(true);
+            expect(setPropertyValue(frontmatter, { key: 'tags', index: 1, value: 'b' }, 'c')).toBe(true);
+            expect(setPropertyValue(frontmatter, { key: 'tags', index: 0, value: 'old' }, 'x')).toBe(false);
+            expect(frontmatter).toEqual({ priority: 3, tags: ['a', 'c'] });
+        });
+    });
+
+    describe('findPropertyLine', () => {
+        it('should find the key inside the frontmatter block only', () => {
+            const lines = NOTE.split('\n');
+            expect(findPropertyLine(lines, 'tags')).toBe(2);
+            expect(findPropertyLine(lines, 'The wip section stays as it is.')).toBe(0);
+        });
+    });
+
+    describe('search and replace', () => {
+        const setup = () => {
+            const env = createMemoryVaultApp({ 'task.md': NOTE, 'plain.md': 'wip without properties' },
+                { 'task.md': { status: 'wip', tags: ['project/wip', 'draft'] } });
+            const plugin = createMockPlugin(env.app);
+            const searchEngine = new SearchEngine(env.app, plugin);
+            return { env, searchEngine, engine: new ReplacementEngine(env.app, plugin, searchEngine) };
+        };
+
+        it('should match property values as key: value rows', async () => {
+            const { searchEngine } = setup();
+
+            const results = await searchEngine.performSearch('wip', createDefaultSearchOptions({ searchProperties: true }));
+
+            expect(results.map(r => [r.file.path, r.line, r.content, r.col])).toEqual([
+                ['task.md', 1, 'status: wip', 8],
+                ['task.md', 2, 'tags: project/wip', 14]
+            ]);
+        });
+
+        it('should write replacements through processFrontMatter and leave the body alone', async () => {
+            const { env, searchEngine, engine } = setup();
+            const options = createDefaultSearchOptions({ searchProperties: true, wholeWord: true });
+            const results = await searchEngine.performSearch('wip', options);
+
+            const result = await engine.dispatchReplace('vault', results, new Set(), 'in-progress', options);
+
+            expect(result.totalReplacements).toBe(2);
+            expect(env.frontmatter['task.md']).toEqual({ status: 'in-progress', tags: ['project/in-progress', 'draft'] });
+            expect(env.contents.get('task.md')).toContain('The wip section stays as it is.');
+        });
+
+        it('should report a conflict when a value changed after the search', async () => {
+            const { env, searchEngine, engine } = setup();
+            const options = createDefaultSearchOptions({ searchProperties: true });
+            const results = await searchEngine.performSearch('wip', options);
+            env.frontmatter['task.md'].status = 'done';
+
+            const result = await engine.dispatchReplace('vault', results, new Set(), 'in-progress', options);
+
+            expect(result.conflicts).toEqual(['task.md']);
+            expect(env.frontmatter['task.md']).toEqual({ status: 'done', tags: ['project/wip', 'draft'] });
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { parseMappingTable, buildMappingPattern, lookupMapping, withMapping } from '../../core/mappingTable';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+import { ReplacementMapping } from '../../types';
+
+describe('Mapping tables', () => {
+    describe('parseMappingTable', () => {
+        it('should read the body rows of every Markdown table', () => {
+            const note = [
+                '# Glossary',
+                '| Old | New | Notes |',
+                '| --- | :-- | ----- |',
+                '| colour | color | US spelling |',
+                '| `a\\|b` | a\\|b |',
+                '|  | ignored |',
+                '',
+                'Old | New',
+                '--- | ---',
+                'NYC | New York City',
+                'colour | duplicate'
+            ].join('\n');
+
+            expect(parseMappingTable(note, 'md')).toEqual([
+                { from: 'colour', to: 'color' },
+                { from: 'a|b', to: 'a|b' },
+                { from: 'NYC', to: 'New York City' }
+            ]);
+        });
+
+        it('should read CSV after the header row', () => {
+            const csv = 'old,new\r\ncolour,color\n"Smith, J.","Smith, John ""JJ"""\n\nlonely,\n';
+
+            expect(parseMappingTable(csv, 'csv')).toEqual([
+                { from: 'colour', to: 'color' },
+                { from: 'Smith, J.', to: 'Smith, John "JJ"' },
+                { from: 'lonely', to: '' }
+            ]);
+        });
+
+        it('should detect semicolon and tab delimiters', () => {
+            expect(parseMappingTable('old;new\na,b;c', 'csv')).toEqual([{ from: 'a,b', to: 'c' }]);
+            expect(parseMappingTable('old\tnew\na\tb', 'CSV')).toEqual([{ from: 'a', to: 'b' }]);
+        });
+    });
+
+    describe('matching', () => {
+        const mapping: ReplacementMapping = {
+            source: 'Glossary.md',
+            entries: [{ from: 'New York', to: 'NY' }, { from: 'New York City', to: 'NYC' }, { from: 'a+b', to: 'sum' }]
+        };
+
+        it('should match longer terms first and escape regex characters', () => {
+            expect(buildMappingPattern(mapping)).toBe('New York City|New York|a\\+b');
+        });
+
+        it('should look terms up with the match case option', () => {
+            expect(lookupMapping(mapping, 'new york', false)).toBe('NY');
+            expect(lookupMapping(mapping, 'new york', true)).toBeNull();
+        });
+
+        it('should switch off regex and multiline mode', () => {
+            const options = withMapping(createDefaultSearchOptions({ useRegex: true, multiline: true }), mapping);
+            expect(options).toMatchObject({ useRegex: false, multiline: false, mapping });
+        });
+    });
+
+    describe('search and replace', () => {
+        const mapping: ReplacementMapping = {
+            source: 'Glossary.md',
+            entries: [{ from: 'colour', to: 'color' }, { from: 'cat', to: 'dog' }]
+        };
+
+        const setup = () => {
+            const env = createMemoryVaultApp({ 'a.md': 'Colour of the cat, not the catalog', 'b.md': 'no terms' });
+            const plugin = createMockPlugin(env.app);
+            const searchEngine = new SearchEngine(env.app, plugin);
+            return { env, searchEngine, engine: new ReplacementEngine(env.app, plugin, searchEngine) };
+        };
+
+        it('should find every term in one search, honouring whole word', async () => {
+            const { searchEngine } = setup();
+
+            const loose = await searchEngine.performSearch('Glossary.md', withMapping(createDefaultSearchOptions(), mapping));
+            const whole = await searchEngine.performSearch('Glossary.md',
+                withMapping(createDefaultSearchOptions({ wholeWord: true }), mapping));
+
+            expect(loose.map(r => r.matchText)).toEqual(['Colour', 'cat', 'cat']);
+            expect(whole.map(r => r.matchText)).toEqual(['Colour', 'cat']);
+        });
+
+        it('should replace each match with its mapped value in one pass', async () => {
+            const { env, searchEngine, engine } = setup();
+            const options = withMapping(createDefaultSearchOptions({ wholeWord: true, preserveCase: true }), mapping);
+            const results = await searchEngine.performSearch('Glossary.md', options);
+
+            const result = await engine.dispatchReplace('vault', results, new Set(), '', options);
+
+            expect(result.totalReplacements).toBe(2);
+            expect(env.contents.get('a.md')).toBe('Color of the dog, not the catalog');
+        });
+    });
+});
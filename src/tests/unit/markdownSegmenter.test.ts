@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { segmentMarkdown, createScopeFilter } from '../../core/markdownSegmenter';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+import { MarkdownScope } from '../../types';
+
+const NOTE = [
+    '---',
+    'tags: [cat]',
+    '---',
+    '# The cat',
+    'A cat sat on `cat.exe` near [the cat](cat.md) and [[cat|my cat]].',
+    '```js',
+    'const cat = 1;',
+    '```',
+    'See https://cat.example.com for cat pictures.'
+].join('\n');
+
+const textOf = (content: string, kind: string) =>
+    segmentMarkdown(content).filter(segment => segment.kind === kind).map(segment => content.slice(segment.from, segment.to));
+
+describe('Markdown segmenter', () => {
+    describe('segmentMarkdown', () => {
+        it('should classify frontmatter, headings, code and links', () => {
+            expect(textOf(NOTE, 'frontmatter')).toEqual(['---\ntags: [cat]\n---']);
+            expect(textOf(NOTE, 'heading')).toEqual(['# The cat']);
+            expect(textOf(NOTE, 'code-block')).toEqual(['```js\nconst cat = 1;\n```']);
+            expect(textOf(NOTE, 'inline-code')).toEqual(['`cat.exe`']);
+            expect(textOf(NOTE, 'link-text')).toEqual(['the cat', 'my cat']);
+            expect(textOf(NOTE, 'link-target')).toEqual(['cat.md', 'cat', 'https://cat.example.com']);
+        });
+
+        it('should run an unclosed fence to the end and ignore an unclosed frontmatter block', () => {
+            const content = '---\nnot: closed\n~~~~\ncode\n~~~\nstill code';
+
+            expect(textOf(content, 'frontmatter')).toEqual([]);
+            expect(textOf(content, 'code-block')).toEqual(['~~~~\ncode\n~~~\nstill code']);
+        });
+
+        it('should not read link syntax inside inline code', () => {
+            expect(textOf('`[a](b)` and [[c]]', 'link-target')).toEqual(['c']);
+        });
+    });
+
+    describe('createScopeFilter', () => {
+        it('should cover the whole note for the default scope', () => {
+            expect(createScopeFilter(NOTE, undefined)).toBeNull();
+            expect(createScopeFilter(NOTE, 'all')).toBeNull();
+        });
+
+        it('should reject ranges touching an excluded segment', () => {
+            const inScope = createScopeFilter('a `b` c', 'no-code');
+
+            expect(inScope?.(0, 1)).toBe(true);
+            expect(inScope?.(0, 3)).toBe(false);
+        });
+    });
+
+    describe('search and replace', () => {
+        const setup = () => {
+            const env = createMemoryVaultApp({ 'note.md': NOTE });
+            const plugin = createMockPlugin(env.app);
+            const searchEngine = new SearchEngine(env.app, plugin);
+            return { env, searchEngine, engine: new ReplacementEngine(env.app, plugin, searchEngine) };
+        };
+
+        it('should limit matches to the scope', async () => {
+            const { searchEngine } = setup();
+            const countIn = async (markdownScope: MarkdownScope) =>
+                (await searchEngine.performSearch('cat', createDefaultSearchOptions({ wholeWord: true, markdownScope }))).length;
+
+            expect(await countIn('all')).toBe(11);
+            expect(await countIn('no-code')).toBe(9);
+            expect(await countIn('body')).toBe(5);
+            expect(await countIn('headings')).toBe(1);
+            expect(await countIn('link-text')).toBe(2);
+        });
+
+        it('should never replace in excluded parts, even when replacing every match on a line', async () => {
+            const { env, searchEngine, engine } = setup();
+            const options = createDefaultSearchOptions({ wholeWord: true, markdownScope: 'body' });
+            const results = await searchEngine.performSearch('cat', options);
+
+            await engine.dispatchReplace('vault', results, new Set(), 'dog', options);
+
+            expect(env.contents.get('note.md')).toBe([
+                '---',
+                'tags: [cat]',
+                '---',
+                '# The dog',
+                'A dog sat on `cat.exe` near [the dog](cat.md) and [[cat|my dog]].',
+                '```js',
+                'const cat = 1;',
+                '```',
+                'See https://cat.example.com for dog pictures.'
+            ].join('\n'));
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { App, CachedMetadata, TFile } from 'obsidian';
+import { isMetadataFilter, parseMetadataFilter, describeMetadataFilter, matchesMetadataFilter } from '../../core/metadataFilters';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { MockTFile, createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+
+const day = (date: string, hour = 12) => new Date(`${date}T${String(hour).padStart(2, '0')}:00:00`).getTime();
+
+const fileWith = (path: string, mtime: number, size: number): TFile => {
+    const file = new MockTFile(path);
+    file.stat = { ctime: mtime, mtime, size };
+    return file;
+};
+
+const caches: Record<string, Partial<CachedMetadata>> = {
+    'Meetings/standup.md': {
+        tags: [{ tag: '#meeting/daily', position: undefined as never }],
+        frontmatter: { status: 'draft', tags: ['Project'] }
+    },
+    'Meetings/retro.md': { frontmatter: { status: 'done', tag: 'meeting' } }
+};
+
+const app = {
+    metadataCache: {
+        getFileCache: (file: TFile) => caches[file.path] ?? null,
+        getFirstLinkpathDest: (link: string) => (link === 'Index' ? new MockTFile('Index.md') : null),
+        resolvedLinks: { 'Meetings/standup.md': { 'Index.md': 1 } },
+        unresolvedLinks: { 'Meetings/retro.md': { 'Missing note': 1 } }
+    }
+} as unknown as App;
+
+describe('Metadata filters', () => {
+    describe('parseMetadataFilter', () => {
+        it('should recognise metadata tokens only', () => {
+            expect(['tag:#a', 'PROP:x', 'links-to:[[a]]', 'modified:>2025-01-01', 'size:<1kb'].every(isMetadataFilter)).toBe(true);
+            expect(['.md', 'Notes/', '*.js', 'tags/'].some(isMetadataFilter)).toBe(false);
+        });
+
+        it('should parse every token type', () => {
+            expect(parseMetadataFilter('tag:#Project')).toEqual({ type: 'tag', tag: 'project' });
+            expect(parseMetadataFilter('prop:status = draft')).toEqual({ type: 'property', key: 'status', value: 'draft' });
+            expect(parseMetadataFilter('prop:status')).toEqual({ type: 'property', key: 'status' });
+            expect(parseMetadataFilter('links-to:[[Index|Home]]')).toEqual({ type: 'links-to', target: 'Index' });
+            expect(parseMetadataFilter('modified:>=2025-01-31')).toEqual({ type: 'modified', op: '>=', time: day('2025-01-31', 0) });
+            expect(parseMetadataFilter('size:<50kb')).toEqual({ type: 'size', op: '<', bytes: 50 * 1024 });
+        });
+
+        it('should reject incomplete or malformed values', () => {
+            expect(() => parseMetadataFilter('tag:')).toThrow('Incomplete filter');
+            expect(() => parseMetadataFilter('modified:>yesterday')).toThrow('Invalid date');
+            expect(() => parseMetadataFilter('size:<big')).toThrow('Invalid size');
+        });
+
+        it('should format filters back into tokens', () => {
+            for (const token of ['tag:#project', 'prop:status=draft', 'links-to:[[Index]]', 'modified:<2025-03-01', 'size:>1.5mb']) {
+                expect(describeMetadataFilter(parseMetadataFilter(token))).toBe(token);
+            }
+        });
+    });
+
+    describe('matchesMetadataFilter', () => {
+        const standup = fileWith('Meetings/standup.md', day('2025-02-10'), 2048);
+        const retro = fileWith('Meetings/retro.md', day('2025-01-05'), 100);
+        const matches = (file: TFile, token: string) => matchesMetadataFilter(app, file, parseMetadataFilter(token));
+
+        it('should match inline and frontmatter tags including subtags', () => {
+            expect(matches(standup, 'tag:#meeting')).toBe(true);
+            expect(matches(standup, 'tag:project')).toBe(true);
+            expect(matches(retro, 'tag:#meeting')).toBe(true);
+            expect(matches(retro, 'tag:#meet')).toBe(false);
+        });
+
+        it('should match property values and presence', () => {
+            expect(matches(standup, 'prop:status=Draft')).toBe(true);
+            expect(matches(retro, 'prop:status=draft')).toBe(false);
+            expect(matches(retro, 'prop:status')).toBe(true);
+            expect(matches(fileWith('code.js', 0, 0), 'prop:status')).toBe(false);
+        });
+
+        it('should match resolved and unresolved links', () => {
+            expect(matches(standup, 'links-to:[[Index]]')).toBe(true);
+            expect(matches(retro, 'links-to:Index')).toBe(false);
+            expect(matches(retro, 'links-to:[[Missing note]]')).toBe(true);
+        });
+
+        it('should compare modified dates by whole days and sizes in bytes', () => {
+            expect(matches(standup, 'modified:>2025-01-31')).toBe(true);
+            expect(matches(standup, 'modified:2025-02-10')).toBe(true);
+            expect(matches(standup, 'modified:>2025-02-10')).toBe(false);
+            expect(matches(standup, 'modified:<=2025-02-10')).toBe(true);
+            expect(matches(standup, 'size:>=2kb')).toBe(true);
+            expect(matches(retro, 'size:>1kb')).toBe(false);
+        });
+    });
+
+    describe('SearchEngine', () => {
+        it('should require every include token and skip files matching any exclude token', async () => {
+            const env = createMemoryVaultApp({ 'Meetings/standup.md': 'agenda', 'Meetings/retro.md': 'agenda', 'todo.md': 'agenda' });
+            Object.assign(env.app, app);
+            for (const file of Array.from(env.files.values())) {
+                file.stat = { ctime: 0, mtime: day('2025-02-01'), size: 10 };
+            }
+            const searchEngine = new SearchEngine(env.app, createMockPlugin(env.app));
+            const search = async (includeMetadata: string[], excludeMetadata: string[] = []) =>
+                (await searchEngine.performSearch('agenda', createDefaultSearchOptions(), {
+                    includeMetadata: includeMetadata.map(parseMetadataFilter),
+                    excludeMetadata: excludeMetadata.map(parseMetadataFilter)
+                })).map(result => result.file.path);
+
+            expect(await search(['tag:#meeting', 'prop:status=draft'])).toEqual(['Meetings/standup.md']);
+            expect(await search(['modified:>2025-01-01'], ['tag:#project'])).toEqual(['Meetings/retro.md', 'todo.md']);
+        });
+    });
+});
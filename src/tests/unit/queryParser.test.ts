@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuery, getQueryTerms, evaluateQuery, QuerySyntaxError } from '../../core/queryParser';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { QueryError } from '../../types';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { MockTFile, createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+
+const syntaxError = (query: string): QuerySyntaxError => {
+    try {
+        parseQuery(query);
+    } catch (error) {
+        return error as QuerySyntaxError;
+    }
+    throw new Error(`"${query}" parsed without errors`);
+};
+
+describe('Query parser', () => {
+    describe('parseQuery', () => {
+        it('should bind AND tighter than OR and treat adjacent terms as AND', () => {
+            expect(parseQuery('foo bar OR "two words"')).toEqual({
+                type: 'or',
+                children: [
+                    { type: 'and', children: [{ type: 'term', text: 'foo', position: 0 }, { type: 'term', text: 'bar', position: 4 }] },
+                    { type: 'term', text: 'two words', position: 11 }
+                ]
+            });
+        });
+
+        it('should parse negation, groups and qualifiers', () => {
+            expect(parseQuery('-(a OR b) AND file:draft path:"My Notes/" e-mail')).toEqual({
+                type: 'and',
+                children: [
+                    { type: 'not', child: { type: 'or', children: [{ type: 'term', text: 'a', position: 2 }, { type: 'term', text: 'b', position: 7 }] } },
+                    { type: 'qualifier', field: 'file', value: 'draft', position: 14 },
+                    { type: 'qualifier', field: 'path', value: 'My Notes/', position: 25 },
+                    { type: 'term', text: 'e-mail', position: 42 }
+                ]
+            });
+        });
+
+        it('should report syntax errors with their position', () => {
+            expect(syntaxError('foo AND')).toMatchObject({ message: "Expected a term after 'AND'", position: 4 });
+            expect(syntaxError('foo OR OR bar')).toMatchObject({ message: "Unexpected 'OR'", position: 7 });
+            expect(syntaxError('(foo bar')).toMatchObject({ message: "Missing ')' for this '('", position: 0 });
+            expect(syntaxError('foo) bar')).toMatchObject({ message: "Unexpected ')'", position: 3 });
+            expect(syntaxError('foo "bar')).toMatchObject({ message: 'Unclosed quote', position: 4 });
+            expect(syntaxError('foo file:')).toMatchObject({ message: "Missing value after 'file:'", position: 4 });
+            expect(syntaxError('-foo path:x')).toMatchObject({ position: 0 });
+        });
+    });
+
+    describe('getQueryTerms and evaluateQuery', () => {
+        const tree = parseQuery('(alpha OR beta) -gamma path:notes/ alpha');
+
+        it('should list each highlighted term once, negated terms only on request', () => {
+            expect(getQueryTerms(tree).map(term => term.text)).toEqual(['alpha', 'beta']);
+            expect(getQueryTerms(tree, true).map(term => term.text)).toEqual(['alpha', 'beta', 'gamma']);
+        });
+
+        it('should decide files from terms and qualifiers', () => {
+            const qualifies = (path: string, words: string[]) =>
+                evaluateQuery(tree, new MockTFile(path), term => words.includes(term.text));
+
+            expect(qualifies('Notes/a.md', ['alpha'])).toBe(true);
+            expect(qualifies('Notes/a.md', ['alpha', 'gamma'])).toBe(false);
+            expect(qualifies('Notes/a.md', ['beta'])).toBe(false);
+            expect(qualifies('Other/a.md', ['alpha'])).toBe(false);
+            expect(evaluateQuery(parseQuery('x file:2025-*.md'), new MockTFile('Daily/2025-01-02.md'), () => true)).toBe(true);
+        });
+    });
+
+    describe('SearchEngine', () => {
+        const setup = () => {
+            const env = createMemoryVaultApp({
+                'Projects/apollo.md': 'Bob leads Apollo.\nBudget owner: Bob',
+                'Projects/archive.md': 'Bob left. archived',
+                'Notes/bob.md': 'Bob and Apollo'
+            });
+            const plugin = createMockPlugin(env.app);
+            const searchEngine = new SearchEngine(env.app, plugin);
+            return { env, searchEngine, engine: new ReplacementEngine(env.app, plugin, searchEngine) };
+        };
+
+        it('should return the term matches of qualifying files only', async () => {
+            const { searchEngine } = setup();
+            const options = createDefaultSearchOptions({ useQuery: true });
+
+            const results = await searchEngine.performSearch('Bob Apollo path:projects/ -archived', options);
+
+            expect(results.map(r => [r.file.path, r.line, r.matchText])).toEqual([
+                ['Projects/apollo.md', 0, 'Bob'],
+                ['Projects/apollo.md', 0, 'Apollo'],
+                ['Projects/apollo.md', 1, 'Bob']
+            ]);
+        });
+
+        it('should replace only the highlighted terms', async () => {
+            const { env, searchEngine, engine } = setup();
+            const options = createDefaultSearchOptions({ useQuery: true, wholeWord: true });
+            const results = await searchEngine.performSearch('Bob -Apollo', options);
+
+            await engine.dispatchReplace('vault', results, new Set(), 'Robert', options);
+
+            expect(env.contents.get('Projects/archive.md')).toBe('Robert left. archived');
+            expect(env.contents.get('Projects/apollo.md')).toBe('Bob leads Apollo.\nBudget owner: Bob');
+        });
+
+        it('should report syntax and regex errors through validateSearchQuery', () => {
+            const { searchEngine } = setup();
+            const errors: QueryError[] = [];
+            const validate = (query: string, useRegex = false) =>
+                searchEngine.validateSearchQuery(query, createDefaultSearchOptions({ useQuery: true, useRegex }), error => errors.push(error));
+
+            expect(validate('Bob OR (Apollo')).toBe(false);
+            expect(validate('Bob "a[b"', true)).toBe(false);
+            expect(validate('Bob OR "a[b"')).toBe(true);
+            expect(errors).toEqual([
+                { message: "Missing ')' for this '('", position: 7 },
+                { message: '"a[b" is not a valid regular expression', position: 4 }
+            ]);
+        });
+    });
+});
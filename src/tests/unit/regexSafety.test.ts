@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { findNestedQuantifier } from '../../core/regexSafety';
+import { createContentMatcher } from '../../core/contentMatcher';
+import { SearchWorkerClient } from '../../core/searchWorkerClient';
+import { SearchEngine } from '../../core/searchEngine';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchWorkerRequest, SearchWorkerResponse } from '../../types';
+import { Logger } from '../../utils';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createDefaultSearchOptions, createMemoryVaultApp } from '../utils/testHelpers';
+
+/**
+ * Stand-in for the search worker: handles requests one at a time and gets stuck for good on a
+ * file whose content is HANG, like a regex backtracking catastrophically
+ */
+class StuckableWorker {
+    static started: StuckableWorker[] = [];
+    onmessage: ((event: { data: SearchWorkerResponse }) => void) | null = null;
+    onerror: (() => void) | null = null;
+    terminated = false;
+    private stuck = false;
+    private queue: SearchWorkerRequest[] = [];
+
+    constructor() {
+        StuckableWorker.started.push(this);
+    }
+
+    postMessage(request: SearchWorkerRequest): void {
+        this.queue.push(request);
+        window.setTimeout(() => this.work(), 0);
+    }
+
+    terminate(): void {
+        this.terminated = true;
+    }
+
+    private work(): void {
+        while (!this.stuck && !this.terminated && this.queue.length > 0) {
+            const { id, query, options, files, start = 0 } = this.queue.shift() as SearchWorkerRequest;
+            const match = createContentMatcher(query, options);
+            for (let index = start; index < files.length; index++) {
+                if (files[index].content === 'HANG') {
+                    this.stuck = true;
+                    return;
+                }
+                this.onmessage?.({ data: { id, index, matches: match(files[index], files[index].content) } });
+            }
+        }
+    }
+}
+
+describe('Regex safety', () => {
+    describe('findNestedQuantifier', () => {
+        it('should flag repeated groups containing a variable quantifier', () => {
+            expect(findNestedQuantifier('(a+)+$')).toBe('(a+)+');
+            expect(findNestedQuantifier('^(\\w*\\s?)*x')).toBe('(\\w*\\s?)*');
+            expect(findNestedQuantifier('((a+)b){2,}')).toBe('((a+)b){2,}');
+            expect(findNestedQuantifier('(?:x+)*?y')).toBe('(?:x+)*');
+        });
+
+        it('should accept fixed repetitions, escaped and class characters and lookarounds', () => {
+            expect(findNestedQuantifier('(?:ab|cd)+')).toBeNull();
+            expect(findNestedQuantifier('(a{2})+')).toBeNull();
+            expect(findNestedQuantifier('\\(a+\\)+')).toBeNull();
+            expect(findNestedQuantifier('[(a+)]+')).toBeNull();
+            expect(findNestedQuantifier('(?<word>\\w+) (?=x+)')).toBeNull();
+            expect(findNestedQuantifier('(a+)?b')).toBeNull();
+        });
+    });
+
+    describe('SearchWorkerClient time budget', () => {
+        afterEach(() => {
+            vi.unstubAllGlobals();
+            StuckableWorker.started = [];
+        });
+
+        it('should skip a file that runs over its budget and resume the batch in a new worker', async () => {
+            vi.stubGlobal('SEARCH_WORKER_SOURCE', '');
+            vi.stubGlobal('Worker', StuckableWorker);
+            vi.stubGlobal('URL', { createObjectURL: () => 'blob:search-worker', revokeObjectURL: () => undefined });
+            const client = new SearchWorkerClient(Logger.create(createMockPlugin(), 'Test'), 20);
+            const options = createDefaultSearchOptions();
+
+            const [first, second] = await Promise.all([
+                client.match('b', options, [
+                    { path: 'a.md', name: 'a.md', content: 'abc' },
+                    { path: 'stuck.md', name: 'stuck.md', content: 'HANG' },
+                    { path: 'c.md', name: 'c.md', content: 'b' }
+                ]),
+                client.match('b', options, [{ path: 'd.md', name: 'd.md', content: 'bb' }])
+            ]);
+
+            expect(first.map(file => file?.map(m => m.col) ?? null)).toEqual([[1], null, [0]]);
+            expect(second.map(file => file?.length)).toEqual([2]);
+            expect(StuckableWorker.started).toHaveLength(2);
+            expect(StuckableWorker.started[0].terminated).toBe(true);
+            client.dispose();
+        });
+    });
+
+    describe('Main-thread regex passes', () => {
+        afterEach(() => {
+            vi.unstubAllGlobals();
+            StuckableWorker.started = [];
+        });
+
+        it('should refuse to replace with a pattern the search worker timed out on', async () => {
+            vi.stubGlobal('SEARCH_WORKER_SOURCE', '');
+            vi.stubGlobal('Worker', StuckableWorker);
+            vi.stubGlobal('URL', { createObjectURL: () => 'blob:search-worker', revokeObjectURL: () => undefined });
+            const env = createMemoryVaultApp({ 'a.md': 'ab', 'stuck.md': 'HANG' });
+            const plugin = createMockPlugin(env.app);
+            const searchEngine = new SearchEngine(env.app, plugin);
+            searchEngine['worker'] = new SearchWorkerClient(Logger.create(plugin, 'Test'), 20);
+            const engine = new ReplacementEngine(env.app, plugin, searchEngine);
+            const options = createDefaultSearchOptions({ useRegex: true });
+            const results = await searchEngine.performSearch('(a+)+b', options);
+
+            const preview = await engine.previewReplace('vault', results, new Set(), 'x', options);
+            const result = await engine.dispatchReplace('vault', results, new Set(), 'x', options);
+
+            expect(searchEngine.getTimedOutFiles()).toEqual(['stuck.md']);
+            expect(results).toHaveLength(1);
+            expect(preview.files).toEqual([]);
+            expect(preview.errors[0]).toContain('took longer than 2000 ms');
+            expect(result.totalReplacements).toBe(0);
+            expect(result.errors[0]).toContain('took longer than');
+            expect(env.contents.get('a.md')).toBe('ab');
+            expect(searchEngine.getRegexHazard('(a+)+b', createDefaultSearchOptions({ useRegex: true, matchCase: true }))).toBeNull();
+            searchEngine.dispose();
+        });
+
+        it('should refuse nested quantifiers when matching on the main thread', async () => {
+            const env = createMemoryVaultApp({ 'a.md': 'aaab' });
+            const searchEngine = new SearchEngine(env.app, createMockPlugin(env.app));
+            const options = createDefaultSearchOptions({ useRegex: true });
+
+            await expect(searchEngine.performSearch('(a+)+b', options)).rejects.toThrow('repeats a repetition');
+            expect(await searchEngine.performSearch('a+b', options)).toHaveLength(1);
+            expect(searchEngine.getRegexHazard('(a+)+b', options, false)).toBeNull();
+        });
+    });
+});
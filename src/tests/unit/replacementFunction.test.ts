@@ -0,0 +1,314 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    ReplacementFunction,
+    compileReplacementFunction,
+    evaluateReplacementFunction,
+    toReplacementFunctionCall
+} from '../../core/replacementFunction';
+import { ReplacementFunctionClient } from '../../core/replacementFunctionClient';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { UIRenderer } from '../../ui/components/renderer';
+import {
+    ReplacementFunctionRequest, ReplacementFunctionResponse, ReplacementFunctionOutcome, SearchResult, SearchOptions, FindReplaceElements
+} from '../../types';
+import { Logger, FUNCTION_PREVIEW_DELAY } from '../../utils';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions, createMockSearchResult } from '../utils/testHelpers';
+
+const matchOf = (regex: RegExp, text: string): RegExpExecArray => regex.exec(text) as RegExpExecArray;
+const where = { file: 'notes/a.md', line: 2, index: 4, offset: 0, input: '' };
+
+/**
+ * Stand-in for the replacement function worker: handles requests one at a time and gets stuck for
+ * good on a match that is HANG, like an expression that never returns
+ */
+class StuckableWorker {
+    static started: StuckableWorker[] = [];
+    onmessage: ((event: { data: ReplacementFunctionResponse }) => void) | null = null;
+    onerror: (() => void) | null = null;
+    terminated = false;
+    private stuck = false;
+    private queue: ReplacementFunctionRequest[] = [];
+
+    constructor() {
+        StuckableWorker.started.push(this);
+    }
+
+    postMessage(request: ReplacementFunctionRequest): void {
+        this.queue.push(request);
+        window.setTimeout(() => this.work(), 0);
+    }
+
+    terminate(): void {
+        this.terminated = true;
+    }
+
+    private work(): void {
+        while (!this.stuck && !this.terminated && this.queue.length > 0) {
+            const { id, source, calls, start = 0 } = this.queue.shift() as ReplacementFunctionRequest;
+            let expression: ReturnType<typeof compileReplacementFunction>;
+            try {
+                expression = compileReplacementFunction(source);
+            } catch (error) {
+                this.onmessage?.({ data: { id, error: (error as Error).message } });
+                continue;
+            }
+            for (let index = start; index < calls.length; index++) {
+                if (calls[index].match[0] === 'HANG') {
+                    this.stuck = true;
+                    return;
+                }
+                try {
+                    this.onmessage?.({ data: { id, index, outcome: { value: evaluateReplacementFunction(expression, calls[index]) } } });
+                } catch (error) {
+                    this.onmessage?.({ data: { id, index, outcome: { error: (error as Error).message } } });
+                }
+            }
+        }
+    }
+}
+
+const stubWorker = () => {
+    vi.stubGlobal('REPLACEMENT_FUNCTION_WORKER_SOURCE', '');
+    vi.stubGlobal('Worker', StuckableWorker);
+    vi.stubGlobal('URL', { createObjectURL: () => 'blob:replacement-function-worker', revokeObjectURL: () => undefined });
+};
+
+describe('Replacement functions', () => {
+    describe('ReplacementFunction', () => {
+        it('should pass the match, groups, named groups and result', () => {
+            const fn = new ReplacementFunction('`${namedGroups.unit}:${groups[0]}:${match}@${result.file}#${result.index}`');
+
+            expect(fn.call(matchOf(/(\d+) (?<unit>in)/, '12 in'), where)).toBe('in:12:12 in@notes/a.md#4');
+        });
+
+        it('should support transforms a template cannot express', () => {
+            const inches = new ReplacementFunction('(parseFloat(groups[0]) * 2.54).toFixed(1) + " cm"');
+            const slug = new ReplacementFunction('match.toLowerCase().replace(/[^a-z0-9]+/g, "-")');
+
+            expect(inches.call(matchOf(/(\d+(?:\.\d+)?) ?in/, '2 in'), where)).toBe('5.1 cm');
+            expect(slug.call(matchOf(/.+/, 'Hello, World'), where)).toBe('hello-world');
+        });
+
+        it('should hide Obsidian and browser globals', () => {
+            const fn = new ReplacementFunction('[typeof window, typeof app, typeof require, typeof document].join()');
+
+            expect(fn.call(matchOf(/x/, 'x'), where)).toBe('undefined,undefined,undefined,undefined');
+        });
+
+        it('should report compile errors, thrown errors and missing results', () => {
+            expect(() => new ReplacementFunction('match.')).toThrow('Invalid replacement function');
+            expect(() => new ReplacementFunction('match.nope()').call(matchOf(/x/, 'x'), where)).toThrow('TypeError');
+            expect(() => new ReplacementFunction('undefined').call(matchOf(/x/, 'x'), where)).toThrow('Returned undefined');
+        });
+
+        it('should stop calling a function that exceeded the time limit', () => {
+            const slow = new ReplacementFunction('(() => { const end = Date.now() + 20; while (Date.now() < end) {} return match; })()', 5);
+
+            expect(() => slow.call(matchOf(/x/, 'x'), where)).toThrow('Took longer than 5 ms');
+            expect(() => slow.call(matchOf(/x/, 'x'), where)).toThrow('Skipped');
+        });
+    });
+
+    describe('ReplacementFunctionClient', () => {
+        afterEach(() => {
+            vi.unstubAllGlobals();
+            StuckableWorker.started = [];
+        });
+
+        const callOf = (text: string) => toReplacementFunctionCall(matchOf(/\w+/, text), where);
+
+        it('should stop a call that never returns, skip the rest of its operation and resume others in a new worker', async () => {
+            stubWorker();
+            const client = new ReplacementFunctionClient(Logger.create(createMockPlugin(), 'Test'), 20);
+
+            const [first, second] = await Promise.all([
+                client.evaluate('match.toUpperCase()', [callOf('a'), callOf('HANG'), callOf('b')]),
+                client.evaluate('match + "!"', [callOf('c')])
+            ]);
+
+            expect(first).toEqual([
+                { value: 'A' },
+                { error: 'Took longer than 20 ms' },
+                { error: 'Skipped: the function took longer than 20 ms on an earlier match' }
+            ]);
+            expect(second).toEqual([{ value: 'c!' }]);
+            expect(StuckableWorker.started).toHaveLength(2);
+            expect(StuckableWorker.started[0].terminated).toBe(true);
+            client.dispose();
+        });
+
+        it('should reject an expression that does not compile, in the worker or on the main thread', async () => {
+            const inThread = new ReplacementFunctionClient(Logger.create(createMockPlugin(), 'Test'));
+            await expect(inThread.evaluate('match.', [callOf('a')])).rejects.toThrow('Invalid replacement function');
+
+            stubWorker();
+            const client = new ReplacementFunctionClient(Logger.create(createMockPlugin(), 'Test'));
+            await expect(client.evaluate('match.', [callOf('a')])).rejects.toThrow('Invalid replacement function');
+            expect(StuckableWorker.started).toHaveLength(1);
+            client.dispose();
+        });
+    });
+
+    describe('ReplacementEngine', () => {
+        afterEach(() => {
+            vi.unstubAllGlobals();
+            StuckableWorker.started = [];
+        });
+
+        it('should replace each match with the function result and report failing matches', async () => {
+            const env = createMemoryVaultApp({ 'sizes.md': 'desk 30 in\nbad 0x in\nshelf 12 in' });
+            const plugin = createMockPlugin(env.app);
+            const searchEngine = new SearchEngine(env.app, plugin);
+            const engine = new ReplacementEngine(env.app, plugin, searchEngine);
+            const options = createDefaultSearchOptions({ useRegex: true, useFunction: true });
+            const results = await searchEngine.performSearch('(\\w+) in', options);
+
+            const result = await engine.dispatchReplace('vault', results,
+                new Set(), 'groups[0] === "0x" ? null : groups[0] * 2.54 + " cm"', options);
+
+            expect(env.contents.get('sizes.md')).toBe('desk 76.2 cm\nbad 0x in\nshelf 30.48 cm');
+            expect(result.errors).toEqual(['sizes.md:2 "0x in": Returned null instead of text']);
+        });
+
+        it('should keep the matches of a function that never returns', async () => {
+            stubWorker();
+            const env = createMemoryVaultApp({ 'words.md': 'one HANG two' });
+            const plugin = createMockPlugin(env.app);
+            const searchEngine = new SearchEngine(env.app, plugin);
+            const engine = new ReplacementEngine(env.app, plugin, searchEngine);
+            const options = createDefaultSearchOptions({ useRegex: true, useFunction: true });
+            const results = await searchEngine.performSearch('\\w+', options);
+
+            const preview = await engine.previewReplace('vault', results, new Set(), 'match.toUpperCase()', options);
+            const result = await engine.dispatchReplace('vault', results, new Set(), 'match.toUpperCase()', options);
+
+            expect(preview.files[0].after).toBe('ONE HANG two');
+            expect(env.contents.get('words.md')).toBe('ONE HANG two');
+            expect(result.errors).toEqual([
+                expect.stringContaining('words.md:1 "HANG": Took longer than'),
+                expect.stringContaining('words.md:1 "two": Skipped')
+            ]);
+            engine.dispose();
+        });
+
+        it('should keep the function results of operations that overlap apart', async () => {
+            stubWorker();
+            const env = createMemoryVaultApp({ 'a.md': 'one two', 'b.md': 'three' });
+            const plugin = createMockPlugin(env.app);
+            const searchEngine = new SearchEngine(env.app, plugin);
+            const engine = new ReplacementEngine(env.app, plugin, searchEngine);
+            const options = createDefaultSearchOptions({ useRegex: true, useFunction: true });
+            const results = await searchEngine.performSearch('\\w+', options);
+
+            // Both wait for the worker at the same time
+            const [preview, result] = await Promise.all([
+                engine.previewReplace('selected', results, new Set([2]), 'match.toUpperCase()', options),
+                engine.dispatchReplace('file', results, new Set(), 'match.length', options, results[0].file)
+            ]);
+
+            expect(preview.files.map(file => file.after)).toEqual(['THREE']);
+            expect(env.contents.get('a.md')).toBe('3 3');
+            expect(result.errors).toEqual([]);
+            engine.dispose();
+        });
+
+        it('should report an expression that does not compile once', async () => {
+            const env = createMemoryVaultApp({ 'a.md': 'x x' });
+            const plugin = createMockPlugin(env.app);
+            const searchEngine = new SearchEngine(env.app, plugin);
+            const engine = new ReplacementEngine(env.app, plugin, searchEngine);
+            const options = createDefaultSearchOptions({ useRegex: true, useFunction: true });
+            const results = await searchEngine.performSearch('x', options);
+
+            const result = await engine.dispatchReplace('vault', results, new Set(), 'match.', options);
+
+            expect(env.contents.get('a.md')).toBe('x x');
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0]).toContain('Invalid replacement function');
+        });
+
+        it('should validate function mode by compiling the expression', () => {
+            const env = createMemoryVaultApp({});
+            const plugin = createMockPlugin(env.app);
+            const engine = new ReplacementEngine(env.app, plugin, new SearchEngine(env.app, plugin));
+            const options = createDefaultSearchOptions({ useRegex: true, useFunction: true });
+
+            expect(engine.validateReplacementText('`${groups[0]}$`', options).isValid).toBe(true);
+            expect(engine.validateReplacementText('groups[', options).errors[0]).toContain('Invalid replacement function');
+        });
+    });
+
+    describe('UIRenderer', () => {
+        // The parts of the renderer the function preview goes through
+        type PreviewRenderer = {
+            shownResults: SearchResult[];
+            functionPreview: { outcomes: Map<SearchResult, ReplacementFunctionOutcome> } | null;
+            refreshRows: () => void;
+            scheduleFunctionPreview: (replaceText: string, searchOptions: SearchOptions) => void;
+        };
+
+        const createRenderer = (results: SearchResult[]) => {
+            const env = createMemoryVaultApp({});
+            const plugin = createMockPlugin(env.app);
+            const renderer = new UIRenderer({} as FindReplaceElements, new SearchEngine(env.app, plugin), plugin) as unknown as PreviewRenderer;
+            renderer.shownResults = results;
+            renderer.refreshRows = vi.fn();
+            return renderer;
+        };
+
+        beforeEach(() => {
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should show the output or error of each listed match after a pause in typing', async () => {
+            const results = [
+                createMockSearchResult('a.md', 0, 'one two', 'two', 4, 't(w)o'),
+                createMockSearchResult('a.md', 1, 'tao', 'tao', 0, 't(w)o')
+            ];
+            const renderer = createRenderer(results);
+            const options = createDefaultSearchOptions({ useRegex: true, useFunction: true });
+
+            renderer.scheduleFunctionPreview('groups[0].toUpperCase()', options);
+            expect(renderer.functionPreview?.outcomes.size).toBe(0);
+            await vi.advanceTimersByTimeAsync(FUNCTION_PREVIEW_DELAY);
+            await vi.waitFor(() => expect(renderer.refreshRows).toHaveBeenCalled());
+
+            expect(renderer.functionPreview?.outcomes.get(results[0])).toEqual({ value: 'W' });
+            expect(renderer.functionPreview?.outcomes.get(results[1])).toHaveProperty('error');
+        });
+
+        it('should drop the results of a replacement text changed while they were computed', async () => {
+            const results = [createMockSearchResult('a.md', 0, 'one two', 'two', 4, 'two')];
+            const renderer = createRenderer(results);
+            const options = createDefaultSearchOptions({ useFunction: true });
+
+            renderer.scheduleFunctionPreview('match.toUpperCase()', options);
+            await vi.advanceTimersByTimeAsync(FUNCTION_PREVIEW_DELAY);
+            renderer.scheduleFunctionPreview('match + "!"', options);
+            await vi.advanceTimersByTimeAsync(FUNCTION_PREVIEW_DELAY);
+            await vi.waitFor(() => expect(renderer.functionPreview?.outcomes.size).toBe(1));
+
+            expect(renderer.functionPreview?.outcomes.get(results[0])).toEqual({ value: 'two!' });
+        });
+
+        it('should not run the function until typing pauses', async () => {
+            const results = [createMockSearchResult('a.md', 0, 'one two', 'two', 4, 'two')];
+            const renderer = createRenderer(results);
+            const options = createDefaultSearchOptions({ useFunction: true });
+
+            renderer.scheduleFunctionPreview('match.toUpperCase()', options);
+            await vi.advanceTimersByTimeAsync(FUNCTION_PREVIEW_DELAY - 1);
+            renderer.scheduleFunctionPreview('match.toUpperCase() + "?"', options);
+            await vi.advanceTimersByTimeAsync(FUNCTION_PREVIEW_DELAY - 1);
+
+            expect(renderer.refreshRows).not.toHaveBeenCalled();
+            expect(renderer.functionPreview?.outcomes.size).toBe(0);
+        });
+    });
+});
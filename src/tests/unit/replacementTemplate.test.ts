@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { expandReplacementTemplate, findGroupReferences } from '../../core/replacementTemplate';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+import { SearchResult } from '../../types';
+import { TFile } from 'obsidian';
+
+/**
+ * Expands a template the same way String.prototype.replace would see the first match
+ */
+function expand(pattern: RegExp, input: string, template: string): string {
+    const match = pattern.exec(input);
+    if (!match) throw new Error('pattern did not match');
+    return expandReplacementTemplate(template, match, input);
+}
+
+describe('Replacement templates', () => {
+    describe('expandReplacementTemplate', () => {
+        it('should agree with String.prototype.replace for standard tokens', () => {
+            const pattern = /(\w+)@(?<host>\w+)/;
+            const input = 'mail bob@example now';
+            const [prefix, suffix] = ['mail ', ' now'];
+            for (const template of ['$1 at $2', '[$&]', '$`|$\'', '$$1', '$<host>', '$3', '$', '$10', '$01']) {
+                const native = input.replace(pattern, template);
+                expect(expand(pattern, input, template)).toBe(native.slice(prefix.length, native.length - suffix.length));
+            }
+        });
+
+        it('should read two-digit references only when that group exists', () => {
+            const groups = '(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)';
+            expect(expand(new RegExp(groups), 'abcdefghij', '$10')).toBe('j');
+            expect(expand(/(a)/, 'a', '$10')).toBe('a0');
+        });
+
+        it('should leave $<name> literal when the regex has no named groups', () => {
+            expect(expand(/(a)/, 'a', '$<x>')).toBe('$<x>');
+        });
+
+        it('should apply case modifiers', () => {
+            const pattern = /(?<first>\w+) (?<last>\w+)/;
+            expect(expand(pattern, 'ada lovelace', '\\U$<last>\\E, $<first>')).toBe('LOVELACE, ada');
+            expect(expand(pattern, 'ADA LOVELACE', '\\L$1 \\u$2')).toBe('ada Lovelace');
+            expect(expand(pattern, 'ada lovelace', '\\u$1 \\u$2')).toBe('Ada Lovelace');
+            expect(expand(pattern, 'Ada Lovelace', '\\l$1')).toBe('ada');
+            expect(expand(pattern, 'ada lovelace', '\\U\\l$1')).toBe('aDA');
+        });
+
+        it('should handle escaped whitespace and leave unknown escapes alone', () => {
+            expect(expand(/x/, 'x', 'a\\nb\\tc\\\\n\\d')).toBe('a\nb\tc\\n\\d');
+        });
+    });
+
+    describe('findGroupReferences', () => {
+        it('should list numbered and named references but skip $$', () => {
+            expect(findGroupReferences('$1 $<name> $$2 $12')).toEqual({ numbered: ['1', '12'], named: ['name'] });
+        });
+    });
+
+    describe('ReplacementEngine', () => {
+        const setup = (content: string) => {
+            const env = createMemoryVaultApp({ 'note.md': content });
+            const plugin = createMockPlugin(env.app);
+            const engine = new ReplacementEngine(env.app, plugin, new SearchEngine(env.app, plugin));
+            return { env, engine, file: env.files.get('note.md') as TFile };
+        };
+
+        it('should write named groups and case escapes', async () => {
+            const content = 'ada lovelace; alan turing';
+            const { env, engine, file } = setup(content);
+            const pattern = '(?<first>\\w+) (?<last>\\w+)';
+            const results: SearchResult[] = [
+                { file, line: 0, col: 0, content, matchText: 'ada lovelace', pattern },
+                { file, line: 0, col: 14, content, matchText: 'alan turing', pattern }
+            ];
+
+            await engine.dispatchReplace('vault', results, new Set(), '\\U$<last>\\E, \\u$<first>',
+                createDefaultSearchOptions({ useRegex: true }));
+
+            expect(env.contents.get('note.md')).toBe('LOVELACE, Ada; TURING, Alan');
+        });
+
+        it('should reject references to groups the regex does not define', () => {
+            const { engine } = setup('');
+            const options = createDefaultSearchOptions({ useRegex: true });
+
+            expect(engine.validateReplacementText('$1-$<name>', options, '(?<name>a)').isValid).toBe(true);
+
+            const missing = engine.validateReplacementText('$2 $<nope>', options, '(a)');
+            expect(missing.isValid).toBe(false);
+            expect(missing.errors).toHaveLength(2);
+
+            const ambiguous = engine.validateReplacementText('$10', options, '(a)');
+            expect(ambiguous.isValid).toBe(true);
+            expect(ambiguous.warnings[0]).toContain('$1 followed by "0"');
+        });
+    });
+});
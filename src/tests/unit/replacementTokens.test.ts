@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { expandComputedTokens, resolveComputedToken } from '../../core/replacementTokens';
+import { ReplacementEngine } from '../../core/replacementEngine';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions, MockTFile } from '../utils/testHelpers';
+import { SearchResult } from '../../types';
+import { TFile } from 'obsidian';
+
+describe('Computed replacement tokens', () => {
+    const file = new MockTFile('Projects/Beans/pinto.md');
+    const context = { file, line: 4, counter: 2 };
+
+    describe('resolveComputedToken', () => {
+        it('should number matches from the counter options', () => {
+            expect(resolveComputedToken('counter', context)).toBe('3');
+            expect(resolveComputedToken('counter:start=1,pad=3', context)).toBe('003');
+            expect(resolveComputedToken('counter:start=10, step=5', context)).toBe('20');
+            expect(resolveComputedToken('counter:pad=x', context)).toBeNull();
+        });
+
+        it('should expose file metadata and the 1-based line', () => {
+            expect(resolveComputedToken('file.basename', context)).toBe('pinto');
+            expect(resolveComputedToken('file.name', context)).toBe('pinto.md');
+            expect(resolveComputedToken('file.parent', context)).toBe('Projects/Beans');
+            expect(resolveComputedToken('file.parent', { ...context, file: new MockTFile('root.md') })).toBe('');
+            expect(resolveComputedToken('line', context)).toBe('5');
+        });
+
+        it('should format the current date', () => {
+            expect(resolveComputedToken('date', context)).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+            expect(resolveComputedToken('date:YYYY', context)).toBe(String(new Date().getFullYear()));
+        });
+    });
+
+    describe('expandComputedTokens', () => {
+        it('should leave unknown tokens and other $ text alone', () => {
+            expect(expandComputedTokens('${file.basename}-${nope}-$1', context)).toBe('pinto-${nope}-$1');
+        });
+    });
+
+    describe('ReplacementEngine', () => {
+        const setup = () => {
+            const env = createMemoryVaultApp({ 'a.md': 'item\nitem item', 'b.md': 'item' });
+            const plugin = createMockPlugin(env.app);
+            const engine = new ReplacementEngine(env.app, plugin, new SearchEngine(env.app, plugin));
+            const [a, b] = [env.files.get('a.md') as TFile, env.files.get('b.md') as TFile];
+            // Sorted like SearchEngine.performSearch: path, line, column
+            const results: SearchResult[] = [
+                { file: a, line: 0, col: 0, content: 'item', matchText: 'item', pattern: 'item' },
+                { file: a, line: 1, col: 0, content: 'item item', matchText: 'item', pattern: 'item' },
+                { file: a, line: 1, col: 5, content: 'item item', matchText: 'item', pattern: 'item' },
+                { file: b, line: 0, col: 0, content: 'item', matchText: 'item', pattern: 'item' }
+            ];
+            return { env, engine, results, b };
+        };
+
+        it('should number matches across files in search result order', async () => {
+            const { env, engine, results } = setup();
+
+            await engine.dispatchReplace('vault', results, new Set(), '${file.basename}-${counter:pad=2}',
+                createDefaultSearchOptions());
+
+            expect(env.contents.get('a.md')).toBe('a-01\na-02 a-03');
+            expect(env.contents.get('b.md')).toBe('b-04');
+        });
+
+        it('should combine computed tokens with capture groups in regex mode', async () => {
+            const { env, engine, results } = setup();
+            const regexResults = results.map(r => ({ ...r, pattern: '(it)em' }));
+
+            await engine.dispatchReplace('vault', regexResults, new Set(), '\\U$1\\E@${line}',
+                createDefaultSearchOptions({ useRegex: true }));
+
+            expect(env.contents.get('a.md')).toBe('IT@1\nIT@2 IT@2');
+        });
+
+        it('should keep the search result numbering when replacing a subset', async () => {
+            const { env, engine, results, b } = setup();
+
+            await engine.dispatchReplace('file', results, new Set(), '#${counter}', createDefaultSearchOptions(), b);
+
+            expect(env.contents.get('b.md')).toBe('#4');
+        });
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { addResultContext } from '../../core/resultContext';
+import { SearchEngine } from '../../core/searchEngine';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions, createMockSearchResult } from '../utils/testHelpers';
+
+describe('Result context', () => {
+    const content = 'one\ntwo foo\nthree\nfour\r\nfive foo\nsix';
+
+    it('should attach the lines around each match, clipped to the note', () => {
+        const results = [createMockSearchResult('a.md', 1, 'two foo', 'foo', 4, 'foo'), createMockSearchResult('a.md', 4, 'five foo', 'foo', 5, 'foo')];
+
+        const [first, second] = addResultContext(results, content, 2);
+
+        expect(first.context).toEqual({
+            before: [{ line: 0, text: 'one' }],
+            after: [{ line: 2, text: 'three' }, { line: 3, text: 'four' }]
+        });
+        expect(second.context).toEqual({
+            before: [{ line: 2, text: 'three' }, { line: 3, text: 'four' }],
+            after: [{ line: 5, text: 'six' }]
+        });
+    });
+
+    it('should start the lines after a multiline match below its last line', () => {
+        const [result] = addResultContext([createMockSearchResult('a.md', 1, 'two foo', 'foo\nthree', 4, 'foo')], content, 1);
+
+        expect(result.context?.after).toEqual([{ line: 3, text: 'four' }]);
+    });
+
+    it('should leave results alone without context lines', () => {
+        const results = [createMockSearchResult('a.md', 1, 'two foo', 'foo', 4, 'foo')];
+
+        expect(addResultContext(results, content, 0)).toBe(results);
+    });
+
+    it('should take the context from the content read by the search', async () => {
+        const env = createMemoryVaultApp({ 'a.md': content });
+        const searchEngine = new SearchEngine(env.app, createMockPlugin(env.app));
+
+        const results = await searchEngine.performSearch('five', createDefaultSearchOptions(), undefined, { contextLines: 1 });
+
+        expect(results[0].context).toEqual({ before: [{ line: 3, text: 'four' }], after: [{ line: 5, text: 'six' }] });
+        searchEngine.dispose();
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { createContentMatcher } from '../../core/contentMatcher';
+import { SearchWorkerClient } from '../../core/searchWorkerClient';
+import { SearchEngine } from '../../core/searchEngine';
+import { SearchController } from '../../ui/components/searchController';
+import { FindReplaceElements, SearchOptions, SearchProgress, SearchResult, ViewState } from '../../types';
+import { Logger } from '../../utils';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions } from '../utils/testHelpers';
+
+describe('Search worker', () => {
+    describe('createContentMatcher', () => {
+        it('should apply query qualifiers, regex options and Markdown scope without a vault', () => {
+            const match = createContentMatcher('todo path:projects/', createDefaultSearchOptions({ useQuery: true, markdownScope: 'no-code' }));
+            const content = 'TODO: ship\n`todo` in code\nlast todo';
+
+            expect(match({ name: 'a.md', path: 'Projects/a.md' }, content).map(m => [m.line, m.col, m.matchText])).toEqual([
+                [0, 0, 'TODO'],
+                [2, 5, 'todo']
+            ]);
+            expect(match({ name: 'a.md', path: 'Notes/a.md' }, content)).toEqual([]);
+        });
+    });
+
+    describe('SearchWorkerClient', () => {
+        it('should match batches on the main thread where workers are unavailable', async () => {
+            const env = createMemoryVaultApp({});
+            const client = new SearchWorkerClient(Logger.create(createMockPlugin(env.app), 'Test'));
+
+            const matches = await client.match('b+', createDefaultSearchOptions({ useRegex: true }), [
+                { path: 'one.md', name: 'one.md', content: 'abba' },
+                { path: 'two.md', name: 'two.md', content: 'none' }
+            ]);
+
+            expect(matches.map(file => file?.map(m => m.matchText))).toEqual([['bb'], []]);
+            client.dispose();
+        });
+    });
+
+    describe('SearchEngine.performSearch', () => {
+        it('should stream the results of each batch with progress and return them sorted', async () => {
+            const files: Record<string, string> = {};
+            for (let i = 24; i >= 0; i--) {
+                files[`note-${String(i).padStart(2, '0')}.md`] = i % 2 === 0 ? `match ${i}` : 'nothing here';
+            }
+            const env = createMemoryVaultApp(files);
+            const searchEngine = new SearchEngine(env.app, createMockPlugin(env.app));
+            const batches: { count: number; progress: SearchProgress }[] = [];
+
+            const results = await searchEngine.performSearch('match', createDefaultSearchOptions(), undefined, {
+                onResults: (batch, progress) => batches.push({ count: batch.length, progress })
+            });
+
+            expect(batches.map(b => b.progress)).toEqual([
+                { scanned: 0, total: 25 },
+                { scanned: 10, total: 25 },
+                { scanned: 20, total: 25 },
+                { scanned: 25, total: 25 }
+            ]);
+            expect(batches.reduce((sum, b) => sum + b.count, 0)).toBe(13);
+            expect(results.map(r => r.file.path)).toEqual(Object.keys(files).filter(path => files[path].startsWith('match')).sort());
+        });
+    });
+
+    describe('SearchController streaming', () => {
+        it('should show the streamed results in sorted order and keep the ones the final list keeps', async () => {
+            const files: Record<string, string> = {};
+            for (let i = 24; i >= 0; i--) {
+                files[`note-${String(i).padStart(2, '0')}.md`] = `match ${i}`;
+            }
+            const env = createMemoryVaultApp(files);
+            const plugin = createMockPlugin(env.app);
+            plugin.settings.maxResults = 4;
+            const searchEngine = new SearchEngine(env.app, plugin);
+            const state: ViewState = { isCollapsed: false, selectedIndices: new Set(), results: [] };
+            const shown: string[][] = [];
+            const controller = new SearchController(plugin, {} as FindReplaceElements, searchEngine, state,
+                () => undefined, () => undefined, () => ({}), results => shown.push(results.map(r => r.file.path)));
+            const options = createDefaultSearchOptions();
+
+            const results = await searchEngine.performSearch('match', options, undefined, {
+                onResults: (batch, progress) => (controller as unknown as {
+                    streamResults: (batch: SearchResult[], progress: SearchProgress, options: SearchOptions) => void;
+                }).streamResults(batch, progress, options)
+            });
+
+            shown.forEach(paths => expect(paths).toEqual([...paths].sort()));
+            expect(shown[1]).toEqual(['note-15.md', 'note-16.md', 'note-17.md', 'note-18.md']);
+            expect(shown[shown.length - 1]).toEqual(results.slice(0, 4).map(r => r.file.path));
+        });
+    });
+});
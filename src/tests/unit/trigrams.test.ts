@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import { extractTrigrams, requiredLiterals, planTrigramSearch } from '../../core/trigrams';
+import { SearchIndex } from '../../core/searchIndex';
+import { createMockPlugin } from '../mocks/MockPlugin';
+import { createMemoryVaultApp, createDefaultSearchOptions, MockTFile } from '../utils/testHelpers';
+
+describe('Trigrams', () => {
+    describe('extractTrigrams', () => {
+        it('should return distinct lower-cased trigrams', () => {
+            expect(extractTrigrams('Abab')).toEqual(['aba', 'bab']);
+            expect(extractTrigrams('ab')).toEqual([]);
+        });
+    });
+
+    describe('requiredLiterals', () => {
+        it('should keep literal runs outside groups, classes and optional characters', () => {
+            expect(requiredLiterals('foo\\.bar[0-9]+baz(qux)?')).toEqual(['foo.bar', 'baz']);
+            expect(requiredLiterals('colou?r')).toEqual(['colo', 'r']);
+            expect(requiredLiterals('\\d{3}-\\w+ end')).toEqual(['-', ' end']);
+        });
+
+        it('should give up on top-level alternation', () => {
+            expect(requiredLiterals('cat|dog')).toBeNull();
+            expect(requiredLiterals('(cat|dog)food')).toEqual(['food']);
+        });
+    });
+
+    describe('planTrigramSearch', () => {
+        it('should plan literal, regex and boolean queries', () => {
+            expect(planTrigramSearch('hello', createDefaultSearchOptions())).toEqual({ type: 'all', trigrams: ['hel', 'ell', 'llo'] });
+            expect(planTrigramSearch('a.c', createDefaultSearchOptions({ useRegex: true }))).toBeNull();
+            expect(planTrigramSearch('abc OR -xyz', createDefaultSearchOptions({ useQuery: true }))).toBeNull();
+            expect(planTrigramSearch('abc OR defg', createDefaultSearchOptions({ useQuery: true }))).toEqual({
+                type: 'or',
+                children: [{ type: 'all', trigrams: ['abc'] }, { type: 'all', trigrams: ['def', 'efg'] }]
+            });
+        });
+
+        it('should not plan approximate matching', () => {
+            expect(planTrigramSearch('hello', createDefaultSearchOptions({ fuzzy: true }))).toBeNull();
+            expect(planTrigramSearch('hello', createDefaultSearchOptions({ ignoreDiacritics: true }))).toBeNull();
+        });
+    });
+
+    describe('SearchIndex.filterCandidates', () => {
+        it('should keep notes containing the query and notes changed since they were indexed', async () => {
+            const env = createMemoryVaultApp({ 'a.md': 'Hello world', 'b.md': 'goodbye', 'c.md': 'hello again' });
+            env.files.forEach(file => { file.stat = { ctime: 0, mtime: 1, size: 10 }; });
+            const saved: string[] = [];
+            Object.assign(env.app.vault, { adapter: { write: async (path: string) => { saved.push(path); } } });
+            const plugin = createMockPlugin(env.app);
+            Object.assign(plugin, { manifest: { id: 'find-n-replace', dir: '.obsidian/plugins/find-n-replace' } });
+            plugin.settings.useSearchIndex = true;
+            const index = new SearchIndex(env.app, plugin);
+            await index.rebuild();
+
+            const files = Array.from(env.files.values());
+            expect(index.getStatus()).toMatchObject({ ready: true, fileCount: 3 });
+            expect(index.filterCandidates(files, 'HELLO', createDefaultSearchOptions()).map(f => f.path)).toEqual(['a.md', 'c.md']);
+
+            files[1].stat.mtime = 2;
+            expect(index.filterCandidates(files, 'hello', createDefaultSearchOptions()).map(f => f.path)).toEqual(['a.md', 'b.md', 'c.md']);
+
+            await index.dispose();
+            expect(saved).toEqual(['.obsidian/plugins/find-n-replace/search-index.json']);
+        });
+
+        it('should write edits to notes when unloading and added notes after a pause', async () => {
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+            try {
+                const env = createMemoryVaultApp({ 'a.md': 'Hello world' });
+                const note = (path: string, mtime: number) => {
+                    const file = env.files.get(path) ?? new MockTFile(path);
+                    file.stat = { ctime: 0, mtime, size: env.contents.get(path)?.length ?? 0 };
+                    env.files.set(path, file);
+                    return file;
+                };
+                note('a.md', 1);
+                const handlers = new Map<string, (file: TFile) => void>();
+                Object.assign(env.app.vault, { on: (name: string, handler: (file: TFile) => void) => handlers.set(name, handler) });
+                const plugin = createMockPlugin(env.app);
+                Object.assign(plugin, { manifest: { id: 'find-n-replace' }, registerEvent: () => undefined });
+                plugin.settings.useSearchIndex = true;
+                const index = new SearchIndex(env.app, plugin);
+                index.registerEvents();
+                await Promise.all([index.rebuild(), vi.advanceTimersByTimeAsync(2000)]);
+                const storedIndex = () => JSON.parse(env.stored.get('.obsidian/plugins/find-n-replace/search-index.json') ?? '{}');
+                expect(Object.keys(storedIndex().files)).toEqual(['a.md']);
+
+                env.contents.set('a.md', 'Goodbye world');
+                handlers.get('modify')?.(note('a.md', 2));
+                await vi.advanceTimersByTimeAsync(5000);
+                expect(storedIndex().files['a.md'].trigrams).toContain('hel');
+
+                env.contents.set('b.md', 'New note');
+                handlers.get('create')?.(note('b.md', 3));
+                await vi.advanceTimersByTimeAsync(2000);
+                expect(Object.keys(storedIndex().files)).toEqual(['a.md', 'b.md']);
+                expect(storedIndex().files['a.md'].trigrams).toContain('goo');
+
+                env.contents.set('b.md', 'Edited note');
+                handlers.get('modify')?.(note('b.md', 4));
+                await vi.advanceTimersByTimeAsync(0);
+                await index.dispose();
+                expect(storedIndex().files['b.md'].trigrams).toContain('edi');
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+    });
+});
@@ -3,6 +3,7 @@
  */
 
 import { expect } from 'vitest';
+import { App, TFile, WorkspaceLeaf } from 'obsidian';
 import { SearchResult, SearchOptions } from '../../types';
 
 // Global test helper functions
@@ -31,6 +32,77 @@ export function createMockSearchResult(
     };
 }
 
+// The mocked TFile takes its path as a constructor argument
+export const MockTFile = TFile as unknown as new (path: string) => TFile;
+
+/**
+ * Creates an in-memory vault app whose files are real (mocked) TFile instances
+ * Unlike MockVault, files resolve through instanceof TFile checks, so engine code
+ * that validates targets can be exercised directly.
+ * Notes listed in `frontmatter` get a metadata cache entry; processFrontMatter updates it and
+ * rewrites the note's frontmatter block (scalars and lists only).
+ */
+export function createMemoryVaultApp(initial: Record<string, string>, frontmatter: Record<string, Record<string, unknown>> = {}) {
+    const contents = new Map<string, string>(Object.entries(initial));
+    const files = new Map<string, TFile>();
+    for (const path of Object.keys(initial)) {
+        files.set(path, new MockTFile(path));
+    }
+
+    const vault = {
+        read: async (file: TFile) => contents.get(file.path) ?? '',
+        cachedRead: async (file: TFile) => contents.get(file.path) ?? '',
+        modify: async (file: TFile, data: string) => { contents.set(file.path, data); },
+        process: async (file: TFile, fn: (data: string) => string) => {
+            const data = fn(contents.get(file.path) ?? '');
+            contents.set(file.path, data);
+            return data;
+        },
+        getAbstractFileByPath: (path: string) => files.get(path) ?? null,
+        getFiles: () => Array.from(files.values()),
+        getAllLoadedFiles: () => Array.from(files.values()),
+        getMarkdownFiles: () => Array.from(files.values()).filter(f => f.extension === 'md')
+    };
+
+    // Files the plugin keeps in its folder (journal, search index), by path
+    const stored = new Map<string, string>();
+    Object.assign(vault, {
+        configDir: '.obsidian',
+        adapter: {
+            exists: async (path: string) => stored.has(path),
+            read: async (path: string) => stored.get(path) ?? '',
+            write: async (path: string, data: string) => { stored.set(path, data); },
+            remove: async (path: string) => { stored.delete(path); }
+        }
+    });
+
+    // Tests push MarkdownView-like leaves here to simulate notes open in a pane
+    const leaves: WorkspaceLeaf[] = [];
+    const workspace = {
+        getLeavesOfType: (type: string) => (type === 'markdown' ? leaves : [])
+    };
+
+    const metadataCache = {
+        getFileCache: (file: TFile) => (frontmatter[file.path] ? { frontmatter: frontmatter[file.path] } : null)
+    };
+
+    const fileManager = {
+        processFrontMatter: async (file: TFile, fn: (frontmatter: Record<string, unknown>) => void) => {
+            const updated = JSON.parse(JSON.stringify(frontmatter[file.path] ?? {}));
+            fn(updated);
+            frontmatter[file.path] = updated;
+
+            const yaml = Object.entries(updated).map(([key, value]) => Array.isArray(value)
+                ? `${key}:\n${value.map(item => `  - ${item}`).join('\n')}`
+                : `${key}: ${value}`);
+            const body = (contents.get(file.path) ?? '').replace(/^---\n[\s\S]*?\n---\n?/, '');
+            contents.set(file.path, `---\n${yaml.join('\n')}\n---\n${body}`);
+        }
+    };
+
+    return { app: { vault, workspace, metadataCache, fileManager } as unknown as App, contents, files, leaves, frontmatter, stored };
+}
+
 /**
  * Creates default search options for testing
  */
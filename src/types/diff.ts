@@ -0,0 +1,19 @@
+/**
+ * A single line in a line-based diff
+ */
+export interface DiffLine {
+    type: 'context' | 'add' | 'remove';
+    text: string;
+}
+
+/**
+ * A contiguous group of changed lines with surrounding context (unified diff hunk)
+ */
+export interface DiffHunk {
+    index: number;      // Position of the hunk within its file (stable ID for approval)
+    oldStart: number;   // Zero-based first line in the original content
+    oldLength: number;  // Number of original lines covered (context + removed)
+    newStart: number;   // Zero-based first line in the modified content
+    newLength: number;  // Number of modified lines covered (context + added)
+    lines: DiffLine[];
+}
@@ -6,4 +6,6 @@ export * from './search';
 export * from './ui';
 export * from './replacement';
 export * from './settings';
-export * from './callbacks';
\ No newline at end of file
+export * from './callbacks';
+export * from './diff';
+export * from './recipe';
\ No newline at end of file
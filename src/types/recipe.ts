@@ -0,0 +1,41 @@
+import { SearchOptions, SessionFilters } from './search';
+import { ReplacementPreview } from './replacement';
+
+/**
+ * One find/replace pair of a recipe
+ */
+export interface RecipeStep {
+    query: string;
+    replacement: string;
+    options: SearchOptions;
+    filters?: SessionFilters;   // Files the step applies to (all files when omitted)
+}
+
+/**
+ * A saved, ordered list of find/replace steps that run as one operation
+ * Each step sees the output of the steps before it.
+ */
+export interface Recipe {
+    id: string;
+    name: string;
+    steps: RecipeStep[];
+}
+
+/**
+ * What a single recipe step changed
+ */
+export interface RecipeStepSummary {
+    step: RecipeStep;
+    replacements: number;
+    files: number;
+    error?: string;             // Set when the step was skipped (e.g. invalid regex)
+}
+
+/**
+ * Dry run of a whole recipe: the combined per-file diff plus a per-step summary
+ */
+export interface RecipePreview {
+    recipe: Recipe;
+    preview: ReplacementPreview;
+    steps: RecipeStepSummary[];
+}
@@ -1,5 +1,6 @@
 import { TFile } from 'obsidian';
 import { SearchResult } from './search';
+import { DiffHunk } from './diff';
 
 /**
  * Replacement operation types
@@ -11,6 +12,71 @@ export type ReplacementMode = "one" | "selected" | "file" | "vault";
  */
 export type ReplacementTarget = SearchResult | TFile | undefined;
 
+/**
+ * A single text change expressed as character offsets into the original content
+ * Lets the same replacement be written to disk or dispatched as one editor change per match.
+ */
+export interface TextEdit {
+    from: number;   // Start offset (inclusive)
+    to: number;     // End offset (exclusive)
+    text: string;   // Replacement text
+}
+
+/**
+ * Where a replacement lands, used to expand computed tokens like ${counter} or ${file.basename}
+ */
+export interface ReplacementTokenContext {
+    file: TFile;
+    line: number;       // 0-based line of the match
+    counter: number;    // 0-based position of the match in the sorted search results
+}
+
+/**
+ * What a JavaScript replacement function receives as its `result` argument
+ */
+export interface ReplacementFunctionResult {
+    file: string;       // Path of the file containing the match
+    line: number;       // 0-based line of the match
+    index: number;      // 0-based position of the match in the sorted search results
+    offset: number;     // Offset of the match within `input`
+    input: string;      // Text the match was found in: its line, or the whole note in multiline mode
+}
+
+/**
+ * One call of a replacement function, in a form that can be posted to its worker
+ */
+export interface ReplacementFunctionCall {
+    match: (string | undefined)[];          // The full match followed by its capture groups
+    namedGroups: Record<string, string | undefined>;
+    result: ReplacementFunctionResult;
+}
+
+/**
+ * What one call of a replacement function returned, or why it failed
+ */
+export type ReplacementFunctionOutcome = { value: string } | { error: string };
+
+/**
+ * Message to the replacement function worker: evaluate an expression for a list of matches
+ */
+export interface ReplacementFunctionRequest {
+    id: number;
+    source: string;
+    calls: ReplacementFunctionCall[];
+    start?: number; // Index of the first call, when a restarted worker resumes the request (default: 0)
+}
+
+/**
+ * Message from the replacement function worker: the outcome of one call, or why the expression does not compile
+ * Calls are reported one by one, in order, so a call that runs over its time limit is known while it runs.
+ */
+export interface ReplacementFunctionResponse {
+    id: number;
+    index?: number;                         // Index of the call in the request
+    outcome?: ReplacementFunctionOutcome;   // Outcome of that call
+    error?: string;
+}
+
 /**
  * Replacement validation result
  */
@@ -29,7 +95,9 @@ export interface ReplacementResult {
     filesModified: number;
     duration: number; // in milliseconds
     errors: string[];
+    conflicts?: string[]; // Paths of files skipped because they changed since the search
     affectedResults?: AffectedResults; // Metadata for incremental UI updates
+    cancelled?: boolean; // Stopped before every file was processed; the remaining files are unchanged
 }
 
 /**
@@ -45,4 +113,64 @@ export interface AffectedResults {
     modifiedLines: Map<TFile, Set<number>>;
     // Whether this replacement might affect other results (e.g., regex with global effects)
     requiresFullRevalidation: boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * Content of a single file captured before and after a replacement
+ */
+export interface JournalFileSnapshot {
+    path: string;
+    before: string; // Content prior to the replacement
+    after: string;  // Content written by the replacement
+}
+
+/**
+ * A recorded replacement operation that can be rolled back
+ */
+export interface JournalEntry {
+    id: string;
+    timestamp: number;
+    mode: ReplacementMode;
+    pattern: string;            // Search pattern that produced the replaced matches
+    replaceText: string;
+    totalReplacements: number;
+    files: JournalFileSnapshot[];
+}
+
+/**
+ * Outcome of rolling back a journal entry
+ */
+export interface RollbackResult {
+    restoredFiles: string[];
+    conflictedFiles: string[]; // Modified since the replacement - left untouched
+    missingFiles: string[];    // Deleted or renamed since the replacement
+}
+
+/**
+ * Dry-run result for a single file: the content a replacement would produce
+ */
+export interface FileReplacementPreview {
+    file: TFile;
+    before: string;           // Content at preview time
+    after: string;            // Content after applying every match
+    matches: SearchResult[];  // Matches that produced the changes
+    hunks: DiffHunk[];        // Unified diff hunks between before and after
+}
+
+/**
+ * Dry-run result for a whole replacement operation (nothing written)
+ */
+export interface ReplacementPreview {
+    mode: ReplacementMode;
+    pattern: string;
+    replaceText: string;
+    files: FileReplacementPreview[];
+    errors: string[];
+    conflicts: string[];  // Paths of files skipped because they changed since the search
+    cancelled?: boolean;  // Stopped before every file was compared; files is then empty
+}
+
+/**
+ * Approved hunk indices per file path (files absent from the map are skipped)
+ */
+export type PreviewApproval = Map<string, Set<number>>;
@@ -11,6 +11,43 @@ export interface SearchResult {
     matchText: string;  // The actual text that matched the search pattern
     col?: number | undefined;  // Optional: Zero-based column position of the match within the line
     pattern: string;    // The original search pattern that produced this match
+    fingerprint?: FileFingerprint; // Optional: Snapshot of the file content at search time (for drift detection)
+    property?: PropertyLocation; // Optional: Set in properties mode; content is then the `key: value` row
+    context?: ResultContext; // Optional: Lines around the match, when context lines are requested
+}
+
+/**
+ * Lines around a match, shown dimmed with it in the results (like `grep -C`)
+ */
+export interface ResultContext {
+    before: ContextLine[];  // Lines above the match, top first
+    after: ContextLine[];   // Lines below the match's last line, top first
+}
+
+/**
+ * A line of a note shown as context
+ */
+export interface ContextLine {
+    line: number;   // Zero-based line number
+    text: string;
+}
+
+/**
+ * A frontmatter property value matched in properties mode
+ */
+export interface PropertyLocation {
+    key: string;        // Property name
+    index?: number;     // Position in a list property (e.g. one of the tags), undefined for single values
+    value: string;      // The value as text when it was searched
+}
+
+/**
+ * Identifies the content of a file at the time it was searched
+ * Replacements compare it against the current content to detect notes edited after the search.
+ */
+export interface FileFingerprint {
+    size: number;   // Content length in characters
+    hash: string;   // Hash of the full content (see hashContent)
 }
 
 /**
@@ -21,6 +58,104 @@ export interface SearchOptions {
     wholeWord: boolean;     // Whether to match whole words only
     useRegex: boolean;      // Whether to use regex pattern matching
     multiline?: boolean;    // Whether to enable multiline regex matching (allows patterns like \n to work)
+    preserveCase?: boolean; // Whether replacements adopt each match's casing (lower, UPPER, Title, camelCase)
+    useFunction?: boolean;  // Whether the replacement text is a JavaScript expression evaluated per match
+    mapping?: ReplacementMapping; // Optional: Find every "old" term of a mapping table and replace it with its "new" value
+    markdownScope?: MarkdownScope; // Optional: Parts of each note that are searched and replaced (default 'all')
+    selection?: TextRange;  // Optional: Offsets of the editor selection a search is confined to (selection scope)
+    searchProperties?: boolean; // Whether to search frontmatter property values instead of note text
+    useQuery?: boolean;     // Whether the search text is a boolean query (AND, OR, -term, "phrases", file:, path:)
+    ignoreDiacritics?: boolean; // Whether accents and Unicode width/normalization differences are ignored (cafe finds café)
+    fuzzy?: boolean;        // Whether text within a small edit distance of the search text matches (recieve finds receive)
+    fuzzyDistance?: number; // Optional: Maximum edit distance in fuzzy mode (default 1)
+}
+
+/**
+ * Parsed boolean query (see core/queryParser)
+ * Terms and qualifiers decide which files qualify; the terms outside a negation are what gets highlighted.
+ */
+export type QueryNode =
+    | { type: 'term'; text: string; position: number }     // A word or quoted phrase; position is its offset in the query
+    | { type: 'qualifier'; field: 'file' | 'path'; value: string; position: number } // file:name or path:folder/name
+    | { type: 'and'; children: QueryNode[] }
+    | { type: 'or'; children: QueryNode[] }
+    | { type: 'not'; child: QueryNode };
+
+/**
+ * A problem found while validating a search query
+ */
+export interface QueryError {
+    message: string;
+    position: number;   // Zero-based offset in the query the problem was found at
+}
+
+/**
+ * Parts of a note a search is limited to
+ * - all: everything
+ * - body: body text only (skips frontmatter, code and link targets)
+ * - no-code: everything except fenced code blocks and inline code
+ * - no-frontmatter: everything except the YAML frontmatter
+ * - headings: only heading lines
+ * - link-text: only the displayed text of links ([text](url), [[target|text]])
+ */
+export type MarkdownScope = 'all' | 'body' | 'no-code' | 'no-frontmatter' | 'headings' | 'link-text';
+
+/**
+ * Files (or text) a search covers, on top of the session filters
+ * - vault: every searchable file
+ * - current-file: the active note
+ * - open-tabs: notes open in a tab
+ * - current-folder: the active note's folder, including subfolders
+ * - selection: the text selected in the active editor
+ */
+export type SearchScope = 'vault' | 'current-file' | 'open-tabs' | 'current-folder' | 'selection';
+
+/**
+ * A search scope resolved against the workspace when a search starts (see core/searchScope)
+ */
+export interface ResolvedSearchScope {
+    scope: SearchScope;
+    paths?: string[];       // Files the search is limited to (undefined for the whole vault)
+    selection?: TextRange;  // Selected text of the single file in paths (selection scope only)
+}
+
+/**
+ * A character range of a note
+ */
+export interface TextRange {
+    from: number;   // Start offset (inclusive)
+    to: number;     // End offset (exclusive)
+}
+
+/**
+ * Kinds of Markdown structure found by the segmenter
+ */
+export type MarkdownSegmentKind = 'frontmatter' | 'code-block' | 'inline-code' | 'heading' | 'link-text' | 'link-target';
+
+/**
+ * A classified character range of a note
+ * Ranges of different kinds may nest, e.g. link text inside a heading.
+ */
+export interface MarkdownSegment {
+    kind: MarkdownSegmentKind;
+    from: number;   // Start offset in the content (inclusive)
+    to: number;     // End offset in the content (exclusive)
+}
+
+/**
+ * One row of a mapping table
+ */
+export interface MappingEntry {
+    from: string;   // Text to find (matched literally)
+    to: string;     // Text it is replaced with
+}
+
+/**
+ * Old → new pairs read from a Markdown table or CSV note
+ */
+export interface ReplacementMapping {
+    source: string;         // Path of the note the table was read from
+    entries: MappingEntry[];
 }
 
 /**
@@ -33,6 +168,73 @@ export interface SearchStatistics {
     averageResultsPerFile: number;
 }
 
+/**
+ * A match found in file content, before it is attributed to a file
+ * This is what the search worker sends back; SearchEngine adds the file.
+ */
+export type ContentMatch = Omit<SearchResult, 'file'>;
+
+/**
+ * How far a vault search has got
+ */
+export interface SearchProgress {
+    scanned: number;    // Files read and matched so far
+    total: number;      // Files the search covers
+    cancelled?: boolean; // The search was stopped before every file was scanned (last report only)
+}
+
+/**
+ * Callbacks of a running vault search
+ */
+export interface SearchRunOptions {
+    onResults?: (results: SearchResult[], progress: SearchProgress) => void; // Each batch of files as it completes (results in file order, possibly empty)
+    signal?: AbortSignal; // Stops the search between files and batches
+    contextLines?: number; // Lines of context attached to each result before and after its match (default 0)
+}
+
+/**
+ * State of the persistent search index (see core/searchIndex)
+ */
+export interface SearchIndexStatus {
+    enabled: boolean;       // Turned on in settings
+    ready: boolean;         // Loaded and up to date, so searches use it
+    building: boolean;      // Indexing notes
+    fileCount: number;      // Notes indexed
+    trigramCount: number;   // Distinct trigrams
+}
+
+/**
+ * A file sent to the search worker
+ */
+export interface SearchWorkerFile {
+    path: string;
+    name: string;
+    content: string;
+}
+
+/**
+ * Message to the search worker: match a batch of files
+ */
+export interface SearchWorkerRequest {
+    id: number;
+    query: string;
+    options: SearchOptions;
+    files: SearchWorkerFile[];
+    start?: number; // Index of the first file to match, when a restarted worker resumes the batch (default: 0)
+}
+
+/**
+ * Message from the search worker: the matches of one file of a batch, or why the batch failed
+ * The worker reports the files of a batch one by one, in order, so a file that runs over its
+ * time budget is known while it is still being matched.
+ */
+export interface SearchWorkerResponse {
+    id: number;
+    index?: number;             // Index of the file in the request
+    matches?: ContentMatch[];   // Matches of that file
+    error?: string;
+}
+
 /**
  * Session-only filter settings (separate from persistent plugin settings)
  */
@@ -42,4 +244,21 @@ export interface SessionFilters {
     includePatterns?: string[];
     excludeFolders?: string[];
     excludePatterns?: string[];
-}
\ No newline at end of file
+    includeMetadata?: MetadataFilter[]; // Files must match every one (tag:, prop:, links-to:, modified:, size:)
+    excludeMetadata?: MetadataFilter[]; // Files matching any one are skipped
+}
+
+/**
+ * Comparison operator of a modified: or size: filter
+ */
+export type MetadataComparison = '<' | '<=' | '>' | '>=' | '=';
+
+/**
+ * A file filter resolved through the metadata cache or file stats (see core/metadataFilters)
+ */
+export type MetadataFilter =
+    | { type: 'tag'; tag: string }                          // Lower-case, without '#'; subtags match too
+    | { type: 'property'; key: string; value?: string }     // No value: the property only has to be set
+    | { type: 'links-to'; target: string }                  // Link path, without [[ ]]
+    | { type: 'modified'; op: MetadataComparison; time: number } // Start of the local day, in ms
+    | { type: 'size'; op: MetadataComparison; bytes: number };
\ No newline at end of file
@@ -1,3 +1,6 @@
+import { Recipe } from './recipe';
+import { MarkdownScope } from './search';
+
 /**
  * Log levels for controlling console output granularity
  */
@@ -18,6 +21,9 @@ export interface VaultFindReplaceSettings {
     maxResults: number;
     enableAutoSearch: boolean;
     searchDebounceDelay: number;
+    fuzzyMaxDistance: number; // Maximum edit distance of fuzzy matches (default: 1)
+    useSearchIndex: boolean; // Keep a trigram index of notes to skip those that cannot match (default: false)
+    contextLines: number; // Lines shown before and after each match in the results (default: 0)
     logLevel: LogLevel; // Replaces enableDebugLogging with granular control
     fileGroupStates: Record<string, boolean>; // Persistent collapse/expand states by file path
 
@@ -31,8 +37,15 @@ export interface VaultFindReplaceSettings {
     maxHistorySize: number; // Maximum number of history entries to keep (default: 50)
     enableSearchHistory: boolean; // Enable/disable history feature (default: true)
 
+    // Undo journal settings (the journal itself is stored in its own file, see ReplacementJournal)
+    maxJournalEntries: number; // Maximum number of undoable operations to keep (0 disables the journal)
+
+    // Saved multi-step find/replace recipes
+    recipes: Recipe[];
+
     // User experience settings
     confirmDestructiveActions: boolean; // Show confirmation for Replace All operations (default: true)
+    previewBeforeReplace: boolean; // Show diff preview before Replace All / Replace Selected (default: true)
     rememberSearchOptions: boolean; // Persist search toggle states across sessions (default: false)
     rememberFileGroupStates: boolean; // Persist file group expand/collapse states across sessions (default: true)
     lastSearchOptions: {
@@ -40,13 +53,20 @@ export interface VaultFindReplaceSettings {
         wholeWord: boolean;
         useRegex: boolean;
         multiline: boolean;
+        preserveCase: boolean;
+        useFunction: boolean;
+        markdownScope?: MarkdownScope; // Missing in settings saved by older versions
+        searchProperties?: boolean;
+        useQuery?: boolean;
+        ignoreDiacritics?: boolean;
+        fuzzy?: boolean;
     };
 
-    // TODO: Implement these features (see ROADMAP.md)
-    highlightDuration: number; // in ms
-    persistentHighlight: boolean;
-    showLineNumbers: boolean;
-    showFileExtensions: boolean;
+    // Display settings
+    highlightDuration: number; // How long the match opened from a result stays highlighted, in ms (default: 2000)
+    persistentHighlight: boolean; // Keep that highlight until the next search (default: false)
+    showLineNumbers: boolean; // Line number gutter in result rows (default: true)
+    showFileExtensions: boolean; // Show the .md extension of notes in file group headers (default: false)
 
     // Legacy settings for migration (will be removed after migration)
     excludePatterns?: string[];
@@ -64,9 +84,12 @@ export interface VaultFindReplaceSettings {
  */
 export const DEFAULT_SETTINGS: VaultFindReplaceSettings = {
     // Core functionality settings (implemented)
-    maxResults: 1000,
+    maxResults: 100000,
     enableAutoSearch: true,
     searchDebounceDelay: 300,
+    fuzzyMaxDistance: 1,
+    useSearchIndex: false,
+    contextLines: 0, // One line per match, like before
     logLevel: LogLevel.ERROR, // Default to clean console for end users
     fileGroupStates: {}, // Start with empty collapse/expand states
 
@@ -80,18 +103,32 @@ export const DEFAULT_SETTINGS: VaultFindReplaceSettings = {
     maxHistorySize: 50, // Default to 50 entries
     enableSearchHistory: true, // Enable by default
 
+    // Undo journal settings
+    maxJournalEntries: 20, // Keep the last 20 operations undoable
+
+    // Saved multi-step find/replace recipes
+    recipes: [], // Start with no recipes
+
     // User experience settings
     confirmDestructiveActions: true, // Show confirmation by default (safer)
+    previewBeforeReplace: true, // Review diffs by default (safer)
     rememberSearchOptions: false, // Don't persist by default (fresh start each session)
     rememberFileGroupStates: true, // Persist file group states by default (better UX)
     lastSearchOptions: {
         matchCase: false,
         wholeWord: false,
         useRegex: false,
-        multiline: false
+        multiline: false,
+        preserveCase: false,
+        useFunction: false,
+        markdownScope: 'all',
+        searchProperties: false,
+        useQuery: false,
+        ignoreDiacritics: false,
+        fuzzy: false
     },
 
-    // TODO: Implement these features (see ROADMAP.md)
+    // Display settings
     highlightDuration: 2000,
     persistentHighlight: false,
     showLineNumbers: true,
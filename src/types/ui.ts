@@ -1,4 +1,4 @@
-import { SearchResult } from './search';
+import { ContextLine, SearchResult, SearchProgress, ResolvedSearchScope } from './search';
 
 /**
  * UI element references for the find/replace view
@@ -11,17 +11,27 @@ export interface FindReplaceElements {
     wholeWordCheckbox: HTMLElement; // Now inline toggle button
     regexCheckbox: HTMLElement; // Now inline toggle button
     multilineCheckbox: HTMLElement; // Now inline toggle button
+    preserveCaseCheckbox: HTMLElement; // Inline toggle button
+    functionCheckbox: HTMLElement; // Inline toggle button (replacement function mode)
+    propertiesCheckbox: HTMLElement; // Inline toggle button (frontmatter properties mode)
+    queryCheckbox: HTMLElement; // Inline toggle button (boolean query mode)
+    diacriticsCheckbox: HTMLElement; // Inline toggle button (diacritic-insensitive matching)
+    fuzzyCheckbox: HTMLElement; // Inline toggle button (fuzzy matching)
     resultsContainer: HTMLElement;
     selectedCountEl: HTMLElement;
     // replaceSelectedBtn: HTMLButtonElement;
     // replaceAllVaultBtn: HTMLButtonElement;
     toolbarBtn: HTMLButtonElement;
     resultsCountEl: HTMLElement;
+    stopBtn: HTMLButtonElement; // Stops the running search or replacement (hidden when idle)
     clearAllBtn: HTMLButtonElement; // Global clear button
     filterBtn: HTMLButtonElement; // Filter toggle button (VSCode-style)
     filterPanel: HTMLElement; // Expandable filter panel
     includeInput: HTMLInputElement; // Include files/folders input
     excludeInput: HTMLInputElement; // Exclude files/folders input
+    scopeSelect: HTMLSelectElement; // Markdown scope picker (body text only, exclude code, ...)
+    searchScopeSelect: HTMLSelectElement; // Search scope picker (vault, current file, open tabs, folder, selection)
+    contextLinesInput: HTMLInputElement; // Lines of context shown before and after each match
     // replaceAllVaultBtnBottom: HTMLButtonElement; // Adaptive toolbar duplicate
     adaptiveToolbar: HTMLElement; // Contextual results toolbar
     ellipsisMenuBtn: HTMLButtonElement; // Ellipsis menu trigger button (uses Obsidian Menu class)
@@ -34,11 +44,23 @@ export interface ViewState {
     isCollapsed: boolean;           // Whether result groups are collapsed
     selectedIndices: Set<number>;   // Selected result indices
     results: SearchResult[];        // Current search results (limited)
-    lineElements: HTMLDivElement[]; // DOM elements for result lines
     totalResults?: number;          // Total results found (before limiting)
     isLimited?: boolean;            // Whether results are limited
+    cancelled?: SearchProgress;     // Set when the search was stopped: how far it got
+    timedOutFiles?: string[];       // Files skipped because matching them took too long
+    searchScope?: ResolvedSearchScope; // Scope the current results were searched in
+    activeResult?: SearchResult;    // Result last opened, from the list or by the next/previous match commands
 }
 
+/**
+ * A row of the virtualized results list: a file group header, one match or a line of context around matches
+ * Matches of collapsed groups have no row. Rows that start a new block of lines (after a gap) are `separated`.
+ */
+export type ResultRow =
+    | { kind: 'header'; filePath: string; results: SearchResult[]; collapsed: boolean }
+    | { kind: 'line'; filePath: string; result: SearchResult; index: number; separated: boolean } // index: position in the view's results
+    | { kind: 'context'; filePath: string; line: ContextLine; separated: boolean };
+
 /**
  * Theme configuration
  */
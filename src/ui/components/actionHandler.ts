@@ -1,9 +1,9 @@
-import { debounce } from 'obsidian';
-import { Logger, MODAL_POLL_INTERVAL } from '../../utils';
+import { Notice, debounce } from 'obsidian';
+import { Logger, MODAL_POLL_INTERVAL, pluralize } from '../../utils';
 import VaultFindReplacePlugin from '../../main';
-import { FindReplaceElements, SearchOptions, ReplacementResult, SearchResult } from '../../types';
-import { SearchEngine, ReplacementEngine } from '../../core';
-import { ConfirmModal } from '../../modals';
+import { FindReplaceElements, SearchOptions, ReplacementResult, SearchResult, JournalEntry, ReplacementMode, Recipe, RecipeStepSummary, PreviewApproval, ReplacementMapping, MarkdownScope, ResolvedSearchScope } from '../../types';
+import { SearchEngine, ReplacementEngine, RecipeRunner, withMapping, withApproximateMatching } from '../../core';
+import { ConfirmModal, ReplacePreviewModal } from '../../modals';
 
 /**
  * ActionHandler manages all event handling and replace operations
@@ -15,11 +15,15 @@ export class ActionHandler {
     private elements: FindReplaceElements;
     private searchEngine: SearchEngine;
     private replacementEngine: ReplacementEngine;
+    private recipeRunner: RecipeRunner;
     private performSearchCallback: () => Promise<void>;
     private renderResultsCallback: (preserveSelection?: boolean) => void;
     private isSearching: boolean = false;
+    private currentReplaceController: AbortController | null = null; // Running replacement, stopped by the stop button
     private getResultsCallback?: () => SearchResult[];
     private getSelectedIndicesCallback?: () => Set<number>;
+    private getMappingCallback?: () => ReplacementMapping | null;
+    private getSearchScopeCallback?: () => ResolvedSearchScope | undefined;
     private toggleExpandCollapseCallback?: () => void;
 
     constructor(
@@ -35,6 +39,7 @@ export class ActionHandler {
         this.elements = elements;
         this.searchEngine = searchEngine;
         this.replacementEngine = replacementEngine;
+        this.recipeRunner = new RecipeRunner(plugin.app, plugin, searchEngine, replacementEngine);
         this.performSearchCallback = performSearchCallback;
         this.renderResultsCallback = renderResultsCallback;
     }
@@ -70,16 +75,22 @@ export class ActionHandler {
      *
      * @param {function} getResultsCallback - Function that returns current search results array
      * @param {function} getSelectedIndicesCallback - Function that returns Set of selected result indices
+     * @param {function} [getMappingCallback] - Function that returns the active mapping table, if any
+     * @param {function} [getSearchScopeCallback] - Function that returns the scope the results were searched in
      *
      * @remarks
      * Must be called before any replace operations to ensure state access is available.
      */
     setStateCallbacks(
         getResultsCallback: () => SearchResult[],
-        getSelectedIndicesCallback: () => Set<number>
+        getSelectedIndicesCallback: () => Set<number>,
+        getMappingCallback?: () => ReplacementMapping | null,
+        getSearchScopeCallback?: () => ResolvedSearchScope | undefined
     ): void {
         this.getResultsCallback = getResultsCallback;
         this.getSelectedIndicesCallback = getSelectedIndicesCallback;
+        this.getMappingCallback = getMappingCallback;
+        this.getSearchScopeCallback = getSearchScopeCallback;
     }
 
     /**
@@ -100,6 +111,13 @@ export class ActionHandler {
         this.elements.replaceInput.addEventListener('input', () => {
             this.renderResultsCallback(true); // Preserve selections for replace text changes
         });
+
+        // Preserve case and function mode only change replacement previews - re-render without searching again
+        [this.elements.preserveCaseCheckbox, this.elements.functionCheckbox].forEach(toggleBtn => {
+            toggleBtn?.addEventListener('click', () => {
+                this.renderResultsCallback(true);
+            });
+        });
     }
 
     /**
@@ -159,7 +177,13 @@ export class ActionHandler {
             const toggleButtons = [
                 this.elements.matchCaseCheckbox,
                 this.elements.wholeWordCheckbox,
-                this.elements.regexCheckbox
+                this.elements.regexCheckbox,
+                this.elements.preserveCaseCheckbox,
+                this.elements.functionCheckbox,
+                this.elements.propertiesCheckbox,
+                this.elements.queryCheckbox,
+                this.elements.diacriticsCheckbox,
+                this.elements.fuzzyCheckbox
             ];
 
             toggleButtons.forEach(btn => {
@@ -205,7 +229,8 @@ export class ActionHandler {
      * - getResultsCallback must be set via setStateCallbacks()
      *
      * **Behavior:**
-     * - Shows confirmation if replacing with empty string
+     * - Shows the diff preview if previewBeforeReplace setting enabled
+     * - Otherwise shows confirmation if replacing with empty string
      * - Adds replace text to history on success
      * - Triggers search refresh to update UI
      * - Logs detailed operation progress
@@ -237,14 +262,6 @@ export class ActionHandler {
                 return;
             }
 
-            // Confirm if replacing with empty string
-            if (!replaceText) {
-                const confirmed = await this.showReplaceConfirmation('Replace selected matches with empty content? This cannot be undone.');
-                if (!confirmed) return;
-            }
-
-            this.logger.info(`Starting replace operation for ${selectedIndices.size} selected matches`);
-
             // Get current results from callback
             if (!this.getResultsCallback) {
                 this.logger.error('No results callback set');
@@ -252,17 +269,34 @@ export class ActionHandler {
             }
 
             const currentResults = this.getResultsCallback();
+            let result: ReplacementResult | null;
 
-            // Perform replacement using dispatchReplace
-            const result = await this.replacementEngine.dispatchReplace(
-                'selected',
-                currentResults,
-                selectedIndices,
-                replaceText,
-                searchOptions
-            );
+            if (this.usesPreview(searchOptions)) {
+                result = await this.previewAndReplace('selected', currentResults, selectedIndices, replaceText, searchOptions);
+                if (!result) return;
+            } else {
+                // Confirm if replacing with empty string (a mapping table supplies its own values)
+                if (!replaceText && !searchOptions.mapping) {
+                    const confirmed = await this.showReplaceConfirmation('Replace selected matches with empty content?');
+                    if (!confirmed) return;
+                }
+
+                this.logger.info(`Starting replace operation for ${selectedIndices.size} selected matches`);
+
+                // Perform replacement using dispatchReplace
+                result = await this.runStoppable(signal => this.replacementEngine.dispatchReplace(
+                    'selected',
+                    currentResults,
+                    selectedIndices,
+                    replaceText,
+                    searchOptions,
+                    undefined,
+                    signal
+                ));
+            }
 
             this.logger.success(`Successfully replaced ${result.totalReplacements} matches in ${result.filesModified} files`);
+            this.notifyConflicts(result.conflicts ?? [], false);
 
             // Add replace text to history after successful replacement
             this.plugin.historyManager.addReplace(replaceText);
@@ -287,7 +321,8 @@ export class ActionHandler {
      * - Search query must exist in search input
      *
      * **Safety Features:**
-     * - Shows confirmation modal if confirmDestructiveActions setting enabled
+     * - Shows the diff preview if previewBeforeReplace setting enabled
+     * - Otherwise shows confirmation modal if confirmDestructiveActions setting enabled
      * - Different message for empty replacement (deletion)
      * - User can cancel operation
      *
@@ -317,9 +352,11 @@ export class ActionHandler {
             return;
         }
 
+        const usePreview = this.usesPreview(searchOptions);
+
         // Show confirmation modal for replace all operation (if enabled in settings)
-        if (this.plugin.settings.confirmDestructiveActions) {
-            const confirmResult = await this.showReplaceAllConfirmation(query, replaceText);
+        if (!usePreview && this.plugin.settings.confirmDestructiveActions) {
+            const confirmResult = await this.showReplaceAllConfirmation(query, replaceText, searchOptions);
             if (!confirmResult) {
                 this.logger.debug('Replace all operation cancelled by user');
                 return;
@@ -338,16 +375,22 @@ export class ActionHandler {
             const currentResults = this.getResultsCallback();
             const selectedIndices = new Set<number>(); // Empty for vault-wide replacement
 
-            // Perform replacement using dispatchReplace
-            const result = await this.replacementEngine.dispatchReplace(
-                'vault',
-                currentResults,
-                selectedIndices,
-                replaceText,
-                searchOptions
-            );
+            // Perform replacement using the diff preview or dispatchReplace directly
+            const result = usePreview
+                ? await this.previewAndReplace('vault', currentResults, selectedIndices, replaceText, searchOptions)
+                : await this.runStoppable(signal => this.replacementEngine.dispatchReplace(
+                    'vault',
+                    currentResults,
+                    selectedIndices,
+                    replaceText,
+                    searchOptions,
+                    undefined,
+                    signal
+                ));
+            if (!result) return;
 
             this.logger.success(`Successfully replaced ${result.totalReplacements} matches across ${result.filesModified} files`);
+            this.notifyConflicts(result.conflicts ?? [], false);
 
             // Add replace text to history after successful replacement
             this.plugin.historyManager.addReplace(replaceText);
@@ -360,13 +403,266 @@ export class ActionHandler {
         }
     }
 
+    /**
+     * Runs a replacement that the stop button can cancel between files
+     * The stop button is shown while the operation runs.
+     *
+     * @param {function} operation - Receives the abort signal to pass to dispatchReplace, previewReplace or applyPreview
+     * @returns {Promise} The operation's result
+     */
+    private async runStoppable<T>(operation: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        const controller = new AbortController();
+        this.currentReplaceController = controller;
+        this.elements.stopBtn?.classList.remove('hidden');
+        try {
+            return await operation(controller.signal);
+        } finally {
+            if (this.currentReplaceController === controller) this.currentReplaceController = null;
+            this.elements.stopBtn?.classList.add('hidden');
+        }
+    }
+
+    /**
+     * Stops the running replacement after the file being written
+     *
+     * @returns {boolean} True if a replacement was running
+     */
+    stopReplace(): boolean {
+        if (!this.currentReplaceController) return false;
+
+        this.logger.debug('Stopping replacement at user request');
+        this.currentReplaceController.abort();
+        this.currentReplaceController = null;
+        return true;
+    }
+
+    /**
+     * Whether a replacement is reviewed in the diff preview first
+     * The preview compares note text, so property replacements (written through processFrontMatter)
+     * use the confirmation modal instead.
+     */
+    private usesPreview(searchOptions: SearchOptions): boolean {
+        return this.plugin.settings.previewBeforeReplace && !searchOptions.searchProperties;
+    }
+
+    /**
+     * Computes the replacement in memory, shows the diff preview and applies only approved changes
+     * The stop button cancels the computation, and the writing of the approved changes between files.
+     * @returns The replacement result, or null if cancelled or nothing would change
+     */
+    private async previewAndReplace(
+        mode: ReplacementMode,
+        results: SearchResult[],
+        selectedIndices: Set<number>,
+        replaceText: string,
+        searchOptions: SearchOptions
+    ): Promise<ReplacementResult | null> {
+        const preview = await this.runStoppable(signal =>
+            this.replacementEngine.previewReplace(mode, results, selectedIndices, replaceText, searchOptions, undefined, signal));
+
+        if (preview.cancelled) {
+            new Notice('Replacement cancelled before the preview: no file changed');
+            return null;
+        }
+        if (preview.files.length === 0) {
+            if (preview.conflicts.length > 0) {
+                this.notifyConflicts(preview.conflicts, true);
+            } else {
+                new Notice(preview.errors.length > 0 ? `Could not compute replacement preview: ${preview.errors[0]}` : 'Replacement would not change any file');
+            }
+            return null;
+        }
+
+        const modal = new ReplacePreviewModal(this.plugin.app, preview);
+        modal.open();
+
+        // Wait for the modal to close using async/await polling
+        while (modal.isOpen) {
+            await sleep(MODAL_POLL_INTERVAL);
+        }
+
+        const approval = modal.approval;
+        if (!approval) {
+            this.logger.debug('Replacement preview cancelled by user');
+            return null;
+        }
+
+        return this.runStoppable(signal => this.replacementEngine.applyPreview(preview, approval, signal));
+    }
+
+    /**
+     * Runs every step of a recipe as one replacement operation
+     * The combined changes are reviewed in the diff preview (or confirmed, when the preview is
+     * disabled), written once per file and recorded as a single undoable journal entry.
+     *
+     * @param {Recipe} recipe - The recipe to run
+     * @returns {Promise<void>} Resolves when the recipe has been applied or cancelled
+     */
+    async runRecipe(recipe: Recipe): Promise<void> {
+        try {
+            const recipePreview = await this.recipeRunner.preview(recipe);
+            const { preview } = recipePreview;
+            const details = recipePreview.steps.map(summary => this.describeRecipeStep(summary));
+
+            if (preview.files.length === 0) {
+                new Notice(`Recipe "${recipe.name}" would not change any file`);
+                return;
+            }
+
+            let approval: PreviewApproval | null;
+            if (this.plugin.settings.previewBeforeReplace) {
+                const modal = new ReplacePreviewModal(this.plugin.app, preview, details);
+                modal.open();
+
+                // Wait for the modal to close using async/await polling
+                while (modal.isOpen) {
+                    await sleep(MODAL_POLL_INTERVAL);
+                }
+                approval = modal.approval;
+            } else {
+                const confirmed = !this.plugin.settings.confirmDestructiveActions || await this.showReplaceConfirmation(
+                    `Run recipe "${recipe.name}"? ${preview.files.length} ${pluralize(preview.files.length, 'file')} will change.`
+                );
+                approval = confirmed
+                    ? new Map(preview.files.map(f => [f.file.path, new Set(f.hunks.map(h => h.index))]))
+                    : null;
+            }
+
+            if (!approval) {
+                this.logger.debug('Recipe run cancelled by user');
+                return;
+            }
+
+            const result = await this.recipeRunner.apply(recipePreview, approval);
+            this.logger.success(`Recipe "${recipe.name}" replaced ${result.totalReplacements} matches across ${result.filesModified} files`);
+            new Notice(createFragment(frag => {
+                frag.createDiv({
+                    text: `Recipe "${recipe.name}": ${result.totalReplacements} ${pluralize(result.totalReplacements, 'replacement')} ` +
+                        `in ${result.filesModified} ${pluralize(result.filesModified, 'file')}`
+                });
+                [...details, ...result.errors].forEach(line => frag.createDiv({ text: line, cls: 'find-replace-recipe-summary' }));
+            }), 8000);
+
+            // Refresh the current search, if any, so results reflect the new content
+            if (this.elements.searchInput.value.trim()) {
+                await this.performSearchCallback();
+            }
+        } catch (error) {
+            this.logger.error(`Failed to run recipe "${recipe.name}"`, error, true);
+        }
+    }
+
+    /**
+     * Formats one line of a recipe summary, e.g. "- [ ] → - [x]: 12 replacements in 3 files"
+     */
+    private describeRecipeStep(summary: RecipeStepSummary): string {
+        const { step } = summary;
+        if (summary.error) return summary.error;
+        return `${step.query} → ${step.replacement || '(empty)'}: ${summary.replacements} ` +
+            `${pluralize(summary.replacements, 'replacement')} in ${summary.files} ${pluralize(summary.files, 'file')}`;
+    }
+
+    /**
+     * Tells the user that some files were skipped because they changed since the search
+     * @param conflicts - Paths of the skipped files
+     * @param offerResearch - Whether to add a button that re-runs the search (omit when results refresh anyway)
+     */
+    notifyConflicts(conflicts: string[], offerResearch: boolean): void {
+        if (conflicts.length === 0) return;
+
+        const message = `${conflicts.length} ${pluralize(conflicts.length, 'file was', 'files were')} skipped because ` +
+            `${pluralize(conflicts.length, 'it', 'they')} changed since the search: ${conflicts.join(', ')}`;
+        if (!offerResearch) {
+            new Notice(message, 8000);
+            return;
+        }
+
+        const notice = new Notice(createFragment(frag => {
+            frag.createDiv({ text: message });
+            const button = frag.createEl('button', { text: 'Search again', cls: 'find-replace-conflict-button' });
+            button.addEventListener('click', () => {
+                notice.hide();
+                void this.performSearchCallback();
+            });
+        }), 0);
+    }
+
+    /**
+     * Rolls back a recorded replacement operation
+     * Restores the pre-replacement content of every file that has not changed since.
+     *
+     * @param {JournalEntry} entry - The journal entry to undo
+     * @returns {Promise<void>} Resolves when the rollback completes
+     *
+     * @remarks
+     * **Conflict Handling:**
+     * - Files edited after the replacement are never overwritten
+     * - If some files conflict, the user is asked whether to undo the remaining files
+     * - If every file conflicts, the undo is refused with a notice
+     *
+     * **Behavior:**
+     * - Asks for confirmation if confirmDestructiveActions setting enabled
+     * - Re-runs the current search afterwards so results reflect the restored content
+     */
+    async undoJournalEntry(entry: JournalEntry): Promise<void> {
+        const journal = this.plugin.replacementJournal;
+
+        try {
+            const check = await journal.checkEntry(entry);
+            const skipped = [...check.conflictedFiles, ...check.missingFiles];
+
+            if (check.restoredFiles.length === 0) {
+                new Notice(`Cannot undo: ${skipped.length} ${pluralize(skipped.length, 'file has', 'files have')} changed since the replacement`);
+                return;
+            }
+
+            if (skipped.length > 0) {
+                const confirmed = await this.showReplaceConfirmation(
+                    `${skipped.length} ${pluralize(skipped.length, 'file has', 'files have')} changed since this replacement and will be left untouched: ${skipped.join(', ')}. Undo the remaining ${check.restoredFiles.length} ${pluralize(check.restoredFiles.length, 'file')}?`
+                );
+                if (!confirmed) return;
+            } else if (this.plugin.settings.confirmDestructiveActions) {
+                const confirmed = await this.showReplaceConfirmation(
+                    `Undo replacement of "${entry.pattern}" with "${entry.replaceText}" in ${check.restoredFiles.length} ${pluralize(check.restoredFiles.length, 'file')}?`
+                );
+                if (!confirmed) return;
+            }
+
+            const result = await journal.rollback(entry.id);
+            const refused = result.conflictedFiles.length + result.missingFiles.length;
+            new Notice(
+                `Restored ${result.restoredFiles.length} ${pluralize(result.restoredFiles.length, 'file')}` +
+                (refused > 0 ? ` (${refused} skipped: changed since the replacement)` : '')
+            );
+
+            // Refresh results if a search is active
+            if (this.elements.searchInput.value.trim()) {
+                await this.performSearchCallback();
+            }
+        } catch (error) {
+            this.logger.error('Failed to undo replacement', error, true);
+        }
+    }
+
+    /**
+     * Undoes the most recent recorded replacement
+     */
+    async undoLastReplacement(): Promise<void> {
+        const entry = this.plugin.replacementJournal.getLastEntry();
+        if (!entry) {
+            new Notice('Nothing to undo');
+            return;
+        }
+        await this.undoJournalEntry(entry);
+    }
+
     /**
      * Shows confirmation modal for replace all operation
      */
-    private async showReplaceAllConfirmation(query: string, replaceText: string): Promise<boolean> {
-        const message = replaceText === ''
-            ? 'Replace all matches across the vault with an empty value? This action cannot be undone.'
-            : 'Replace all matches across the vault? This action cannot be undone.';
+    private async showReplaceAllConfirmation(query: string, replaceText: string, searchOptions: SearchOptions): Promise<boolean> {
+        const message = replaceText === '' && !searchOptions.mapping
+            ? 'Replace all matches across the vault with an empty value?'
+            : 'Replace all matches across the vault?';
 
         return this.showReplaceConfirmation(message);
     }
@@ -387,15 +683,28 @@ export class ActionHandler {
     }
 
     /**
-     * Gets current search options from toggle buttons
+     * Gets current search options from toggle buttons, including the active mapping table
+     * and the selection the results were searched in (selection scope)
      */
     private getSearchOptions(): SearchOptions {
         const matchCase = this.getToggleValue(this.elements.matchCaseCheckbox);
         const wholeWord = this.getToggleValue(this.elements.wholeWordCheckbox);
         const useRegex = this.getToggleValue(this.elements.regexCheckbox);
         const multiline = this.getToggleValue(this.elements.multilineCheckbox) || false;
-
-        return { matchCase, wholeWord, useRegex, multiline };
+        const preserveCase = this.getToggleValue(this.elements.preserveCaseCheckbox);
+        const useFunction = this.getToggleValue(this.elements.functionCheckbox);
+        const markdownScope = (this.elements.scopeSelect?.value || 'all') as MarkdownScope;
+        const searchProperties = this.getToggleValue(this.elements.propertiesCheckbox);
+        const useQuery = this.getToggleValue(this.elements.queryCheckbox);
+        const ignoreDiacritics = this.getToggleValue(this.elements.diacriticsCheckbox);
+        const fuzzy = this.getToggleValue(this.elements.fuzzyCheckbox);
+        const fuzzyDistance = fuzzy ? this.plugin.settings.fuzzyMaxDistance : undefined;
+
+        const selection = this.getSearchScopeCallback?.()?.selection;
+
+        return withApproximateMatching(withMapping({
+            matchCase, wholeWord, useRegex, multiline, preserveCase, useFunction, markdownScope, selection, searchProperties, useQuery, ignoreDiacritics, fuzzy, fuzzyDistance
+        }, this.getMappingCallback?.() ?? null));
     }
 
     /**
@@ -457,6 +766,7 @@ export class ActionHandler {
     cleanup(): void {
         // Remove global keyboard listeners
         document.removeEventListener('keydown', this.setupKeyboardShortcuts);
+        this.stopReplace();
         this.logger.debug('ActionHandler cleanup completed');
     }
 }
\ No newline at end of file
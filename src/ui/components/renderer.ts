@@ -1,8 +1,34 @@
 import { setIcon, TFile } from 'obsidian';
-import { SearchResult, FindReplaceElements } from '../../types';
-import { SearchEngine } from '../../core';
-import { Logger, CONTEXT_AFTER_MATCH, CONTEXT_BEFORE_MATCH } from '../../utils';
+import {
+    SearchResult, SearchOptions, SearchProgress, FindReplaceElements, ReplacementTokenContext, ResultRow, ContextLine,
+    ReplacementFunctionCall, ReplacementFunctionOutcome
+} from '../../types';
+import {
+    SearchEngine, ReplacementFunctionClient, expandReplacementTemplate, expandComputedTokens, resolveComputedToken,
+    lookupMapping, propertyValueOffset, toReplacementFunctionCall
+} from '../../core';
+import { Logger, applyCaseStyle, CONTEXT_AFTER_MATCH, CONTEXT_BEFORE_MATCH, FUNCTION_PREVIEW_DELAY } from '../../utils';
 import VaultFindReplacePlugin from '../../main';
+import { VirtualResultList, buildResultRows } from './virtualResultList';
+
+/**
+ * Progress bar of the results shown while a search runs (see UIRenderer.renderStreamedResults)
+ */
+interface ResultStream {
+    progress: HTMLProgressElement;
+    progressText: HTMLDivElement;
+}
+
+/**
+ * Replacement function results shown in the results list, for one replacement text and set of options
+ */
+interface FunctionPreview {
+    key: string;                                                // Replacement text and options they were computed with
+    outcomes: Map<SearchResult, ReplacementFunctionOutcome>;    // Outcome of each result evaluated so far
+}
+
+// Tabindex of the first result row; the toolbar uses 1-12
+const FIRST_RESULT_TABINDEX = 13;
 
 /**
  * Handles all UI rendering and DOM manipulation for search results
@@ -14,12 +40,22 @@ export class UIRenderer {
     private plugin: VaultFindReplacePlugin; // Reference to plugin for settings access
     private logger: Logger;
     private sessionFileGroupStates: Record<string, boolean> = {}; // Session-only state (not persisted)
+    private stream: ResultStream | null = null; // Progress of the results shown while a search is running
+    private list: VirtualResultList | null = null; // Rows of the shown results (only those in view are rendered)
+    private shownResults: SearchResult[] = []; // Results in the list, in the view's order
+    private isSelected: (index: number) => boolean = () => false;
+
+    // Function mode: the preview runs the expression in a worker, after a pause in typing
+    private functionClient: ReplacementFunctionClient;
+    private functionPreview: FunctionPreview | null = null;
+    private functionPreviewTimer: number | null = null;
 
     constructor(elements: FindReplaceElements, searchEngine: SearchEngine, plugin: VaultFindReplacePlugin) {
         this.elements = elements;
         this.searchEngine = searchEngine;
         this.plugin = plugin;
         this.logger = Logger.create(plugin, 'UIRenderer');
+        this.functionClient = new ReplacementFunctionClient(this.logger);
     }
 
     /**
@@ -34,13 +70,16 @@ export class UIRenderer {
      * @param {boolean} searchOptions.useRegex - Regular expression mode enabled
      * @param {number} [totalResults] - Total results found before limiting (for UI feedback)
      * @param {boolean} [isLimited] - Whether results are limited by max results setting
-     * @returns {HTMLDivElement[]} Array of line elements for selection management
+     * @param {SearchProgress} [cancelled] - How far the search got, when it was stopped before scanning every file
+     * @param {string[]} [timedOutFiles] - Files skipped because matching them ran over the time budget
      *
      * @remarks
      * **Grouping and Display:**
      * - Results organized by file path with collapsible file groups
      * - Each file group shows result count
+     * - Virtual scrolling: only the rows in and near view exist in the DOM (see VirtualResultList)
      * - Sequential tab order: toolbar → file headers → replace buttons → matches → replace buttons
+     * - The scroll position is kept, so re-rendering after a replacement stays where the user was
      *
      * **File Group State:**
      * - 3-tier state priority: session → disk → default collapsed
@@ -50,110 +89,249 @@ export class UIRenderer {
      *
      * **Replacement Preview:**
      * - Live preview shows replacement text with regex capture group expansion
+     * - Replacement functions run in a worker after a pause in typing; each row shows its result or error
      * - Multiline matches show truncated preview with hover tooltip
      * - Preview only shown when different from original match
      *
      * **UI Updates:**
      * - Result count display updated (with "limited" indicator if applicable)
+     * - "Search cancelled" notice above the results of a stopped search
+     * - Notice listing the files skipped because matching them took too long
      * - Adaptive toolbar shown/hidden based on results
      * - Expand/collapse button state updated
      * - Ellipsis menu enabled/disabled based on results
      */
-    renderResults(results: SearchResult[], replaceText: string, searchOptions: { matchCase: boolean; wholeWord: boolean; useRegex: boolean }, totalResults?: number, isLimited?: boolean): HTMLDivElement[] {
+    renderResults(results: SearchResult[], replaceText: string, searchOptions: SearchOptions, totalResults?: number, isLimited?: boolean, cancelled?: SearchProgress, timedOutFiles?: string[]): void {
         // Clear previous results
+        const scrollTop = this.elements.resultsContainer.scrollTop;
+        this.removeList();
         this.elements.resultsContainer.empty();
-        const lineElements: HTMLDivElement[] = [];
+        this.stream = null;
 
-        // Start with all file groups collapsed
-        this.elements.resultsContainer?.querySelectorAll(".file-group").forEach(group => {
-            group.classList.add("collapsed");
-        });
+        // A stopped search says how far it got above the results found so far
+        if (cancelled) {
+            this.elements.resultsContainer.createDiv({
+                cls: 'search-progress search-cancelled',
+                text: `Search cancelled after ${cancelled.scanned} of ${cancelled.total} file${cancelled.total !== 1 ? 's' : ''}`
+            });
+        }
 
-        // Group results by file path
-        const resultsByFile: Record<string, SearchResult[]> = {};
-        results.forEach(r => {
-            const path = r.file.path;
-            if (!resultsByFile[path]) resultsByFile[path] = [];
-            resultsByFile[path].push(r);
-        });
+        // Files a runaway regex got stuck on are named in the tooltip
+        if (timedOutFiles && timedOutFiles.length > 0) {
+            this.elements.resultsContainer.createDiv({
+                cls: 'search-progress search-skipped',
+                text: `Skipped ${timedOutFiles.length} file${timedOutFiles.length !== 1 ? 's' : ''}: the pattern took too long to match`,
+                attr: { title: timedOutFiles.join('\n') }
+            });
+        }
 
-        // Create UI elements for each file group
-        const fileGroupsContainer = this.elements.resultsContainer.createDiv('file-groups-container');
-        let fileCount = 0;
-        let globalIndex = 0;
-        let tabIndex = 13; // Start after toolbar elements (1-12)
-
-        Object.entries(resultsByFile).forEach(([filePath, fileResults]) => {
-            const fileDiv = fileGroupsContainer.createEl('div');
-            fileDiv.addClass('file-group');
-
-            // Set data attribute for file path to track state
-            fileDiv.setAttribute('data-file-path', filePath);
-
-            // Determine collapse state: priority order:
-            // 1. Session state (current session's user interactions)
-            // 2. Persisted state (saved to disk if rememberFileGroupStates enabled)
-            // 3. Default to collapsed
-            let isFileCollapsed = true;
-            if (this.sessionFileGroupStates.hasOwnProperty(filePath)) {
-                // Use session state if available (highest priority)
-                isFileCollapsed = this.sessionFileGroupStates[filePath];
-            } else if (this.plugin.settings.rememberFileGroupStates && this.plugin.settings.fileGroupStates[filePath] !== undefined) {
-                // Use persisted state if session state not available and persistence enabled
-                isFileCollapsed = this.plugin.settings.fileGroupStates[filePath];
-            }
+        // List one row per file group header and per match of an expanded group
+        const list = this.createList(replaceText, searchOptions);
+        this.shownResults = results.slice();
+        const rows = buildResultRows(this.shownResults, filePath => this.isFileCollapsed(filePath));
+        const filePaths = rows.filter(row => row.kind === 'header').map(row => row.filePath);
+
+        // Update UI elements with current results
+        this.updateResultsUI(results.length, filePaths.length, totalResults, isLimited);
 
-            if (isFileCollapsed) {
-                fileDiv.addClass('collapsed');
+        // Keep the notices visible even when nothing was found
+        if (cancelled || (timedOutFiles && timedOutFiles.length > 0)) {
+            this.elements.resultsContainer.classList.remove('hidden');
+        }
+
+        // Render once the container is visible, so the rows that fit in view are known
+        this.elements.resultsContainer.scrollTop = scrollTop;
+        list.setRows(rows);
+        this.updateToolbarButtonState();
+        this.scheduleFunctionPreview(replaceText, searchOptions);
+
+        // Clean up saved states for files that no longer exist (run periodically)
+        this.cleanupFileGroupStates(filePaths);
+    }
+
+    /**
+     * Lists the results found so far while a search is running
+     * Results arrive sorted, so each batch lands in its final place and the list does not jump around;
+     * a progress bar shows how many files have been scanned. The final renderResults() call adds the
+     * notices and selection.
+     *
+     * @param {SearchResult[]} results - Results found so far, sorted and capped like the final results
+     * @param {string} replaceText - Current replacement text for preview display
+     * @param {SearchOptions} searchOptions - Search options of the running search
+     * @param {SearchProgress} progress - Files scanned so far; 0 scanned starts a new stream
+     */
+    renderStreamedResults(results: SearchResult[], replaceText: string, searchOptions: SearchOptions, progress: SearchProgress): void {
+        if (!this.stream || !this.list || progress.scanned === 0) {
+            this.removeList();
+            this.elements.resultsContainer.empty();
+            this.shownResults = [];
+            const progressEl = this.elements.resultsContainer.createDiv('search-progress');
+            this.stream = {
+                progressText: progressEl.createDiv('search-progress-text'),
+                progress: progressEl.createEl('progress')
+            };
+            this.createList(replaceText, searchOptions);
+        }
+
+        const stream = this.stream;
+        this.shownResults = results.slice();
+        const rows = buildResultRows(this.shownResults, filePath => this.isFileCollapsed(filePath));
+
+        stream.progress.max = Math.max(progress.total, 1);
+        stream.progress.value = progress.scanned;
+        stream.progressText.setText(`Scanned ${progress.scanned} of ${progress.total} file${progress.total !== 1 ? 's' : ''}`);
+
+        this.updateResultsUI(results.length, rows.filter(row => row.kind === 'header').length);
+        // Keep the progress bar visible before the first match arrives
+        this.elements.resultsContainer.classList.remove('hidden');
+
+        this.list?.setRows(rows);
+        this.scheduleFunctionPreview(replaceText, searchOptions);
+    }
+
+    /**
+     * Sets where the selection state of results comes from (see SelectionManager)
+     * Rows are created as they scroll into view, so each one asks whether its result is selected.
+     *
+     * @param {function} isSelected - Returns whether the result at an index is selected
+     */
+    setSelectionState(isSelected: (index: number) => boolean): void {
+        this.isSelected = isSelected;
+    }
+
+    /**
+     * Creates the virtual list the result rows are rendered into
+     * @param replaceText - Current replacement text for preview display
+     * @param searchOptions - Current search options
+     * @returns The list, also kept as the current one
+     */
+    private createList(replaceText: string, searchOptions: SearchOptions): VirtualResultList {
+        const host = this.elements.resultsContainer.createDiv('file-groups-container');
+        this.list = new VirtualResultList(this.elements.resultsContainer, host, (row, position) =>
+            this.createRow(row, position, replaceText, searchOptions));
+        return this.list;
+    }
+
+    /**
+     * Stops the current virtual list before its rows are removed
+     */
+    private removeList(): void {
+        this.list?.dispose();
+        this.list = null;
+    }
+
+    /**
+     * Creates the element of a result row
+     * Each row uses two tabindex values (header or snippet, then its replace button), numbered by
+     * position so keyboard focus follows the list order. Context lines are not focusable.
+     */
+    private createRow(row: ResultRow, position: number, replaceText: string, searchOptions: SearchOptions): HTMLElement {
+        const tabIndex = FIRST_RESULT_TABINDEX + position * 2;
+        switch (row.kind) {
+            case 'header':
+                return this.createFileGroupHeader(row.filePath, row.results, tabIndex);
+            case 'line': {
+                const lineDiv = this.createResultLine(row.result, replaceText, row.index, searchOptions, tabIndex);
+                lineDiv.toggleClass('is-separated', row.separated);
+                return lineDiv;
             }
+            case 'context':
+                return this.createContextLine(row.line, row.separated);
+        }
+    }
 
-            // Create file group header with sequential tabindex (header gets tabIndex, button gets tabIndex+1)
-            this.createFileGroupHeader(fileDiv, filePath, fileResults, tabIndex);
-            tabIndex += 2; // Increment by 2 since header uses 2 tabindex values (header + button)
+    /**
+     * Creates a dimmed line of context shown around matches
+     * @param line - The line of the note
+     * @param separated - Whether the line starts a new block of lines
+     * @returns The created element
+     */
+    private createContextLine(line: ContextLine, separated: boolean): HTMLDivElement {
+        const contextDiv = createDiv({ cls: 'context-line', attr: { 'aria-label': `line ${line.line + 1}` } });
+        contextDiv.toggleClass('is-separated', separated);
+        this.addLineNumber(contextDiv, line.line);
+        contextDiv.createSpan({ cls: 'context-text', text: line.text });
+        return contextDiv;
+    }
 
-            // Create individual result lines with sequential tabindex (snippet gets tabIndex, button gets tabIndex+1)
-            fileResults.forEach((res) => {
-                const lineDiv = this.createResultLine(fileDiv, res, replaceText, globalIndex, searchOptions, tabIndex);
-                lineElements.push(lineDiv);
-                globalIndex++;
-                tabIndex += 2; // Increment by 2 since each line uses 2 tabindex values (snippet + button)
-            });
+    /**
+     * Gets whether the group of a file is collapsed
+     * Priority order: session state (this session's user interactions), then persisted state
+     * (if rememberFileGroupStates is enabled), then collapsed by default.
+     */
+    private isFileCollapsed(filePath: string): boolean {
+        if (this.sessionFileGroupStates.hasOwnProperty(filePath)) {
+            return this.sessionFileGroupStates[filePath];
+        }
+        if (this.plugin.settings.rememberFileGroupStates && this.plugin.settings.fileGroupStates[filePath] !== undefined) {
+            return this.plugin.settings.fileGroupStates[filePath];
+        }
+        return true;
+    }
 
-            fileCount += 1;
-        });
+    /**
+     * Collapses or expands the group of a file
+     * The state is tracked for the session (always) and optionally persisted to disk.
+     */
+    private setFileCollapsed(filePath: string, collapsed: boolean): void {
+        this.sessionFileGroupStates[filePath] = collapsed;
+        if (this.plugin.settings.rememberFileGroupStates) {
+            this.plugin.settings.fileGroupStates[filePath] = collapsed;
+            this.plugin.saveSettings(); // Persist to disk
+        }
+    }
 
-        // Update UI elements with current results
-        this.updateResultsUI(results.length, fileCount, totalResults, isLimited);
+    /**
+     * Shows the line of a result: expands its file group when collapsed and scrolls the line into view
+     * Used by the next/previous match commands, which move through results outside the list.
+     * @param index - Index of the result in the view's results
+     * @returns The snippet of the line (focusable), or null when the result is not listed
+     */
+    revealResult(index: number): HTMLElement | null {
+        const result = this.shownResults[index];
+        if (!this.list || !result) return null;
+
+        if (this.isFileCollapsed(result.file.path)) {
+            this.setFileCollapsed(result.file.path, false);
+            this.refreshRows();
+            this.updateToolbarButtonState();
+        }
 
-        // Clean up saved states for files that no longer exist (run periodically)
-        this.cleanupFileGroupStates(Object.keys(resultsByFile));
+        const position = this.list.getRows().findIndex(row => row.kind === 'line' && row.index === index);
+        return this.list.revealRow(position)?.querySelector<HTMLElement>('.snippet') ?? null;
+    }
 
-        return lineElements;
+    /**
+     * Lists the rows again after file groups were collapsed or expanded
+     */
+    private refreshRows(): void {
+        this.list?.setRows(buildResultRows(this.shownResults, filePath => this.isFileCollapsed(filePath)));
     }
 
     /**
-     * Creates the header section for a file group
-     * @param fileDiv - Container element for the file group
+     * Creates the header row of a file group
      * @param filePath - Path of the file
      * @param fileResults - Results for this file
+     * @param tabIndex - Tabindex of the header (its replace button gets the next one)
+     * @returns The header element
      */
     private createFileGroupHeader(
-        fileDiv: HTMLElement,
         filePath: string,
         fileResults: SearchResult[],
         tabIndex: number
-    ): void {
-        const header = fileDiv.createDiv('file-group-header');
+    ): HTMLElement {
+        const header = createDiv('file-group-header');
+        const displayPath = this.getDisplayPath(filePath);
 
         // Make the entire header focusable and clickable for expand/collapse
         header.setAttribute('tabindex', tabIndex.toString());
         header.setAttribute('role', 'button');
-        header.setAttribute('aria-label', `Toggle ${filePath.replace('.md', '')} section`);
+        header.setAttribute('aria-label', `Toggle ${displayPath} section`);
 
-        // File name (without .md extension) - no longer focusable itself
+        // File path (see getDisplayPath) - no longer focusable itself
         const fileGroupHeading = header.createSpan({
             cls: 'file-group-heading',
-            text: filePath.replace('.md', '')
+            text: displayPath
         });
 
         // Display count of results in this file
@@ -163,7 +341,7 @@ export class UIRenderer {
         const replaceAllFileBtn = header.createEl('button', {
             cls: 'clickable-icon',
             attr: {
-                'aria-label': `Replace all in "${filePath.replace('.md', '')}"`,
+                'aria-label': `Replace all in "${displayPath}"`,
                 'data-tooltip-position': 'top',
                 'tabindex': (tabIndex + 1).toString()
             }
@@ -180,27 +358,11 @@ export class UIRenderer {
                 return;
             }
 
-            const group = header.closest('.file-group') as HTMLElement;
-            if (group) {
-                const isCurrentlyCollapsed = group.classList.contains('collapsed');
-                group.classList.toggle('collapsed');
-
-                // Track the new state in session (always) and optionally persist to disk
-                const filePath = group.getAttribute('data-file-path');
-                if (filePath) {
-                    // Always save to session state (persists during current view session)
-                    this.sessionFileGroupStates[filePath] = !isCurrentlyCollapsed;
-
-                    // Optionally save to disk if persistence enabled
-                    if (this.plugin.settings.rememberFileGroupStates) {
-                        this.plugin.settings.fileGroupStates[filePath] = !isCurrentlyCollapsed;
-                        this.plugin.saveSettings(); // Persist to disk
-                    }
-                }
+            this.setFileCollapsed(filePath, !this.isFileCollapsed(filePath));
 
-                // Update global toolbar button state based on all file groups
-                this.updateToolbarButtonState();
-            }
+            // Show or hide the group's matches, then update the global toolbar button
+            this.refreshRows();
+            this.updateToolbarButtonState();
         });
 
         // Handle keyboard navigation for header
@@ -211,26 +373,48 @@ export class UIRenderer {
                 header.click();
             }
         });
+
+        return header;
+    }
+
+    /**
+     * Gets the path shown for a file in its group header
+     * Notes lose their .md extension unless "Show file extensions" is on; other files keep theirs,
+     * so they can be told apart from notes.
+     */
+    private getDisplayPath(filePath: string): string {
+        return this.plugin.settings.showFileExtensions ? filePath : filePath.replace(/\.md$/, '');
+    }
+
+    /**
+     * Adds the line number gutter to a row when "Show line numbers" is on
+     * @param row - Result or context row
+     * @param line - Zero-based line number
+     */
+    private addLineNumber(row: HTMLElement, line: number): void {
+        if (!this.plugin.settings.showLineNumbers) return;
+        row.createSpan({ cls: 'line-number', text: (line + 1).toString() });
     }
 
     /**
      * Creates a UI element for a single search result line
-     * @param container - Parent container element
      * @param result - The search result to render
      * @param replaceText - Current replacement text for preview
      * @param index - Global index of this result
      * @param searchOptions - Current search options (for regex replacement preview)
+     * @param tabIndex - Tabindex of the snippet (its replace button gets the next one)
      * @returns The created line element
      */
     private createResultLine(
-        container: HTMLElement,
         result: SearchResult,
         replaceText: string,
         index: number,
-        searchOptions: { matchCase: boolean; wholeWord: boolean; useRegex: boolean },
+        searchOptions: SearchOptions,
         tabIndex: number
     ): HTMLDivElement {
-        const lineDiv = container.createDiv({ cls: 'line-result' });
+        const lineDiv = createDiv({ cls: 'line-result' });
+        lineDiv.setAttribute('data-result-index', index.toString());
+        lineDiv.toggleClass('selected', this.isSelected(index));
 
         // Set accessibility label with line/column info
         if (typeof result.col === "number" && result.col >= 0) {
@@ -239,6 +423,7 @@ export class UIRenderer {
             lineDiv.setAttr('aria-label', `line ${result.line + 1}`);
         }
         lineDiv.setAttr('data-tooltip-position', 'top');
+        this.addLineNumber(lineDiv, result.line);
 
         // Create clickable text snippet
         const span = lineDiv.createSpan('snippet');
@@ -260,7 +445,18 @@ export class UIRenderer {
         span.setAttribute('data-match-text', result.matchText);
 
         // Highlight the matched text within the line context
-        this.highlightMatchText(span, result.content, result.matchText, result.col, replaceText, result.pattern, searchOptions);
+        const tokenContext = { file: result.file, line: result.line, counter: index };
+        const outcome = this.functionPreview?.outcomes.get(result);
+        if (result.property) {
+            // Properties mode: a `key: value` row, highlighting within the value only
+            lineDiv.addClass('is-property');
+            lineDiv.setAttr('aria-label', `${result.property.key} property, line ${result.line + 1}`);
+            span.createSpan({ cls: 'property-key', text: `${result.property.key}: ` });
+            this.highlightMatchText(span.createSpan('property-value'), result.property.value, result.matchText,
+                (result.col ?? 0) - propertyValueOffset(result.property), replaceText, result.pattern, searchOptions, tokenContext, outcome);
+        } else {
+            this.highlightMatchText(span, result.content, result.matchText, result.col, replaceText, result.pattern, searchOptions, tokenContext, outcome);
+        }
 
         // "Replace this match" button
         const replaceBtn = lineDiv.createEl('button', {
@@ -288,6 +484,8 @@ export class UIRenderer {
      * @param replaceText - Current replacement text for preview
      * @param pattern - Original search pattern
      * @param searchOptions - Current search options (for regex handling)
+     * @param tokenContext - Where the replacement lands, for computed tokens like ${counter}
+     * @param outcome - Function mode: what the replacement function returned for this match, once evaluated
      */
     private highlightMatchText(
         container: HTMLElement,
@@ -296,7 +494,9 @@ export class UIRenderer {
         col: number | undefined,
         replaceText: string,
         pattern: string,
-        searchOptions: { matchCase: boolean; wholeWord: boolean; useRegex: boolean; multiline?: boolean }
+        searchOptions: SearchOptions,
+        tokenContext: ReplacementTokenContext,
+        outcome?: ReplacementFunctionOutcome
     ): void {
         container.empty(); // Clear any existing content
 
@@ -329,7 +529,10 @@ export class UIRenderer {
             if (replaceText) {
                 try {
                     let preview = '';
-                    if (searchOptions.useRegex) {
+                    if (searchOptions.useFunction) {
+                        // Evaluated in the worker (see scheduleFunctionPreview); nothing is shown until then
+                        preview = this.getFunctionPreview(container, outcome) ?? matchText;
+                    } else if (searchOptions.useRegex) {
                         // For multiline regex, we need to test against the full matchText
                         const regex = this.searchEngine.buildSearchRegex(pattern, searchOptions);
                         regex.lastIndex = 0;
@@ -337,12 +540,15 @@ export class UIRenderer {
                         // Test the replacement on the full multiline match
                         const fakeMatch = regex.exec(matchText);
                         if (fakeMatch) {
-                            preview = this.expandReplacementString(replaceText, fakeMatch);
+                            preview = this.expandReplacementString(replaceText, fakeMatch, matchText, tokenContext);
                         } else {
                             preview = replaceText;
                         }
                     } else {
-                        preview = replaceText;
+                        preview = expandComputedTokens(replaceText, tokenContext);
+                    }
+                    if (searchOptions.preserveCase) {
+                        preview = applyCaseStyle(preview, matchText);
                     }
 
                     // Only show preview if it's different and not empty
@@ -374,11 +580,11 @@ export class UIRenderer {
         }
 
         // Original single-line logic
-        // Find the match position within the line
-        const matchIndex = lineText.toLowerCase().indexOf(
-            matchText.toLowerCase(),
-            col ?? 0
-        );
+        // Find the match position within the line: the match text is the original span at its column
+        // (also for ignore-diacritics and fuzzy matches, which differ from the query)
+        const matchIndex = col !== undefined && lineText.startsWith(matchText, col)
+            ? col
+            : lineText.toLowerCase().indexOf(matchText.toLowerCase(), col ?? 0);
 
         if (matchIndex === -1) {
             // Match not found - just display the line as-is
@@ -409,28 +615,41 @@ export class UIRenderer {
         container.createEl("mark", { text: mid });
 
         // === REPLACEMENT PREVIEW FEATURE ===
-        // Show what the replacement will look like if replacement text is provided
-        if (replaceText) {
+        // Show what the replacement will look like if replacement text (or a mapping table) is provided
+        if (replaceText || searchOptions.mapping) {
             try {
                 let preview: string;
 
-                if (searchOptions.useRegex) {
+                if (searchOptions.mapping) {
+                    // Each matched term is replaced with its value from the mapping table
+                    preview = lookupMapping(searchOptions.mapping, mid, searchOptions.matchCase) ?? mid;
+                } else if (searchOptions.useFunction) {
+                    // Evaluated in the worker (see scheduleFunctionPreview); nothing is shown until then
+                    preview = this.getFunctionPreview(container, outcome) ?? mid;
+                } else if (searchOptions.useRegex) {
                     // For regex mode, we need to properly expand capture groups
                     const regex = this.searchEngine.buildSearchRegex(pattern, searchOptions);
                     regex.lastIndex = 0; // Reset regex state
 
-                    // Test the replacement on just the matched text
-                    const fakeMatch = regex.exec(mid);
+                    // Re-run the regex over the whole line, as the replacement engine does, so
+                    // lookarounds and $`/$' see the same surrounding text; fall back to the matched text
+                    const lineMatch = this.findMatchAt(regex, lineText, matchIndex);
+                    const fakeMatch = lineMatch ?? regex.exec(mid);
                     if (fakeMatch) {
                         // Expand regex replacement string with capture groups
-                        preview = this.expandReplacementString(replaceText, fakeMatch);
+                        preview = this.expandReplacementString(replaceText, fakeMatch, lineMatch ? lineText : mid, tokenContext);
                     } else {
                         // Fallback if regex doesn't match (shouldn't happen)
                         preview = replaceText;
                     }
                 } else {
-                    // For simple text search, replacement is literal
-                    preview = replaceText;
+                    // For simple text search, replacement is literal apart from computed tokens
+                    preview = expandComputedTokens(replaceText, tokenContext);
+                }
+
+                // Adapt the preview to the match's casing, like the replacement engine does
+                if (searchOptions.preserveCase) {
+                    preview = applyCaseStyle(preview, mid);
                 }
 
                 // Only show preview if it's different from the original
@@ -517,11 +736,11 @@ export class UIRenderer {
      * Updates the toolbar button state based on current file group states
      */
     private updateToolbarButtonState(): void {
-        const fileGroups = this.elements.resultsContainer?.querySelectorAll(".file-group");
-        if (!fileGroups || fileGroups.length === 0) return;
+        const headers = this.list?.getRows().filter(row => row.kind === 'header') ?? [];
+        if (headers.length === 0) return;
 
         // Check if all groups are collapsed
-        const allCollapsed = Array.from(fileGroups).every(group => group.classList.contains('collapsed'));
+        const allCollapsed = headers.every(row => row.kind === 'header' && row.collapsed);
 
         if (this.elements.toolbarBtn) {
             if (allCollapsed) {
@@ -556,41 +775,22 @@ export class UIRenderer {
      * **Performance:**
      * - Batch state updates before saving to disk
      * - Single saveSettings() call after all changes
-     * - Efficient DOM manipulation with classList operations
+     * - Only the rows in view are rendered again
      */
     toggleExpandCollapseAll(): void {
         const targetState = this.isCollapsed; // If currently collapsed, we want to expand (false), and vice versa
 
-        this.elements.resultsContainer?.querySelectorAll(".file-group").forEach(group => {
-            const htmlGroup = group as HTMLElement;
-            const filePath = htmlGroup.getAttribute('data-file-path');
-
-            if (targetState) {
-                // Currently collapsed, so expand all
-                htmlGroup.classList.remove("collapsed");
-                if (filePath) {
-                    // Always save to session state
-                    this.sessionFileGroupStates[filePath] = false; // false = expanded
+        const filePaths = new Set(this.shownResults.map(result => result.file.path));
+        filePaths.forEach(filePath => {
+            // Currently collapsed, so expand all (false = expanded); otherwise collapse all
+            this.sessionFileGroupStates[filePath] = !targetState;
 
-                    // Optionally persist to disk
-                    if (this.plugin.settings.rememberFileGroupStates) {
-                        this.plugin.settings.fileGroupStates[filePath] = false;
-                    }
-                }
-            } else {
-                // Currently expanded, so collapse all
-                htmlGroup.classList.add("collapsed");
-                if (filePath) {
-                    // Always save to session state
-                    this.sessionFileGroupStates[filePath] = true; // true = collapsed
-
-                    // Optionally persist to disk
-                    if (this.plugin.settings.rememberFileGroupStates) {
-                        this.plugin.settings.fileGroupStates[filePath] = true;
-                    }
-                }
+            // Optionally persist to disk
+            if (this.plugin.settings.rememberFileGroupStates) {
+                this.plugin.settings.fileGroupStates[filePath] = !targetState;
             }
         });
+        this.refreshRows();
 
         // Save all state changes to disk (if persistence enabled)
         if (this.plugin.settings.rememberFileGroupStates) {
@@ -621,7 +821,10 @@ export class UIRenderer {
      * - Clear All button clicked
      */
     clearResults(): void {
+        this.removeList();
         this.elements.resultsContainer.empty();
+        this.stream = null;
+        this.shownResults = [];
         this.updateResultsUI(0, 0);
     }
 
@@ -675,27 +878,160 @@ export class UIRenderer {
 
     /**
      * Expands a replacement string with regex capture groups
-     * @param replaceText - The replacement pattern (e.g., "🚧🚧$1🚧🚧")
+     * Shares its implementation with the replacement engine so the preview matches what gets written.
+     * @param replaceText - The replacement pattern (e.g., "🚧🚧$1🚧🚧" or "\U$<word>")
      * @param match - The regex match result containing capture groups
+     * @param input - The text the match was found in
+     * @param tokenContext - Where the replacement lands, for computed tokens
      * @returns The expanded replacement string
      */
-    private expandReplacementString(replaceText: string, match: RegExpExecArray): string {
-        let result = replaceText;
+    private expandReplacementString(
+        replaceText: string,
+        match: RegExpExecArray,
+        input: string,
+        tokenContext: ReplacementTokenContext
+    ): string {
+        return expandReplacementTemplate(replaceText, match, input, token => resolveComputedToken(token, tokenContext));
+    }
 
-        // Replace $& with the full match
-        result = result.replace(/\$&/g, match[0]);
+    /**
+     * Gets the replacement function's result for a match, showing its error in place of the preview on failure
+     * @param container - Element the preview is rendered into
+     * @param outcome - What the function returned for the match (undefined while it is being evaluated)
+     * @returns The replacement text, or null when there is none to show
+     */
+    private getFunctionPreview(container: HTMLElement, outcome: ReplacementFunctionOutcome | undefined): string | null {
+        if (!outcome) return null;
+        if ('value' in outcome) return outcome.value;
+        container.createSpan({ cls: 'replace-preview-error', text: outcome.error, attr: { 'aria-label': outcome.error } });
+        return null;
+    }
 
-        // Replace $n with capture groups (where n is 1-99)
-        for (let i = 1; i < match.length; i++) {
-            const captureGroup = match[i] || ''; // Use empty string if capture group is undefined
-            const regex = new RegExp(`\\$${i}`, 'g');
-            result = result.replace(regex, captureGroup);
+    /**
+     * Runs the replacement function for the listed results once typing pauses, then shows the results
+     * The list renders on every keystroke, and a call cannot be interrupted on the main thread, so the
+     * expression runs in a worker (see ReplacementFunctionClient). Results evaluated with a different
+     * replacement text or options are dropped, also when they arrive after the change.
+     * @param replaceText - The replacement text (the expression in function mode)
+     * @param searchOptions - Search options of the listed results
+     */
+    private scheduleFunctionPreview(replaceText: string, searchOptions: SearchOptions): void {
+        if (this.functionPreviewTimer !== null) window.clearTimeout(this.functionPreviewTimer);
+        this.functionPreviewTimer = null;
+        if (!replaceText || !searchOptions.useFunction || searchOptions.mapping) {
+            this.functionPreview = null;
+            return;
         }
 
-        // Replace $$ with literal $
-        result = result.replace(/\$\$/g, '$');
+        // Keep the outcomes of results still listed while the expression and options are the same
+        const key = JSON.stringify([replaceText, searchOptions]);
+        if (this.functionPreview?.key !== key) {
+            this.functionPreview = { key, outcomes: new Map() };
+        } else {
+            const listed = new Set(this.shownResults);
+            for (const result of Array.from(this.functionPreview.outcomes.keys())) {
+                if (!listed.has(result)) this.functionPreview.outcomes.delete(result);
+            }
+        }
+        const preview = this.functionPreview;
 
-        return result;
+        this.functionPreviewTimer = window.setTimeout(() => {
+            this.functionPreviewTimer = null;
+            void this.runFunctionPreview(preview, replaceText, searchOptions);
+        }, FUNCTION_PREVIEW_DELAY);
+    }
+
+    /**
+     * Evaluates the replacement function for the listed results that have no outcome yet
+     */
+    private async runFunctionPreview(preview: FunctionPreview, replaceText: string, searchOptions: SearchOptions): Promise<void> {
+        const pending: SearchResult[] = [];
+        const calls: ReplacementFunctionCall[] = [];
+        this.shownResults.forEach((result, index) => {
+            if (preview.outcomes.has(result)) return;
+            const call = this.createFunctionCall(result, index, searchOptions);
+            if (!call) return;
+            pending.push(result);
+            calls.push(call);
+        });
+        if (calls.length === 0) return;
+
+        let outcomes: ReplacementFunctionOutcome[];
+        try {
+            outcomes = await this.functionClient.evaluate(replaceText, calls);
+        } catch (error) {
+            // The expression does not compile: every row says why
+            const message = error instanceof Error ? error.message : String(error);
+            outcomes = calls.map(() => ({ error: message }));
+        }
+
+        // The replacement text or options changed, or the view closed, while the function ran
+        if (this.functionPreview !== preview) return;
+        pending.forEach((result, i) => preview.outcomes.set(result, outcomes[i]));
+        this.refreshRows();
+    }
+
+    /**
+     * Describes the call of the replacement function for a listed result, with the same match,
+     * groups and input the replacement engine passes
+     * @param result - The result
+     * @param index - Position of the result in the list
+     * @param searchOptions - Search options of the results
+     * @returns The call, or null when the match cannot be found in its line
+     */
+    private createFunctionCall(result: SearchResult, index: number, searchOptions: SearchOptions): ReplacementFunctionCall | null {
+        const lineText = result.property ? result.property.value : result.content;
+        const col = result.property ? (result.col ?? 0) - propertyValueOffset(result.property) : result.col;
+        let match: RegExpExecArray | null = null;
+        let input = lineText;
+
+        if (searchOptions.multiline === true && searchOptions.useRegex && result.matchText.includes('\n')) {
+            const regex = this.searchEngine.buildSearchRegex(result.pattern, searchOptions);
+            regex.lastIndex = 0;
+            match = regex.exec(result.matchText);
+            input = result.matchText;
+        } else {
+            const matchIndex = col !== undefined && lineText.startsWith(result.matchText, col)
+                ? col
+                : lineText.toLowerCase().indexOf(result.matchText.toLowerCase(), col ?? 0);
+            if (matchIndex === -1) return null;
+            if (searchOptions.useRegex) {
+                match = this.findMatchAt(this.searchEngine.buildSearchRegex(result.pattern, searchOptions), lineText, matchIndex);
+            }
+            match = match ?? Object.assign([lineText.slice(matchIndex, matchIndex + result.matchText.length)], {
+                index: matchIndex,
+                input: lineText
+            }) as RegExpExecArray;
+        }
+        if (!match) return null;
+
+        return toReplacementFunctionCall(match, {
+            file: result.file.path,
+            line: result.line,
+            index,
+            offset: match.index,
+            input
+        });
+    }
+
+    /**
+     * Finds the regex match that starts at a given position in a line
+     * @param regex - Global search regex
+     * @param lineText - Full line text
+     * @param index - Start position of the wanted match
+     * @returns The match, or null when none starts there
+     */
+    private findMatchAt(regex: RegExp, lineText: string, index: number): RegExpExecArray | null {
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        let found: RegExpExecArray | null = null;
+        while ((match = regex.exec(lineText)) !== null) {
+            if (match.index === index) found = match;
+            if (match.index >= index || !regex.global) break;
+            if (match[0].length === 0) regex.lastIndex++;
+        }
+        regex.lastIndex = 0; // Leave the regex ready for the fallback
+        return found;
     }
 
     /**
@@ -719,6 +1055,13 @@ export class UIRenderer {
      * - Allows proper garbage collection
      */
     dispose(): void {
+        this.removeList();
+        this.shownResults = [];
+        if (this.functionPreviewTimer !== null) window.clearTimeout(this.functionPreviewTimer);
+        this.functionPreviewTimer = null;
+        this.functionPreview = null;
+        this.functionClient.dispose(false);
+
         // Clear DOM references (elements are cleaned by Obsidian)
         this.elements = null!;
         this.searchEngine = null!;
@@ -1,8 +1,8 @@
-import { debounce } from 'obsidian';
-import { Logger } from '../../utils';
+import { debounce, Notice } from 'obsidian';
+import { Logger, parseContextLines } from '../../utils';
 import VaultFindReplacePlugin from '../../main';
-import { FindReplaceElements, SearchOptions, ViewState, SessionFilters } from '../../types';
-import { SearchEngine } from '../../core';
+import { FindReplaceElements, SearchOptions, SearchProgress, SearchResult, SearchRunOptions, ViewState, SessionFilters, ReplacementMapping, MarkdownScope, ResolvedSearchScope, SearchScope } from '../../types';
+import { SearchEngine, withMapping, withApproximateMatching, usesSearchRegex, buildSearchPattern, findNestedQuantifier, resolveSearchScope, SearchScopeError, RegexHazardError } from '../../core';
 
 /**
  * SearchController manages all search operations and state
@@ -17,11 +17,19 @@ export class SearchController {
     private renderResultsCallback: (searchOptions: SearchOptions) => void;
     private clearResultsCallback: () => void;
     private getSessionFiltersCallback: () => SessionFilters;
+    private streamResultsCallback?: (results: SearchResult[], progress: SearchProgress, searchOptions: SearchOptions) => void;
 
     // Search state management
     private currentSearchController: AbortController | null = null;
+    private stoppedSearchController: AbortController | null = null; // Search stopped with the stop button (not superseded)
     private isSearching: boolean = false;
 
+    // Last pattern warned about for nested quantifiers, so auto-search warns once per pattern
+    private lastRiskyPattern: string | null = null;
+
+    // Mapping table mode: the search input shows the table's path while active
+    private mapping: ReplacementMapping | null = null;
+
     constructor(
         plugin: VaultFindReplacePlugin,
         elements: FindReplaceElements,
@@ -29,7 +37,8 @@ export class SearchController {
         state: ViewState,
         renderResultsCallback: (searchOptions: SearchOptions) => void,
         clearResultsCallback: () => void,
-        getSessionFiltersCallback: () => SessionFilters
+        getSessionFiltersCallback: () => SessionFilters,
+        streamResultsCallback?: (results: SearchResult[], progress: SearchProgress, searchOptions: SearchOptions) => void
     ) {
         this.plugin = plugin;
         this.logger = Logger.create(plugin, 'SearchController');
@@ -39,6 +48,7 @@ export class SearchController {
         this.renderResultsCallback = renderResultsCallback;
         this.clearResultsCallback = clearResultsCallback;
         this.getSessionFiltersCallback = getSessionFiltersCallback;
+        this.streamResultsCallback = streamResultsCallback;
     }
 
     /**
@@ -49,6 +59,42 @@ export class SearchController {
         return this.isSearching;
     }
 
+    /**
+     * Gets the active mapping table
+     * @returns {ReplacementMapping | null} The mapping table, or null when searching normally
+     */
+    getMapping(): ReplacementMapping | null {
+        return this.mapping;
+    }
+
+    /**
+     * Switches to mapping table mode: searches find every "old" term of the table and
+     * replacements use each term's "new" value instead of the replace input
+     * Editing or clearing the search input switches back to a normal search.
+     *
+     * @param {ReplacementMapping} mapping - The mapping table to search with
+     */
+    setMapping(mapping: ReplacementMapping): void {
+        this.mapping = mapping;
+        this.elements.searchInput.value = mapping.source;
+        this.elements.searchInput.title = `Mapping table: ${mapping.entries.length} terms from ${mapping.source}`;
+        this.elements.replaceInput.disabled = true;
+        this.elements.replaceInput.title = 'Replacements come from the mapping table';
+        this.logger.debug(`Mapping table mode: ${mapping.entries.length} terms from ${mapping.source}`);
+    }
+
+    /**
+     * Leaves mapping table mode
+     */
+    clearMapping(): void {
+        if (!this.mapping) return;
+        this.mapping = null;
+        this.elements.searchInput.title = '';
+        this.elements.replaceInput.disabled = false;
+        this.elements.replaceInput.title = '';
+        this.logger.debug('Mapping table mode cleared');
+    }
+
     /**
      * Sets up basic navigation with Enter key search functionality
      * Attaches keyboard event listeners to search and replace inputs for Enter key handling.
@@ -60,6 +106,13 @@ export class SearchController {
      * - Enter/Space on toggle buttons: activates the toggle
      */
     setupBasicNavigation(): void {
+        // Typing over (or clearing) the mapping table path ends mapping table mode
+        this.elements.searchInput.addEventListener('input', () => {
+            if (this.mapping && this.elements.searchInput.value !== this.mapping.source) {
+                this.clearMapping();
+            }
+        });
+
         // Set up Enter key handler for search input
         this.elements.searchInput.addEventListener('keydown', async (evt) => {
             if (evt.key === 'Enter') {
@@ -99,7 +152,13 @@ export class SearchController {
             this.elements.matchCaseCheckbox,
             this.elements.wholeWordCheckbox,
             this.elements.regexCheckbox,
-            this.elements.multilineCheckbox
+            this.elements.multilineCheckbox,
+            this.elements.preserveCaseCheckbox,
+            this.elements.functionCheckbox,
+            this.elements.propertiesCheckbox,
+            this.elements.queryCheckbox,
+            this.elements.diacriticsCheckbox,
+            this.elements.fuzzyCheckbox
         ];
 
         toggleButtons.forEach(btn => {
@@ -151,6 +210,7 @@ export class SearchController {
      *
      * @remarks
      * **Search Serialization:** Cancels any in-progress search before starting new one
+     * **Stopping:** A search stopped with stopSearch() renders its partial results as cancelled
      * **Empty Query Handling:** Clears results when query is empty
      * **Error Handling:** Shows user notifications for timeouts and failures
      * **Result Limiting:** Enforces max results setting with user notification
@@ -175,6 +235,9 @@ export class SearchController {
         this.searchEngine.clearCache();
         this.logger.debug(`[${callId}] Cleared SearchEngine cache`);
 
+        // A persistent match highlight lasts until the next search
+        this.plugin.matchHighlighter?.clear();
+
         // WAIT for any previous search to fully complete before starting new one
         if (this.isSearching) {
             this.logger.debug(`[${callId}] Concurrent search detected, waiting for completion...`);
@@ -190,10 +253,12 @@ export class SearchController {
         }
 
         // NOW we can safely start the new search
-        this.currentSearchController = new AbortController();
+        const controller = new AbortController();
+        this.currentSearchController = controller;
         const searchId = callId;
         const timerName = `performSearch-${searchId}`;
         this.isSearching = true;
+        this.elements.stopBtn?.classList.remove('hidden');
 
         this.logger.debug(`[${searchId}] Search lock acquired, starting execution`);
         this.logger.time(timerName);
@@ -215,13 +280,18 @@ export class SearchController {
             }
 
             // Check if search was cancelled
-            if (this.currentSearchController?.signal.aborted) {
+            if (controller.signal.aborted) {
                 this.logger.debug(`[${searchId}] Search cancelled before starting`);
                 return;
             }
 
-            // Validate regex if regex mode is enabled (ONLY validation here, not in SearchEngine)
-            if (searchOptions.useRegex) {
+            // Validate the query syntax (and each term's regex) in query mode
+            if (searchOptions.useQuery) {
+                const valid = this.searchEngine.validateSearchQuery(query, searchOptions, error =>
+                    this.logger.error(`Query syntax error at column ${error.position + 1}: ${error.message}`, undefined, true));
+                if (!valid) return;
+            } else if (searchOptions.useRegex) {
+                // Validate regex if regex mode is enabled (ONLY validation here, not in SearchEngine)
                 try {
                     new RegExp(query.trim());
                     this.logger.debug(`[${searchId}] Regex validation passed`);
@@ -231,8 +301,24 @@ export class SearchController {
                 }
             }
 
+            this.warnAboutRiskyPattern(query, searchOptions);
+
+            // Resolve the search scope against the workspace as it is now (active note, selection)
+            let scope: ResolvedSearchScope;
+            try {
+                scope = resolveSearchScope(this.plugin.app, this.elements.searchScopeSelect?.value as SearchScope | undefined);
+            } catch (error) {
+                if (!(error instanceof SearchScopeError)) throw error;
+                this.logger.warn(`[${searchId}] Search scope unavailable: ${error.message}`);
+                new Notice(error.message);
+                this.clearResultsCallback();
+                this.state.results = [];
+                return;
+            }
+            this.state.searchScope = scope;
+
             // Check if search was cancelled before performing search
-            if (this.currentSearchController?.signal.aborted) {
+            if (controller.signal.aborted) {
                 this.logger.debug(`[${searchId}] Search cancelled before execution`);
                 return;
             }
@@ -240,17 +326,34 @@ export class SearchController {
             this.logger.debug(`[${searchId}] Starting SearchEngine.performSearch`);
             // Get session filters for this search
             const sessionFilters = this.getSessionFiltersCallback();
-            // Perform the actual search with session filters
-            const results = await this.searchEngine.performSearch(query, searchOptions, sessionFilters);
+            // Show results as batches of files complete; the final render below shows them sorted
+            let cancelled: SearchProgress | undefined;
+            const run: SearchRunOptions = {
+                signal: controller.signal,
+                contextLines: parseContextLines(this.elements.contextLinesInput?.value ?? ''),
+                onResults: (batch, progress) => {
+                    if (progress.cancelled) {
+                        cancelled = progress;
+                    } else if (this.streamResultsCallback) {
+                        this.streamResults(batch, progress, searchOptions);
+                    }
+                }
+            };
+            // Perform the actual search with session filters, inside the scope
+            const results = await this.searchEngine.performSearch(query, searchOptions, sessionFilters, run, scope);
             this.logger.debug(`[${searchId}] SearchEngine.performSearch completed: ${results.length} results`);
 
-            // Check if search was cancelled after completion
-            if (this.currentSearchController?.signal.aborted) {
+            // A superseded search leaves the UI to the new one; a stopped one shows its partial results
+            if (controller.signal.aborted && this.stoppedSearchController !== controller) {
                 this.logger.debug(`[${searchId}] Search cancelled after completion, not updating UI`);
                 return;
             }
 
-            this.logger.info(`[${searchId}] Search completed: found ${results.length} results for "${query}"`);
+            if (cancelled) {
+                this.logger.info(`[${searchId}] Search stopped: found ${results.length} results in ${cancelled.scanned} of ${cancelled.total} files`);
+            } else {
+                this.logger.info(`[${searchId}] Search completed: found ${results.length} results for "${query}"`);
+            }
 
             // Apply consistent result limiting based on settings
             const maxResults = this.plugin.settings.maxResults;
@@ -267,6 +370,8 @@ export class SearchController {
             this.state.results = finalResults;
             this.state.totalResults = results.length; // Store total for UI feedback
             this.state.isLimited = isLimited;
+            this.state.cancelled = cancelled;
+            this.state.timedOutFiles = this.searchEngine.getTimedOutFiles();
             this.renderResultsCallback(searchOptions);
 
             this.logger.timeEnd(timerName);
@@ -277,6 +382,10 @@ export class SearchController {
                 this.logger.warn(`[${searchId}] Search was CANCELLED (AbortError)`);
                 // Notify user when search is cancelled (helpful for long-running searches)
                 this.logger.error('Search cancelled. Starting new search...', undefined, true);
+            } else if (error instanceof RegexHazardError) {
+                // The search engine refuses the pattern outright, so this is the only notice about it
+                this.logger.warn(`[${searchId}] Pattern refused: ${error.message}`);
+                new Notice(error.message);
             } else if (error instanceof Error && error.message.includes('timeout')) {
                 this.logger.error(`[${searchId}] Search TIMEOUT`, error);
                 // Show user-friendly timeout message
@@ -284,6 +393,10 @@ export class SearchController {
             } else {
                 this.logger.error(`[${searchId}] Search operation FAILED`, error, true);
             }
+            // Results streamed so far are incomplete, so don't leave them showing
+            if (this.streamResultsCallback && !controller.signal.aborted) {
+                this.clearResultsCallback();
+            }
             // Safe timeEnd - only call if timer exists
             try {
                 this.logger.timeEnd(timerName);
@@ -295,27 +408,83 @@ export class SearchController {
             // CRITICAL: Always reset the search state
             this.isSearching = false;
             this.currentSearchController = null;
+            if (this.stoppedSearchController === controller) this.stoppedSearchController = null;
+            this.elements.stopBtn?.classList.add('hidden');
             this.logger.debug(`[${searchId}] ===== SEARCH LOCK RELEASED =====`);
         }
     }
 
+
+    /**
+     * Warns when a regex has nested quantifiers, which can backtrack catastrophically
+     * The search still runs in the worker: files that take too long to match are skipped. Searches
+     * matched on the main thread refuse such a regex instead (see SearchEngine.performSearch).
+     * @param {string} query - The search query
+     * @param {SearchOptions} searchOptions - Frozen options of the search
+     */
+    private warnAboutRiskyPattern(query: string, searchOptions: SearchOptions): void {
+        if (!searchOptions.useRegex || !usesSearchRegex(searchOptions) || this.searchEngine.matchesInThread(searchOptions)) return;
+
+        const nested = findNestedQuantifier(buildSearchPattern(query.trim(), searchOptions));
+        if (!nested || nested === this.lastRiskyPattern) return;
+
+        this.lastRiskyPattern = nested;
+        this.logger.warn(`Pattern has nested quantifiers: ${nested}`);
+        new Notice(`"${nested}" repeats a repetition and may be very slow. Files that take too long to search are skipped.`);
+    }
+
+    /**
+     * Adds a batch of streamed results to the view state and shows them
+     * The batch is merged in sorted order and the max results setting applied after sorting, so the
+     * results shown are always the first of the final list; the final render reports the total.
+     * @param {SearchResult[]} batch - Results of the files in the batch
+     * @param {SearchProgress} progress - Files scanned so far
+     * @param {SearchOptions} searchOptions - Frozen options of the running search
+     */
+    private streamResults(batch: SearchResult[], progress: SearchProgress, searchOptions: SearchOptions): void {
+        if (!this.streamResultsCallback || this.currentSearchController?.signal.aborted) return;
+
+        if (progress.scanned === 0) {
+            this.state.results = [];
+        }
+        const merged = this.searchEngine.sortResults([...this.state.results, ...batch]);
+        this.state.results = merged.slice(0, this.plugin.settings.maxResults);
+        this.streamResultsCallback(this.state.results, progress, searchOptions);
+    }
     /**
      * Reads search options ONCE for freezing during search execution
      * This method should only be called at the START of a search
      */
-    private readSearchOptionsOnce(): { matchCase: boolean; wholeWord: boolean; useRegex: boolean; multiline: boolean } {
+    private readSearchOptionsOnce(): SearchOptions {
         const matchCase = this.getToggleValue(this.elements.matchCaseCheckbox);
         const wholeWord = this.getToggleValue(this.elements.wholeWordCheckbox);
         const useRegex = this.getToggleValue(this.elements.regexCheckbox);
         const multiline = this.getToggleValue(this.elements.multilineCheckbox) || false;
-
-        const optionsSnapshot = { matchCase, wholeWord, useRegex, multiline };
+        const preserveCase = this.getToggleValue(this.elements.preserveCaseCheckbox);
+        const useFunction = this.getToggleValue(this.elements.functionCheckbox);
+        const markdownScope = (this.elements.scopeSelect?.value || 'all') as MarkdownScope;
+        const searchProperties = this.getToggleValue(this.elements.propertiesCheckbox);
+        const useQuery = this.getToggleValue(this.elements.queryCheckbox);
+        const ignoreDiacritics = this.getToggleValue(this.elements.diacriticsCheckbox);
+        const fuzzy = this.getToggleValue(this.elements.fuzzyCheckbox);
+        const fuzzyDistance = fuzzy ? this.plugin.settings.fuzzyMaxDistance : undefined;
+
+        const optionsSnapshot = withApproximateMatching(withMapping({
+            matchCase, wholeWord, useRegex, multiline, preserveCase, useFunction, markdownScope, searchProperties, useQuery, ignoreDiacritics, fuzzy, fuzzyDistance
+        }, this.mapping));
 
         this.logger.debug('readSearchOptionsOnce() creating frozen snapshot:', {
             matchCase: { value: matchCase, pressed: this.elements.matchCaseCheckbox?.getAttribute('aria-pressed') },
             wholeWord: { value: wholeWord, pressed: this.elements.wholeWordCheckbox?.getAttribute('aria-pressed') },
             useRegex: { value: useRegex, pressed: this.elements.regexCheckbox?.getAttribute('aria-pressed') },
             multiline: { value: multiline, pressed: this.elements.multilineCheckbox?.getAttribute('aria-pressed') },
+            preserveCase: { value: preserveCase, pressed: this.elements.preserveCaseCheckbox?.getAttribute('aria-pressed') },
+            useFunction: { value: useFunction, pressed: this.elements.functionCheckbox?.getAttribute('aria-pressed') },
+            markdownScope,
+            searchProperties: { value: searchProperties, pressed: this.elements.propertiesCheckbox?.getAttribute('aria-pressed') },
+            useQuery: { value: useQuery, pressed: this.elements.queryCheckbox?.getAttribute('aria-pressed') },
+            ignoreDiacritics: { value: ignoreDiacritics, pressed: this.elements.diacriticsCheckbox?.getAttribute('aria-pressed') },
+            fuzzy: { value: fuzzy, pressed: this.elements.fuzzyCheckbox?.getAttribute('aria-pressed') },
             snapshot: optionsSnapshot
         });
 
@@ -331,19 +500,41 @@ export class SearchController {
      * @returns {boolean} returns.wholeWord - Whole word matching enabled
      * @returns {boolean} returns.useRegex - Regular expression mode enabled
      * @returns {boolean} returns.multiline - Multiline regex mode enabled
+     * @returns {boolean} returns.preserveCase - Case-preserving replacement enabled
+     * @returns {boolean} returns.useFunction - Replacement text is a JavaScript expression
+     * @returns {MarkdownScope} returns.markdownScope - Parts of each note that are searched
+     * @returns {boolean} returns.searchProperties - Frontmatter property values are searched instead of note text
+     * @returns {boolean} returns.useQuery - Search text is a boolean query
+     * @returns {boolean} returns.ignoreDiacritics - Accents and width differences are ignored (regex and multiline are then off)
+     * @returns {boolean} returns.fuzzy - Matches within the configured edit distance (regex and multiline are then off)
+     * @returns {number} returns.fuzzyDistance - Maximum edit distance in fuzzy mode
+     * @returns {ReplacementMapping} returns.mapping - Active mapping table (regex and multiline are then off)
+     * @returns {TextRange} returns.selection - Selected text the current results were searched in (selection scope)
      *
      * @remarks
      * - Reads current state from UI toggle buttons
      * - Logs warning if called while search is in progress (potential race condition)
      * - Primarily used by replacement engine for maintaining search consistency
      */
-    getSearchOptions(): { matchCase: boolean; wholeWord: boolean; useRegex: boolean; multiline: boolean } {
+    getSearchOptions(): SearchOptions {
         const matchCase = this.getToggleValue(this.elements.matchCaseCheckbox);
         const wholeWord = this.getToggleValue(this.elements.wholeWordCheckbox);
         const useRegex = this.getToggleValue(this.elements.regexCheckbox);
         const multiline = this.getToggleValue(this.elements.multilineCheckbox) || false;
+        const preserveCase = this.getToggleValue(this.elements.preserveCaseCheckbox);
+        const useFunction = this.getToggleValue(this.elements.functionCheckbox);
+        const markdownScope = (this.elements.scopeSelect?.value || 'all') as MarkdownScope;
+        const searchProperties = this.getToggleValue(this.elements.propertiesCheckbox);
+        const useQuery = this.getToggleValue(this.elements.queryCheckbox);
+        const ignoreDiacritics = this.getToggleValue(this.elements.diacriticsCheckbox);
+        const fuzzy = this.getToggleValue(this.elements.fuzzyCheckbox);
+        const fuzzyDistance = fuzzy ? this.plugin.settings.fuzzyMaxDistance : undefined;
+
+        const selection = this.state.searchScope?.selection;
 
-        const optionsSnapshot = { matchCase, wholeWord, useRegex, multiline };
+        const optionsSnapshot = withApproximateMatching(withMapping({
+            matchCase, wholeWord, useRegex, multiline, preserveCase, useFunction, markdownScope, selection, searchProperties, useQuery, ignoreDiacritics, fuzzy, fuzzyDistance
+        }, this.mapping));
 
         // If search is in progress, warn about option state changes
         if (this.isSearching) {
@@ -364,6 +555,21 @@ export class SearchController {
     }
 
 
+    /**
+     * Stops the running search, keeping the results found so far
+     * Unlike cancelSearch(), the view then shows the partial results in a "Search cancelled" state.
+     *
+     * @returns {boolean} True if a search was running
+     */
+    stopSearch(): boolean {
+        if (!this.isSearching || !this.currentSearchController) return false;
+
+        this.logger.debug('Stopping search at user request');
+        this.stoppedSearchController = this.currentSearchController;
+        this.currentSearchController.abort();
+        return true;
+    }
+
     /**
      * Cancels any ongoing search operation
      */
@@ -1,6 +1,9 @@
 import { setIcon, Menu } from 'obsidian';
-import { Logger, FILTER_UPDATE_DEBOUNCE_DELAY } from '../../utils';
-import { SessionFilters } from '../../types';
+import { Logger, FILTER_UPDATE_DEBOUNCE_DELAY, MAX_CONTEXT_LINES, parseContextLines } from '../../utils';
+import { MarkdownScope, MetadataFilter, SessionFilters } from '../../types';
+import { MARKDOWN_SCOPE_LABELS } from '../../core/markdownSegmenter';
+import { SEARCH_SCOPE_LABELS } from '../../core/searchScope';
+import { isMetadataFilter, parseMetadataFilter } from '../../core/metadataFilters';
 import VaultFindReplacePlugin from '../../main';
 import { SelectionManager } from './selectionManager';
 import { HelpModal } from '../../modals/helpModal';
@@ -16,6 +19,11 @@ export interface SearchInputElements {
     wholeWordBtn: HTMLElement;
     regexBtn: HTMLElement;
     multilineBtn: HTMLElement;
+    preserveCaseBtn: HTMLElement;
+    propertiesBtn: HTMLElement;
+    queryBtn: HTMLElement;
+    diacriticsBtn: HTMLElement;
+    fuzzyBtn: HTMLElement;
 }
 
 /**
@@ -24,6 +32,8 @@ export interface SearchInputElements {
 export interface ReplaceInputElements {
     replaceInput: HTMLInputElement;
     replaceClearBtn: HTMLButtonElement;
+    functionBtn: HTMLElement;
+    stopBtn: HTMLButtonElement;
     clearAllBtn: HTMLButtonElement;
     filterBtn: HTMLButtonElement;
 }
@@ -37,6 +47,9 @@ export interface FilterPanelElements {
     includeClearBtn: HTMLButtonElement;
     excludeInput: HTMLInputElement;
     excludeClearBtn: HTMLButtonElement;
+    scopeSelect: HTMLSelectElement;
+    searchScopeSelect: HTMLSelectElement;
+    contextLinesInput: HTMLInputElement;
 }
 
 /**
@@ -72,6 +85,12 @@ export class SearchToolbar {
         exclude: ''
     };
 
+    // Markdown scope picker in the filter panel (counted as an active filter unless "Everything")
+    private scopeSelect?: HTMLSelectElement;
+
+    // Search scope picker in the filter panel (counted as an active filter unless "Vault")
+    private searchScopeSelect?: HTMLSelectElement;
+
     constructor(
         plugin: VaultFindReplacePlugin,
         replaceSelectedCallback: () => Promise<void>,
@@ -173,13 +192,18 @@ export class SearchToolbar {
      * @returns {HTMLElement} returns.wholeWordBtn - Whole word matching toggle button
      * @returns {HTMLElement} returns.regexBtn - Regular expression mode toggle button
      * @returns {HTMLElement} returns.multilineBtn - Multiline regex mode toggle button
+     * @returns {HTMLElement} returns.preserveCaseBtn - Case-preserving replacement toggle button
+     * @returns {HTMLElement} returns.propertiesBtn - Frontmatter properties mode toggle button
+     * @returns {HTMLElement} returns.queryBtn - Boolean query mode toggle button
+     * @returns {HTMLElement} returns.diacriticsBtn - Diacritic-insensitive matching toggle button
+     * @returns {HTMLElement} returns.fuzzyBtn - Fuzzy matching toggle button
      *
      * @remarks
      * **Features:**
      * - Search icon prefix using Lucide icons
      * - Clear button (X) that appears when input has content
      * - History navigation (↑↓ arrows) for previous searches
-     * - Four inline toggle buttons for search options
+     * - Nine inline toggle buttons for search and replace options
      * - Complete keyboard navigation with proper tab order
      * - Placeholder shows history navigation hint
      *
@@ -222,9 +246,15 @@ export class SearchToolbar {
 
         // Create inline toggle buttons for search options
         const matchCaseBtn = this.createInlineToggle(searchOptions, 'match-case', 'case-sensitive', 'Match Case', 3, searchInput);
+        // Only affects replacements, so no search input: toggling re-renders previews instead of re-searching
+        const preserveCaseBtn = this.createInlineToggle(searchOptions, 'preserve-case', 'case-upper', 'Preserve Case When Replacing', 3);
         const wholeWordBtn = this.createInlineToggle(searchOptions, 'whole-word', 'whole-word', 'Match Whole Word', 4, searchInput);
         const regexBtn = this.createInlineToggle(searchOptions, 'regex', 'regex', 'Use Regular Expression', 5, searchInput);
         const multilineBtn = this.createInlineToggle(searchOptions, 'multiline', 'wrap-text', 'Multiline Mode (enables \\n patterns)', 6, searchInput);
+        const propertiesBtn = this.createInlineToggle(searchOptions, 'properties', 'archive', 'Search Properties (frontmatter values)', 6, searchInput);
+        const queryBtn = this.createInlineToggle(searchOptions, 'query', 'braces', 'Query Syntax (AND, OR, -term, "phrase", file:, path:)', 6, searchInput);
+        const diacriticsBtn = this.createInlineToggle(searchOptions, 'diacritics', 'languages', 'Ignore Diacritics (cafe finds café)', 6, searchInput);
+        const fuzzyBtn = this.createInlineToggle(searchOptions, 'fuzzy', 'spell-check', 'Fuzzy Match (tolerates typos)', 6, searchInput);
 
         return {
             searchInput,
@@ -232,7 +262,12 @@ export class SearchToolbar {
             matchCaseBtn,
             wholeWordBtn,
             regexBtn,
-            multilineBtn
+            multilineBtn,
+            preserveCaseBtn,
+            propertiesBtn,
+            queryBtn,
+            diacriticsBtn,
+            fuzzyBtn
         };
     }
 
@@ -244,6 +279,8 @@ export class SearchToolbar {
      * @returns {ReplaceInputElements} Object containing all created replace-related UI elements
      * @returns {HTMLInputElement} returns.replaceInput - The main replace text input field
      * @returns {HTMLButtonElement} returns.replaceClearBtn - Clear button for replace input
+     * @returns {HTMLElement} returns.functionBtn - Toggle that makes the replace input a JavaScript expression
+     * @returns {HTMLButtonElement} returns.stopBtn - Button that stops the running search or replacement (hidden when idle)
      * @returns {HTMLButtonElement} returns.clearAllBtn - Button to clear all search/replace inputs and reset options
      * @returns {HTMLButtonElement} returns.filterBtn - Button to toggle file filter panel visibility
      *
@@ -252,6 +289,8 @@ export class SearchToolbar {
      * - Replace icon prefix using Lucide icons
      * - Clear button (X) that appears when input has content
      * - History navigation (↑↓ arrows) for previous replace patterns
+     * - Function toggle to evaluate the replace input as JavaScript per match
+     * - Stop button (square icon), shown only while a search or replacement is running
      * - Clear All button (search-x icon) to reset entire search UI
      * - Filter button to show/hide file filtering panel
      * - Complete keyboard navigation with proper tab order
@@ -287,6 +326,20 @@ export class SearchToolbar {
 
         // Clear button moved to replace row
         const replaceRowActions = replaceRow.createDiv('find-replace-toolbar-actions');
+
+        // Only affects replacements, so no search input: toggling re-renders previews instead of re-searching
+        const functionBtn = this.createInlineToggle(replaceRowActions, 'function', 'square-function', 'Use JavaScript Replacement Function', 6);
+
+        // Stop button - shown by SearchController / ActionHandler while an operation runs
+        const stopBtn = replaceRowActions.createEl('button', {
+            cls: 'inline-toggle-btn toolbar-action clickable-icon hidden',
+            attr: {
+                'aria-label': 'Stop',
+                'tabindex': '6'
+            }
+        });
+        setIcon(stopBtn, 'square');
+
         const clearAllBtn = replaceRowActions.createEl('button', {
             cls: 'inline-toggle-btn toolbar-action clickable-icon',
             attr: {
@@ -309,6 +362,8 @@ export class SearchToolbar {
         return {
             replaceInput,
             replaceClearBtn,
+            functionBtn,
+            stopBtn,
             clearAllBtn,
             filterBtn
         };
@@ -350,6 +405,22 @@ export class SearchToolbar {
             cls: 'find-replace-filter-panel hidden'
         });
 
+        // Search scope row (session-only, like the file filters)
+        const searchScopeRow = filterPanel.createDiv('filter-input-row');
+        searchScopeRow.createSpan({
+            cls: 'filter-input-label',
+            text: 'scope:'
+        });
+        const searchScopeSelect = searchScopeRow.createEl('select', {
+            cls: 'dropdown filter-scope-select',
+            attr: { 'aria-label': 'Files or text to search', 'tabindex': '8' }
+        }) as HTMLSelectElement;
+        for (const [value, label] of Object.entries(SEARCH_SCOPE_LABELS)) {
+            searchScopeSelect.createEl('option', { value, text: label });
+        }
+        searchScopeSelect.value = 'vault';
+        this.searchScopeSelect = searchScopeSelect;
+
         // Include input row
         const includeRow = filterPanel.createDiv('filter-input-row');
         const includeLabel = includeRow.createSpan({
@@ -360,7 +431,7 @@ export class SearchToolbar {
         const includeInput = includeInputContainer.createEl('input', {
             type: 'text',
             cls: 'filter-input',
-            placeholder: 'e.g. .md, Notes/, *.js',
+            placeholder: 'e.g. .md, Notes/, tag:#project',
             attr: { 'tabindex': '8' }
         }) as HTMLInputElement;
 
@@ -398,12 +469,49 @@ export class SearchToolbar {
         }) as HTMLButtonElement;
         setIcon(excludeClearBtn, 'x');
 
+        // Markdown scope row
+        const scopeRow = filterPanel.createDiv('filter-input-row');
+        scopeRow.createSpan({
+            cls: 'filter-input-label',
+            text: 'search in:'
+        });
+        const scopeSelect = scopeRow.createEl('select', {
+            cls: 'dropdown filter-scope-select',
+            attr: { 'aria-label': 'Parts of each note to search', 'tabindex': '9' }
+        }) as HTMLSelectElement;
+        for (const [value, label] of Object.entries(MARKDOWN_SCOPE_LABELS)) {
+            scopeSelect.createEl('option', { value, text: label });
+        }
+        scopeSelect.value = (this.plugin.settings.rememberSearchOptions && this.plugin.settings.lastSearchOptions.markdownScope) || 'all';
+        this.scopeSelect = scopeSelect;
+
+        // Context lines row (session-only; the setting is the default)
+        const contextRow = filterPanel.createDiv('filter-input-row');
+        contextRow.createSpan({
+            cls: 'filter-input-label',
+            text: 'context lines:'
+        });
+        const contextLinesInput = contextRow.createEl('input', {
+            type: 'number',
+            cls: 'filter-context-input',
+            attr: {
+                'aria-label': 'Lines shown before and after each match',
+                'min': '0',
+                'max': MAX_CONTEXT_LINES.toString(),
+                'tabindex': '9'
+            }
+        }) as HTMLInputElement;
+        contextLinesInput.value = this.plugin.settings.contextLines.toString();
+
         return {
             filterPanel,
             includeInput,
             includeClearBtn,
             excludeInput,
-            excludeClearBtn
+            excludeClearBtn,
+            scopeSelect,
+            searchScopeSelect,
+            contextLinesInput
         };
     }
 
@@ -576,6 +684,8 @@ export class SearchToolbar {
             // Store in session (not settings)
             this.sessionFilters.include = includeValue;
             this.sessionFilters.exclude = excludeValue;
+            this.updateFilterValidity(includeInput);
+            this.updateFilterValidity(excludeInput);
 
             // Note: Session filters are now passed to SearchEngine directly via SearchController
 
@@ -614,6 +724,8 @@ export class SearchToolbar {
         // Load session filter values into inputs
         includeInput.value = this.sessionFilters.include;
         excludeInput.value = this.sessionFilters.exclude;
+        this.updateFilterValidity(includeInput);
+        this.updateFilterValidity(excludeInput);
 
         // Note: Session filters are now passed to SearchEngine directly via SearchController
 
@@ -621,6 +733,59 @@ export class SearchToolbar {
         this.updateFilterButtonState(filterBtn);
     }
 
+    /**
+     * Sets up the Markdown scope picker of the filter panel
+     * A change re-runs the search and, with "Remember search options" enabled, is saved to settings.
+     *
+     * @param {HTMLSelectElement} scopeSelect - The "search in" picker
+     * @param {HTMLButtonElement} filterBtn - The filter button whose badge counts the scope
+     */
+    setupScopeSelect(scopeSelect: HTMLSelectElement, filterBtn: HTMLButtonElement): void {
+        scopeSelect.addEventListener('change', async () => {
+            const scope = scopeSelect.value as MarkdownScope;
+            this.logger.debug('Markdown scope changed:', scope);
+
+            if (this.plugin.settings.rememberSearchOptions) {
+                this.plugin.settings.lastSearchOptions.markdownScope = scope;
+                await this.plugin.saveSettings();
+            }
+
+            this.updateFilterButtonState(filterBtn);
+            await this.performSearchCallback();
+        });
+
+        this.updateFilterButtonState(filterBtn);
+    }
+
+    /**
+     * Sets up the search scope picker of the filter panel
+     * A change re-runs the search. The scope is session-only: the view always opens on "Vault".
+     *
+     * @param {HTMLSelectElement} searchScopeSelect - The "scope" picker
+     * @param {HTMLButtonElement} filterBtn - The filter button whose badge counts the scope
+     */
+    setupSearchScopeSelect(searchScopeSelect: HTMLSelectElement, filterBtn: HTMLButtonElement): void {
+        searchScopeSelect.addEventListener('change', async () => {
+            this.logger.debug('Search scope changed:', searchScopeSelect.value);
+            this.updateFilterButtonState(filterBtn);
+            await this.performSearchCallback();
+        });
+    }
+
+    /**
+     * Sets up the context lines input of the filter panel
+     * A change re-runs the search, so the results carry the new context. The value is session-only.
+     *
+     * @param {HTMLInputElement} contextLinesInput - The "context lines" input
+     */
+    setupContextLinesInput(contextLinesInput: HTMLInputElement): void {
+        contextLinesInput.addEventListener('change', async () => {
+            contextLinesInput.value = parseContextLines(contextLinesInput.value).toString();
+            this.logger.debug('Context lines changed:', contextLinesInput.value);
+            await this.performSearchCallback();
+        });
+    }
+
     /**
      * Creates session filters from current session filter inputs
      * Parses filter input values into structured SessionFilters object for SearchEngine.
@@ -632,12 +797,16 @@ export class SearchToolbar {
      * @returns {string[]} returns.includePatterns - Glob patterns from include input (e.g., ["*.js"])
      * @returns {string[]} returns.excludePatterns - Glob patterns from exclude input (e.g., ["*.tmp"])
      * @returns {string[]} returns.excludeFolders - Folders from exclude patterns (e.g., ["Archive"])
+     * @returns {MetadataFilter[]} returns.includeMetadata - Metadata tokens from include input (all must match)
+     * @returns {MetadataFilter[]} returns.excludeMetadata - Metadata tokens from exclude input (any excludes)
      *
      * @remarks
      * **Pattern Parsing:**
      * - `.md` → fileExtensions array (dot removed)
      * - `Notes/` → searchInFolders or excludeFolders (trailing slash removed)
      * - `*.js` → includePatterns or excludePatterns (contains wildcards)
+     * - `tag:#project`, `prop:status=draft`, `links-to:[[Index]]`, `modified:>2025-01-01`, `size:<50kb`
+     *   → includeMetadata or excludeMetadata (see core/metadataFilters)
      *
      * **Session-Only Behavior:**
      * - Reads from sessionFilters property (in-memory state)
@@ -653,10 +822,12 @@ export class SearchToolbar {
             sessionFilters.fileExtensions = patterns.extensions;
             sessionFilters.searchInFolders = patterns.folders;
             sessionFilters.includePatterns = patterns.globs;
+            sessionFilters.includeMetadata = patterns.metadata;
         } else {
             sessionFilters.fileExtensions = [];
             sessionFilters.searchInFolders = [];
             sessionFilters.includePatterns = [];
+            sessionFilters.includeMetadata = [];
         }
 
         // Parse exclude patterns
@@ -664,9 +835,11 @@ export class SearchToolbar {
             const patterns = this.parseFilterPatterns(this.sessionFilters.exclude);
             sessionFilters.excludePatterns = patterns.globs;
             sessionFilters.excludeFolders = patterns.folders;
+            sessionFilters.excludeMetadata = patterns.metadata;
         } else {
             sessionFilters.excludePatterns = [];
             sessionFilters.excludeFolders = [];
+            sessionFilters.excludeMetadata = [];
         }
 
         this.logger.debug('Created session filters (no settings modified):', sessionFilters);
@@ -675,16 +848,26 @@ export class SearchToolbar {
     }
 
     /**
-     * Parse filter patterns into extensions, folders, and globs
+     * Parse filter patterns into extensions, folders, globs and metadata filters
+     * Invalid metadata tokens (e.g. `modified:>yesterday`) are ignored and reported in `invalid`.
      */
-    private parseFilterPatterns(input: string): { extensions: string[], folders: string[], globs: string[] } {
+    private parseFilterPatterns(input: string): { extensions: string[], folders: string[], globs: string[], metadata: MetadataFilter[], invalid: string[] } {
         const patterns = input.split(',').map(p => p.trim()).filter(p => p.length > 0);
         const extensions: string[] = [];
         const folders: string[] = [];
         const globs: string[] = [];
+        const metadata: MetadataFilter[] = [];
+        const invalid: string[] = [];
 
         patterns.forEach(pattern => {
-            if (pattern.startsWith('.')) {
+            if (isMetadataFilter(pattern)) {
+                // Metadata token (tag:, prop:, links-to:, modified:, size:)
+                try {
+                    metadata.push(parseMetadataFilter(pattern));
+                } catch (error) {
+                    invalid.push(error instanceof Error ? error.message : String(error));
+                }
+            } else if (pattern.startsWith('.')) {
                 // File extension (remove the dot)
                 extensions.push(pattern.substring(1));
             } else if (pattern.includes('*') || pattern.includes('?')) {
@@ -696,7 +879,25 @@ export class SearchToolbar {
             }
         });
 
-        return { extensions, folders, globs };
+        if (invalid.length > 0) {
+            this.logger.warn('Ignoring invalid filter patterns:', invalid);
+        }
+
+        return { extensions, folders, globs, metadata, invalid };
+    }
+
+    /**
+     * Marks a filter input whose metadata tokens cannot be parsed, with the reasons as tooltip
+     */
+    private updateFilterValidity(input: HTMLInputElement): void {
+        const { invalid } = this.parseFilterPatterns(input.value);
+        input.classList.toggle('is-invalid', invalid.length > 0);
+        input.setAttribute('aria-invalid', String(invalid.length > 0));
+        if (invalid.length > 0) {
+            input.setAttribute('title', invalid.join('\n'));
+        } else {
+            input.removeAttribute('title');
+        }
     }
 
 
@@ -861,6 +1062,24 @@ export class SearchToolbar {
                 case 'multiline':
                     initialPressed = lastOptions.multiline;
                     break;
+                case 'preserve-case':
+                    initialPressed = lastOptions.preserveCase ?? false; // Missing in settings saved by older versions
+                    break;
+                case 'function':
+                    initialPressed = lastOptions.useFunction ?? false;
+                    break;
+                case 'properties':
+                    initialPressed = lastOptions.searchProperties ?? false;
+                    break;
+                case 'query':
+                    initialPressed = lastOptions.useQuery ?? false;
+                    break;
+                case 'diacritics':
+                    initialPressed = lastOptions.ignoreDiacritics ?? false;
+                    break;
+                case 'fuzzy':
+                    initialPressed = lastOptions.fuzzy ?? false;
+                    break;
             }
         }
 
@@ -903,6 +1122,24 @@ export class SearchToolbar {
                     case 'multiline':
                         this.plugin.settings.lastSearchOptions.multiline = newPressed;
                         break;
+                    case 'preserve-case':
+                        this.plugin.settings.lastSearchOptions.preserveCase = newPressed;
+                        break;
+                    case 'function':
+                        this.plugin.settings.lastSearchOptions.useFunction = newPressed;
+                        break;
+                    case 'properties':
+                        this.plugin.settings.lastSearchOptions.searchProperties = newPressed;
+                        break;
+                    case 'query':
+                        this.plugin.settings.lastSearchOptions.useQuery = newPressed;
+                        break;
+                    case 'diacritics':
+                        this.plugin.settings.lastSearchOptions.ignoreDiacritics = newPressed;
+                        break;
+                    case 'fuzzy':
+                        this.plugin.settings.lastSearchOptions.fuzzy = newPressed;
+                        break;
                 }
                 await this.plugin.saveSettings();
                 this.logger.debug(`Saved search option: ${id} = ${newPressed}`);
@@ -1039,6 +1276,16 @@ export class SearchToolbar {
             activeFiltersCount += excludePatterns.length;
         }
 
+        // Count a Markdown scope other than "Everything"
+        if (this.scopeSelect && this.scopeSelect.value !== 'all') {
+            activeFiltersCount++;
+        }
+
+        // Count a search scope other than the whole vault
+        if (this.searchScopeSelect && this.searchScopeSelect.value !== 'vault') {
+            activeFiltersCount++;
+        }
+
         // Update button state
         if (activeFiltersCount > 0) {
             filterBtn.classList.add('is-active');
@@ -11,7 +11,8 @@ export class SelectionManager {
     private plugin: VaultFindReplacePlugin;
     private logger: Logger;
     private selectedIndices: Set<number> = new Set();
-    private lineElements: HTMLDivElement[] = [];
+    private resultCount = 0;
+    private readonly onResultClick = (e: MouseEvent) => this.handleResultClick(e);
 
     constructor(elements: FindReplaceElements, plugin: VaultFindReplacePlugin) {
         this.elements = elements;
@@ -23,7 +24,7 @@ export class SelectionManager {
      * Sets up keyboard navigation and multi-selection functionality for results
      * Attaches click handlers for multi-selection and optionally preserves existing selection state.
      *
-     * @param {HTMLDivElement[]} lineElements - Array of DOM elements for result lines
+     * @param {number} resultCount - Number of results shown
      * @param {boolean} [preserveSelection=false] - Whether to preserve existing selection state
      *
      * @remarks
@@ -39,35 +40,40 @@ export class SelectionManager {
      * - Search option changes: preserveSelection=false (fresh results)
      *
      * **Event Handling:**
-     * - Click handlers attached to each result line element
+     * - One click handler on the results container, since result lines are only rendered while in view
+     * - Result lines carry their index in `data-result-index`
      * - Modifier key detection (metaKey for Mac, ctrlKey for Windows/Linux)
      * - Default link behavior prevented during multi-selection
      */
-    setupSelection(lineElements: HTMLDivElement[], preserveSelection: boolean = false): void {
-        this.lineElements = lineElements;
+    setupSelection(resultCount: number, preserveSelection: boolean = false): void {
+        this.resultCount = resultCount;
 
         // Only clear selections if not preserving them
         if (!preserveSelection) {
             this.selectedIndices.clear();
         }
 
-        if (!lineElements.length) return;
-
-        // Add click handlers to each result line for multi-selection
-        lineElements.forEach((el, idx) => {
-            el.addEventListener('click', (e: MouseEvent) => {
-                // Check for modifier keys (Ctrl on Windows/Linux, Cmd on Mac)
-                if (e.metaKey || e.ctrlKey) {
-                    e.preventDefault(); // Prevent default link behavior
-                    this.toggleSelection(idx);
-                }
-            });
-        });
+        this.elements.resultsContainer.removeEventListener('click', this.onResultClick);
+        this.elements.resultsContainer.addEventListener('click', this.onResultClick);
 
         // Update UI to reflect current selection state (preserving if requested)
         this.updateSelectionUI();
     }
 
+    /**
+     * Toggles the selection of the clicked result line on Ctrl/Cmd+Click
+     */
+    private handleResultClick(e: MouseEvent): void {
+        // Check for modifier keys (Ctrl on Windows/Linux, Cmd on Mac)
+        if (!e.metaKey && !e.ctrlKey) return;
+
+        const line = (e.target as HTMLElement).closest('.line-result[data-result-index]');
+        if (!line) return;
+
+        e.preventDefault(); // Prevent default link behavior
+        this.toggleSelection(Number(line.getAttribute('data-result-index')));
+    }
+
     /**
      * Toggles selection state for a specific result index
      * Adds index to selection if not selected, removes if already selected.
@@ -99,18 +105,34 @@ export class SelectionManager {
      *
      * **Behavior:**
      * - Clears existing selection first
-     * - Selects all indices from 0 to lineElements.length-1
+     * - Selects all indices from 0 to the result count - 1
      * - Updates UI to show all results as selected
      * - Updates selected count display in adaptive toolbar
      */
     selectAll(): void {
         this.selectedIndices.clear();
-        for (let i = 0; i < this.lineElements.length; i++) {
+        for (let i = 0; i < this.resultCount; i++) {
             this.selectedIndices.add(i);
         }
         this.updateSelectionUI();
     }
 
+    /**
+     * Selects a single result, clearing the rest of the selection
+     *
+     * @param {number} index - Index of the result to select (zero-based)
+     *
+     * @remarks
+     * Used by the next/previous match commands, so "Replace selected" acts on the match they reached.
+     */
+    selectOnly(index: number): void {
+        this.selectedIndices.clear();
+        if (index >= 0 && index < this.resultCount) {
+            this.selectedIndices.add(index);
+        }
+        this.updateSelectionUI();
+    }
+
     /**
      * Clears all selections
      * Removes all selected indices and updates UI to show no selections.
@@ -187,13 +209,9 @@ export class SelectionManager {
      * Updates visual styling and UI state based on current selections
      */
     private updateSelectionUI(): void {
-        // Update visual styling for each result line
-        this.lineElements.forEach((el, idx) => {
-            if (this.selectedIndices.has(idx)) {
-                el.classList.add('selected');
-            } else {
-                el.classList.remove('selected');
-            }
+        // Update visual styling for each rendered result line
+        this.elements.resultsContainer?.querySelectorAll<HTMLElement>('.line-result[data-result-index]').forEach(el => {
+            el.classList.toggle('selected', this.selectedIndices.has(Number(el.getAttribute('data-result-index'))));
         });
 
         // Update selection count display and visibility in adaptive toolbar
@@ -358,7 +376,7 @@ export class SelectionManager {
 
     /**
      * Resets the selection manager
-     * Clears all selections and element references without disposing the manager.
+     * Clears all selections and the result count without disposing the manager.
      *
      * @remarks
      * **Use Cases:**
@@ -371,7 +389,7 @@ export class SelectionManager {
      */
     reset(): void {
         this.selectedIndices.clear();
-        this.lineElements = [];
+        this.resultCount = 0;
         this.updateSelectionUI();
     }
 
@@ -382,7 +400,7 @@ export class SelectionManager {
      * @remarks
      * **Cleanup Actions:**
      * - Clears selection set
-     * - Clears line elements array
+     * - Removes the click handler from the results container
      * - Nullifies element references for garbage collection
      *
      * **When Called:**
@@ -401,7 +419,8 @@ export class SelectionManager {
      */
     dispose(): void {
         this.selectedIndices.clear();
-        this.lineElements = [];
+        this.resultCount = 0;
+        this.elements?.resultsContainer?.removeEventListener('click', this.onResultClick);
         // Clear reference to elements for garbage collection
         this.elements = null!;
     }
@@ -0,0 +1,262 @@
+import { ContextLine, ResultRow, SearchResult } from '../../types';
+import { RESULT_ROW_HEIGHT, RESULT_ROW_OVERSCAN } from '../../utils';
+
+/**
+ * Builds the rows of the results list: a header per file, followed by its matches unless the group is collapsed
+ * Files are listed in the order of their first result. Context lines of results (see core/resultContext) are
+ * listed around their matches; context shared by nearby matches is listed once, so they merge into one block.
+ * @param results - Results to list
+ * @param isCollapsed - Whether the group of a file is collapsed
+ * @returns Rows in display order
+ */
+export function buildResultRows(results: SearchResult[], isCollapsed: (filePath: string) => boolean): ResultRow[] {
+    const groups = new Map<string, { results: SearchResult[]; indices: number[] }>();
+    results.forEach((result, i) => {
+        const group = groups.get(result.file.path) ?? { results: [], indices: [] };
+        group.results.push(result);
+        group.indices.push(i);
+        groups.set(result.file.path, group);
+    });
+
+    const rows: ResultRow[] = [];
+    groups.forEach((group, filePath) => {
+        const collapsed = isCollapsed(filePath);
+        rows.push({ kind: 'header', filePath, results: group.results, collapsed });
+        if (collapsed) return;
+
+        // Lines of the matches are shown by their match rows, never as context
+        const matchLines = new Set(group.results.map(result => result.line));
+        let shown = -1; // Last line of the note listed so far
+        const startsBlock = (result: SearchResult, line: number) => !!result.context && shown >= 0 && line > shown + 1;
+        const addContext = (result: SearchResult, line: ContextLine) => {
+            if (line.line <= shown || matchLines.has(line.line)) return;
+            rows.push({ kind: 'context', filePath, line, separated: startsBlock(result, line.line) });
+            shown = line.line;
+        };
+
+        group.results.forEach((result, i) => {
+            result.context?.before.forEach(line => addContext(result, line));
+            rows.push({ kind: 'line', filePath, result, index: group.indices[i], separated: startsBlock(result, result.line) });
+            shown = Math.max(shown, result.line + result.matchText.split('\n').length - 1);
+
+            // Lines from the next match on are listed with it
+            const next = group.results[i + 1];
+            result.context?.after.forEach(line => {
+                if (!next || line.line < next.line) addContext(result, line);
+            });
+        });
+    });
+    return rows;
+}
+
+/**
+ * Works out which rows to render for a scroll position
+ * @param scrollTop - Distance scrolled past the top of the list (negative while the list starts below the top)
+ * @param viewportHeight - Visible height
+ * @param rowCount - Number of rows in the list
+ * @param rowHeight - Height of every row
+ * @param overscan - Rows rendered beyond each edge of the visible ones, so keyboard focus can move on
+ * @returns Positions of the first row to render and of the row after the last
+ */
+export function getRowWindow(
+    scrollTop: number,
+    viewportHeight: number,
+    rowCount: number,
+    rowHeight: number = RESULT_ROW_HEIGHT,
+    overscan: number = RESULT_ROW_OVERSCAN
+): { start: number; end: number } {
+    const first = Math.floor(Math.max(0, scrollTop) / rowHeight);
+    const visible = Math.ceil(Math.max(0, viewportHeight) / rowHeight) + 1;
+    return {
+        start: Math.min(rowCount, Math.max(0, first - overscan)),
+        end: Math.min(rowCount, first + visible + overscan)
+    };
+}
+
+/**
+ * Part of a row that had keyboard focus before the rows were rendered again
+ */
+interface FocusedRow {
+    key: string;
+    part: 'row' | 'snippet' | 'button';
+}
+
+/**
+ * Virtual scrolling list of result rows
+ * Only the rows in and near the visible part of the scroll container exist in the DOM; spacers above and
+ * below stand in for the others, so the scrollbar covers the whole list. Every row has the same height.
+ * Rendered rows are wrapped in a `.file-group` element per file, like the full list was.
+ */
+export class VirtualResultList {
+    private scroller: HTMLElement;
+    private host: HTMLDivElement;
+    private before: HTMLDivElement;
+    private content: HTMLDivElement;
+    private after: HTMLDivElement;
+    private createRow: (row: ResultRow, position: number) => HTMLElement;
+    private rowHeight: number;
+    private rows: ResultRow[] = [];
+    private window = { start: 0, end: 0 };
+    private rendered = new Map<number, HTMLElement>(); // Elements of the rendered rows, by position
+    private resizeObserver: ResizeObserver | null = null;
+    private readonly onScroll = () => this.update();
+
+    /**
+     * @param scroller - Scrolling element the list is shown in
+     * @param host - Element the rows are rendered into (inside the scroller)
+     * @param createRow - Creates the element of a row; position is its place in the list
+     * @param rowHeight - Height of every row in pixels
+     */
+    constructor(
+        scroller: HTMLElement,
+        host: HTMLDivElement,
+        createRow: (row: ResultRow, position: number) => HTMLElement,
+        rowHeight: number = RESULT_ROW_HEIGHT
+    ) {
+        this.scroller = scroller;
+        this.host = host;
+        this.createRow = createRow;
+        this.rowHeight = rowHeight;
+
+        host.addClass('virtual-results');
+        host.style.setProperty('--find-replace-row-height', `${rowHeight}px`);
+        this.before = host.createDiv('virtual-results-spacer');
+        this.content = host.createDiv('virtual-results-rows');
+        this.after = host.createDiv('virtual-results-spacer');
+
+        scroller.addEventListener('scroll', this.onScroll, { passive: true });
+        if (typeof ResizeObserver !== 'undefined') {
+            this.resizeObserver = new ResizeObserver(() => this.update());
+            this.resizeObserver.observe(scroller);
+        }
+    }
+
+    /**
+     * Gets the rows of the list
+     */
+    getRows(): ResultRow[] {
+        return this.rows;
+    }
+
+    /**
+     * Replaces the rows of the list, keeping the scroll position and the focused row (when it is still listed)
+     * @param rows - New rows
+     */
+    setRows(rows: ResultRow[]): void {
+        this.rows = rows;
+        this.update(true);
+    }
+
+    /**
+     * Scrolls a row into view (to the middle, when it is not already visible) and renders it
+     * @param position - Place of the row in the list
+     * @returns The element of the row, or null when there is no such row
+     */
+    revealRow(position: number): HTMLElement | null {
+        if (position < 0 || position >= this.rows.length) return null;
+
+        const top = this.getListOffset() + position * this.rowHeight;
+        const height = this.getViewportHeight();
+        if (top < this.scroller.scrollTop || top + this.rowHeight > this.scroller.scrollTop + height) {
+            this.scroller.scrollTop = Math.max(0, top - (height - this.rowHeight) / 2);
+        }
+        this.update();
+        return this.rendered.get(position) ?? null;
+    }
+
+    /**
+     * Stops following the scroll container
+     */
+    dispose(): void {
+        this.scroller.removeEventListener('scroll', this.onScroll);
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = null;
+        this.rendered.clear();
+        this.rows = [];
+    }
+
+    /**
+     * Renders the rows in and near view
+     * @param force - Render again even when the same rows are in view (the rows changed)
+     */
+    private update(force = false): void {
+        const next = getRowWindow(this.scroller.scrollTop - this.getListOffset(), this.getViewportHeight(), this.rows.length, this.rowHeight);
+        if (!force && next.start === this.window.start && next.end === this.window.end) return;
+
+        const focused = this.getFocusedRow();
+        const reusable = force ? new Map<number, HTMLElement>() : this.rendered;
+        this.window = next;
+        this.rendered = new Map();
+        this.content.empty();
+        this.before.style.height = `${next.start * this.rowHeight}px`;
+        this.after.style.height = `${(this.rows.length - next.end) * this.rowHeight}px`;
+
+        let group: HTMLElement | null = null;
+        for (let position = next.start; position < next.end; position++) {
+            const row = this.rows[position];
+            if (!group || row.kind === 'header' || group.getAttribute('data-file-path') !== row.filePath) {
+                group = this.content.createDiv({ cls: 'file-group', attr: { 'data-file-path': row.filePath } });
+                group.toggleClass('collapsed', row.kind === 'header' && row.collapsed);
+            }
+            const element = reusable.get(position) ?? this.createRow(row, position);
+            element.setAttribute('data-row-key', this.getRowKey(row));
+            group.appendChild(element);
+            this.rendered.set(position, element);
+        }
+
+        if (focused) this.restoreFocus(focused);
+    }
+
+    /**
+     * Identifies a row across renders: its file for a header, its result for a match, its line for context
+     */
+    private getRowKey(row: ResultRow): string {
+        switch (row.kind) {
+            case 'header': return `file:${row.filePath}`;
+            case 'line': return `result:${row.index}`;
+            case 'context': return `context:${row.filePath}:${row.line.line}`;
+        }
+    }
+
+    /**
+     * Finds the rendered row holding keyboard focus
+     */
+    private getFocusedRow(): FocusedRow | null {
+        const active = document.activeElement;
+        if (!(active instanceof HTMLElement) || !this.content.contains(active)) return null;
+
+        const rowEl = active.closest('[data-row-key]');
+        const key = rowEl?.getAttribute('data-row-key');
+        if (!rowEl || !key) return null;
+
+        const part = active === rowEl ? 'row' : active.tagName === 'BUTTON' ? 'button' : 'snippet';
+        return { key, part };
+    }
+
+    /**
+     * Focuses the same part of a row after it was rendered again (rendering replaces or moves its element)
+     */
+    private restoreFocus(focused: FocusedRow): void {
+        for (const element of Array.from(this.rendered.values())) {
+            if (element.getAttribute('data-row-key') !== focused.key) continue;
+            const target = focused.part === 'row' ? element
+                : element.querySelector<HTMLElement>(focused.part === 'button' ? 'button' : '.snippet');
+            target?.focus({ preventScroll: true });
+            return;
+        }
+    }
+
+    /**
+     * Distance from the top of the scroll container's content to the first row
+     */
+    private getListOffset(): number {
+        return this.host.getBoundingClientRect().top - this.scroller.getBoundingClientRect().top + this.scroller.scrollTop;
+    }
+
+    /**
+     * Visible height of the scroll container (the window's while the container is hidden)
+     */
+    private getViewportHeight(): number {
+        return this.scroller.clientHeight || window.innerHeight;
+    }
+}
@@ -1,12 +1,13 @@
 import { ItemView, WorkspaceLeaf, TFile, type App, Notice, setIcon, debounce, Menu } from 'obsidian';
-import { ConfirmModal } from "../../modals";
+import { ConfirmModal, ReplacementHistoryModal, RecipeSuggestModal, MappingTableSuggestModal } from "../../modals";
 import VaultFindReplacePlugin from "../../main";
-import { SearchResult, FindReplaceElements, SearchOptions, ViewState, ReplacementMode, ReplacementTarget, AffectedResults } from '../../types';
-import { SearchEngine, ReplacementEngine, FileOperations } from '../../core';
+import { SearchResult, FindReplaceElements, SearchOptions, SearchProgress, ViewState, ReplacementMode, ReplacementTarget, AffectedResults } from '../../types';
+import { SearchEngine, ReplacementEngine, FileOperations, parseMappingTable, createRangeMatcher, usesSearchRegex } from '../../core';
 import { UIRenderer, SelectionManager, SearchController } from '../components';
 import { SearchToolbar } from '../components/searchToolbar';
+import { RangeMatcher } from '../../core/resultHighlighter';
 import { ActionHandler } from '../components/actionHandler';
-import { Logger, safeQuerySelector, isNotNull, MODAL_POLL_INTERVAL, FOCUS_DELAY } from '../../utils';
+import { Logger, safeQuerySelector, isNotNull, findOpenEditor, MODAL_POLL_INTERVAL, FOCUS_DELAY } from '../../utils';
 
 // Define the unique identifier for this view type - used by Obsidian to track and manage this view
 export const VIEW_TYPE_FIND_REPLACE = 'find-replace-view';
@@ -57,8 +58,7 @@ export class FindReplaceView extends ItemView {
         this.state = {
             isCollapsed: false,
             selectedIndices: new Set(),
-            results: [],
-            lineElements: []
+            results: []
         };
 
         // Initialize components
@@ -119,6 +119,9 @@ export class FindReplaceView extends ItemView {
 
         // Set up filter button toggle
         this.searchToolbar.setupFilterToggle(replaceElements.filterBtn, filterElements.filterPanel, filterElements.includeInput, filterElements.excludeInput);
+        this.searchToolbar.setupScopeSelect(filterElements.scopeSelect, replaceElements.filterBtn);
+        this.searchToolbar.setupSearchScopeSelect(filterElements.searchScopeSelect, replaceElements.filterBtn);
+        this.searchToolbar.setupContextLinesInput(filterElements.contextLinesInput);
 
         // Set up clear input icon functionality
         this.searchToolbar.setupClearIcons(
@@ -147,15 +150,25 @@ export class FindReplaceView extends ItemView {
             wholeWordCheckbox: searchElements.wholeWordBtn,
             regexCheckbox: searchElements.regexBtn,
             multilineCheckbox: searchElements.multilineBtn,
+            preserveCaseCheckbox: searchElements.preserveCaseBtn,
+            functionCheckbox: replaceElements.functionBtn,
+            propertiesCheckbox: searchElements.propertiesBtn,
+            queryCheckbox: searchElements.queryBtn,
+            diacriticsCheckbox: searchElements.diacriticsBtn,
+            fuzzyCheckbox: searchElements.fuzzyBtn,
             resultsContainer,
             selectedCountEl: adaptiveElements.selectedCountEl,
             toolbarBtn: adaptiveElements.toolbarBtn,
             resultsCountEl: adaptiveElements.resultsCountEl,
+            stopBtn: replaceElements.stopBtn,
             clearAllBtn: replaceElements.clearAllBtn,
             filterBtn: replaceElements.filterBtn,
             filterPanel: filterElements.filterPanel,
             includeInput: filterElements.includeInput,
             excludeInput: filterElements.excludeInput,
+            scopeSelect: filterElements.scopeSelect,
+            searchScopeSelect: filterElements.searchScopeSelect,
+            contextLinesInput: filterElements.contextLinesInput,
             adaptiveToolbar: adaptiveElements.adaptiveToolbar,
             ellipsisMenuBtn: adaptiveElements.ellipsisMenuBtn
         };
@@ -164,6 +177,7 @@ export class FindReplaceView extends ItemView {
         this.replacementEngine = new ReplacementEngine(this.app, this.plugin, this.searchEngine);
         this.uiRenderer = new UIRenderer(this.elements, this.searchEngine, this.plugin);
         this.selectionManager = new SelectionManager(this.elements, this.plugin);
+        this.uiRenderer.setSelectionState(index => this.selectionManager.isSelected(index));
 
         // Now that we have selectionManager, provide it to SearchToolbar
         this.searchToolbar.setSelectionManager(this.selectionManager);
@@ -176,7 +190,8 @@ export class FindReplaceView extends ItemView {
             this.state,
             (searchOptions) => this.renderResultsWithOptions(searchOptions),
             () => this.clearResults(),
-            () => this.searchToolbar.getSessionFilters()
+            () => this.searchToolbar.getSessionFilters(),
+            (results, progress, searchOptions) => this.renderStreamedResults(results, progress, searchOptions)
         );
 
         // Initialize ActionHandler for event handling
@@ -198,7 +213,9 @@ export class FindReplaceView extends ItemView {
         // Set up state callbacks for ActionHandler
         this.actionHandler.setStateCallbacks(
             () => this.state.results,
-            () => this.selectionManager.getSelectedIndices()
+            () => this.selectionManager.getSelectedIndices(),
+            () => this.searchController.getMapping(),
+            () => this.state.searchScope
         );
 
         // Set up expand/collapse callback for ActionHandler
@@ -222,6 +239,13 @@ export class FindReplaceView extends ItemView {
         // Set up result click handling (not handled by ActionHandler)
         this.setupResultClickHandlers();
 
+        // The stop button stops whichever operation is running: a search, or else a replacement
+        this.registerDomEvent(this.elements.stopBtn, 'click', () => {
+            if (!this.searchController.stopSearch()) {
+                this.actionHandler.stopReplace();
+            }
+        });
+
         // Navigation and auto-search are now handled by SearchController
 
         // Focus the search input after a short delay
@@ -238,14 +262,15 @@ export class FindReplaceView extends ItemView {
         this.searchController?.cleanup();
         this.actionHandler?.cleanup();
         this.searchEngine?.dispose();
+        this.replacementEngine?.dispose();
         this.fileOperations?.dispose();
         this.selectionManager?.dispose();
         this.uiRenderer?.dispose();
+        this.plugin.resultHighlighter?.clear();
 
         // Clear state data
         this.state.results = [];
         this.state.selectedIndices.clear();
-        this.state.lineElements = [];
 
         // Clear element references (DOM cleanup handled by Obsidian)
         this.elements = null!;
@@ -278,7 +303,39 @@ export class FindReplaceView extends ItemView {
     private clearResults(): void {
         this.uiRenderer.clearResults();
         this.state.results = [];
+        this.state.cancelled = undefined;
+        this.state.timedOutFiles = undefined;
+        this.state.searchScope = undefined;
+        this.state.activeResult = undefined;
         this.selectionManager.reset();
+        this.plugin.resultHighlighter?.clear();
+    }
+
+    /**
+     * Marks the current results in the notes open in editors (see core/resultHighlighter)
+     */
+    private showResultsInEditors(): void {
+        this.plugin.resultHighlighter?.setResults(this.state.results, this.createEditorMatcher());
+    }
+
+    /**
+     * Creates the matcher that marks the matches typed into notes after the search
+     * Edited lines are matched on the main thread, so a regex that is unsafe there is not used.
+     * @returns The matcher, or null when edited lines cannot be matched again
+     */
+    private createEditorMatcher(): RangeMatcher | null {
+        const query = this.elements.searchInput.value;
+        const searchOptions = this.searchController.getSearchOptions();
+        if (!query.trim() || this.searchEngine.getRegexHazard(query, searchOptions, true)) return null;
+
+        try {
+            const regex = usesSearchRegex(searchOptions) ? this.searchEngine.buildSearchRegex(query, searchOptions) : null;
+            return createRangeMatcher(query, searchOptions, regex);
+        } catch (error) {
+            // The query was edited into an invalid one since the search; the marks still move with the text
+            this.logger.debug('Edited lines will not be matched again', error);
+            return null;
+        }
     }
 
     /**
@@ -293,17 +350,30 @@ export class FindReplaceView extends ItemView {
      */
     private renderResultsWithOptions(searchOptions: { matchCase: boolean; wholeWord: boolean; useRegex: boolean }): void {
         const replaceText = this.elements.replaceInput.value;
-        const lineElements = this.uiRenderer.renderResults(
+        this.uiRenderer.renderResults(
             this.state.results,
             replaceText,
             searchOptions,
             this.state.totalResults,
-            this.state.isLimited
+            this.state.isLimited,
+            this.state.cancelled,
+            this.state.timedOutFiles
         );
 
-        // Update state and set up selection
-        this.state.lineElements = lineElements;
-        this.selectionManager.setupSelection(lineElements);
+        // Set up selection
+        this.selectionManager.setupSelection(this.state.results.length);
+        this.showResultsInEditors();
+    }
+
+    /**
+     * Shows the results found so far while a search is running
+     * The lines are clickable right away; selection is set up by the final render.
+     */
+    private renderStreamedResults(results: SearchResult[], progress: SearchProgress, searchOptions: SearchOptions): void {
+        if (progress.scanned === 0) {
+            this.selectionManager.reset();
+        }
+        this.uiRenderer.renderStreamedResults(results, this.elements.replaceInput.value, searchOptions, progress);
     }
 
     /**
@@ -314,17 +384,19 @@ export class FindReplaceView extends ItemView {
     private renderResults(preserveSelection: boolean = false): void {
         const replaceText = this.elements.replaceInput.value;
         const searchOptions = this.searchController.getSearchOptions(); // WARNING: Race condition risk!
-        const lineElements = this.uiRenderer.renderResults(
+        this.uiRenderer.renderResults(
             this.state.results,
             replaceText,
             searchOptions,
             this.state.totalResults,
-            this.state.isLimited
+            this.state.isLimited,
+            this.state.cancelled,
+            this.state.timedOutFiles
         );
 
-        // Update state and set up selection
-        this.state.lineElements = lineElements;
-        this.selectionManager.setupSelection(lineElements, preserveSelection);
+        // Set up selection
+        this.selectionManager.setupSelection(this.state.results.length, preserveSelection);
+        this.showResultsInEditors();
     }
 
     /**
@@ -407,6 +479,11 @@ export class FindReplaceView extends ItemView {
                 return;
             }
 
+            // Mark the opened result more strongly in the editor; the next/previous match commands go on from it
+            const resultIndex = snippetElement.closest('.line-result')?.getAttribute('data-result-index');
+            this.state.activeResult = resultIndex ? this.state.results[parseInt(resultIndex, 10)] : undefined;
+            this.plugin.resultHighlighter?.setActive(this.state.activeResult ?? null);
+
             const file = this.fileOperations.getFileByPath(filePath);
             if (file) {
                 this.logger.debug('Opening file at line:', { file: file.path, line, col });
@@ -418,16 +495,83 @@ export class FindReplaceView extends ItemView {
         }
     }
 
+    /**
+     * Opens a result like clicking it does, and makes it the current one in the results list
+     * The result becomes the only selected one, its line is scrolled into view and gets keyboard focus
+     * once the note is open.
+     * @param index - Index of the result in the view's results
+     */
+    private async openResult(index: number): Promise<void> {
+        const result = this.state.results[index];
+        if (!result) return;
+
+        this.state.activeResult = result;
+        this.selectionManager.selectOnly(index);
+        const snippet = this.uiRenderer.revealResult(index);
+        this.plugin.resultHighlighter?.setActive(result);
+        await this.fileOperations.openFileAtLine(result.file, result.line, result.col, result.matchText, snippet ?? undefined);
+    }
+
+    /**
+     * Opens the result after (or before) the current one, in the order of the results list
+     * Without a current result the first (or last) result is opened; the ends of the list wrap around.
+     * @param step - 1 for the next result, -1 for the previous one
+     */
+    private async goToMatch(step: 1 | -1): Promise<void> {
+        const results = this.state.results;
+        if (results.length === 0) {
+            new Notice('No search results to go to');
+            return;
+        }
+
+        const current = this.state.activeResult ? results.indexOf(this.state.activeResult) : -1;
+        const index = current === -1
+            ? (step === 1 ? 0 : results.length - 1)
+            : (current + step + results.length) % results.length;
+        await this.openResult(index);
+    }
+
+    /**
+     * Replaces the current result, then opens the next one
+     * Without a current result the first one is opened, to be reviewed before anything is replaced.
+     */
+    private async replaceAndGoToNext(): Promise<void> {
+        const results = this.state.results;
+        const current = this.state.activeResult ? results.indexOf(this.state.activeResult) : -1;
+        if (current === -1) {
+            await this.goToMatch(1);
+            return;
+        }
+
+        const replaced = results[current];
+        const next = results.length > 1 ? results[(current + 1) % results.length] : undefined;
+        await this.replaceIndividualMatch(replaced);
+
+        // Still listed: the replacement was cancelled or failed
+        if (this.state.results.includes(replaced)) return;
+
+        if (this.state.results.length === 0) {
+            this.state.activeResult = undefined;
+            new Notice('All matches reviewed');
+            return;
+        }
+
+        // The next result moved up into the replaced one's place, unless a fresh search replaced the results
+        const nextIndex = next ? this.state.results.indexOf(next) : -1;
+        await this.openResult(nextIndex !== -1 ? nextIndex : Math.min(current, this.state.results.length - 1));
+    }
+
     /**
      * Replaces an individual match
      */
     private async replaceIndividualMatch(result: SearchResult): Promise<void> {
         try {
             const replaceText = this.elements.replaceInput.value;
+            const searchOptions = this.searchController.getSearchOptions();
 
-            // Confirm if replacing with empty string
-            if (!replaceText) {
-                const confirmed = await this.confirmReplaceEmpty('Replace match with empty content? This cannot be undone.');
+            // Confirm if replacing with empty string (a mapping table supplies its own values)
+            if (!replaceText && !searchOptions.mapping) {
+                const confirmed = await this.confirmReplaceEmpty('Replace match with empty content?');
                 if (!confirmed) return;
             }
 
@@ -439,7 +583,6 @@ export class FindReplaceView extends ItemView {
                 r.matchText === result.matchText
             );
 
-            const searchOptions = this.searchController.getSearchOptions();
             const replacementResult = await this.replacementEngine.dispatchReplace(
                 'one',
                 this.state.results,
@@ -459,6 +602,9 @@ export class FindReplaceView extends ItemView {
                 this.logger.debug(`Removed replaced result at index ${resultIndex} from selection`);
             }
 
+            // Files that changed since the search were left alone - offer a fresh search
+            this.actionHandler?.notifyConflicts(replacementResult.conflicts ?? [], true);
+
             // Use incremental update instead of full re-search
             if (replacementResult.affectedResults) {
                 await this.updateResultsAfterReplacement(
@@ -482,18 +628,18 @@ export class FindReplaceView extends ItemView {
         try {
             const replaceText = this.elements.replaceInput.value;
             const filePath = file.path;
+            const searchOptions = this.searchController.getSearchOptions();
 
             // Confirm replacement (if enabled in settings)
             if (this.plugin.settings.confirmDestructiveActions) {
-                const confirmMessage = replaceText === ''
-                    ? `Replace all matches in "${filePath}" with an empty value? This action cannot be undone.`
-                    : `Replace all matches in "${filePath}"? This action cannot be undone.`;
+                const confirmMessage = replaceText === '' && !searchOptions.mapping
+                    ? `Replace all matches in "${filePath}" with an empty value?`
+                    : `Replace all matches in "${filePath}"?`;
 
                 const confirmed = await this.confirmReplaceEmpty(confirmMessage);
                 if (!confirmed) return;
             }
 
-            const searchOptions = this.searchController.getSearchOptions();
             const replacementResult = await this.replacementEngine.dispatchReplace(
                 'file',
                 this.state.results,
@@ -503,6 +649,9 @@ export class FindReplaceView extends ItemView {
                 file
             );
 
+            // Files that changed since the search were left alone - offer a fresh search
+            this.actionHandler?.notifyConflicts(replacementResult.conflicts ?? [], true);
+
             // Use incremental update instead of full re-search
             if (replacementResult.affectedResults) {
                 await this.updateResultsAfterReplacement(
@@ -637,10 +786,12 @@ export class FindReplaceView extends ItemView {
             });
 
             // If replacement might have complex side effects, fall back to full search
-            if (affectedResults.requiresFullRevalidation) {
+            // (also when re-validating would run a regex that is unsafe on the main thread)
+            const hazard = this.searchEngine.getRegexHazard(this.elements.searchInput.value, this.searchController.getSearchOptions());
+            if (affectedResults.requiresFullRevalidation || hazard) {
                 this.logger.warn('Full revalidation required, falling back to complete search', {
                     originalResultCount,
-                    reason: 'requiresFullRevalidation=true'
+                    reason: hazard ?? 'requiresFullRevalidation=true'
                 });
                 await this.performSearch();
                 return;
@@ -702,17 +853,19 @@ export class FindReplaceView extends ItemView {
             // TODO: Update UI incrementally instead of full rebuild
             // For now, use existing render method as fallback
             const replaceText = this.elements.replaceInput.value;
-            const lineElements = this.uiRenderer.renderResults(
+            this.uiRenderer.renderResults(
                 this.state.results,
                 replaceText,
                 searchOptions,
                 this.state.totalResults,
-                this.state.isLimited
+                this.state.isLimited,
+                this.state.cancelled,
+                this.state.timedOutFiles
             );
 
-            // Re-setup selection manager with new DOM elements and restore visual state
-            this.state.lineElements = lineElements;
-            this.selectionManager.setupSelection(lineElements, true); // Preserve existing selections
+            // Re-setup selection manager with the new result count and restore visual state
+            this.selectionManager.setupSelection(this.state.results.length, true); // Preserve existing selections
+            this.showResultsInEditors();
 
             // Update search statistics
             this.updateSearchStatistics();
@@ -748,7 +901,9 @@ export class FindReplaceView extends ItemView {
         // Check each modified file
         for (const file of Array.from(affectedResults.modifiedFiles)) {
             try {
-                const content = await this.app.vault.read(file);
+                // An open note is edited through its editor; the file on disk lags behind until autosave
+                const editor = findOpenEditor(this.app, file);
+                const content = editor ? editor.getValue() : await this.app.vault.read(file);
                 const lines = content.split('\n');
                 const modifiedLineNumbers = affectedResults.modifiedLines.get(file) || new Set();
 
@@ -950,11 +1105,14 @@ export class FindReplaceView extends ItemView {
      * Command: Clear all inputs and reset toggles
      */
     commandClearAll(): void {
+        this.searchController.clearMapping();
         this.elements.searchInput.value = '';
         this.elements.replaceInput.value = '';
 
         // Reset toggle states
-        [this.elements.matchCaseCheckbox, this.elements.wholeWordCheckbox, this.elements.regexCheckbox]
+        [this.elements.matchCaseCheckbox, this.elements.wholeWordCheckbox, this.elements.regexCheckbox, this.elements.preserveCaseCheckbox,
+            this.elements.functionCheckbox, this.elements.propertiesCheckbox, this.elements.queryCheckbox,
+            this.elements.diacriticsCheckbox, this.elements.fuzzyCheckbox]
             .forEach(btn => {
                 if (btn) {
                     btn.setAttribute('aria-pressed', 'false');
@@ -997,6 +1155,48 @@ export class FindReplaceView extends ItemView {
         this.toggleSearchOption(this.elements.wholeWordCheckbox);
     }
 
+    /**
+     * Command: Toggle preserve case option
+     */
+    commandTogglePreserveCase(): void {
+        this.toggleSearchOption(this.elements.preserveCaseCheckbox);
+    }
+
+    /**
+     * Command: Toggle replacement function mode
+     */
+    commandToggleFunction(): void {
+        this.toggleSearchOption(this.elements.functionCheckbox);
+    }
+
+    /**
+     * Command: Toggle frontmatter properties mode
+     */
+    commandToggleProperties(): void {
+        this.toggleSearchOption(this.elements.propertiesCheckbox);
+    }
+
+    /**
+     * Command: Toggle boolean query mode
+     */
+    commandToggleQuery(): void {
+        this.toggleSearchOption(this.elements.queryCheckbox);
+    }
+
+    /**
+     * Command: Toggle diacritic-insensitive matching
+     */
+    commandToggleDiacritics(): void {
+        this.toggleSearchOption(this.elements.diacriticsCheckbox);
+    }
+
+    /**
+     * Command: Toggle fuzzy matching
+     */
+    commandToggleFuzzy(): void {
+        this.toggleSearchOption(this.elements.fuzzyCheckbox);
+    }
+
     /**
      * Command: Toggle regex option
      */
@@ -1022,6 +1222,113 @@ export class FindReplaceView extends ItemView {
         }
     }
 
+    /**
+     * Command: Undo the most recent replacement
+     */
+    async commandUndoLastReplacement(): Promise<void> {
+        if (this.actionHandler) {
+            await this.actionHandler.undoLastReplacement();
+        }
+    }
+
+    /**
+     * Command: Show the replacement history with per-entry undo
+     */
+    commandShowReplacementHistory(): void {
+        new ReplacementHistoryModal(this.app, this.plugin, (entry) => this.actionHandler.undoJournalEntry(entry)).open();
+    }
+
+    /**
+     * Command: Pick a saved recipe and run all of its steps
+     */
+    commandRunRecipe(): void {
+        const recipes = this.plugin.recipeManager.getRecipes();
+        if (recipes.length === 0) {
+            new Notice('No recipes saved yet. Use "Add current search to recipe" to create one.');
+            return;
+        }
+
+        new RecipeSuggestModal(this.app, recipes, (choice) => {
+            if ('recipe' in choice) {
+                void this.actionHandler.runRecipe(choice.recipe);
+            }
+        }).open();
+    }
+
+    /**
+     * Command: Save the current search, replacement, options and filters as a recipe step
+     */
+    commandAddSearchToRecipe(): void {
+        const query = this.elements.searchInput.value;
+        if (!query.trim()) {
+            new Notice('Enter a search query before adding it to a recipe');
+            return;
+        }
+
+        const step = {
+            query,
+            replacement: this.elements.replaceInput.value,
+            // The selection of this search means nothing when the recipe runs later
+            options: { ...this.searchController.getSearchOptions(), selection: undefined },
+            filters: this.searchToolbar.getSessionFilters()
+        };
+
+        new RecipeSuggestModal(this.app, this.plugin.recipeManager.getRecipes(), async (choice) => {
+            const name = 'recipe' in choice ? choice.recipe.name : choice.newName;
+            const recipe = await this.plugin.recipeManager.addStep(name, step);
+            new Notice(`Added step ${recipe.steps.length} to recipe "${recipe.name}"`);
+        }, true).open();
+    }
+
+    /**
+     * Command: Pick a note with an old → new table and search for every "old" term
+     * Replacing then swaps each match for its "new" value.
+     */
+    commandReplaceFromMappingTable(): void {
+        new MappingTableSuggestModal(this.app, async (file) => {
+            try {
+                const entries = parseMappingTable(await this.app.vault.cachedRead(file), file.extension);
+                if (entries.length === 0) {
+                    new Notice(`No old → new pairs found in ${file.path}. Use a table with at least two columns.`);
+                    return;
+                }
+
+                this.searchController.setMapping({ source: file.path, entries });
+                await this.searchController.performSearch();
+            } catch (error) {
+                this.logger.error(`Failed to read mapping table ${file.path}`, error, true);
+            }
+        }).open();
+    }
+
+    /**
+     * Command: Open the next result, across files
+     */
+    async commandGoToNextMatch(): Promise<void> {
+        await this.goToMatch(1);
+    }
+
+    /**
+     * Command: Open the previous result, across files
+     */
+    async commandGoToPreviousMatch(): Promise<void> {
+        await this.goToMatch(-1);
+    }
+
+    /**
+     * Command: Replace the current result and open the next one
+     */
+    async commandReplaceAndGoToNext(): Promise<void> {
+        await this.replaceAndGoToNext();
+    }
+
+    /**
+     * Command: Leave the current result as it is and open the next one
+     */
+    async commandSkipMatch(): Promise<void> {
+        await this.goToMatch(1);
+    }
+
     /**
      * Command: Toggle expand/collapse all results
      */
@@ -0,0 +1,86 @@
+/**
+ * Case-preserving replacement helpers
+ * Detects the casing style of a matched word and re-applies it to the replacement,
+ * so "pinto" → "bean" also turns "Pinto" into "Bean" and "PINTO" into "BEAN".
+ */
+
+/**
+ * Casing styles recognised in matched text
+ */
+export type CaseStyle = 'lower' | 'upper' | 'title' | 'camel' | 'pascal' | 'none';
+
+/**
+ * Splits text into words on whitespace, hyphens, underscores and camelCase humps
+ */
+function splitWords(text: string): string[] {
+    return text
+        .replace(/([\p{Ll}\d])(\p{Lu})/gu, '$1 $2')
+        .split(/[\s_-]+/)
+        .filter(word => word.length > 0);
+}
+
+/**
+ * Capitalizes the first character and lowercases the rest
+ */
+function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * Detects the casing style of a piece of text
+ * @param text - Matched text
+ * @returns The detected style, or 'none' for text without letters or with irregular casing
+ */
+export function detectCaseStyle(text: string): CaseStyle {
+    const letters = text.match(/\p{L}/gu);
+    if (!letters) return 'none';
+
+    const hasUpper = letters.some(l => l !== l.toLowerCase());
+    const hasLower = letters.some(l => l !== l.toUpperCase());
+    if (!hasUpper && !hasLower) return 'none'; // Uncased scripts
+
+    // A single capital letter reads as Title ("A" → "The"), not UPPER
+    if (!hasLower) return letters.length > 1 ? 'upper' : 'title';
+    if (!hasUpper) return 'lower';
+
+    const words = text.split(/[\s_-]+/).filter(w => /\p{L}/u.test(w));
+    if (words.every(w => /^[^\p{L}]*\p{Lu}[^\p{Lu}]*$/u.test(w))) return 'title';
+
+    // Single token with internal capitals: camelCase or PascalCase
+    if (words.length === 1) {
+        const first = letters[0];
+        return first === first.toLowerCase() ? 'camel' : 'pascal';
+    }
+
+    return 'none';
+}
+
+/**
+ * Re-cases a replacement to follow the casing of the text it replaces
+ * @param replacement - Replacement text as typed by the user
+ * @param matchText - Text being replaced
+ * @returns The replacement in the match's casing (unchanged when the style is irregular)
+ */
+export function applyCaseStyle(replacement: string, matchText: string): string {
+    switch (detectCaseStyle(matchText)) {
+        case 'lower':
+            return replacement.toLowerCase();
+        case 'upper':
+            return replacement.toUpperCase();
+        case 'title': {
+            // Multi-word matches capitalize every word; single words only the first
+            const multiWord = matchText.trim().split(/\s+/).length > 1;
+            return multiWord
+                ? replacement.replace(/\S+/g, capitalize)
+                : capitalize(replacement);
+        }
+        case 'camel': {
+            const words = splitWords(replacement);
+            return words.map((w, i) => (i === 0 ? w.toLowerCase() : capitalize(w))).join('');
+        }
+        case 'pascal':
+            return splitWords(replacement).map(capitalize).join('');
+        default:
+            return replacement;
+    }
+}
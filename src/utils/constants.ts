@@ -14,6 +14,29 @@ export const SEARCH_DEBOUNCE_DELAY = 300;
 export const FOCUS_DELAY = 100;
 export const MODAL_POLL_INTERVAL = 50;
 export const FILTER_UPDATE_DEBOUNCE_DELAY = 500;
+export const DIFF_CONTEXT_LINES = 3;
+
+// Most diagonals a line diff explores before it reports the remaining differences as one block of removed and added lines
+export const DIFF_MAX_WORK = 20_000_000;
+
+// Height of one row of the results list (file header or match, in pixels) and rows rendered beyond the visible ones
+export const RESULT_ROW_HEIGHT = 28;
+export const RESULT_ROW_OVERSCAN = 10;
+
+// Most lines of context shown before and after each match
+export const MAX_CONTEXT_LINES = 10;
+
+// Longest a JavaScript replacement function may run for one match (milliseconds)
+export const REPLACEMENT_FUNCTION_TIMEOUT = 100;
+
+// Pause in typing before the results list runs a replacement function for its preview (milliseconds)
+export const FUNCTION_PREVIEW_DELAY = 300;
+
+// Largest the stored replacement journal may grow (characters); the oldest operations are dropped first
+export const MAX_JOURNAL_SIZE = 10 * 1024 * 1024;
+
+// Longest the search worker may spend matching one file before it is skipped (milliseconds)
+export const SEARCH_FILE_TIME_BUDGET = 2000;
 
 // Default settings
 export const DEFAULT_HIGHLIGHT_DURATION = 2000;
@@ -0,0 +1,288 @@
+import { DiffHunk, DiffLine } from '../types/diff';
+import { TextEdit } from '../types/replacement';
+import { DIFF_CONTEXT_LINES, DIFF_MAX_WORK } from './constants';
+
+/**
+ * Computes a minimal line diff between two line arrays (Myers O(ND) algorithm, linear space variant)
+ * Each step finds the middle snake of the remaining edit path and splits the problem there, so memory
+ * grows with the number of lines rather than with the square of the differences. Once DIFF_MAX_WORK
+ * diagonals have been explored, the lines still unmatched are reported as removed and added, which keeps
+ * heavily changed large notes from freezing the editor at the cost of a less minimal diff.
+ * @param a - Original lines
+ * @param b - Modified lines
+ * @returns Diff lines in document order
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+    const result: DiffLine[] = [];
+    diffRange(a, 0, a.length, b, 0, b.length, result, { work: DIFF_MAX_WORK });
+    return result;
+}
+
+/**
+ * A stretch of equal lines: from (x, y) to (u, v), offsets relative to the compared ranges
+ */
+interface Snake {
+    x: number;
+    y: number;
+    u: number;
+    v: number;
+}
+
+/**
+ * Diffs a[aStart, aEnd) against b[bStart, bEnd) and appends the diff lines to `out`
+ */
+function diffRange(
+    a: string[], aStart: number, aEnd: number,
+    b: string[], bStart: number, bEnd: number,
+    out: DiffLine[], budget: { work: number }
+): void {
+    // Equal lines at both ends need no search
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+        out.push({ type: 'context', text: a[aStart] });
+        aStart++;
+        bStart++;
+    }
+    let suffix = 0;
+    while (aEnd > aStart && bEnd > bStart && a[aEnd - 1] === b[bEnd - 1]) {
+        aEnd--;
+        bEnd--;
+        suffix++;
+    }
+
+    const snake = aStart < aEnd && bStart < bEnd ? findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd, budget) : null;
+    if (snake) {
+        diffRange(a, aStart, aStart + snake.x, b, bStart, bStart + snake.y, out, budget);
+        for (let i = snake.x; i < snake.u; i++) out.push({ type: 'context', text: a[aStart + i] });
+        diffRange(a, aStart + snake.u, aEnd, b, bStart + snake.v, bEnd, out, budget);
+    } else {
+        // One side is empty, or the budget is spent
+        for (let i = aStart; i < aEnd; i++) out.push({ type: 'remove', text: a[i] });
+        for (let i = bStart; i < bEnd; i++) out.push({ type: 'add', text: b[i] });
+    }
+
+    for (let i = aEnd; i < aEnd + suffix; i++) out.push({ type: 'context', text: a[i] });
+}
+
+/**
+ * Finds the middle snake of the shortest edit path between two ranges whose first and last lines differ
+ * Paths are followed from both ends at once until they overlap. The parts before and after the snake
+ * each need fewer edits than the whole, so the recursion in diffRange ends.
+ * @returns The snake, or null when the work budget ran out first
+ */
+function findMiddleSnake(
+    a: string[], aStart: number, aEnd: number,
+    b: string[], bStart: number, bEnd: number,
+    budget: { work: number }
+): Snake | null {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const delta = n - m;
+    const odd = (delta & 1) === 1;
+    const max = Math.ceil((n + m) / 2);
+    const offset = max + 1;
+    // Furthest-reaching x per diagonal k, from the start (forward) and from the end (backward)
+    const forward = new Int32Array(2 * max + 3);
+    const backward = new Int32Array(2 * max + 3);
+
+    for (let d = 0; d <= max; d++) {
+        budget.work -= 2 * d + 2;
+        if (budget.work < 0) return null;
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1]))
+                ? forward[offset + k + 1]
+                : forward[offset + k - 1] + 1;
+            let y = x - k;
+            const startX = x;
+            const startY = y;
+            while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+                x++;
+                y++;
+            }
+            forward[offset + k] = x;
+
+            // Overlaps a backward path of d - 1 edits on the same diagonal
+            const back = delta - k;
+            if (odd && back >= -(d - 1) && back <= d - 1 && x + backward[offset + back] >= n) {
+                return { x: startX, y: startY, u: x, v: y };
+            }
+        }
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1]))
+                ? backward[offset + k + 1]
+                : backward[offset + k - 1] + 1;
+            let y = x - k;
+            const startX = x;
+            const startY = y;
+            while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+                x++;
+                y++;
+            }
+            backward[offset + k] = x;
+
+            // Overlaps a forward path of d edits on the same diagonal
+            const ahead = delta - k;
+            if (!odd && ahead >= -d && ahead <= d && x + forward[offset + ahead] >= n) {
+                return { x: n - x, y: m - y, u: n - startX, v: m - startY };
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Groups the changes between two texts into unified diff hunks
+ * @param before - Original content
+ * @param after - Modified content
+ * @param contextLines - Unchanged lines to show around each change
+ * @returns Hunks in document order (empty when the texts are identical)
+ */
+export function computeHunks(before: string, after: string, contextLines: number = DIFF_CONTEXT_LINES): DiffHunk[] {
+    if (before === after) return [];
+
+    const lines = diffLines(before.split('\n'), after.split('\n'));
+    const hunks: DiffHunk[] = [];
+
+    // Track original/modified line numbers for every diff line
+    const oldNums: number[] = [];
+    const newNums: number[] = [];
+    let oldLine = 0;
+    let newLine = 0;
+    for (const line of lines) {
+        oldNums.push(oldLine);
+        newNums.push(newLine);
+        if (line.type !== 'add') oldLine++;
+        if (line.type !== 'remove') newLine++;
+    }
+
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i].type === 'context') {
+            i++;
+            continue;
+        }
+
+        // Extend the hunk while the next change is within 2 * context lines
+        const start = Math.max(0, i - contextLines);
+        let end = i;
+        let j = i;
+        while (j < lines.length) {
+            if (lines[j].type !== 'context') {
+                end = j;
+                j++;
+                continue;
+            }
+            let gap = 0;
+            while (j + gap < lines.length && lines[j + gap].type === 'context') gap++;
+            if (j + gap >= lines.length || gap > contextLines * 2) break;
+            j += gap;
+        }
+        const stop = Math.min(lines.length, end + contextLines + 1);
+        const hunkLines = lines.slice(start, stop);
+
+        hunks.push({
+            index: hunks.length,
+            oldStart: oldNums[start],
+            oldLength: hunkLines.filter(l => l.type !== 'add').length,
+            newStart: newNums[start],
+            newLength: hunkLines.filter(l => l.type !== 'remove').length,
+            lines: hunkLines
+        });
+
+        i = stop;
+    }
+
+    return hunks;
+}
+
+/**
+ * Rebuilds content from the original by applying only the approved hunks
+ * Unapproved hunks keep their original lines.
+ * @param before - Original content the hunks were computed from
+ * @param hunks - All hunks for the content
+ * @param approved - Indices of hunks to apply
+ * @returns The resulting content
+ */
+export function applyHunks(before: string, hunks: DiffHunk[], approved: Set<number>): string {
+    const original = before.split('\n');
+    const output: string[] = [];
+    let position = 0;
+
+    const sorted = [...hunks].sort((a, b) => a.oldStart - b.oldStart);
+    for (const hunk of sorted) {
+        output.push(...original.slice(position, hunk.oldStart));
+        const keep: DiffLine['type'] = approved.has(hunk.index) ? 'remove' : 'add';
+        for (const line of hunk.lines) {
+            if (line.type !== keep) output.push(line.text);
+        }
+        position = hunk.oldStart + hunk.oldLength;
+    }
+    output.push(...original.slice(position));
+
+    return output.join('\n');
+}
+
+/**
+ * Converts approved hunks into minimal text edits against the original content
+ * Only runs of changed lines are edited - context lines are left alone, so an open
+ * editor keeps its cursor and scroll position outside the changed lines.
+ * Applying the edits gives the same result as applyHunks.
+ * @param before - Original content the hunks were computed from
+ * @param hunks - All hunks for the content
+ * @param approved - Indices of hunks to apply
+ * @returns Non-overlapping edits in document order
+ */
+export function hunksToEdits(before: string, hunks: DiffHunk[], approved: Set<number>): TextEdit[] {
+    const lines = before.split('\n');
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        lineStarts.push(offset);
+        offset += line.length + 1;
+    }
+    const lineEnd = (index: number) => lineStarts[index] + lines[index].length;
+
+    const edits: TextEdit[] = [];
+    const sorted = [...hunks].sort((a, b) => a.oldStart - b.oldStart);
+    for (const hunk of sorted) {
+        if (!approved.has(hunk.index)) continue;
+
+        let oldLine = hunk.oldStart;
+        let i = 0;
+        while (i < hunk.lines.length) {
+            if (hunk.lines[i].type === 'context') {
+                oldLine++;
+                i++;
+                continue;
+            }
+
+            // Collect one run of consecutive removed/added lines
+            const removed: string[] = [];
+            const added: string[] = [];
+            while (i < hunk.lines.length && hunk.lines[i].type !== 'context') {
+                (hunk.lines[i].type === 'remove' ? removed : added).push(hunk.lines[i].text);
+                i++;
+            }
+
+            if (removed.length > 0 && added.length > 0) {
+                // Replace the removed lines in place, keeping the surrounding newlines
+                edits.push({ from: lineStarts[oldLine], to: lineEnd(oldLine + removed.length - 1), text: added.join('\n') });
+            } else if (removed.length > 0) {
+                // Delete whole lines including one adjacent newline
+                const last = oldLine + removed.length - 1;
+                edits.push(last + 1 < lines.length
+                    ? { from: lineStarts[oldLine], to: lineStarts[last + 1], text: '' }
+                    : { from: Math.max(0, lineStarts[oldLine] - 1), to: lineEnd(last), text: '' });
+            } else {
+                // Insert new lines before the current line (or after the last one)
+                edits.push(oldLine < lines.length
+                    ? { from: lineStarts[oldLine], to: lineStarts[oldLine], text: added.join('\n') + '\n' }
+                    : { from: before.length, to: before.length, text: '\n' + added.join('\n') });
+            }
+            oldLine += removed.length;
+        }
+    }
+
+    return edits;
+}
@@ -0,0 +1,33 @@
+import { App, Editor, EditorChange, MarkdownView, TFile } from 'obsidian';
+import { TextEdit } from '../types/replacement';
+
+/**
+ * Finds the editor of a markdown view that currently shows a file
+ * @param app - Obsidian app instance
+ * @param file - The file to look for
+ * @returns The editor, or null if the file is not open in any pane
+ */
+export function findOpenEditor(app: App, file: TFile): Editor | null {
+    const leaf = app.workspace.getLeavesOfType('markdown').find(l =>
+        l.view instanceof MarkdownView && l.view.file?.path === file.path
+    );
+    return leaf ? (leaf.view as MarkdownView).editor ?? null : null;
+}
+
+/**
+ * Applies text edits to an editor as a single transaction (one change per edit)
+ * The change lands on the editor's undo stack, so Ctrl+Z reverts it like a manual edit,
+ * and the editor maps the cursor and scroll position through it.
+ * @param editor - Target editor
+ * @param edits - Edits with offsets into the editor's current content
+ */
+export function applyEditsToEditor(editor: Editor, edits: TextEdit[]): void {
+    if (edits.length === 0) return;
+
+    const changes: EditorChange[] = edits.map(edit => ({
+        from: editor.offsetToPos(edit.from),
+        to: editor.offsetToPos(edit.to),
+        text: edit.text
+    }));
+    editor.transaction({ changes });
+}
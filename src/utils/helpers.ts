@@ -2,6 +2,9 @@
  * Utility helper functions
  */
 
+import { TextEdit } from '../types/replacement';
+import { MAX_CONTEXT_LINES } from './constants';
+
 /**
  * Escapes special regex characters for literal matching
  * @param str - String to escape
@@ -43,6 +46,16 @@ export function pluralize(count: number, singular: string, plural?: string): str
     return plural || (singular + 's');
 }
 
+/**
+ * Reads a number of context lines, clamped to 0-MAX_CONTEXT_LINES
+ * @param value - Text entered by the user
+ * @returns Lines of context before and after each match (0 when not a number)
+ */
+export function parseContextLines(value: string): number {
+    const lines = parseInt(value, 10);
+    return isNaN(lines) ? 0 : Math.min(MAX_CONTEXT_LINES, Math.max(0, lines));
+}
+
 /**
  * Checks if a keyboard event represents an activation key (Enter or Space)
  * @param event - Keyboard event
@@ -70,6 +83,37 @@ export function createCacheKey(obj: unknown): string {
     return JSON.stringify(obj);
 }
 
+/**
+ * Applies non-overlapping text edits to a string
+ * @param content - Original content the edit offsets refer to
+ * @param edits - Edits in any order
+ * @returns The content with every edit applied
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+    const sorted = [...edits].sort((a, b) => a.from - b.from);
+    let output = '';
+    let position = 0;
+    for (const edit of sorted) {
+        output += content.slice(position, edit.from) + edit.text;
+        position = edit.to;
+    }
+    return output + content.slice(position);
+}
+
+/**
+ * Hashes a string with 32-bit FNV-1a (fast, non-cryptographic)
+ * @param content - Text to hash
+ * @returns Hash as an 8-character hex string
+ */
+export function hashContent(content: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < content.length; i++) {
+        hash ^= content.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
 /**
  * Validates if a string is a valid regex pattern
  * @param pattern - Pattern to validate
@@ -4,4 +4,6 @@
 
 export * from './constants';
 export * from './helpers';
-export * from './logger';
\ No newline at end of file
+export * from './logger';
+export * from './diff';export * from './editor';
+export * from './caseTransform';